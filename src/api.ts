@@ -1,32 +1,289 @@
 import { HttpApi, HttpApiEndpoint, HttpApiGroup } from '@effect/platform'
+import { Authentication } from './domain/auth/auth.middleware'
+import {
+  BatchNotFound,
+  BatchResultNotFound,
+} from './domain/batches/batches.errors'
+import {
+  BatchArchive,
+  BatchExportParams,
+  BatchResponse,
+  CreateBatchRequest,
+} from './domain/batches/batches.schema'
 import { idParam } from './domain/common/schema'
-import { JobNotFound, JobResultNotFound } from './domain/jobs/jobs.errors'
 import {
+  GlossaryTermConflict,
+  GlossaryTermNotFound,
+} from './domain/glossary/glossary.errors'
+import {
+  GlossaryResponse,
+  GlossaryTerm,
+  GlossaryTermRequest,
+} from './domain/glossary/glossary.schema'
+import {
+  JobConflict,
+  JobNotFound,
+  JobResultNotFound,
+  JobRevisionNotFound,
+  JobTranslationFailed,
+  JobTranslationNotFound,
+} from './domain/jobs/jobs.errors'
+import {
+  EditJobResultRequest,
+  JobEventStream,
   JobResponse,
+  JobResultParams,
   JobResultResponse,
+  JobRevisionDiffParams,
+  JobRevisionDiffResponse,
+  JobRevisionResponse,
+  JobRevisionsResponse,
+  JobsQueryParams,
   JobsResponse,
+  RestoreJobRevisionRequest,
+  languageParam,
+  revisionParam,
 } from './domain/jobs/jobs.schema'
-import { MediaEmpty } from './domain/media/media.errors'
-import { MediaResponse, UnifiedMediaRequest } from './domain/media/media.schema'
+import {
+  MediaEmpty,
+  MediaEngineUnavailable,
+  MediaTooLarge,
+  MediaUnreachable,
+  UnsupportedMediaType,
+} from './domain/media/media.errors'
+import {
+  MediaJobAccepted,
+  MediaResponse,
+  ParseMediaParams,
+  UnifiedMediaRequest,
+} from './domain/media/media.schema'
+import { TooManyRequests } from './domain/rate-limit/rate-limit.errors'
+import { RateLimit } from './domain/rate-limit/rate-limit.middleware'
+import { SearchParams, SearchResponse } from './domain/search/search.schema'
+import {
+  InvalidSubtitleEdit,
+  InvalidSubtitleFile,
+} from './domain/subtitles/subtitles.errors'
+import {
+  ImportSubtitlesRequest,
+  SubtitleFile,
+} from './domain/subtitles/subtitles.schema'
+import { UploadConflict, UploadNotFound } from './domain/uploads/uploads.errors'
+import {
+  AppendUploadHeaders,
+  CreateUploadHeaders,
+  UploadResponse,
+  uploadIdParam,
+} from './domain/uploads/uploads.schema'
+import { WebhooksDisabled } from './domain/webhooks/webhooks.errors'
+import { JobDeliveriesResponse } from './domain/webhooks/webhooks.schema'
 
 const parseMedia = HttpApiEndpoint.post('parseMedia', '/parse')
   .setPayload(UnifiedMediaRequest)
+  .setUrlParams(ParseMediaParams)
+  .addSuccess(MediaJobAccepted, { status: 202 })
   .addSuccess(MediaResponse)
+  .addSuccess(SubtitleFile)
   .addError(MediaEmpty, { status: 422 })
-const jobs = HttpApiEndpoint.get('getJobs', '/jobs').addSuccess(JobsResponse)
+  .addError(MediaEngineUnavailable, { status: 503 })
+  .addError(UnsupportedMediaType, { status: 415 })
+  .addError(MediaTooLarge, { status: 413 })
+  .addError(MediaUnreachable, { status: 422 })
+  .addError(UploadNotFound, { status: 404 })
+  .addError(UploadConflict, { status: 409 })
+  .addError(WebhooksDisabled, { status: 422 })
+  .addError(TooManyRequests)
+  .middleware(RateLimit)
+// One job per item with the options of the batch, items turned down are reported as rejected
+const createBatch = HttpApiEndpoint.post('createBatch', '/batches')
+  .setPayload(CreateBatchRequest)
+  .addSuccess(BatchResponse, { status: 202 })
+  .addError(WebhooksDisabled, { status: 422 })
+  .addError(TooManyRequests)
+  .middleware(RateLimit)
+const batch = HttpApiEndpoint.get('getBatch')`/batches/${idParam}`
+  .addSuccess(BatchResponse)
+  .addError(BatchNotFound, { status: 404 })
+const exportBatch = HttpApiEndpoint.get(
+  'exportBatch',
+)`/batches/${idParam}/export`
+  .setUrlParams(BatchExportParams)
+  .addSuccess(BatchArchive)
+  .addError(BatchResultNotFound, { status: 404 })
+  .addError(BatchNotFound, { status: 404 })
+const importSubtitles = HttpApiEndpoint.post('importSubtitles', '/import')
+  .setPayload(ImportSubtitlesRequest)
+  .addSuccess(JobResponse, { status: 201 })
+  .addError(InvalidSubtitleFile, { status: 422 })
+const jobs = HttpApiEndpoint.get('getJobs', '/jobs')
+  .setUrlParams(JobsQueryParams)
+  .addSuccess(JobsResponse)
 const job = HttpApiEndpoint.get('getJob')`/job/${idParam}`
   .addSuccess(JobResponse)
   .addError(JobNotFound, { status: 404 })
 const jobResult = HttpApiEndpoint.get('getJobResult')`/job/${idParam}/result`
+  .setUrlParams(JobResultParams)
+  .addSuccess(JobResultResponse)
+  .addSuccess(SubtitleFile)
+  .addError(JobResultNotFound, { status: 404 })
+  .addError(JobTranslationNotFound, { status: 404 })
+  .addError(JobNotFound, { status: 404 })
+// Every edit or restore is saved as an immutable revision of the result
+const editJobResult = HttpApiEndpoint.patch(
+  'editJobResult',
+)`/job/${idParam}/result`
+  .setPayload(EditJobResultRequest)
+  .addSuccess(JobRevisionResponse)
+  .addError(InvalidSubtitleEdit, { status: 422 })
+  .addError(JobConflict, { status: 409 })
+  .addError(JobResultNotFound, { status: 404 })
+  .addError(JobRevisionNotFound, { status: 404 })
+  .addError(JobNotFound, { status: 404 })
+const jobRevisions = HttpApiEndpoint.get(
+  'getJobRevisions',
+)`/job/${idParam}/revisions`
+  .addSuccess(JobRevisionsResponse)
+  .addError(JobResultNotFound, { status: 404 })
+  .addError(JobNotFound, { status: 404 })
+const jobRevision = HttpApiEndpoint.get(
+  'getJobRevision',
+)`/job/${idParam}/revisions/${revisionParam}`
+  .addSuccess(JobRevisionResponse)
+  .addError(JobResultNotFound, { status: 404 })
+  .addError(JobRevisionNotFound, { status: 404 })
+  .addError(JobNotFound, { status: 404 })
+const jobRevisionDiff = HttpApiEndpoint.get(
+  'diffJobRevisions',
+)`/job/${idParam}/revisions/${revisionParam}/diff`
+  .setUrlParams(JobRevisionDiffParams)
+  .addSuccess(JobRevisionDiffResponse)
+  .addError(JobResultNotFound, { status: 404 })
+  .addError(JobRevisionNotFound, { status: 404 })
+  .addError(JobNotFound, { status: 404 })
+const restoreJobRevision = HttpApiEndpoint.post(
+  'restoreJobRevision',
+)`/job/${idParam}/revisions/${revisionParam}/restore`
+  .setPayload(RestoreJobRevisionRequest)
+  .addSuccess(JobRevisionResponse, { status: 201 })
+  .addError(JobConflict, { status: 409 })
+  .addError(JobResultNotFound, { status: 404 })
+  .addError(JobRevisionNotFound, { status: 404 })
+  .addError(JobNotFound, { status: 404 })
+// Cues of completed results and their translations, with their timestamps
+const search = HttpApiEndpoint.get('searchJobs', '/search')
+  .setUrlParams(SearchParams)
+  .addSuccess(SearchResponse)
+const jobEvents = HttpApiEndpoint.get('getJobEvents')`/job/${idParam}/events`
+  .addSuccess(JobEventStream)
+  .addError(JobNotFound, { status: 404 })
+const jobDeliveries = HttpApiEndpoint.get(
+  'getJobDeliveries',
+)`/job/${idParam}/deliveries`
+  .addSuccess(JobDeliveriesResponse)
+  .addError(JobNotFound, { status: 404 })
+const cancelJob = HttpApiEndpoint.post('cancelJob')`/job/${idParam}/cancel`
+  .addSuccess(JobResponse)
+  .addError(JobNotFound, { status: 404 })
+  .addError(JobConflict, { status: 409 })
+const retryJob = HttpApiEndpoint.post('retryJob')`/job/${idParam}/retry`
+  .addSuccess(JobResponse, { status: 202 })
+  .addError(JobNotFound, { status: 404 })
+  .addError(JobConflict, { status: 409 })
+  .addError(TooManyRequests)
+// Only target languages listed in the result's `translationFailures`
+const retryJobTranslation = HttpApiEndpoint.post(
+  'retryJobTranslation',
+)`/job/${idParam}/translations/${languageParam}/retry`
   .addSuccess(JobResultResponse)
+  .addError(JobTranslationFailed, { status: 502 })
+  .addError(JobConflict, { status: 409 })
   .addError(JobResultNotFound, { status: 404 })
   .addError(JobNotFound, { status: 404 })
+const deleteJob = HttpApiEndpoint.del('deleteJob')`/job/${idParam}`.addError(
+  JobNotFound,
+  { status: 404 },
+)
+
+// Resumable uploads following the tus protocol, parsed with `{ uploadId }` once complete
+const createUpload = HttpApiEndpoint.post('createUpload', '/uploads')
+  .setHeaders(CreateUploadHeaders)
+  .addSuccess(UploadResponse, { status: 201 })
+  .addError(MediaTooLarge, { status: 413 })
+const upload = HttpApiEndpoint.get('getUpload')`/uploads/${uploadIdParam}`
+  .addSuccess(UploadResponse)
+  .addError(UploadNotFound, { status: 404 })
+const appendUpload = HttpApiEndpoint.patch(
+  'appendUpload',
+)`/uploads/${uploadIdParam}`
+  .setHeaders(AppendUploadHeaders)
+  .addError(UploadNotFound, { status: 404 })
+  .addError(UploadConflict, { status: 409 })
+  .addError(MediaTooLarge, { status: 413 })
+const deleteUpload = HttpApiEndpoint.del(
+  'deleteUpload',
+)`/uploads/${uploadIdParam}`.addError(UploadNotFound, { status: 404 })
+
+// Terms of the tenant's glossary, boosted and corrected in every job that runs
+const glossary = HttpApiEndpoint.get('getGlossary', '/glossary').addSuccess(
+  GlossaryResponse,
+)
+const createGlossaryTerm = HttpApiEndpoint.post(
+  'createGlossaryTerm',
+  '/glossary',
+)
+  .setPayload(GlossaryTermRequest)
+  .addSuccess(GlossaryTerm, { status: 201 })
+  .addError(GlossaryTermConflict, { status: 409 })
+const glossaryTerm = HttpApiEndpoint.get(
+  'getGlossaryTerm',
+)`/glossary/${idParam}`
+  .addSuccess(GlossaryTerm)
+  .addError(GlossaryTermNotFound, { status: 404 })
+const updateGlossaryTerm = HttpApiEndpoint.put(
+  'updateGlossaryTerm',
+)`/glossary/${idParam}`
+  .setPayload(GlossaryTermRequest)
+  .addSuccess(GlossaryTerm)
+  .addError(GlossaryTermNotFound, { status: 404 })
+  .addError(GlossaryTermConflict, { status: 409 })
+const deleteGlossaryTerm = HttpApiEndpoint.del(
+  'deleteGlossaryTerm',
+)`/glossary/${idParam}`.addError(GlossaryTermNotFound, { status: 404 })
 
 const parseGroup = HttpApiGroup.make('media')
   .add(parseMedia)
+  .add(createBatch)
+  .add(batch)
+  .add(exportBatch)
+  .add(importSubtitles)
   .add(jobs)
   .add(job)
   .add(jobResult)
+  .add(editJobResult)
+  .add(jobRevisions)
+  .add(jobRevision)
+  .add(jobRevisionDiff)
+  .add(restoreJobRevision)
+  .add(search)
+  .add(jobEvents)
+  .add(jobDeliveries)
+  .add(cancelJob)
+  .add(retryJob)
+  .add(retryJobTranslation)
+  .add(deleteJob)
+  .add(createUpload)
+  .add(upload)
+  .add(appendUpload)
+  .add(deleteUpload)
+  .add(glossary)
+  .add(createGlossaryTerm)
+  .add(glossaryTerm)
+  .add(updateGlossaryTerm)
+  .add(deleteGlossaryTerm)
+  .middleware(Authentication)
   .prefix('/media')
 
-export const api = HttpApi.make('v1Api').add(parseGroup)
+// Any request body over `MEDIA_MAX_SIZE` is turned down, see `MediaUploadLimitLive`
+export const api = HttpApi.make('v1Api')
+  .add(parseGroup)
+  .addError(MediaTooLarge, { status: 413 })
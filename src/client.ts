@@ -1,11 +1,45 @@
-import { FetchHttpClient, HttpApiClient } from '@effect/platform'
-import { Effect } from 'effect'
+import {
+  FetchHttpClient,
+  HttpApiClient,
+  HttpClient,
+  HttpClientRequest,
+  HttpClientResponse,
+} from '@effect/platform'
+import { Effect, Stream } from 'effect'
 import { api } from './api'
+import { decodeJobEvents } from './domain/jobs/jobs.events'
 
-export const apiClient = Effect.gen(function* () {
-  const client = yield* HttpApiClient.make(api, {
-    baseUrl: 'http://localhost:3001',
-  })
+const baseUrl = 'http://localhost:3001'
 
-  return client
-}).pipe(Effect.provide(FetchHttpClient.layer))
+// Every endpoint expects the API key of a tenant as a bearer token
+export const apiClient = (apiKey: string) =>
+  Effect.gen(function* () {
+    const client = yield* HttpApiClient.make(api, {
+      baseUrl,
+      transformClient: HttpClient.mapRequest(
+        HttpClientRequest.bearerToken(apiKey),
+      ),
+    })
+
+    return client
+  }).pipe(Effect.provide(FetchHttpClient.layer))
+
+/**
+ * Follows `GET /media/job/{id}/events`, the typed client would buffer the
+ * whole response, so the body is decoded as it arrives instead.
+ */
+export const jobEvents = (apiKey: string, jobId: number) =>
+  HttpClient.HttpClient.pipe(
+    Effect.flatMap((client) =>
+      client.execute(
+        HttpClientRequest.get(`${baseUrl}/media/job/${jobId}/events`).pipe(
+          HttpClientRequest.bearerToken(apiKey),
+          HttpClientRequest.accept('text/event-stream'),
+        ),
+      ),
+    ),
+    Effect.flatMap(HttpClientResponse.filterStatusOk),
+    Effect.map((response) => decodeJobEvents(response.stream)),
+    Stream.unwrap,
+    Stream.provideLayer(FetchHttpClient.layer),
+  )
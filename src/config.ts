@@ -1,20 +1,167 @@
-import { Config, ConfigProvider, Layer } from 'effect'
+import { Config, ConfigProvider, Duration, Layer } from 'effect'
 
 export const envVars = {
   PORT: Config.integer('PORT').pipe(Config.withDefault(3001)),
+  PARSING_ENGINE: Config.literal(
+    'deepgram',
+    'whisper',
+    'fake',
+  )('PARSING_ENGINE').pipe(Config.withDefault('deepgram')),
   PARSING_ENGINE_URL: Config.string('PARSING_ENGINE_URL').pipe(
     Config.withDefault('http://localhost:8080'),
   ),
+  PARSING_ENGINE_API_KEY: Config.option(
+    Config.redacted('PARSING_ENGINE_API_KEY'),
+  ),
+  // Engine requests are retried when they fail for a transient reason, and
+  // an engine failing over and over is left alone for a while
+  MEDIA_ENGINE_TIMEOUT: Config.duration('MEDIA_ENGINE_TIMEOUT').pipe(
+    Config.withDefault(Duration.minutes(30)),
+  ),
+  MEDIA_ENGINE_MAX_RETRIES: Config.integer('MEDIA_ENGINE_MAX_RETRIES').pipe(
+    Config.withDefault(2),
+  ),
+  MEDIA_ENGINE_RETRY_DELAY: Config.duration('MEDIA_ENGINE_RETRY_DELAY').pipe(
+    Config.withDefault(Duration.seconds(1)),
+  ),
+  MEDIA_ENGINE_BREAKER_THRESHOLD: Config.integer(
+    'MEDIA_ENGINE_BREAKER_THRESHOLD',
+  ).pipe(Config.withDefault(5)),
+  MEDIA_ENGINE_BREAKER_RESET: Config.duration(
+    'MEDIA_ENGINE_BREAKER_RESET',
+  ).pipe(Config.withDefault(Duration.seconds(30))),
+  MEDIA_FALLBACK_ENGINE: Config.option(
+    Config.literal('deepgram', 'whisper', 'fake')('MEDIA_FALLBACK_ENGINE'),
+  ),
+  WHISPER_ENGINE_URL: Config.string('WHISPER_ENGINE_URL').pipe(
+    Config.withDefault('http://localhost:8000'),
+  ),
+  WHISPER_MODEL: Config.string('WHISPER_MODEL').pipe(
+    Config.withDefault('whisper-1'),
+  ),
+  TRANSLATION_ENGINE: Config.literal(
+    'libretranslate',
+    'fake',
+  )('TRANSLATION_ENGINE').pipe(Config.withDefault('libretranslate')),
+  TRANSLATION_ENGINE_URL: Config.string('TRANSLATION_ENGINE_URL').pipe(
+    Config.withDefault('http://localhost:5000'),
+  ),
+  TRANSLATION_ENGINE_API_KEY: Config.option(
+    Config.redacted('TRANSLATION_ENGINE_API_KEY'),
+  ),
+  SUBTITLE_MAX_LINE_LENGTH: Config.integer('SUBTITLE_MAX_LINE_LENGTH').pipe(
+    Config.withDefault(42),
+  ),
+  SUBTITLE_MAX_CUE_DURATION: Config.duration('SUBTITLE_MAX_CUE_DURATION').pipe(
+    Config.withDefault(Duration.seconds(7)),
+  ),
+  DATABASE_FILE: Config.string('DATABASE_FILE').pipe(
+    Config.withDefault('coursition.sqlite'),
+  ),
   JOBS_TABLE: Config.string('JOBS_TABLE').pipe(
     Config.withDefault('jobs-table'),
   ),
+  MEDIA_WORKER_CONCURRENCY: Config.integer('MEDIA_WORKER_CONCURRENCY').pipe(
+    Config.withDefault(2),
+  ),
+  WEBHOOK_SECRET: Config.option(Config.redacted('WEBHOOK_SECRET')),
+  WEBHOOK_MAX_ATTEMPTS: Config.integer('WEBHOOK_MAX_ATTEMPTS').pipe(
+    Config.withDefault(5),
+  ),
+  WEBHOOK_RETRY_DELAY: Config.duration('WEBHOOK_RETRY_DELAY').pipe(
+    Config.withDefault(Duration.seconds(1)),
+  ),
+  WEBHOOK_TIMEOUT: Config.duration('WEBHOOK_TIMEOUT').pipe(
+    Config.withDefault(Duration.seconds(10)),
+  ),
+  API_KEYS: Config.option(Config.redacted('API_KEYS')),
+  API_KEYS_FILE: Config.option(Config.string('API_KEYS_FILE')),
+  MEDIA_MAX_SIZE: Config.integer('MEDIA_MAX_SIZE').pipe(
+    Config.withDefault(2 * 1024 * 1024 * 1024),
+  ),
+  MEDIA_MAX_DURATION: Config.duration('MEDIA_MAX_DURATION').pipe(
+    Config.withDefault(Duration.hours(4)),
+  ),
+  UPLOADS_DIRECTORY: Config.option(Config.string('UPLOADS_DIRECTORY')),
+  UPLOAD_EXPIRY: Config.duration('UPLOAD_EXPIRY').pipe(
+    Config.withDefault(Duration.hours(24)),
+  ),
+  BLOB_STORE: Config.literal(
+    'local',
+    's3',
+  )('BLOB_STORE').pipe(Config.withDefault('local')),
+  BLOBS_DIRECTORY: Config.string('BLOBS_DIRECTORY').pipe(
+    Config.withDefault('blobs'),
+  ),
+  S3_ENDPOINT: Config.string('S3_ENDPOINT').pipe(
+    Config.withDefault('http://localhost:9000'),
+  ),
+  S3_BUCKET: Config.string('S3_BUCKET').pipe(Config.withDefault('coursition')),
+  S3_REGION: Config.string('S3_REGION').pipe(Config.withDefault('us-east-1')),
+  S3_ACCESS_KEY_ID: Config.string('S3_ACCESS_KEY_ID'),
+  S3_SECRET_ACCESS_KEY: Config.redacted('S3_SECRET_ACCESS_KEY'),
+  BLOB_INPUT_RETENTION: Config.duration('BLOB_INPUT_RETENTION').pipe(
+    Config.withDefault(Duration.days(7)),
+  ),
+  BLOB_RESULT_RETENTION: Config.option(
+    Config.duration('BLOB_RESULT_RETENTION'),
+  ),
+  MEDIA_CACHE_TTL: Config.duration('MEDIA_CACHE_TTL').pipe(
+    Config.withDefault(Duration.hours(24)),
+  ),
+  MEDIA_CACHE_CAPACITY: Config.integer('MEDIA_CACHE_CAPACITY').pipe(
+    Config.withDefault(1000),
+  ),
+  RATE_LIMIT_CAPACITY: Config.integer('RATE_LIMIT_CAPACITY').pipe(
+    Config.withDefault(10),
+  ),
+  RATE_LIMIT_REFILL_INTERVAL: Config.duration(
+    'RATE_LIMIT_REFILL_INTERVAL',
+  ).pipe(Config.withDefault(Duration.seconds(6))),
+  TENANT_MAX_CONCURRENT_JOBS: Config.integer('TENANT_MAX_CONCURRENT_JOBS').pipe(
+    Config.withDefault(10),
+  ),
   LOG_LEVEL: Config.string('LOG_LEVEL').pipe(Config.withDefault('info')),
 } as const
 
 const mockConfigProvider = ConfigProvider.fromJson({
   PORT: 3001,
+  PARSING_ENGINE: 'fake',
   PARSING_ENGINE_URL: 'http://localhost:8080',
+  MEDIA_ENGINE_TIMEOUT: '5 seconds',
+  MEDIA_ENGINE_MAX_RETRIES: 2,
+  MEDIA_ENGINE_RETRY_DELAY: '10 millis',
+  MEDIA_ENGINE_BREAKER_THRESHOLD: 3,
+  MEDIA_ENGINE_BREAKER_RESET: '1 second',
+  WHISPER_ENGINE_URL: 'http://localhost:8000',
+  WHISPER_MODEL: 'whisper-1',
+  TRANSLATION_ENGINE: 'fake',
+  TRANSLATION_ENGINE_URL: 'http://localhost:5000',
+  SUBTITLE_MAX_LINE_LENGTH: 42,
+  SUBTITLE_MAX_CUE_DURATION: '7 seconds',
+  DATABASE_FILE: ':memory:',
   JOBS_TABLE: 'jobs-table-test',
+  MEDIA_WORKER_CONCURRENCY: 2,
+  WEBHOOK_SECRET: 'webhook-secret-test',
+  WEBHOOK_MAX_ATTEMPTS: 3,
+  WEBHOOK_RETRY_DELAY: '10 millis',
+  WEBHOOK_TIMEOUT: '200 millis',
+  API_KEYS: JSON.stringify([
+    { key: 'test-key', tenant: 'tenant-test' },
+    { key: 'test-read-key', tenant: 'tenant-test', readOnly: true },
+    { key: 'other-key', tenant: 'tenant-other' },
+  ]),
+  MEDIA_MAX_SIZE: 4096,
+  MEDIA_MAX_DURATION: '1 hour',
+  UPLOAD_EXPIRY: '1 hour',
+  BLOB_STORE: 'local',
+  BLOB_INPUT_RETENTION: '1 hour',
+  BLOB_RESULT_RETENTION: '1 day',
+  MEDIA_CACHE_TTL: '1 hour',
+  MEDIA_CACHE_CAPACITY: 2,
+  RATE_LIMIT_CAPACITY: 3,
+  RATE_LIMIT_REFILL_INTERVAL: '1 second',
+  TENANT_MAX_CONCURRENT_JOBS: 3,
   LOG_LEVEL: 'debug',
 })
 
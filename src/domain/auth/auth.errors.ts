@@ -0,0 +1,17 @@
+import { HttpApiSchema } from '@effect/platform'
+import { Schema } from 'effect'
+
+// API boundary errors (for HttpApi serialization)
+export class Unauthorized extends Schema.TaggedError<Unauthorized>()(
+  'Unauthorized',
+  {},
+  HttpApiSchema.annotations({ status: 401 }),
+) {}
+
+export class Forbidden extends Schema.TaggedError<Forbidden>()(
+  'Forbidden',
+  {
+    reason: Schema.String,
+  },
+  HttpApiSchema.annotations({ status: 403 }),
+) {}
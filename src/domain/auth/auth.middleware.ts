@@ -0,0 +1,16 @@
+import { HttpApiMiddleware, HttpApiSecurity } from '@effect/platform'
+import { Schema } from 'effect'
+import { Forbidden, Unauthorized } from './auth.errors'
+import { CurrentTenant } from './auth.schema'
+
+// Resolves the bearer API key of a request to its tenant
+export class Authentication extends HttpApiMiddleware.Tag<Authentication>()(
+  'Authentication',
+  {
+    failure: Schema.Union(Unauthorized, Forbidden),
+    provides: CurrentTenant,
+    security: {
+      bearer: HttpApiSecurity.bearer,
+    },
+  },
+) {}
@@ -0,0 +1,23 @@
+import { Context, Schema } from 'effect'
+
+// Customer owning jobs, every job query is scoped to one
+export const Tenant = Schema.Struct({
+  id: Schema.String,
+})
+export type Tenant = typeof Tenant.Type
+
+// Tenant of the current request or background job
+export class CurrentTenant extends Context.Tag('CurrentTenant')<
+  CurrentTenant,
+  Tenant
+>() {}
+
+// Entry of the API keys file or `API_KEYS`, read-only keys may only use GET (and HEAD) endpoints
+export const ApiKey = Schema.Struct({
+  key: Schema.Redacted(Schema.NonEmptyTrimmedString),
+  tenant: Schema.NonEmptyTrimmedString,
+  readOnly: Schema.optionalWith(Schema.Boolean, { default: () => false }),
+})
+export type ApiKey = typeof ApiKey.Type
+
+export const ApiKeys = Schema.parseJson(Schema.Array(ApiKey))
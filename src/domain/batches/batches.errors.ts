@@ -0,0 +1,23 @@
+import { Data, Schema } from 'effect'
+
+// API boundary errors (for HttpApi serialization)
+export class BatchNotFound extends Schema.TaggedError<BatchNotFound>()(
+  'BatchNotFound',
+  {},
+) {}
+
+export class BatchResultNotFound extends Schema.TaggedError<BatchResultNotFound>()(
+  'BatchResultNotFound',
+  {},
+) {}
+
+// Internal domain errors (for business logic)
+export class BatchNotFoundError extends Data.TaggedError('BatchNotFoundError')<{
+  readonly id: number
+}> {}
+
+export class BatchResultNotFoundError extends Data.TaggedError(
+  'BatchResultNotFoundError',
+)<{
+  readonly batchId: number
+}> {}
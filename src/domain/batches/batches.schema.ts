@@ -0,0 +1,142 @@
+import { HttpApiSchema } from '@effect/platform'
+import { Schema } from 'effect'
+import { JobStatus, isTerminalJobStatus } from '../jobs/jobs.schema'
+import { ParseMediaOptions } from '../media/media.schema'
+import { SubtitleExportParams } from '../subtitles/subtitles.schema'
+import { LanguageCode } from '../translations/translations.schema'
+
+const MAX_BATCH_ITEMS = 100
+
+// `name` names the item's file in the export, the URL is used otherwise
+export const BatchItemRequest = Schema.Struct({
+  url: Schema.String,
+  name: Schema.optional(Schema.NonEmptyTrimmedString),
+})
+export type BatchItemRequest = typeof BatchItemRequest.Type
+
+// Every item is parsed with the options of the batch
+export const CreateBatchRequest = Schema.Struct({
+  name: Schema.optional(Schema.NonEmptyTrimmedString),
+  items: Schema.Array(BatchItemRequest).pipe(
+    Schema.minItems(1),
+    Schema.maxItems(MAX_BATCH_ITEMS),
+  ),
+  ...ParseMediaOptions.fields,
+})
+export type CreateBatchRequest = typeof CreateBatchRequest.Type
+
+// Items turned down on submission are `rejected`, items whose job was
+// deleted since are `deleted`
+export const BatchItemStatus = Schema.Union(
+  JobStatus,
+  Schema.Literal('rejected', 'deleted'),
+)
+export type BatchItemStatus = typeof BatchItemStatus.Type
+
+export const isFinishedBatchItem = (status: BatchItemStatus) =>
+  status === 'rejected' || status === 'deleted' || isTerminalJobStatus(status)
+
+export const BatchItem = Schema.Struct({
+  url: Schema.String,
+  name: Schema.optional(Schema.String),
+  jobId: Schema.optional(Schema.Number),
+  status: BatchItemStatus,
+  failureReason: Schema.optional(Schema.String),
+})
+export type BatchItem = typeof BatchItem.Type
+
+// Items by status, `percent` is the share of items that are finished
+export const BatchProgress = Schema.Struct({
+  total: Schema.Number,
+  finished: Schema.Number,
+  percent: Schema.Number,
+  statuses: Schema.Record({ key: BatchItemStatus, value: Schema.Number }),
+})
+
+// `in-progress` until every item is finished, whatever their outcome
+export const BatchResponse = Schema.Struct({
+  id: Schema.Number,
+  name: Schema.optional(Schema.String),
+  status: Schema.Literal('in-progress', 'finished'),
+  createdAt: Schema.DateTimeUtc,
+  progress: BatchProgress,
+  items: Schema.Array(BatchItem),
+})
+export type BatchResponse = typeof BatchResponse.Type
+
+const emptyStatuses = (): Record<BatchItemStatus, number> => ({
+  pending: 0,
+  'in-progress': 0,
+  completed: 0,
+  failed: 0,
+  cancelled: 0,
+  rejected: 0,
+  deleted: 0,
+})
+
+export const summarizeBatchItems = (items: readonly BatchItem[]) => {
+  const statuses = emptyStatuses()
+  for (const item of items) {
+    statuses[item.status] += 1
+  }
+  const finished = items.filter((item) =>
+    isFinishedBatchItem(item.status),
+  ).length
+
+  return BatchProgress.make({
+    total: items.length,
+    finished,
+    percent: Math.round((finished / items.length) * 100),
+    statuses,
+  })
+}
+
+// Subtitle files of the completed items, `lang` picks a translation
+export const BatchExportParams = Schema.Struct({
+  ...SubtitleExportParams.fields,
+  format: Schema.optional(Schema.Literal('srt', 'vtt', 'ttml', 'txt')),
+  lang: Schema.optional(LanguageCode),
+})
+
+export const BatchArchive = HttpApiSchema.Uint8Array({
+  contentType: 'application/zip',
+}).annotations({
+  description: 'Zip of the subtitle files of the completed items',
+})
+
+const URL_SUFFIX = /[?#].*$/
+const EXTENSION = /\.[^.]+$/
+const UNSAFE_FILE_CHARACTERS = /[\\/:*?"<>|]+/g
+
+const decodePathSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return segment
+  }
+}
+
+// Last segment of the URL path without its extension, e.g. `Lecture 1` for `.../Lecture%201.mp4`
+const urlBaseName = (url: string) => {
+  const segment = url.replace(URL_SUFFIX, '').split('/').filter(Boolean).at(-1)
+  return decodePathSegment(segment ?? '').replace(EXTENSION, '')
+}
+
+/**
+ * Name of an item's file in the export, numbered in submission order so the
+ * files of a course list in the order it was submitted.
+ */
+export const batchItemFileName = (
+  item: BatchItem,
+  position: number,
+  total: number,
+  extension: string,
+) => {
+  const number = String(position + 1).padStart(String(total).length, '0')
+  const name = (item.name ?? urlBaseName(item.url))
+    .replace(UNSAFE_FILE_CHARACTERS, '-')
+    .trim()
+  return name === ''
+    ? `${number}.${extension}`
+    : `${number} ${name}.${extension}`
+}
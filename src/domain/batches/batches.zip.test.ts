@@ -0,0 +1,65 @@
+import { describe, expect, it } from '@effect/vitest'
+import { crc32, zipFiles } from './batches.zip'
+
+const decoder = new TextDecoder()
+
+// Reads the entries back through the central directory, as unzip tools do
+const readZip = (archive: Uint8Array) => {
+  const view = new DataView(archive.buffer)
+  const end = archive.length - 22
+  const count = view.getUint16(end + 10, true)
+  let offset = view.getUint32(end + 16, true)
+  const entries: { name: string; content: string; crc: number }[] = []
+
+  for (let index = 0; index < count; index++) {
+    const crc = view.getUint32(offset + 16, true)
+    const size = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const local = view.getUint32(offset + 42, true)
+    const name = decoder.decode(
+      archive.subarray(offset + 46, offset + 46 + nameLength),
+    )
+    const data = local + 30 + view.getUint16(local + 26, true)
+    entries.push({
+      name,
+      content: decoder.decode(archive.subarray(data, data + size)),
+      crc,
+    })
+    offset += 46 + nameLength
+  }
+  return entries
+}
+
+describe('crc32', () => {
+  it('should match the checksum zip tools compute', () => {
+    expect(crc32(new TextEncoder().encode('hello'))).toBe(0x36_10_a6_86)
+    expect(crc32(new Uint8Array())).toBe(0)
+  })
+})
+
+describe('zipFiles', () => {
+  it('should store every file under its name', () => {
+    const archive = zipFiles([
+      {
+        name: '01 Intro.srt',
+        content: '1\n00:00:00,000 --> 00:00:01,000\nHi\n',
+      },
+      { name: '02 Café.srt', content: 'Ça va ?' },
+    ])
+    const entries = readZip(archive)
+
+    expect(entries.map(({ name }) => name)).toEqual([
+      '01 Intro.srt',
+      '02 Café.srt',
+    ])
+    expect(entries[1]?.content).toBe('Ça va ?')
+    expect(entries[1]?.crc).toBe(crc32(new TextEncoder().encode('Ça va ?')))
+  })
+
+  it('should write an empty archive without entries', () => {
+    const archive = zipFiles([])
+
+    expect(archive).toHaveLength(22)
+    expect(readZip(archive)).toEqual([])
+  })
+})
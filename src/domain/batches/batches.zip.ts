@@ -0,0 +1,139 @@
+export type ZipEntry = {
+  readonly name: string
+  readonly content: string
+}
+
+const LOCAL_HEADER = 0x04_03_4b_50
+const CENTRAL_HEADER = 0x02_01_4b_50
+const END_OF_CENTRAL_DIRECTORY = 0x06_05_4b_50
+const ZIP_VERSION = 20
+// Names are UTF-8, entries are stored as they are
+const UTF8_FLAG = 0x08_00
+const STORED = 0
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, byte) => {
+  let crc = byte
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xed_b8_83_20 ^ (crc >>> 1) : crc >>> 1
+  }
+  return crc >>> 0
+})
+
+export const crc32 = (data: Uint8Array) => {
+  let crc = 0xff_ff_ff_ff
+  for (const byte of data) {
+    crc = (CRC_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8)
+  }
+  return (crc ^ 0xff_ff_ff_ff) >>> 0
+}
+
+// MS-DOS date and time the entries are stamped with, to the even second
+const toDosDateTime = (date: Date) => ({
+  time:
+    (date.getUTCHours() << 11) |
+    (date.getUTCMinutes() << 5) |
+    Math.floor(date.getUTCSeconds() / 2),
+  date:
+    ((date.getUTCFullYear() - 1980) << 9) |
+    ((date.getUTCMonth() + 1) << 5) |
+    date.getUTCDate(),
+})
+
+type Field = readonly [size: 2 | 4, value: number]
+
+const writeFields = (fields: readonly Field[], name: Uint8Array) => {
+  const size = fields.reduce((total, [bytes]) => total + bytes, 0)
+  const header = new Uint8Array(size + name.length)
+  const view = new DataView(header.buffer)
+  let offset = 0
+  for (const [bytes, value] of fields) {
+    if (bytes === 2) {
+      view.setUint16(offset, value, true)
+    } else {
+      view.setUint32(offset, value, true)
+    }
+    offset += bytes
+  }
+  header.set(name, offset)
+  return header
+}
+
+const concat = (parts: readonly Uint8Array[]) => {
+  const result = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0),
+  )
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+/**
+ * Zip archive of text files, stored without compression. Subtitle files are
+ * small, so archives stay far below the limits that would need Zip64.
+ */
+export const zipFiles = (
+  entries: readonly ZipEntry[],
+  modifiedAt = new Date(),
+) => {
+  const encoder = new TextEncoder()
+  const { time, date } = toDosDateTime(modifiedAt)
+  const local: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const content = encoder.encode(entry.content)
+    const crc = crc32(content)
+    const common: Field[] = [
+      [2, ZIP_VERSION],
+      [2, UTF8_FLAG],
+      [2, STORED],
+      [2, time],
+      [2, date],
+      [4, crc],
+      [4, content.length],
+      [4, content.length],
+      [2, name.length],
+      [2, 0],
+    ]
+    const header = writeFields([[4, LOCAL_HEADER], ...common], name)
+    central.push(
+      writeFields(
+        [
+          [4, CENTRAL_HEADER],
+          [2, ZIP_VERSION],
+          ...common,
+          // Comment, disk, internal and external attributes
+          [2, 0],
+          [2, 0],
+          [2, 0],
+          [4, 0],
+          [4, offset],
+        ],
+        name,
+      ),
+    )
+    local.push(header, content)
+    offset += header.length + content.length
+  }
+
+  const directory = concat(central)
+  const end = writeFields(
+    [
+      [4, END_OF_CENTRAL_DIRECTORY],
+      [2, 0],
+      [2, 0],
+      [2, entries.length],
+      [2, entries.length],
+      [4, directory.length],
+      [4, offset],
+      [2, 0],
+    ],
+    new Uint8Array(),
+  )
+  return concat([...local, directory, end])
+}
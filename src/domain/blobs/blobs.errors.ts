@@ -0,0 +1,11 @@
+import { Data } from 'effect'
+
+// Internal domain errors (for business logic)
+export class BlobNotFoundError extends Data.TaggedError('BlobNotFoundError')<{
+  readonly key: string
+}> {}
+
+export class BlobStoreError extends Data.TaggedError('BlobStoreError')<{
+  readonly key: string
+  readonly error: unknown
+}> {}
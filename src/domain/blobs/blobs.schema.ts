@@ -0,0 +1,36 @@
+import type { DateTime, Stream } from 'effect'
+import type { SubtitleFormat } from '../subtitles/subtitles.schema'
+import type { BlobStoreError } from './blobs.errors'
+
+export type BlobInfo = {
+  readonly key: string
+  readonly size: number
+  readonly modifiedAt: DateTime.Utc
+}
+
+export type StoredBlob = BlobInfo & {
+  readonly contentType: string
+  readonly body: Stream.Stream<Uint8Array, BlobStoreError>
+}
+
+// Keys are relative paths of plain segments, so every store can map them as is
+const BLOB_KEY = /^[\w-]+(\.[\w-]+)*(\/[\w-]+(\.[\w-]+)*)*$/
+
+export const isValidBlobKey = (key: string) => BLOB_KEY.test(key)
+
+// The job pipeline keeps its media and subtitle files under these prefixes,
+// each with its own retention
+export const INPUT_BLOB_PREFIX = 'inputs/'
+export const RESULT_BLOB_PREFIX = 'results/'
+
+export const inputBlobKey = (tenant: string, id: string) =>
+  `${INPUT_BLOB_PREFIX}${tenant}/${id}`
+
+export const resultBlobPrefix = (tenant: string, jobId: number) =>
+  `${RESULT_BLOB_PREFIX}${tenant}/${jobId}/`
+
+export const resultBlobKey = (
+  tenant: string,
+  jobId: number,
+  format: SubtitleFormat,
+) => `${resultBlobPrefix(tenant, jobId)}subtitles.${format}`
@@ -0,0 +1,118 @@
+import { Effect as E, Encoding } from 'effect'
+
+// Streamed bodies cannot be hashed up front, S3 accepts them unsigned over TLS
+export const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD'
+
+export type S3Credentials = {
+  readonly accessKeyId: string
+  readonly secretAccessKey: string
+  readonly region: string
+}
+
+export type S3SignableRequest = {
+  readonly method: string
+  readonly url: URL
+  // Lowercase names, all of them are signed
+  readonly headers: Readonly<Record<string, string>>
+  readonly payloadHash?: string
+}
+
+const encoder = new TextEncoder()
+
+const RFC3986_RESERVED = /[!'()*]/g
+const DATE_SEPARATORS = /[-:]/g
+const MILLISECONDS = /\.\d{3}/
+
+// RFC 3986 encoding as AWS expects it, `encodeURIComponent` leaves `!'()*` alone
+const encodeRfc3986 = (value: string) =>
+  encodeURIComponent(value).replace(
+    RFC3986_RESERVED,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  )
+
+const sha256Hex = (data: string) =>
+  E.promise(() => crypto.subtle.digest('SHA-256', encoder.encode(data))).pipe(
+    E.map((digest) => Encoding.encodeHex(new Uint8Array(digest))),
+  )
+
+const hmac = (key: Uint8Array<ArrayBuffer>, data: string) =>
+  E.promise(() =>
+    crypto.subtle
+      .importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+      .then((cryptoKey) =>
+        crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data)),
+      ),
+  ).pipe(E.map((signature) => new Uint8Array(signature)))
+
+// `20130524T000000Z`, the date part is its first 8 characters
+const toAmzDate = (date: Date) =>
+  date.toISOString().replace(DATE_SEPARATORS, '').replace(MILLISECONDS, '')
+
+const canonicalQuery = (url: URL) =>
+  [...url.searchParams]
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)] as const)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&')
+
+// Path segments are encoded once, S3 does not normalise them
+const canonicalPath = (url: URL) =>
+  url.pathname
+    .split('/')
+    .map((segment) => encodeRfc3986(decodeURIComponent(segment)))
+    .join('/')
+
+/**
+ * AWS Signature Version 4 headers for an S3 request, `authorization` and the
+ * `x-amz-*` headers it covers. The `host` header is signed but left to the
+ * HTTP client to send.
+ */
+export const signS3Request = (
+  credentials: S3Credentials,
+  request: S3SignableRequest,
+  date: Date,
+) =>
+  E.gen(function* () {
+    const amzDate = toAmzDate(date)
+    const day = amzDate.slice(0, 8)
+    const payloadHash = request.payloadHash ?? UNSIGNED_PAYLOAD
+    const scope = `${day}/${credentials.region}/s3/aws4_request`
+
+    const headers: Record<string, string> = {
+      ...request.headers,
+      host: request.url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    }
+    const names = Object.keys(headers).sort()
+    const signedHeaders = names.join(';')
+
+    const canonicalRequest = [
+      request.method,
+      canonicalPath(request.url),
+      canonicalQuery(request.url),
+      ...names.map((name) => `${name}:${headers[name]?.trim()}`),
+      '',
+      signedHeaders,
+      payloadHash,
+    ].join('\n')
+
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      yield* sha256Hex(canonicalRequest),
+    ].join('\n')
+
+    let key = encoder.encode(`AWS4${credentials.secretAccessKey}`)
+    for (const part of [day, credentials.region, 's3', 'aws4_request']) {
+      key = yield* hmac(key, part)
+    }
+    const signature = Encoding.encodeHex(yield* hmac(key, stringToSign))
+
+    return {
+      authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope},SignedHeaders=${signedHeaders},Signature=${signature}`,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    }
+  })
@@ -2,3 +2,9 @@ import { HttpApiSchema } from '@effect/platform'
 import { Schema } from 'effect'
 
 export const idParam = HttpApiSchema.param('id', Schema.NumberFromString)
+
+const HTTP_URL = /^https?:\/\/\S+$/
+
+export const HttpUrl = Schema.String.pipe(
+  Schema.pattern(HTTP_URL, { message: () => 'Expected an http(s) URL' }),
+)
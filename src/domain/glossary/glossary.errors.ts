@@ -0,0 +1,28 @@
+import { Data, Schema } from 'effect'
+
+// API boundary errors (for HttpApi serialization)
+export class GlossaryTermNotFound extends Schema.TaggedError<GlossaryTermNotFound>()(
+  'GlossaryTermNotFound',
+  {},
+) {}
+
+export class GlossaryTermConflict extends Schema.TaggedError<GlossaryTermConflict>()(
+  'GlossaryTermConflict',
+  {
+    reason: Schema.String,
+  },
+) {}
+
+// Internal domain errors (for business logic)
+export class GlossaryTermNotFoundError extends Data.TaggedError(
+  'GlossaryTermNotFoundError',
+)<{
+  readonly id: number
+}> {}
+
+export class GlossaryTermConflictError extends Data.TaggedError(
+  'GlossaryTermConflictError',
+)<{
+  readonly term: string
+  readonly reason: string
+}> {}
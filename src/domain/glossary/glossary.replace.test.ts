@@ -0,0 +1,110 @@
+import { describe, expect, it } from '@effect/vitest'
+import { DateTime } from 'effect'
+import { applyGlossary } from './glossary.replace'
+import type { GlossaryTerm } from './glossary.schema'
+
+const now = DateTime.unsafeMake(0)
+
+const makeTerm = (
+  id: number,
+  term: Pick<GlossaryTerm, 'term'> & Partial<GlossaryTerm>,
+): GlossaryTerm => ({
+  id,
+  soundsLike: [],
+  createdAt: now,
+  updatedAt: now,
+  ...term,
+})
+
+describe('applyGlossary', () => {
+  it('should write terms and sound-alikes with their preferred spelling', () => {
+    const { cues, replacements } = applyGlossary(
+      [
+        { start: 0, end: 1000, text: 'We deploy on cube nettis.' },
+        {
+          start: 1000,
+          end: 2000,
+          text: 'KUBERNETES runs our\nCube Nettis pods.',
+        },
+        { start: 2000, end: 3000, text: 'Written with effect ts.' },
+      ],
+      [
+        makeTerm(1, { term: 'Kubernetes', soundsLike: ['cube nettis'] }),
+        makeTerm(2, {
+          term: 'effect-ts',
+          casing: 'Effect-TS',
+          soundsLike: ['effect ts'],
+        }),
+      ],
+    )
+
+    expect(cues.map(({ text }) => text)).toEqual([
+      'We deploy on Kubernetes.',
+      'Kubernetes runs our\nKubernetes pods.',
+      'Written with Effect-TS.',
+    ])
+    expect(replacements).toEqual([
+      { from: 'cube nettis', to: 'Kubernetes', count: 1 },
+      { from: 'KUBERNETES', to: 'Kubernetes', count: 1 },
+      { from: 'Cube Nettis', to: 'Kubernetes', count: 1 },
+      { from: 'effect ts', to: 'Effect-TS', count: 1 },
+    ])
+  })
+
+  it('should only replace whole words, longest patterns first', () => {
+    const { cues, replacements } = applyGlossary(
+      [{ start: 0, end: 1000, text: 'Cubes of cube and cube map.' }],
+      [
+        makeTerm(1, { term: 'Cube', soundsLike: ['cube'] }),
+        makeTerm(2, { term: 'CubeMap', soundsLike: ['cube map'] }),
+      ],
+    )
+
+    expect(cues[0]?.text).toBe('Cubes of Cube and CubeMap.')
+    expect(replacements).toEqual([
+      { from: 'cube', to: 'Cube', count: 1 },
+      { from: 'cube map', to: 'CubeMap', count: 1 },
+    ])
+  })
+
+  it('should never replace a replacement again', () => {
+    const { cues } = applyGlossary(
+      [{ start: 0, end: 1000, text: 'alpha beta' }],
+      [
+        makeTerm(1, { term: 'beta', soundsLike: ['alpha'] }),
+        makeTerm(2, { term: 'gamma', soundsLike: ['beta'] }),
+      ],
+    )
+
+    // The oldest term keeps `beta`, which `gamma` lists as a sound-alike too
+    expect(cues[0]?.text).toBe('beta beta')
+  })
+
+  it('should drop word timings of corrected cues only', () => {
+    const words = [
+      { start: 0, end: 500, text: 'cube' },
+      { start: 500, end: 1000, text: 'nettis' },
+    ]
+    const untouched = {
+      start: 1000,
+      end: 2000,
+      text: 'All good',
+      words: [
+        { start: 1000, end: 1500, text: 'All' },
+        { start: 1500, end: 2000, text: 'good' },
+      ],
+    }
+    const { cues } = applyGlossary(
+      [
+        { start: 0, end: 1000, text: 'cube nettis', confidence: 0.4, words },
+        untouched,
+      ],
+      [makeTerm(1, { term: 'Kubernetes', soundsLike: ['cube nettis'] })],
+    )
+
+    expect(cues).toEqual([
+      { start: 0, end: 1000, text: 'Kubernetes', confidence: 0.4 },
+      untouched,
+    ])
+  })
+})
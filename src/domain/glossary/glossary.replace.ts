@@ -0,0 +1,88 @@
+import type { Schema } from 'effect'
+import type { SubtitleJson } from '../media/media.schema'
+import {
+  type GlossaryReplacement,
+  type GlossaryTerm,
+  preferredSpelling,
+} from './glossary.schema'
+
+type SubtitleJsonType = Schema.Schema.Type<typeof SubtitleJson>
+
+const WHITESPACE = /\s+/g
+const REGEX_SPECIAL = /[.*+?^${}()|[\]\\]/g
+
+// Spellings are looked up whatever their case and spacing
+const normalize = (text: string) => text.toLowerCase().replace(WHITESPACE, ' ')
+
+// Preferred spelling by normalized pattern, the oldest term listing a pattern wins
+const spellingsByPattern = (terms: readonly GlossaryTerm[]) => {
+  const spellings = new Map<string, string>()
+  for (const term of terms) {
+    const patterns = [term.term, term.casing ?? term.term, ...term.soundsLike]
+    for (const pattern of patterns) {
+      const key = normalize(pattern)
+      if (!spellings.has(key)) {
+        spellings.set(key, preferredSpelling(term))
+      }
+    }
+  }
+  return spellings
+}
+
+// Whole words only, longer patterns first so they win over the words they contain
+const glossaryPattern = (keys: Iterable<string>) => {
+  const alternatives = [...keys]
+    .sort((a, b) => b.length - a.length || (a < b ? -1 : 1))
+    .map((key) =>
+      key
+        .split(' ')
+        .map((word) => word.replace(REGEX_SPECIAL, '\\$&'))
+        .join('\\s+'),
+    )
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`,
+    'giu',
+  )
+}
+
+/**
+ * Writes every term and sound-alike of the glossary with its preferred
+ * spelling, in a single pass so replacements are never replaced again. The
+ * replacements are counted by what was written and what it became.
+ */
+export const applyGlossary = (
+  cues: SubtitleJsonType,
+  terms: readonly GlossaryTerm[],
+): {
+  readonly cues: SubtitleJsonType
+  readonly replacements: readonly GlossaryReplacement[]
+} => {
+  if (terms.length === 0) {
+    return { cues, replacements: [] }
+  }
+
+  const spellings = spellingsByPattern(terms)
+  const pattern = glossaryPattern(spellings.keys())
+  const replacements = new Map<string, GlossaryReplacement>()
+
+  const corrected = cues.map((cue) => {
+    const text = cue.text.replace(pattern, (match) => {
+      const to = spellings.get(normalize(match))
+      if (to === undefined || to === match) {
+        return match
+      }
+      const key = `${match}\n${to}`
+      const count = (replacements.get(key)?.count ?? 0) + 1
+      replacements.set(key, { from: match, to, count })
+      return to
+    })
+    if (text === cue.text) {
+      return cue
+    }
+    // Engine word timings no longer line up with the corrected text
+    const { words, ...rest } = cue
+    return { ...rest, text }
+  })
+
+  return { cues: corrected, replacements: [...replacements.values()] }
+}
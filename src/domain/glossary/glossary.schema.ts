@@ -0,0 +1,40 @@
+import { Schema } from 'effect'
+
+// `term` is matched whatever its case and written as `casing` when given.
+// `soundsLike` are what engines tend to hear instead, replaced by the term too
+export const GlossaryTermRequest = Schema.Struct({
+  term: Schema.NonEmptyTrimmedString,
+  soundsLike: Schema.optional(Schema.Array(Schema.NonEmptyTrimmedString)),
+  casing: Schema.optional(Schema.NonEmptyTrimmedString),
+})
+
+export const GlossaryTerm = Schema.Struct({
+  id: Schema.Number,
+  term: Schema.String,
+  soundsLike: Schema.Array(Schema.String),
+  casing: Schema.optional(Schema.String),
+  createdAt: Schema.DateTimeUtc,
+  updatedAt: Schema.DateTimeUtc,
+})
+export type GlossaryTerm = typeof GlossaryTerm.Type
+
+export const GlossaryResponse = Schema.Struct({
+  terms: Schema.Array(GlossaryTerm),
+})
+
+// Occurrences of `from` written as `to` across the cues of a result
+export const GlossaryReplacement = Schema.Struct({
+  from: Schema.String,
+  to: Schema.String,
+  count: Schema.Number,
+})
+export type GlossaryReplacement = typeof GlossaryReplacement.Type
+
+// Spelling a term is written with in transcripts
+export const preferredSpelling = (term: GlossaryTerm) =>
+  term.casing ?? term.term
+
+// Boosted by engines that support keywords, see `MediaRequest`
+export const glossaryKeywords = (terms: readonly GlossaryTerm[]) => [
+  ...new Set(terms.map(preferredSpelling)),
+]
@@ -1,4 +1,5 @@
 import { Data, Schema } from 'effect'
+import type { JobStatus } from './jobs.schema'
 
 // API boundary errors (for HttpApi serialization)
 export class JobResultNotFound extends Schema.TaggedError<JobResultNotFound>()(
@@ -6,11 +7,40 @@ export class JobResultNotFound extends Schema.TaggedError<JobResultNotFound>()(
   {},
 ) {}
 
+export class JobTranslationNotFound extends Schema.TaggedError<JobTranslationNotFound>()(
+  'JobTranslationNotFound',
+  {
+    language: Schema.String,
+  },
+) {}
+
+export class JobTranslationFailed extends Schema.TaggedError<JobTranslationFailed>()(
+  'JobTranslationFailed',
+  {
+    language: Schema.String,
+    reason: Schema.String,
+  },
+) {}
+
+export class JobRevisionNotFound extends Schema.TaggedError<JobRevisionNotFound>()(
+  'JobRevisionNotFound',
+  {
+    revision: Schema.Number,
+  },
+) {}
+
 export class JobNotFound extends Schema.TaggedError<JobNotFound>()(
   'JobNotFound',
   {},
 ) {}
 
+export class JobConflict extends Schema.TaggedError<JobConflict>()(
+  'JobConflict',
+  {
+    reason: Schema.String,
+  },
+) {}
+
 // Internal domain errors (for business logic)
 export class JobProcessingError extends Data.TaggedError('JobProcessingError')<{
   readonly jobId: number
@@ -26,3 +56,30 @@ export class JobResultNotFoundError extends Data.TaggedError(
 )<{
   readonly jobId: number
 }> {}
+
+export class JobTranslationNotFoundError extends Data.TaggedError(
+  'JobTranslationNotFoundError',
+)<{
+  readonly jobId: number
+  readonly language: string
+}> {}
+
+export class JobRevisionNotFoundError extends Data.TaggedError(
+  'JobRevisionNotFoundError',
+)<{
+  readonly jobId: number
+  readonly revision: number
+}> {}
+
+export class InvalidJobTransitionError extends Data.TaggedError(
+  'InvalidJobTransitionError',
+)<{
+  readonly jobId: number
+  readonly from: JobStatus
+  readonly to: JobStatus
+}> {}
+
+export class JobConflictError extends Data.TaggedError('JobConflictError')<{
+  readonly jobId: number
+  readonly reason: string
+}> {}
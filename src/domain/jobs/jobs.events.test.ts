@@ -0,0 +1,38 @@
+import { describe, expect, it } from '@effect/vitest'
+import { Chunk, Effect as E, Stream } from 'effect'
+import { decodeJobEvents, toServerSentEvent } from './jobs.events'
+import type { JobEvent } from './jobs.schema'
+
+const events: JobEvent[] = [
+  { _tag: 'status', jobId: 1, status: 'in-progress' },
+  { _tag: 'segment', jobId: 1, cue: { start: 0, end: 2500, text: 'Hello' } },
+  { _tag: 'progress', jobId: 1, percent: 50 },
+  { _tag: 'status', jobId: 1, status: 'failed', failureReason: 'Timeout' },
+]
+
+describe('job events', () => {
+  it('should name each Server-Sent Event after its tag', () => {
+    expect(toServerSentEvent({ _tag: 'deleted', jobId: 3 })).toBe(
+      'event: deleted\ndata: {"_tag":"deleted","jobId":3}\n\n',
+    )
+  })
+
+  it.effect('should decode events split across chunks', () =>
+    E.gen(function* () {
+      const body = new TextEncoder().encode(
+        events.map(toServerSentEvent).join(''),
+      )
+      // Chunk boundaries do not line up with events
+      const chunks = Array.from(
+        { length: Math.ceil(body.length / 7) },
+        (_, index) => body.slice(index * 7, (index + 1) * 7),
+      )
+
+      const decoded = yield* decodeJobEvents(Stream.fromIterable(chunks)).pipe(
+        Stream.runCollect,
+      )
+
+      expect(Chunk.toArray(decoded)).toEqual(events)
+    }),
+  )
+})
@@ -0,0 +1,26 @@
+import { Sse } from '@effect/experimental'
+import { Schema, Stream } from 'effect'
+import { JobEvent } from './jobs.schema'
+
+const JobEventData = Schema.parseJson(JobEvent)
+
+/**
+ * Renders a job event as a Server-Sent Event, named after its tag.
+ */
+export const toServerSentEvent = (event: JobEvent) =>
+  Sse.encoder.write({
+    _tag: 'Event',
+    event: event._tag,
+    id: undefined,
+    data: Schema.encodeSync(JobEventData)(event),
+  })
+
+/**
+ * Parses a `text/event-stream` body back into job events.
+ */
+export const decodeJobEvents = <E, R>(body: Stream.Stream<Uint8Array, E, R>) =>
+  body.pipe(
+    Stream.decodeText(),
+    Stream.pipeThroughChannel(Sse.makeChannel()),
+    Stream.mapEffect(({ data }) => Schema.decode(JobEventData)(data)),
+  )
@@ -1,22 +1,222 @@
+import { HttpApiSchema } from '@effect/platform'
 import { Schema } from 'effect'
+import { GlossaryReplacement } from '../glossary/glossary.schema'
+import { MediaEngine, SubtitleJson } from '../media/media.schema'
+import {
+  SubtitleEdit,
+  SubtitleExportParams,
+} from '../subtitles/subtitles.schema'
+import { LanguageCode } from '../translations/translations.schema'
+
+export const JobStatus = Schema.Literal(
+  'pending',
+  'in-progress',
+  'completed',
+  'failed',
+  'cancelled',
+)
+export type JobStatus = typeof JobStatus.Type
+
+// Allowed status changes, failed jobs can only go back to pending to be retried
+export const JobStatusTransitions: Record<JobStatus, readonly JobStatus[]> = {
+  pending: ['in-progress', 'cancelled'],
+  'in-progress': ['completed', 'failed', 'cancelled'],
+  completed: [],
+  failed: ['pending'],
+  cancelled: [],
+}
+
+export const isTerminalJobStatus = (status: JobStatus) =>
+  status === 'completed' || status === 'failed' || status === 'cancelled'
+
+export const canTransitionJob = (from: JobStatus, to: JobStatus) =>
+  JobStatusTransitions[from].includes(to)
 
 export const JobResponse = Schema.Struct({
   id: Schema.Number,
   name: Schema.String,
-  status: Schema.String,
+  status: JobStatus,
+  createdAt: Schema.DateTimeUtc,
+  startedAt: Schema.optional(Schema.DateTimeUtc),
+  finishedAt: Schema.optional(Schema.DateTimeUtc),
+  failureReason: Schema.optional(Schema.String),
+  engine: Schema.optional(MediaEngine),
+  language: Schema.optional(Schema.String),
 })
 
-export const JobsResponse = Schema.Struct({
-  jobs: Schema.Array(
-    Schema.Struct({
-      id: Schema.Number,
-      name: Schema.String,
-      status: Schema.String,
-    }),
+export const JobsSortField = Schema.Literal(
+  'createdAt',
+  'updatedAt',
+  'name',
+  'status',
+)
+export type JobsSortField = typeof JobsSortField.Type
+
+// Opaque keyset cursor, the sort value and id of the last job on a page
+export const JobsCursor = Schema.compose(
+  Schema.StringFromBase64Url,
+  Schema.parseJson(Schema.Tuple(Schema.String, Schema.Number)),
+)
+export type JobsCursor = typeof JobsCursor.Type
+
+export const JobsQueryParams = Schema.Struct({
+  limit: Schema.optional(
+    Schema.NumberFromString.pipe(Schema.int(), Schema.between(1, 100)),
   ),
+  cursor: Schema.optional(JobsCursor),
+  status: Schema.optional(JobStatus),
+  language: Schema.optional(Schema.String),
+  engine: Schema.optional(MediaEngine),
+  createdAfter: Schema.optional(Schema.DateTimeUtc),
+  createdBefore: Schema.optional(Schema.DateTimeUtc),
+  sortBy: Schema.optional(JobsSortField),
+  order: Schema.optional(Schema.Literal('asc', 'desc')),
+})
+export type JobsQuery = typeof JobsQueryParams.Type
+
+export const JobsResponse = Schema.Struct({
+  jobs: Schema.Array(JobResponse),
+  nextCursor: Schema.optional(JobsCursor),
+  total: Schema.Number,
+})
+
+// Why a target language was left untranslated, by language. Each can be
+// retried on its own, see `retryJobTranslation`
+export const JobTranslationFailures = Schema.Record({
+  key: Schema.String,
+  value: Schema.String,
 })
 
 export const JobResultResponse = Schema.Struct({
   id: Schema.Number,
-  result: Schema.String,
+  // Language of the cues when one was asked for, see `?lang=`
+  language: Schema.optional(Schema.String),
+  result: SubtitleJson,
+  // Glossary replacements applied to the result, translations leave them out
+  replacements: Schema.optional(Schema.Array(GlossaryReplacement)),
+  // Target languages that failed, next to the result in the job language
+  translationFailures: Schema.optional(JobTranslationFailures),
+})
+
+// `lang` picks a translation, see `targetLanguages`
+export const JobResultParams = Schema.Struct({
+  ...SubtitleExportParams.fields,
+  lang: Schema.optional(LanguageCode),
+})
+
+// Results by target language, next to the result in the job language
+export const JobTranslations = Schema.Record({
+  key: Schema.String,
+  value: SubtitleJson,
+})
+
+export const languageParam = HttpApiSchema.param('lang', LanguageCode)
+
+const RevisionNumber = Schema.Number.pipe(Schema.int(), Schema.positive())
+
+export const revisionParam = HttpApiSchema.param(
+  'revision',
+  Schema.NumberFromString.pipe(Schema.int(), Schema.positive()),
+)
+
+// `author` defaults to the tenant. `baseRevision` is the revision the edits
+// were made on, the request is a conflict once another one was saved since
+export const EditJobResultRequest = Schema.Struct({
+  author: Schema.optional(Schema.NonEmptyTrimmedString),
+  baseRevision: Schema.optional(RevisionNumber),
+  edits: Schema.NonEmptyArray(SubtitleEdit),
+})
+
+export const RestoreJobRevisionRequest = Schema.Struct({
+  author: Schema.optional(Schema.NonEmptyTrimmedString),
+})
+
+// Revision 1 is the result as the job completed, it has no author
+export const JobRevision = Schema.Struct({
+  revision: RevisionNumber,
+  author: Schema.optional(Schema.String),
+  // Revision whose cues were restored
+  restoredFrom: Schema.optional(RevisionNumber),
+  createdAt: Schema.DateTimeUtc,
+})
+
+export const JobRevisionsResponse = Schema.Struct({
+  id: Schema.Number,
+  revisions: Schema.Array(JobRevision),
+})
+
+export const JobRevisionResponse = Schema.Struct({
+  id: Schema.Number,
+  ...JobRevision.fields,
+  result: SubtitleJson,
+})
+
+// Compared with the revision before when `from` is omitted
+export const JobRevisionDiffParams = Schema.Struct({
+  from: Schema.optional(
+    Schema.NumberFromString.pipe(Schema.int(), Schema.positive()),
+  ),
+})
+
+// `index` is the position in `from` for removals, in `to` otherwise
+export const JobRevisionChange = Schema.Union(
+  Schema.TaggedStruct('added', {
+    index: Schema.Number,
+    cue: SubtitleJson.value,
+  }),
+  Schema.TaggedStruct('removed', {
+    index: Schema.Number,
+    cue: SubtitleJson.value,
+  }),
+  Schema.TaggedStruct('changed', {
+    index: Schema.Number,
+    before: SubtitleJson.value,
+    after: SubtitleJson.value,
+  }),
+)
+
+export const JobRevisionDiffResponse = Schema.Struct({
+  id: Schema.Number,
+  from: RevisionNumber,
+  to: RevisionNumber,
+  changes: Schema.Array(JobRevisionChange),
+})
+
+// Live job updates, streamed as Server-Sent Events named after the tag
+export const JobStatusEvent = Schema.TaggedStruct('status', {
+  jobId: Schema.Number,
+  status: JobStatus,
+  failureReason: Schema.optional(Schema.String),
+})
+
+export const JobProgressEvent = Schema.TaggedStruct('progress', {
+  jobId: Schema.Number,
+  percent: Schema.Number.pipe(Schema.between(0, 100)),
+})
+
+// A cue as soon as the engine produced it, the final result may still differ
+export const JobSegmentEvent = Schema.TaggedStruct('segment', {
+  jobId: Schema.Number,
+  cue: SubtitleJson.value,
+})
+
+export const JobDeletedEvent = Schema.TaggedStruct('deleted', {
+  jobId: Schema.Number,
+})
+
+export const JobEvent = Schema.Union(
+  JobStatusEvent,
+  JobProgressEvent,
+  JobSegmentEvent,
+  JobDeletedEvent,
+)
+export type JobEvent = typeof JobEvent.Type
+
+// No more events follow once a job is finished or gone
+export const isFinalJobEvent = (event: JobEvent) =>
+  event._tag === 'deleted' ||
+  (event._tag === 'status' && isTerminalJobStatus(event.status))
+
+export const JobEventStream = HttpApiSchema.Text({
+  contentType: 'text/event-stream',
 })
@@ -11,6 +11,37 @@ export class MediaNotFound extends Schema.TaggedError<MediaNotFound>()(
   {},
 ) {}
 
+export class UnsupportedMediaType extends Schema.TaggedError<UnsupportedMediaType>()(
+  'UnsupportedMediaType',
+  {
+    reason: Schema.String,
+  },
+) {}
+
+export class MediaTooLarge extends Schema.TaggedError<MediaTooLarge>()(
+  'MediaTooLarge',
+  {
+    reason: Schema.String,
+  },
+) {}
+
+export class MediaUnreachable extends Schema.TaggedError<MediaUnreachable>()(
+  'MediaUnreachable',
+  {
+    url: Schema.String,
+    reason: Schema.String,
+  },
+) {}
+
+// Engine down or failing, the request can be sent again later
+export class MediaEngineUnavailable extends Schema.TaggedError<MediaEngineUnavailable>()(
+  'MediaEngineUnavailable',
+  {
+    engine: Schema.String,
+    reason: Schema.String,
+  },
+) {}
+
 // Internal domain errors (for business logic)
 export class MediaEmptyError extends Data.TaggedError('MediaEmptyError')<{
   readonly reason: string
@@ -24,3 +55,31 @@ export class MediaParsingError extends Data.TaggedError('MediaParsingError')<{
   readonly source: string
   readonly error: unknown
 }> {}
+
+// `circuitOpen` when the engine was not even called, see `withEngineResilience`
+export class MediaEngineUnavailableError extends Data.TaggedError(
+  'MediaEngineUnavailableError',
+)<{
+  readonly engine: string
+  readonly reason: string
+  readonly circuitOpen: boolean
+}> {}
+
+export class UnsupportedMediaTypeError extends Data.TaggedError(
+  'UnsupportedMediaTypeError',
+)<{
+  readonly source: string
+  readonly reason: string
+}> {}
+
+export class MediaTooLargeError extends Data.TaggedError('MediaTooLargeError')<{
+  readonly source: string
+  readonly reason: string
+}> {}
+
+export class MediaUnreachableError extends Data.TaggedError(
+  'MediaUnreachableError',
+)<{
+  readonly url: string
+  readonly reason: string
+}> {}
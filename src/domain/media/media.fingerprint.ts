@@ -0,0 +1,17 @@
+import { Effect as E, Encoding } from 'effect'
+
+/**
+ * Spellings of the same URL map to one string: scheme and host are lowercased,
+ * default ports and fragments dropped, and query parameters sorted.
+ */
+export const normalizeMediaUrl = (url: string) => {
+  const parsed = new URL(url)
+  parsed.hash = ''
+  parsed.searchParams.sort()
+  return parsed.toString()
+}
+
+export const sha256Hex = (bytes: Uint8Array<ArrayBuffer>) =>
+  E.promise(() => crypto.subtle.digest('SHA-256', bytes)).pipe(
+    E.map((digest) => Encoding.encodeHex(new Uint8Array(digest))),
+  )
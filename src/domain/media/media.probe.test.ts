@@ -0,0 +1,128 @@
+import { describe, expect, it } from '@effect/vitest'
+import { Option } from 'effect'
+import { probeMediaHeader } from './media.probe'
+
+const encoder = new TextEncoder()
+
+// Assembles a header from ASCII tags and fixed size integers
+const bytesOf = (
+  ...parts: readonly (
+    | string
+    | { readonly u32: number }
+    | { readonly u32le: number }
+    | { readonly u16le: number }
+  )[]
+) => {
+  const chunks = parts.map((part) => {
+    if (typeof part === 'string') {
+      return encoder.encode(part)
+    }
+    const bytes = new Uint8Array('u16le' in part ? 2 : 4)
+    const view = new DataView(bytes.buffer)
+    if ('u32' in part) {
+      view.setUint32(0, part.u32)
+    } else if ('u32le' in part) {
+      view.setUint32(0, part.u32le, true)
+    } else {
+      view.setUint16(0, part.u16le, true)
+    }
+    return bytes
+  })
+  const bytes = new Uint8Array(chunks.reduce((size, c) => size + c.length, 0))
+  chunks.reduce((offset, chunk) => {
+    bytes.set(chunk, offset)
+    return offset + chunk.length
+  }, 0)
+  return bytes
+}
+
+describe('probeMediaHeader', () => {
+  it('should read the duration of WAV files', () => {
+    const wav = bytesOf(
+      'RIFF',
+      { u32le: 64_036 },
+      'WAVE',
+      'fmt ',
+      { u32le: 16 },
+      { u16le: 1 },
+      { u16le: 1 },
+      { u32le: 16_000 },
+      { u32le: 32_000 },
+      { u16le: 2 },
+      { u16le: 16 },
+      'data',
+      { u32le: 64_000 },
+    )
+
+    expect(probeMediaHeader(wav)).toEqual(
+      Option.some({ container: 'wav', mimeType: 'audio/wav', duration: 2000 }),
+    )
+  })
+
+  it('should read the duration of MP4 files with a leading moov box', () => {
+    const mp4 = bytesOf(
+      { u32: 16 },
+      'ftyp',
+      'isom',
+      { u32: 0 },
+      { u32: 48 },
+      'moov',
+      { u32: 40 },
+      'mvhd',
+      // Version and flags, creation and modification times
+      { u32: 0 },
+      { u32: 0 },
+      { u32: 0 },
+      { u32: 600 },
+      { u32: 5_400_000 },
+      { u32: 0 },
+      { u32: 0 },
+      { u32: 0 },
+    )
+
+    expect(probeMediaHeader(mp4)).toEqual(
+      Option.some({
+        container: 'mp4',
+        mimeType: 'video/mp4',
+        duration: 9_000_000,
+      }),
+    )
+  })
+
+  it('should recognise containers without a duration', () => {
+    const id3 = bytesOf('ID3', { u32: 0 })
+    const m4a = bytesOf({ u32: 16 }, 'ftyp', 'M4A ', { u32: 0 })
+    // EBML magic, then the DocType element
+    const webm = Uint8Array.of(
+      0x1a,
+      0x45,
+      0xdf,
+      0xa3,
+      0x42,
+      0x82,
+      0x84,
+      ...encoder.encode('webm'),
+    )
+
+    expect(probeMediaHeader(id3)).toEqual(
+      Option.some({ container: 'mp3', mimeType: 'audio/mpeg' }),
+    )
+    expect(probeMediaHeader(m4a)).toEqual(
+      Option.some({
+        container: 'm4a',
+        mimeType: 'audio/mp4',
+        duration: undefined,
+      }),
+    )
+    expect(probeMediaHeader(webm)).toEqual(
+      Option.some({ container: 'webm', mimeType: 'video/webm' }),
+    )
+  })
+
+  it('should not recognise other content', () => {
+    expect(probeMediaHeader(encoder.encode('<html></html>'))).toEqual(
+      Option.none(),
+    )
+    expect(probeMediaHeader(new Uint8Array(0))).toEqual(Option.none())
+  })
+})
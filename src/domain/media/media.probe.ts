@@ -0,0 +1,172 @@
+import { Option } from 'effect'
+
+/**
+ * Bytes read from the start of the media to recognise it, enough for the
+ * headers of the supported containers.
+ */
+export const MEDIA_PROBE_BYTES = 64 * 1024
+
+export type MediaContainer = {
+  readonly container: string
+  readonly mimeType: string
+}
+
+export type MediaHeader = MediaContainer & {
+  // Milliseconds, when the header carries it
+  readonly duration?: number
+}
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length))
+
+const uint32 = (bytes: Uint8Array, offset: number) =>
+  new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset)
+
+const uint32le = (bytes: Uint8Array, offset: number) =>
+  new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset, true)
+
+const uint64 = (bytes: Uint8Array, offset: number) =>
+  uint32(bytes, offset) * 2 ** 32 + uint32(bytes, offset + 4)
+
+type Box = {
+  readonly type: string
+  readonly start: number
+  readonly end: number
+}
+
+// ISO base media boxes (MP4, M4A, MOV) between `start` and `end`
+const boxes = (bytes: Uint8Array, start: number, end: number) => {
+  const found: Box[] = []
+  let offset = start
+  while (offset + 8 <= end) {
+    const size = uint32(bytes, offset)
+    const type = ascii(bytes, offset + 4, 4)
+    const boxEnd = size === 0 ? end : offset + size
+    if (size !== 0 && size < 8) {
+      break
+    }
+    found.push({ type, start: offset + 8, end: Math.min(boxEnd, end) })
+    offset = boxEnd
+  }
+  return found
+}
+
+// `mvhd` is only found when `moov` precedes the media data, as in files optimised for streaming
+const isoDuration = (bytes: Uint8Array) => {
+  const moov = boxes(bytes, 0, bytes.length).find(({ type }) => type === 'moov')
+  const mvhd = moov
+    ? boxes(bytes, moov.start, moov.end).find(({ type }) => type === 'mvhd')
+    : undefined
+  if (!mvhd || mvhd.end - mvhd.start < 32) {
+    return undefined
+  }
+
+  const version = bytes[mvhd.start]
+  const [timescale, duration] =
+    version === 1
+      ? [uint32(bytes, mvhd.start + 20), uint64(bytes, mvhd.start + 24)]
+      : [uint32(bytes, mvhd.start + 12), uint32(bytes, mvhd.start + 16)]
+  return timescale > 0 ? (duration / timescale) * 1000 : undefined
+}
+
+const isoContainer = (brand: string): MediaContainer => {
+  if (brand === 'qt  ') {
+    return { container: 'mov', mimeType: 'video/quicktime' }
+  }
+  if (brand.startsWith('M4A') || brand.startsWith('M4B')) {
+    return { container: 'm4a', mimeType: 'audio/mp4' }
+  }
+  return { container: 'mp4', mimeType: 'video/mp4' }
+}
+
+const wavDuration = (bytes: Uint8Array) => {
+  let byteRate: number | undefined
+  let offset = 12
+  while (offset + 8 <= bytes.length) {
+    const id = ascii(bytes, offset, 4)
+    const size = uint32le(bytes, offset + 4)
+    if (id === 'fmt ' && offset + 16 <= bytes.length) {
+      byteRate = uint32le(bytes, offset + 16)
+    }
+    if (id === 'data') {
+      return byteRate ? (size / byteRate) * 1000 : undefined
+    }
+    // Chunks are padded to an even size
+    offset += 8 + size + (size % 2)
+  }
+  return undefined
+}
+
+const flacDuration = (bytes: Uint8Array) => {
+  // STREAMINFO is always the first metadata block
+  if (bytes.length < 26) {
+    return undefined
+  }
+  const sampleRate =
+    ((bytes[18] ?? 0) << 12) | ((bytes[19] ?? 0) << 4) | ((bytes[20] ?? 0) >> 4)
+  const samples = ((bytes[21] ?? 0) & 0x0f) * 2 ** 32 + uint32(bytes, 22)
+  return sampleRate > 0 && samples > 0
+    ? (samples / sampleRate) * 1000
+    : undefined
+}
+
+const EBML_MAGIC = [0x1a, 0x45, 0xdf, 0xa3]
+
+const startsWith = (bytes: Uint8Array, magic: readonly number[]) =>
+  magic.every((byte, index) => bytes[index] === byte)
+
+// MPEG audio frame sync, layer bits tell MP3 apart from ADTS AAC
+const isMpegAudio = (bytes: Uint8Array) =>
+  bytes[0] === 0xff &&
+  ((bytes[1] ?? 0) & 0xe0) === 0xe0 &&
+  ((bytes[1] ?? 0) & 0x06) !== 0
+
+const isAdts = (bytes: Uint8Array) =>
+  bytes[0] === 0xff && ((bytes[1] ?? 0) & 0xf6) === 0xf0
+
+/**
+ * Recognises the container from the first bytes of the media, by their
+ * signature rather than the name or declared type.
+ */
+export const probeMediaHeader = (
+  bytes: Uint8Array,
+): Option.Option<MediaHeader> => {
+  if (bytes.length >= 12 && ascii(bytes, 4, 4) === 'ftyp') {
+    return Option.some({
+      ...isoContainer(ascii(bytes, 8, 4)),
+      duration: isoDuration(bytes),
+    })
+  }
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WAVE') {
+    return Option.some({
+      container: 'wav',
+      mimeType: 'audio/wav',
+      duration: wavDuration(bytes),
+    })
+  }
+  if (ascii(bytes, 0, 4) === 'fLaC') {
+    return Option.some({
+      container: 'flac',
+      mimeType: 'audio/flac',
+      duration: flacDuration(bytes),
+    })
+  }
+  if (ascii(bytes, 0, 4) === 'OggS') {
+    return Option.some({ container: 'ogg', mimeType: 'audio/ogg' })
+  }
+  if (startsWith(bytes, EBML_MAGIC)) {
+    // The EBML header names the document type right after the magic
+    return Option.some(
+      ascii(bytes, 0, 64).includes('webm')
+        ? { container: 'webm', mimeType: 'video/webm' }
+        : { container: 'mkv', mimeType: 'video/x-matroska' },
+    )
+  }
+  if (ascii(bytes, 0, 3) === 'ID3' || isMpegAudio(bytes)) {
+    return Option.some({ container: 'mp3', mimeType: 'audio/mpeg' })
+  }
+  if (isAdts(bytes)) {
+    return Option.some({ container: 'aac', mimeType: 'audio/aac' })
+  }
+  return Option.none()
+}
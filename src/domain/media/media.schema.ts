@@ -1,9 +1,16 @@
 import { HttpApiSchema, Multipart } from '@effect/platform'
 import { Schema } from 'effect'
+import { HttpUrl } from '../common/schema'
+import { GlossaryReplacement } from '../glossary/glossary.schema'
+import {
+  SubtitleExportParams,
+  SubtitleSegmentation,
+} from '../subtitles/subtitles.schema'
+import { TargetLanguages } from '../translations/translations.schema'
 
 const ParseMediaFileRequest = HttpApiSchema.Multipart(
   Schema.Struct({
-    file: Multipart.FileSchema,
+    file: Multipart.SingleFileSchema,
   }),
 )
 
@@ -11,20 +18,58 @@ const ParseMediaUrlRequest = Schema.Struct({
   url: Schema.String,
 })
 
-const ParseMediaOptions = Schema.Struct({
+// Completed resumable upload, see `POST /media/uploads`
+const ParseMediaUploadRequest = Schema.Struct({
+  uploadId: Schema.UUID,
+})
+
+export const MediaEngine = Schema.Literal('deepgram', 'whisper', 'fake')
+export type MediaEngine = typeof MediaEngine.Type
+
+export const ParseMediaOptions = Schema.Struct({
   language: Schema.String,
+  engine: Schema.optional(MediaEngine),
+  // Notified with a signed job summary once the job is finished
+  callbackUrl: Schema.optional(HttpUrl),
+  // Splits and merges the cues of the engine to fit on screen, see `segmentCues`
+  segmentation: Schema.optional(SubtitleSegmentation),
+  // The result is also translated into these, see `?lang=` on the result
+  targetLanguages: Schema.optional(TargetLanguages),
+  // Labels cues with their speaker, for engines that tell speakers apart
+  diarize: Schema.optional(Schema.Boolean),
+})
+
+export const ParseMediaParams = Schema.Struct({
+  mode: Schema.optional(Schema.Literal('sync', 'async')),
+  ...SubtitleExportParams.fields,
 })
 
 const ParseMediaRequest = Schema.Union(
   ParseMediaFileRequest,
   ParseMediaUrlRequest,
+  ParseMediaUploadRequest,
 )
 
-const SubtitleJson = Schema.Array(
+// Share of the engine's certainty, from 0 to 1
+const Confidence = Schema.Number.pipe(Schema.between(0, 1))
+
+export const SubtitleWord = Schema.Struct({
+  start: Schema.Number,
+  end: Schema.Number,
+  text: Schema.String,
+  confidence: Schema.optional(Confidence),
+})
+
+// `speaker`, `confidence` and `words` are only set by engines and options that
+// report them, clients reading the timing and text keep working without them
+export const SubtitleJson = Schema.Array(
   Schema.Struct({
     start: Schema.Number,
     end: Schema.Number,
     text: Schema.String,
+    speaker: Schema.optional(Schema.String),
+    confidence: Schema.optional(Confidence),
+    words: Schema.optional(Schema.Array(SubtitleWord)),
   }),
 )
 
@@ -33,6 +78,51 @@ export const UnifiedMediaRequest = Schema.extend(
   ParseMediaOptions,
 )
 
+const MediaFileRequest = Schema.Struct({
+  file: Schema.Struct({
+    name: Schema.String,
+    contentType: Schema.String,
+    path: Schema.String,
+  }),
+})
+
+// Internal shape of a parse request as engines receive it, uploads are
+// referenced by their path on disk. `keywords` are the terms of the tenant's
+// glossary, boosted by engines that support it
+export const MediaRequest = Schema.extend(
+  Schema.Union(ParseMediaUrlRequest, MediaFileRequest),
+  Schema.Struct({
+    ...ParseMediaOptions.fields,
+    keywords: Schema.optional(Schema.Array(Schema.String)),
+  }),
+)
+
+// Parse request persisted with its job so it can be retried. Uploads are kept
+// in the blob store, jobs stored before that reference a path on disk
+export const StoredMediaRequest = Schema.extend(
+  Schema.Union(
+    ParseMediaUrlRequest,
+    MediaFileRequest,
+    Schema.Struct({
+      file: Schema.Struct({
+        name: Schema.String,
+        contentType: Schema.String,
+        blobKey: Schema.String,
+      }),
+    }),
+  ),
+  ParseMediaOptions,
+)
+
+// `replacements` are reported once the glossary was applied to the cues
+// `engine` is the engine that answered, the fallback when the requested one is paused
 export const MediaResponse = Schema.Struct({
   json: SubtitleJson,
+  engine: Schema.optional(MediaEngine),
+  replacements: Schema.optional(Schema.Array(GlossaryReplacement)),
+})
+
+export const MediaJobAccepted = Schema.Struct({
+  jobId: Schema.Number,
+  status: Schema.Literal('pending'),
 })
@@ -0,0 +1,29 @@
+import { HttpApiSchema } from '@effect/platform'
+import { Data, type Duration, Schema } from 'effect'
+
+// API boundary errors (for HttpApi serialization)
+export class TooManyRequests extends Schema.TaggedError<TooManyRequests>()(
+  'TooManyRequests',
+  {
+    reason: Schema.String,
+    // Seconds to wait before retrying, also sent as the `Retry-After` header
+    retryAfter: Schema.Number,
+  },
+  HttpApiSchema.annotations({ status: 429 }),
+) {}
+
+// Internal domain errors (for business logic)
+export class RateLimitExceededError extends Data.TaggedError(
+  'RateLimitExceededError',
+)<{
+  readonly key: string
+  readonly retryAfter: Duration.Duration
+}> {}
+
+export class JobQuotaExceededError extends Data.TaggedError(
+  'JobQuotaExceededError',
+)<{
+  readonly tenant: string
+  readonly limit: number
+  readonly retryAfter: Duration.Duration
+}> {}
@@ -0,0 +1,17 @@
+import { Metric } from 'effect'
+
+// Exported over OTLP along with the traces
+
+export const rateLimitRequests = Metric.counter('rate_limit_requests', {
+  description: 'Requests checked by the rate limiter, tagged by outcome',
+  incremental: true,
+})
+
+export const jobQuotaRejections = Metric.counter('job_quota_rejections', {
+  description: 'Jobs rejected because the tenant had too many in flight',
+  incremental: true,
+})
+
+export const inFlightJobs = Metric.gauge('in_flight_jobs', {
+  description: 'Pending and in-progress jobs of a tenant at submission time',
+})
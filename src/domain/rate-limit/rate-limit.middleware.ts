@@ -0,0 +1,7 @@
+import { HttpApiMiddleware } from '@effect/platform'
+import { TooManyRequests } from './rate-limit.errors'
+
+// Token bucket per API key, or per client address for anonymous requests
+export class RateLimit extends HttpApiMiddleware.Tag<RateLimit>()('RateLimit', {
+  failure: TooManyRequests,
+}) {}
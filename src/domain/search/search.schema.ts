@@ -0,0 +1,34 @@
+import { Schema } from 'effect'
+
+// Every word of `q` must be in a cue, words are matched by their stem
+export const SearchParams = Schema.Struct({
+  q: Schema.NonEmptyTrimmedString,
+  language: Schema.optional(Schema.String),
+  limit: Schema.optional(
+    Schema.NumberFromString.pipe(Schema.int(), Schema.between(1, 50)),
+  ),
+})
+export type SearchQuery = typeof SearchParams.Type
+
+// `snippet` is the cue text around the matches as escaped HTML, each match
+// wrapped in `<mark>`.
+// `language` is the job language or a translation, see `?lang=` on the result
+export const SearchHit = Schema.Struct({
+  cue: Schema.Number,
+  start: Schema.Number,
+  end: Schema.Number,
+  language: Schema.optional(Schema.String),
+  snippet: Schema.String,
+})
+
+export const SearchResult = Schema.Struct({
+  id: Schema.Number,
+  name: Schema.String,
+  language: Schema.optional(Schema.String),
+  hits: Schema.Array(SearchHit),
+})
+
+// Jobs with the best matching cue first, their hits in the order they are spoken
+export const SearchResponse = Schema.Struct({
+  results: Schema.Array(SearchResult),
+})
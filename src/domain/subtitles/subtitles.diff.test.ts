@@ -0,0 +1,34 @@
+import { describe, expect, it } from '@effect/vitest'
+import { diffCues } from './subtitles.diff'
+
+const hello = { start: 0, end: 1000, text: 'Hello.' }
+const course = { start: 1000, end: 2000, text: 'Welcome to the course.' }
+const effects = { start: 2000, end: 3000, text: 'Today, effects.' }
+
+describe('subtitles diff', () => {
+  it('should report nothing for identical cues', () => {
+    expect(diffCues([hello, course], [hello, course])).toEqual([])
+  })
+
+  it('should report added, removed and changed cues', () => {
+    const retimed = { ...course, end: 1800 }
+    const bye = { start: 4000, end: 5000, text: 'Bye.' }
+
+    expect(diffCues([hello, course, effects], [retimed, effects, bye])).toEqual(
+      [
+        { _tag: 'changed', index: 0, before: hello, after: retimed },
+        { _tag: 'removed', index: 1, cue: course },
+        { _tag: 'added', index: 2, cue: bye },
+      ],
+    )
+  })
+
+  it('should ignore word timings and confidence', () => {
+    expect(
+      diffCues(
+        [{ ...hello, confidence: 0.5 }],
+        [{ ...hello, words: [{ start: 0, end: 1000, text: 'Hello.' }] }],
+      ),
+    ).toEqual([])
+  })
+})
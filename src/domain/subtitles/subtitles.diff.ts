@@ -0,0 +1,97 @@
+import type { Schema } from 'effect'
+import type { SubtitleJson } from '../media/media.schema'
+
+type SubtitleJsonType = Schema.Schema.Type<typeof SubtitleJson>
+type Cue = SubtitleJsonType[number]
+
+// `index` is the position in the older cues for removals, in the newer ones otherwise
+export type SubtitleChange =
+  | { readonly _tag: 'added'; readonly index: number; readonly cue: Cue }
+  | { readonly _tag: 'removed'; readonly index: number; readonly cue: Cue }
+  | {
+      readonly _tag: 'changed'
+      readonly index: number
+      readonly before: Cue
+      readonly after: Cue
+    }
+
+// Word timings and confidence only follow the text and timing
+const isSameCue = (a: Cue, b: Cue) =>
+  a.start === b.start &&
+  a.end === b.end &&
+  a.text === b.text &&
+  a.speaker === b.speaker
+
+// Length of the longest common run of `from[i..]` and `to[j..]`, by `i` and `j`
+const commonRuns = (from: SubtitleJsonType, to: SubtitleJsonType) => {
+  const width = to.length + 1
+  const runs = new Uint32Array((from.length + 1) * width)
+  const runAt = (i: number, j: number) => runs[i * width + j] ?? 0
+
+  for (let i = from.length - 1; i >= 0; i--) {
+    for (let j = to.length - 1; j >= 0; j--) {
+      const a = from[i]
+      const b = to[j]
+      runs[i * width + j] =
+        a && b && isSameCue(a, b)
+          ? runAt(i + 1, j + 1) + 1
+          : Math.max(runAt(i + 1, j), runAt(i, j + 1))
+    }
+  }
+
+  return runAt
+}
+
+type Edited = { readonly index: number; readonly cue: Cue }
+
+// Removals and additions between two common cues, paired up as changes
+const toChanges = (
+  removed: readonly Edited[],
+  added: readonly Edited[],
+): SubtitleChange[] => [
+  ...added.map(({ index, cue }, position): SubtitleChange => {
+    const before = removed[position]?.cue
+    return before
+      ? { _tag: 'changed', index, before, after: cue }
+      : { _tag: 'added', index, cue }
+  }),
+  ...removed
+    .slice(added.length)
+    .map(({ index, cue }): SubtitleChange => ({ _tag: 'removed', index, cue })),
+]
+
+/**
+ * Cue changes between two results, from the longest common run of identical
+ * cues. Removals directly followed by additions are reported as changes.
+ */
+export const diffCues = (
+  from: SubtitleJsonType,
+  to: SubtitleJsonType,
+): SubtitleChange[] => {
+  const runAt = commonRuns(from, to)
+  const changes: SubtitleChange[] = []
+  let removed: Edited[] = []
+  let added: Edited[] = []
+  let i = 0
+  let j = 0
+
+  while (i < from.length || j < to.length) {
+    const a = from[i]
+    const b = to[j]
+    if (a && b && isSameCue(a, b)) {
+      changes.push(...toChanges(removed, added))
+      removed = []
+      added = []
+      i++
+      j++
+    } else if (b && (!a || runAt(i, j + 1) >= runAt(i + 1, j))) {
+      added.push({ index: j, cue: b })
+      j++
+    } else if (a) {
+      removed.push({ index: i, cue: a })
+      i++
+    }
+  }
+
+  return [...changes, ...toChanges(removed, added)]
+}
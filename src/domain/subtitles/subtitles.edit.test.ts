@@ -0,0 +1,83 @@
+import { describe, expect, it } from '@effect/vitest'
+import { Either } from 'effect'
+import { applySubtitleEdits } from './subtitles.edit'
+
+const cues = [
+  {
+    start: 0,
+    end: 1000,
+    text: 'Welcome to Coursiton.',
+    speaker: 'Speaker 1',
+    confidence: 0.6,
+    words: [
+      { start: 0, end: 400, text: 'Welcome' },
+      { start: 400, end: 500, text: 'to' },
+      { start: 500, end: 1000, text: 'Coursiton.' },
+    ],
+  },
+  { start: 1500, end: 2500, text: 'Lets start.' },
+  { start: 3000, end: 4000, text: 'Bye.' },
+]
+
+describe('subtitles edit', () => {
+  it('should edit, insert, delete and retime cues in order', () => {
+    const edited = applySubtitleEdits(cues, [
+      { op: 'update', index: 0, text: 'Welcome to Coursition.' },
+      { op: 'delete', index: 2 },
+      { op: 'insert', index: 2, cue: { start: 3000, end: 3500, text: 'Go!' } },
+      { op: 'update', index: 1, start: 1200, speaker: 'Speaker 2' },
+    ])
+
+    expect(edited).toEqual(
+      Either.right([
+        {
+          start: 0,
+          end: 1000,
+          text: 'Welcome to Coursition.',
+          speaker: 'Speaker 1',
+        },
+        { start: 1200, end: 2500, text: 'Lets start.', speaker: 'Speaker 2' },
+        { start: 3000, end: 3500, text: 'Go!' },
+      ]),
+    )
+  })
+
+  it('should keep engine data of cues that did not change', () => {
+    const edited = applySubtitleEdits(cues, [
+      { op: 'update', index: 0, speaker: null },
+    ])
+
+    expect(Either.getOrThrow(edited)[0]).toEqual({
+      start: 0,
+      end: 1000,
+      text: 'Welcome to Coursiton.',
+      confidence: 0.6,
+      words: cues[0]?.words,
+    })
+  })
+
+  it('should report edits pointing past the cues', () => {
+    expect(
+      applySubtitleEdits(cues, [
+        { op: 'delete', index: 2 },
+        { op: 'update', index: 2, text: 'Bye.' },
+      ]),
+    ).toEqual(Either.left([{ edit: 1, reason: 'No cue at index 2' }]))
+  })
+
+  it('should report cues that are out of order, overlap or do not last', () => {
+    expect(
+      applySubtitleEdits(cues, [
+        { op: 'update', index: 0, end: 1600 },
+        { op: 'update', index: 2, start: 4000 },
+        { op: 'insert', index: 3, cue: { start: 100, end: 200, text: 'Hm.' } },
+      ]),
+    ).toEqual(
+      Either.left([
+        { cue: 1, reason: 'Cue overlaps the previous one' },
+        { cue: 2, reason: 'Cue must end after it starts' },
+        { cue: 3, reason: 'Cue must not start before the previous one' },
+      ]),
+    )
+  })
+})
@@ -0,0 +1,80 @@
+import { Either, type Schema } from 'effect'
+import type { SubtitleJson } from '../media/media.schema'
+import type { SubtitleEdit, SubtitleEditIssue } from './subtitles.schema'
+
+type SubtitleJsonType = Schema.Schema.Type<typeof SubtitleJson>
+type Cue = SubtitleJsonType[number]
+type CueUpdate = Extract<SubtitleEdit, { readonly op: 'update' }>
+
+// Word timings and confidence come from the engine, they no longer describe a
+// cue once its text or timing changed
+const updateCue = (cue: Cue, edit: CueUpdate): Cue => {
+  const { words, confidence, speaker, ...rest } = cue
+  const unchanged =
+    (edit.start ?? cue.start) === cue.start &&
+    (edit.end ?? cue.end) === cue.end &&
+    (edit.text ?? cue.text) === cue.text
+  const nextSpeaker =
+    edit.speaker === undefined ? speaker : (edit.speaker ?? undefined)
+
+  return {
+    ...rest,
+    start: edit.start ?? cue.start,
+    end: edit.end ?? cue.end,
+    text: edit.text ?? cue.text,
+    ...(nextSpeaker === undefined ? {} : { speaker: nextSpeaker }),
+    ...(unchanged && words !== undefined ? { words } : {}),
+    ...(unchanged && confidence !== undefined ? { confidence } : {}),
+  }
+}
+
+/**
+ * Issues of cues that are not ordered, overlap or do not last, every cue must
+ * end after it starts and start once the previous one ended.
+ */
+export const validateCues = (cues: SubtitleJsonType): SubtitleEditIssue[] =>
+  cues.flatMap((cue, index): SubtitleEditIssue[] => {
+    const previous = cues[index - 1]
+    if (cue.end <= cue.start) {
+      return [{ cue: index, reason: 'Cue must end after it starts' }]
+    }
+    if (previous && cue.start < previous.start) {
+      return [
+        { cue: index, reason: 'Cue must not start before the previous one' },
+      ]
+    }
+    if (previous && cue.start < previous.end) {
+      return [{ cue: index, reason: 'Cue overlaps the previous one' }]
+    }
+    return []
+  })
+
+/**
+ * Applies edits in order, then checks the cues are still ordered and do not
+ * overlap. Fails with the first edit pointing past the cues, or every invalid
+ * cue.
+ */
+export const applySubtitleEdits = (
+  cues: SubtitleJsonType,
+  edits: readonly SubtitleEdit[],
+): Either.Either<SubtitleJsonType, readonly SubtitleEditIssue[]> => {
+  const edited = [...cues]
+
+  for (const [position, edit] of edits.entries()) {
+    const cue = edited[edit.index]
+    if (edit.op === 'insert' && edit.index <= edited.length) {
+      edited.splice(edit.index, 0, edit.cue)
+    } else if (edit.op === 'delete' && cue) {
+      edited.splice(edit.index, 1)
+    } else if (edit.op === 'update' && cue) {
+      edited[edit.index] = updateCue(cue, edit)
+    } else {
+      return Either.left([
+        { edit: position, reason: `No cue at index ${edit.index}` },
+      ])
+    }
+  }
+
+  const issues = validateCues(edited)
+  return issues.length > 0 ? Either.left(issues) : Either.right(edited)
+}
@@ -0,0 +1,28 @@
+import { Data, Schema } from 'effect'
+import { SubtitleEditIssue, SubtitleIssue } from './subtitles.schema'
+
+// API boundary errors (for HttpApi serialization)
+export class InvalidSubtitleFile extends Schema.TaggedError<InvalidSubtitleFile>()(
+  'InvalidSubtitleFile',
+  {
+    issues: Schema.Array(SubtitleIssue),
+  },
+) {}
+
+export class InvalidSubtitleEdit extends Schema.TaggedError<InvalidSubtitleEdit>()(
+  'InvalidSubtitleEdit',
+  {
+    issues: Schema.Array(SubtitleEditIssue),
+  },
+) {}
+
+// Internal domain errors (for business logic)
+export class SubtitleParseError extends Data.TaggedError('SubtitleParseError')<{
+  readonly fileName: string
+  readonly issues: readonly SubtitleIssue[]
+}> {}
+
+export class SubtitleEditError extends Data.TaggedError('SubtitleEditError')<{
+  readonly jobId: number
+  readonly issues: readonly SubtitleEditIssue[]
+}> {}
@@ -0,0 +1,185 @@
+import { describe, expect, it } from '@effect/vitest'
+import { Either } from 'effect'
+import {
+  formatSubtitles,
+  formatTimestamp,
+  negotiateSubtitleFormat,
+  splitLongCues,
+  wrapText,
+} from './subtitles.format'
+import { parseSubtitles } from './subtitles.parse'
+
+const cues = [
+  { start: 320, end: 1620, text: 'Welcome to the course.' },
+  { start: 3_723_004, end: 3_725_000, text: 'Fish & chips <3' },
+]
+
+const options = { maxLineLength: 42, maxCueDuration: 7000, language: 'en' }
+
+describe('subtitles format', () => {
+  it('should format timestamps with hours and milliseconds', () => {
+    expect(formatTimestamp(3_723_004, ',')).toBe('01:02:03,004')
+    expect(formatTimestamp(320, '.')).toBe('00:00:00.320')
+  })
+
+  it('should render SRT cues', () => {
+    expect(formatSubtitles(cues, 'srt', options)).toBe(
+      [
+        '1',
+        '00:00:00,320 --> 00:00:01,620',
+        'Welcome to the course.',
+        '',
+        '2',
+        '01:02:03,004 --> 01:02:05,000',
+        'Fish & chips <3',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  it('should render WebVTT cues', () => {
+    expect(formatSubtitles(cues, 'vtt', options)).toBe(
+      [
+        'WEBVTT',
+        '',
+        '00:00:00.320 --> 00:00:01.620',
+        'Welcome to the course.',
+        '',
+        '01:02:03.004 --> 01:02:05.000',
+        'Fish &amp; chips &lt;3',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  it('should escape WebVTT cue text so it reads back the same', () => {
+    const tricky = [{ start: 0, end: 1000, text: 'if a --> b && c <script>' }]
+    const vtt = formatSubtitles(tricky, 'vtt', options)
+
+    expect(vtt).toContain('if a --&gt; b &amp;&amp; c &lt;script&gt;')
+    expect(parseSubtitles(vtt, 'vtt')).toEqual(Either.right(tricky))
+  })
+
+  it('should name speakers with WebVTT voice tags', () => {
+    const vtt = formatSubtitles(
+      [
+        {
+          start: 320,
+          end: 1620,
+          text: 'Welcome to the course.',
+          speaker: 'Speaker 1',
+        },
+        {
+          start: 2000,
+          end: 3000,
+          text: 'Thanks.',
+          speaker: 'Q&A <host>',
+        },
+      ],
+      'vtt',
+      { ...options, maxLineLength: 10 },
+    )
+
+    expect(vtt).toBe(
+      [
+        'WEBVTT',
+        '',
+        '00:00:00.320 --> 00:00:01.620',
+        '<v Speaker 1>Welcome to',
+        'the',
+        'course.',
+        '',
+        '00:00:02.000 --> 00:00:03.000',
+        '<v Q&amp;A &lt;host&gt;>Thanks.',
+        '',
+      ].join('\n'),
+    )
+    expect(
+      Either.map(parseSubtitles(vtt, 'vtt'), (cues) =>
+        cues.map((cue) => cue.speaker),
+      ),
+    ).toEqual(Either.right(['Speaker 1', 'Q&A <host>']))
+  })
+
+  it('should render escaped TTML paragraphs', () => {
+    const ttml = formatSubtitles(cues, 'ttml', options)
+
+    expect(ttml).toContain('xml:lang="en"')
+    expect(ttml).toContain(
+      '<p begin="01:02:03.004" end="01:02:05.000">Fish &amp; chips &lt;3</p>',
+    )
+  })
+
+  it('should render plain text', () => {
+    expect(formatSubtitles(cues, 'txt', options)).toBe(
+      'Welcome to the course.\nFish & chips <3\n',
+    )
+  })
+
+  it('should wrap lines at the configured length', () => {
+    expect(wrapText('Today we talk about effects and layers', 16)).toEqual([
+      'Today we talk',
+      'about effects',
+      'and layers',
+    ])
+  })
+
+  it('should split cues longer than the maximum duration', () => {
+    expect(
+      splitLongCues(
+        [{ start: 0, end: 9000, text: 'one two three four' }],
+        5000,
+      ),
+    ).toEqual([
+      { start: 0, end: 4500, text: 'one two' },
+      { start: 4500, end: 9000, text: 'three four' },
+    ])
+  })
+
+  it('should split cues at the word timings of the engine', () => {
+    const words = [
+      { start: 0, end: 500, text: 'one' },
+      { start: 500, end: 1000, text: 'two' },
+      { start: 7000, end: 8000, text: 'three' },
+      { start: 8000, end: 9000, text: 'four' },
+    ]
+
+    expect(
+      splitLongCues(
+        [
+          {
+            start: 0,
+            end: 9000,
+            text: 'one two three four',
+            speaker: 'Speaker 1',
+            words,
+          },
+        ],
+        5000,
+      ),
+    ).toEqual([
+      {
+        start: 0,
+        end: 7000,
+        text: 'one two',
+        speaker: 'Speaker 1',
+        words: words.slice(0, 2),
+      },
+      {
+        start: 7000,
+        end: 9000,
+        text: 'three four',
+        speaker: 'Speaker 1',
+        words: words.slice(2),
+      },
+    ])
+  })
+
+  it('should prefer the format parameter over the Accept header', () => {
+    expect(negotiateSubtitleFormat('srt', 'text/vtt')).toBe('srt')
+    expect(negotiateSubtitleFormat(undefined, 'text/vtt;q=0.9, */*')).toBe(
+      'vtt',
+    )
+    expect(negotiateSubtitleFormat(undefined, '*/*')).toBe('json')
+  })
+})
@@ -0,0 +1,213 @@
+import type { Schema } from 'effect'
+import type { SubtitleJson } from '../media/media.schema'
+import { SubtitleContentTypes, type SubtitleFormat } from './subtitles.schema'
+
+type SubtitleJsonType = Schema.Schema.Type<typeof SubtitleJson>
+type Cue = SubtitleJsonType[number]
+
+export type SubtitleFormatOptions = {
+  readonly maxLineLength: number
+  readonly maxCueDuration: number
+  readonly language?: string
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+
+// Cue timings are in milliseconds, subtitle files use `HH:MM:SS<separator>mmm`
+export const formatTimestamp = (millis: number, separator: ',' | '.') => {
+  const total = Math.max(0, Math.round(millis))
+  const hours = Math.floor(total / 3_600_000)
+  const minutes = Math.floor((total % 3_600_000) / 60_000)
+  const seconds = Math.floor((total % 60_000) / 1000)
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`
+}
+
+const WHITESPACE = /\s+/
+
+export const toWords = (text: string) => text.split(WHITESPACE).filter(Boolean)
+
+const wrapLine = (text: string, maxLineLength: number) => {
+  const lines: string[] = []
+  let line = ''
+
+  for (const word of toWords(text)) {
+    if (line.length > 0 && line.length + 1 + word.length > maxLineLength) {
+      lines.push(line)
+      line = word
+    } else {
+      line = line.length > 0 ? `${line} ${word}` : word
+    }
+  }
+  if (line.length > 0) {
+    lines.push(line)
+  }
+
+  return lines
+}
+
+/**
+ * Greedy word wrap, a single word longer than the limit keeps its own line.
+ * Line breaks already in the text, such as those of segmented cues, are kept.
+ */
+export const wrapText = (text: string, maxLineLength: number) =>
+  text.split('\n').flatMap((line) => wrapLine(line, maxLineLength))
+
+/**
+ * Splits cues longer than `maxCueDuration` into consecutive cues, spreading
+ * the words evenly between them. Parts start with their first word when the
+ * engine timed the words, and last the same duration otherwise.
+ */
+export const splitLongCues = (
+  cues: SubtitleJsonType,
+  maxCueDuration: number,
+): SubtitleJsonType =>
+  cues.flatMap((cue): Cue[] => {
+    const duration = cue.end - cue.start
+    const words = toWords(cue.text)
+    const parts = Math.min(
+      Math.ceil(duration / maxCueDuration),
+      Math.max(words.length, 1),
+    )
+    if (parts <= 1) {
+      return [cue]
+    }
+
+    // Word timings only apply while they still match the text
+    const timed = cue.words?.length === words.length ? cue.words : undefined
+    const wordAt = (part: number) => Math.round((words.length * part) / parts)
+    const boundary = (part: number) =>
+      (part > 0 && part < parts ? timed?.[wordAt(part)]?.start : undefined) ??
+      cue.start + Math.round((duration * part) / parts)
+
+    return Array.from({ length: parts }, (_, index) => ({
+      ...cue,
+      start: boundary(index),
+      end: boundary(index + 1),
+      text: words.slice(wordAt(index), wordAt(index + 1)).join(' '),
+      words: timed?.slice(wordAt(index), wordAt(index + 1)),
+    }))
+  })
+
+const escapeXml = (text: string) =>
+  text
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+
+export const toSrt = (cues: SubtitleJsonType, options: SubtitleFormatOptions) =>
+  splitLongCues(cues, options.maxCueDuration)
+    .map((cue, index) =>
+      [
+        index + 1,
+        `${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}`,
+        ...wrapText(cue.text, options.maxLineLength),
+        '',
+      ].join('\n'),
+    )
+    .join('\n')
+
+const VTT_ANNOTATION_BREAK = /\s*[\r\n]+\s*/g
+
+// Cue text is markup in WebVTT, so it must not open tags or end the cue timing
+const escapeVtt = (text: string) =>
+  text.replaceAll('&', '&amp;').replaceAll('<', '&lt;').replaceAll('>', '&gt;')
+
+// Voice spans name the speaker of a cue, `<v Speaker 1>`, until its end.
+// The name is escaped like the cue text and kept on one line
+const toVoiceTag = (speaker: string) =>
+  `<v ${escapeVtt(speaker.replace(VTT_ANNOTATION_BREAK, ' ').trim())}>`
+
+export const toWebVtt = (
+  cues: SubtitleJsonType,
+  options: SubtitleFormatOptions,
+) =>
+  [
+    'WEBVTT',
+    '',
+    ...splitLongCues(cues, options.maxCueDuration).map((cue) =>
+      [
+        `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}`,
+        ...wrapText(cue.text, options.maxLineLength).map((line, index) =>
+          index === 0 && cue.speaker
+            ? `${toVoiceTag(cue.speaker)}${escapeVtt(line)}`
+            : escapeVtt(line),
+        ),
+        '',
+      ].join('\n'),
+    ),
+  ].join('\n')
+
+export const toTtml = (
+  cues: SubtitleJsonType,
+  options: SubtitleFormatOptions,
+) => {
+  const paragraphs = splitLongCues(cues, options.maxCueDuration).map(
+    (cue) =>
+      `      <p begin="${formatTimestamp(cue.start, '.')}" end="${formatTimestamp(cue.end, '.')}">${wrapText(
+        cue.text,
+        options.maxLineLength,
+      )
+        .map(escapeXml)
+        .join('<br/>')}</p>`,
+  )
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="http://www.w3.org/ns/ttml" xml:lang="${escapeXml(options.language ?? '')}">`,
+    '  <body>',
+    '    <div>',
+    ...paragraphs,
+    '    </div>',
+    '  </body>',
+    '</tt>',
+    '',
+  ].join('\n')
+}
+
+export const toPlainText = (cues: SubtitleJsonType) =>
+  cues.map((cue) => `${toWords(cue.text).join(' ')}\n`).join('')
+
+const formatters: Record<
+  Exclude<SubtitleFormat, 'json'>,
+  (cues: SubtitleJsonType, options: SubtitleFormatOptions) => string
+> = {
+  srt: toSrt,
+  vtt: toWebVtt,
+  ttml: toTtml,
+  txt: toPlainText,
+}
+
+/**
+ * Renders cues in a subtitle file format, `json` is served as is by the API.
+ */
+export const formatSubtitles = (
+  cues: SubtitleJsonType,
+  format: Exclude<SubtitleFormat, 'json'>,
+  options: SubtitleFormatOptions,
+) => formatters[format](cues, options)
+
+/**
+ * Picks the format from `?format=` first, then from the `Accept` header.
+ */
+export const negotiateSubtitleFormat = (
+  format: SubtitleFormat | undefined,
+  accept: string | undefined,
+): SubtitleFormat => {
+  if (format) {
+    return format
+  }
+
+  const accepted = (accept ?? '')
+    .split(',')
+    .map((type) => type.split(';')[0]?.trim().toLowerCase())
+  const match = accepted
+    .map((type) =>
+      (Object.keys(SubtitleContentTypes) as SubtitleFormat[]).find(
+        (candidate) => SubtitleContentTypes[candidate] === type,
+      ),
+    )
+    .find((candidate) => candidate !== undefined)
+
+  return match ?? 'json'
+}
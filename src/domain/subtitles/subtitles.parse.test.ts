@@ -0,0 +1,111 @@
+import { describe, expect, it } from '@effect/vitest'
+import { Either } from 'effect'
+import { detectSubtitleFormat, parseSubtitles } from './subtitles.parse'
+
+const srt = [
+  '1',
+  '00:00:00,320 --> 00:00:01,620',
+  'Welcome to the course.',
+  '',
+  '2',
+  '01:02:03,004 --> 01:02:05,000',
+  'Today we talk',
+  'about effects.',
+  '',
+].join('\r\n')
+
+const vtt = [
+  'WEBVTT - Lecture 1',
+  '',
+  'NOTE exported by hand',
+  '',
+  'intro',
+  '00:00.320 --> 00:01.620 align:start',
+  '<v Teacher>Welcome to the course.</v>',
+  '',
+  '01:02:03.004 --> 01:02:05.000',
+  'Fish &amp; chips',
+].join('\n')
+
+describe('parseSubtitles', () => {
+  it('should parse SRT cues', () => {
+    expect(parseSubtitles(srt, 'srt')).toEqual(
+      Either.right([
+        { start: 320, end: 1620, text: 'Welcome to the course.' },
+        {
+          start: 3_723_004,
+          end: 3_725_000,
+          text: 'Today we talk about effects.',
+        },
+      ]),
+    )
+  })
+
+  it('should parse WebVTT cues with identifiers, settings, tags and voices', () => {
+    expect(parseSubtitles(vtt, 'vtt')).toEqual(
+      Either.right([
+        {
+          start: 320,
+          end: 1620,
+          text: 'Welcome to the course.',
+          speaker: 'Teacher',
+        },
+        { start: 3_723_004, end: 3_725_000, text: 'Fish & chips' },
+      ]),
+    )
+  })
+
+  it('should report every malformed SRT cue with its line', () => {
+    const malformed = [
+      'one',
+      '00:00:00,320 --> 00:00:01,620',
+      'Missing index',
+      '',
+      '2',
+      '00:00:05,000 -> 00:00:06,000',
+      'Bad arrow',
+      '',
+      '3',
+      '00:00:09,000 --> 00:00:08,000',
+      'Backwards',
+      '',
+      '4',
+      '00:00:10,000 --> 00:00:11,000',
+    ].join('\n')
+
+    expect(parseSubtitles(malformed, 'srt')).toEqual(
+      Either.left([
+        { line: 1, reason: 'Expected a numeric cue index' },
+        {
+          line: 6,
+          reason: 'Expected a timing line like "00:00:01,000 --> 00:00:02,000"',
+        },
+        { line: 10, reason: 'Cue must end after it starts' },
+        { line: 14, reason: 'Cue has no text' },
+      ]),
+    )
+  })
+
+  it('should require the WebVTT header', () => {
+    expect(parseSubtitles(srt, 'vtt')).toEqual(
+      Either.left([
+        { line: 1, reason: 'Expected the file to start with "WEBVTT"' },
+      ]),
+    )
+  })
+
+  it('should reject files without cues', () => {
+    expect(parseSubtitles('WEBVTT\n', 'vtt')).toEqual(
+      Either.left([{ line: 1, reason: 'File contains no cues' }]),
+    )
+  })
+})
+
+describe('detectSubtitleFormat', () => {
+  it('should detect the format from the file name, then the content', () => {
+    expect(detectSubtitleFormat('lecture.VTT', srt)).toBe('vtt')
+    expect(detectSubtitleFormat('lecture.srt', vtt)).toBe('srt')
+    expect(detectSubtitleFormat('lecture.txt', `\uFEFF${vtt}`)).toBe('vtt')
+    expect(detectSubtitleFormat('lecture', srt)).toBe('srt')
+  })
+})
@@ -0,0 +1,217 @@
+import { Either, type Schema } from 'effect'
+import type { SubtitleJson } from '../media/media.schema'
+import type { SubtitleImportFormat, SubtitleIssue } from './subtitles.schema'
+
+type SubtitleJsonType = Schema.Schema.Type<typeof SubtitleJson>
+type Cue = SubtitleJsonType[number]
+
+type Block = {
+  // 1-based line number of the first line in the block
+  readonly line: number
+  readonly lines: readonly string[]
+}
+
+const BYTE_ORDER_MARK = /^\uFEFF/
+const LINE_BREAK = /\r\n|\r|\n/
+const SRT_INDEX = /^\d+$/
+const SRT_TIMESTAMP = /^(\d{2,}):([0-5]\d):([0-5]\d)[,.](\d{3})$/
+const VTT_TIMESTAMP = /^(?:(\d{2,}):)?([0-5]\d):([0-5]\d)\.(\d{3})$/
+const VTT_HEADER = /^WEBVTT(?:[ \t].*)?$/
+const VTT_METADATA_BLOCK = /^(?:NOTE|STYLE|REGION)(?:[ \t]|$)/
+const VTT_TAG = /<[^>]*>/g
+const VTT_VOICE = /<v(?:\.[^\s>]*)?[ \t]+([^>]+)>/
+const WHITESPACE = /\s+/
+
+const toBlocks = (content: string) => {
+  const blocks: Block[] = []
+  let current: string[] = []
+  let start = 1
+
+  content
+    .replace(BYTE_ORDER_MARK, '')
+    .split(LINE_BREAK)
+    .forEach((line, index) => {
+      if (line.trim().length === 0) {
+        if (current.length > 0) {
+          blocks.push({ line: start, lines: current })
+        }
+        current = []
+        return
+      }
+      if (current.length === 0) {
+        start = index + 1
+      }
+      current.push(line)
+    })
+  if (current.length > 0) {
+    blocks.push({ line: start, lines: current })
+  }
+
+  return blocks
+}
+
+const parseTimestamp = (value: string, pattern: RegExp) => {
+  const match = pattern.exec(value.trim())
+  if (!match) {
+    return undefined
+  }
+  const [, hours = '0', minutes = '0', seconds = '0', millis = '0'] = match
+  return (
+    Number(hours) * 3_600_000 +
+    Number(minutes) * 60_000 +
+    Number(seconds) * 1000 +
+    Number(millis)
+  )
+}
+
+const parseTiming = (line: string, pattern: RegExp) => {
+  const [from, rest] = line.split('-->')
+  // WebVTT allows cue settings after the end timestamp
+  const to = rest?.trim().split(WHITESPACE)[0]
+  const start = from === undefined ? undefined : parseTimestamp(from, pattern)
+  const end = to === undefined ? undefined : parseTimestamp(to, pattern)
+  return start === undefined || end === undefined ? undefined : { start, end }
+}
+
+const parseCue = (
+  block: Block,
+  timingIndex: number,
+  pattern: RegExp,
+  example: string,
+  cleanText: (text: string) => string,
+): Either.Either<Cue, SubtitleIssue> => {
+  const timingLine = block.line + timingIndex
+  const timingText = block.lines[timingIndex]
+  const timing =
+    timingText === undefined ? undefined : parseTiming(timingText, pattern)
+
+  if (!timing) {
+    return Either.left({
+      line: timingLine,
+      reason: `Expected a timing line like "${example}"`,
+    })
+  }
+  if (timing.end <= timing.start) {
+    return Either.left({
+      line: timingLine,
+      reason: 'Cue must end after it starts',
+    })
+  }
+
+  const text = block.lines
+    .slice(timingIndex + 1)
+    .map(cleanText)
+    .join(' ')
+    .trim()
+  if (text.length === 0) {
+    return Either.left({ line: timingLine, reason: 'Cue has no text' })
+  }
+
+  return Either.right({ ...timing, text })
+}
+
+const collect = (
+  results: readonly Either.Either<Cue, SubtitleIssue>[],
+): Either.Either<SubtitleJsonType, readonly SubtitleIssue[]> => {
+  const issues = results.filter(Either.isLeft).map((result) => result.left)
+  const cues = results.filter(Either.isRight).map((result) => result.right)
+
+  if (issues.length > 0) {
+    return Either.left(issues)
+  }
+  if (cues.length === 0) {
+    return Either.left([{ line: 1, reason: 'File contains no cues' }])
+  }
+  return Either.right(cues)
+}
+
+const parseSrt = (content: string) =>
+  collect(
+    toBlocks(content).map((block) =>
+      SRT_INDEX.test(block.lines[0]?.trim() ?? '')
+        ? parseCue(
+            block,
+            1,
+            SRT_TIMESTAMP,
+            '00:00:01,000 --> 00:00:02,000',
+            (text) => text.trim(),
+          )
+        : Either.left({
+            line: block.line,
+            reason: 'Expected a numeric cue index',
+          }),
+    ),
+  )
+
+const cleanVttText = (text: string) =>
+  text
+    .replace(VTT_TAG, '')
+    .replaceAll('&lt;', '<')
+    .replaceAll('&gt;', '>')
+    .replaceAll('&nbsp;', ' ')
+    .replaceAll('&amp;', '&')
+    .trim()
+
+// The first voice span of a cue names its speaker
+const findVttSpeaker = (block: Block) =>
+  block.lines
+    .map((line) => VTT_VOICE.exec(line)?.[1])
+    .map((speaker) => speaker && cleanVttText(speaker))
+    .find((speaker) => speaker !== undefined && speaker.length > 0)
+
+const parseVtt = (content: string) => {
+  const [header, ...blocks] = toBlocks(content)
+
+  if (
+    !(header && header.line === 1 && VTT_HEADER.test(header.lines[0] ?? ''))
+  ) {
+    return Either.left([
+      { line: 1, reason: 'Expected the file to start with "WEBVTT"' },
+    ])
+  }
+
+  return collect(
+    blocks
+      .filter((block) => !VTT_METADATA_BLOCK.test(block.lines[0] ?? ''))
+      .map((block) =>
+        parseCue(
+          block,
+          // Cues may start with an identifier line
+          block.lines[0]?.includes('-->') ? 0 : 1,
+          VTT_TIMESTAMP,
+          '00:00:01.000 --> 00:00:02.000',
+          cleanVttText,
+        ).pipe(
+          Either.map((cue) => {
+            const speaker = findVttSpeaker(block)
+            return speaker === undefined ? cue : { ...cue, speaker }
+          }),
+        ),
+      ),
+  )
+}
+
+/**
+ * Parses SRT or WebVTT content into cues, or every issue found with its line number.
+ */
+export const parseSubtitles = (
+  content: string,
+  format: SubtitleImportFormat,
+): Either.Either<SubtitleJsonType, readonly SubtitleIssue[]> =>
+  format === 'vtt' ? parseVtt(content) : parseSrt(content)
+
+export const detectSubtitleFormat = (
+  fileName: string,
+  content: string,
+): SubtitleImportFormat => {
+  const name = fileName.toLowerCase()
+  if (name.endsWith('.vtt')) {
+    return 'vtt'
+  }
+  if (name.endsWith('.srt')) {
+    return 'srt'
+  }
+  return content.replace(BYTE_ORDER_MARK, '').startsWith('WEBVTT')
+    ? 'vtt'
+    : 'srt'
+}
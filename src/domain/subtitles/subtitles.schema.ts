@@ -0,0 +1,123 @@
+import { HttpApiSchema, Multipart } from '@effect/platform'
+import { Schema } from 'effect'
+
+export const SubtitleFormat = Schema.Literal(
+  'json',
+  'srt',
+  'vtt',
+  'ttml',
+  'txt',
+)
+export type SubtitleFormat = typeof SubtitleFormat.Type
+
+export const SubtitleContentTypes: Record<SubtitleFormat, string> = {
+  json: 'application/json',
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  ttml: 'application/ttml+xml',
+  txt: 'text/plain',
+}
+
+const PositiveIntFromString = Schema.NumberFromString.pipe(
+  Schema.int(),
+  Schema.positive(),
+)
+
+// `format` picks the output, the limits override the configured defaults
+export const SubtitleExportParams = Schema.Struct({
+  format: Schema.optional(SubtitleFormat),
+  maxLineLength: Schema.optional(PositiveIntFromString),
+  maxCueDuration: Schema.optional(PositiveIntFromString),
+})
+
+export const SegmentationPreset = Schema.Literal('netflix', 'broadcast')
+export type SegmentationPreset = typeof SegmentationPreset.Type
+
+const PositiveInt = Schema.Number.pipe(Schema.int(), Schema.positive())
+
+// Durations and gaps in milliseconds, every rule overrides the preset
+const SegmentationRulesOverride = Schema.Struct({
+  preset: Schema.optional(SegmentationPreset),
+  maxCharsPerLine: Schema.optional(PositiveInt),
+  maxLines: Schema.optional(PositiveInt),
+  minDuration: Schema.optional(PositiveInt),
+  maxDuration: Schema.optional(PositiveInt),
+  maxCharsPerSecond: Schema.optional(Schema.Number.pipe(Schema.positive())),
+  minGap: Schema.optional(
+    Schema.Number.pipe(Schema.int(), Schema.nonNegative()),
+  ),
+})
+
+// A preset name, or rules on top of one (Netflix-style when none is given)
+export const SubtitleSegmentation = Schema.Union(
+  SegmentationPreset,
+  SegmentationRulesOverride,
+)
+export type SubtitleSegmentation = typeof SubtitleSegmentation.Type
+
+export const SubtitleFile = HttpApiSchema.Text({
+  contentType: 'text/plain',
+}).annotations({
+  description: 'SRT, WebVTT, TTML or plain text subtitles, see `format`',
+})
+
+export const SubtitleImportFormat = Schema.Literal('srt', 'vtt')
+export type SubtitleImportFormat = typeof SubtitleImportFormat.Type
+
+// `format` is detected from the file name or content when omitted
+export const ImportSubtitlesRequest = HttpApiSchema.Multipart(
+  Schema.Struct({
+    file: Multipart.SingleFileSchema,
+    format: Schema.optional(SubtitleImportFormat),
+    language: Schema.optional(Schema.String),
+  }),
+)
+
+export const SubtitleIssue = Schema.Struct({
+  line: Schema.Number,
+  reason: Schema.String,
+})
+export type SubtitleIssue = typeof SubtitleIssue.Type
+
+const CueIndex = Schema.Number.pipe(Schema.int(), Schema.nonNegative())
+const CueTime = Schema.Number.pipe(Schema.int(), Schema.nonNegative())
+
+// Cue as written by editors, word timings and confidence are left to engines
+const EditedCue = Schema.Struct({
+  start: CueTime,
+  end: CueTime,
+  text: Schema.NonEmptyTrimmedString,
+  speaker: Schema.optional(Schema.NonEmptyTrimmedString),
+})
+
+// Edits apply in order, indexes point into the cues as left by the edits before.
+// Retiming is an update of `start` and `end`, a `null` speaker removes it
+export const SubtitleEdit = Schema.Union(
+  Schema.Struct({
+    op: Schema.Literal('update'),
+    index: CueIndex,
+    start: Schema.optional(CueTime),
+    end: Schema.optional(CueTime),
+    text: Schema.optional(Schema.NonEmptyTrimmedString),
+    speaker: Schema.optional(Schema.NullOr(Schema.NonEmptyTrimmedString)),
+  }),
+  Schema.Struct({
+    op: Schema.Literal('insert'),
+    index: CueIndex,
+    cue: EditedCue,
+  }),
+  Schema.Struct({
+    op: Schema.Literal('delete'),
+    index: CueIndex,
+  }),
+)
+export type SubtitleEdit = typeof SubtitleEdit.Type
+
+// `edit` is the position of a failed edit in the request, `cue` the index of
+// an invalid cue once every edit is applied
+export const SubtitleEditIssue = Schema.Struct({
+  edit: Schema.optional(Schema.Number),
+  cue: Schema.optional(Schema.Number),
+  reason: Schema.String,
+})
+export type SubtitleEditIssue = typeof SubtitleEditIssue.Type
@@ -0,0 +1,148 @@
+import { describe, expect, it } from '@effect/vitest'
+import {
+  SegmentationPresets,
+  resolveSegmentationRules,
+  segmentCues,
+} from './subtitles.segment'
+
+const rules = SegmentationPresets.netflix
+
+const lecture = [
+  'Welcome to the course on functional programming, where we will learn how',
+  'to build reliable software from small pieces that compose well together.',
+  'In the first part we look at pure functions and immutable data,',
+  'then at how effects describe work that talks to the outside world.',
+  'By the end you will have built a small service of your own.',
+].join(' ')
+
+describe('subtitles segmentation', () => {
+  it('should split long utterances into cues that fit on screen', () => {
+    const cues = segmentCues([{ start: 0, end: 30_000, text: lecture }], rules)
+
+    expect(cues.length).toBeGreaterThan(4)
+    for (const cue of cues) {
+      const lines = cue.text.split('\n')
+      expect(lines.length).toBeLessThanOrEqual(rules.maxLines)
+      expect(lines.every((line) => line.length <= 42)).toBe(true)
+      expect(cue.end - cue.start).toBeLessThanOrEqual(rules.maxDuration)
+    }
+    expect(cues.map(({ text }) => text.replaceAll('\n', ' ')).join(' ')).toBe(
+      lecture,
+    )
+  })
+
+  it('should break cues at sentence ends', () => {
+    const cues = segmentCues(
+      [
+        {
+          start: 0,
+          end: 4000,
+          text: 'This is the first sentence. And this is the second one.',
+        },
+      ],
+      rules,
+    )
+
+    expect(cues.map(({ text }) => text)).toEqual([
+      'This is the first sentence.',
+      'And this is the second one.',
+    ])
+  })
+
+  it('should merge fragments into one cue', () => {
+    const cues = segmentCues(
+      [
+        { start: 0, end: 400, text: 'So' },
+        { start: 400, end: 900, text: 'what do we' },
+        { start: 900, end: 1800, text: 'do next?' },
+      ],
+      rules,
+    )
+
+    expect(cues).toEqual([
+      { start: 0, end: 1800, text: 'So what do we do next?' },
+    ])
+  })
+
+  it('should hold short and fast cues until they can be read', () => {
+    const cues = segmentCues(
+      [
+        { start: 0, end: 200, text: 'Hi.' },
+        {
+          start: 2000,
+          end: 3000,
+          text: 'Forty characters spoken in one second.',
+        },
+        { start: 4000, end: 6000, text: 'Done.' },
+      ],
+      rules,
+    )
+
+    expect(cues.map(({ start, end }) => [start, end])).toEqual([
+      [0, 833],
+      // 38 characters at 20 per second, up to a gap before the next cue
+      [2000, 3900],
+      [4000, 6000],
+    ])
+  })
+
+  it('should never overlap cues', () => {
+    const cues = segmentCues(
+      [
+        { start: 0, end: 3000, text: 'The engine returned these cues.' },
+        { start: 2500, end: 5000, text: 'They overlap each other.' },
+        { start: 2550, end: 2600, text: 'Badly.' },
+      ],
+      rules,
+    )
+
+    cues.slice(1).forEach((cue, index) => {
+      expect(cue.start).toBeGreaterThanOrEqual(cues[index]?.end ?? 0)
+    })
+  })
+
+  it('should keep speakers apart and engine word timings', () => {
+    const words = [
+      { start: 0, end: 300, text: 'Ready', confidence: 0.9 },
+      { start: 300, end: 900, text: 'now?', confidence: 0.7 },
+    ]
+    const cues = segmentCues(
+      [
+        {
+          start: 0,
+          end: 900,
+          text: 'Ready now?',
+          speaker: 'Speaker 1',
+          words,
+        },
+        { start: 1000, end: 1500, text: 'Yes', speaker: 'Speaker 2' },
+      ],
+      rules,
+    )
+
+    expect(cues).toEqual([
+      {
+        start: 0,
+        end: 900,
+        text: 'Ready now?',
+        speaker: 'Speaker 1',
+        confidence: 0.8,
+        words,
+      },
+      { start: 1000, end: 1833, text: 'Yes', speaker: 'Speaker 2' },
+    ])
+  })
+
+  it('should resolve presets with overrides', () => {
+    expect(resolveSegmentationRules('broadcast')).toBe(
+      SegmentationPresets.broadcast,
+    )
+    expect(
+      resolveSegmentationRules({ preset: 'broadcast', maxLines: 1 }),
+    ).toEqual({ ...SegmentationPresets.broadcast, maxLines: 1 })
+    expect(resolveSegmentationRules({ maxCharsPerSecond: 17 })).toEqual({
+      ...SegmentationPresets.netflix,
+      maxCharsPerSecond: 17,
+    })
+  })
+})
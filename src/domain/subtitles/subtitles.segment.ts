@@ -0,0 +1,264 @@
+import { type Schema, Struct } from 'effect'
+import type { SubtitleJson } from '../media/media.schema'
+import { toWords, wrapText } from './subtitles.format'
+import type {
+  SegmentationPreset,
+  SubtitleSegmentation,
+} from './subtitles.schema'
+
+type SubtitleJsonType = Schema.Schema.Type<typeof SubtitleJson>
+type Cue = SubtitleJsonType[number]
+
+export type SegmentationRules = {
+  readonly maxCharsPerLine: number
+  readonly maxLines: number
+  readonly minDuration: number
+  readonly maxDuration: number
+  readonly maxCharsPerSecond: number
+  readonly minGap: number
+}
+
+export const SegmentationPresets: Record<
+  SegmentationPreset,
+  SegmentationRules
+> = {
+  // Netflix timed text style guide, adult programmes at 24 frames per second
+  netflix: {
+    maxCharsPerLine: 42,
+    maxLines: 2,
+    minDuration: 833,
+    maxDuration: 7000,
+    maxCharsPerSecond: 20,
+    minGap: 83,
+  },
+  // BBC and EBU guidelines at 25 frames per second
+  broadcast: {
+    maxCharsPerLine: 37,
+    maxLines: 2,
+    minDuration: 1000,
+    maxDuration: 6000,
+    maxCharsPerSecond: 15,
+    minGap: 80,
+  },
+}
+
+export const resolveSegmentationRules = (
+  segmentation: SubtitleSegmentation,
+): SegmentationRules =>
+  typeof segmentation === 'string'
+    ? SegmentationPresets[segmentation]
+    : {
+        ...SegmentationPresets[segmentation.preset ?? 'netflix'],
+        ...Struct.omit(segmentation, 'preset'),
+      }
+
+// Silence that always ends a cue, in milliseconds
+const PAUSE = 1000
+
+const SENTENCE_END = /[.!?…]["')\]]*$/
+const CLAUSE_END = /[,;:–—]["')\]]*$/
+
+type TimedWord = {
+  readonly text: string
+  readonly start: number
+  readonly end: number
+  readonly speaker: string | undefined
+  readonly confidence: number | undefined
+  // Whether the engine timed the word, or it was given a share of its cue
+  readonly timed: boolean
+}
+
+// Words timed by the engine are kept, as long as they still match the text.
+// Otherwise words get a share of their cue by their length
+const toTimedWords = (cue: Cue): TimedWord[] => {
+  const words = toWords(cue.text)
+  if (cue.words && cue.words.length === words.length) {
+    return cue.words.map((word) => ({
+      ...word,
+      speaker: cue.speaker,
+      confidence: word.confidence ?? cue.confidence,
+      timed: true,
+    }))
+  }
+
+  const length = words.join(' ').length
+  const duration = cue.end - cue.start
+  let offset = 0
+
+  return words.map((text) => {
+    const start = cue.start + Math.round((duration * offset) / length)
+    offset += text.length
+    const end = cue.start + Math.round((duration * offset) / length)
+    offset += 1
+    return {
+      text,
+      start,
+      end,
+      speaker: cue.speaker,
+      confidence: cue.confidence,
+      timed: false,
+    }
+  })
+}
+
+const blockText = (block: readonly TimedWord[]) =>
+  block.map(({ text }) => text).join(' ')
+
+const blockDuration = (block: readonly TimedWord[]) =>
+  (block.at(-1)?.end ?? 0) - (block[0]?.start ?? 0)
+
+const fitsRules = (block: readonly TimedWord[], rules: SegmentationRules) =>
+  wrapText(blockText(block), rules.maxCharsPerLine).length <= rules.maxLines &&
+  blockDuration(block) <= rules.maxDuration
+
+// Another speaker always starts a new cue, a new sentence does unless the
+// current one would be too short
+const endsCue = (
+  block: readonly TimedWord[],
+  word: TimedWord,
+  rules: SegmentationRules,
+) => {
+  const last = block.at(-1)
+  return (
+    last !== undefined &&
+    (word.speaker !== last.speaker ||
+      word.start - last.end >= PAUSE ||
+      (SENTENCE_END.test(last.text) &&
+        blockDuration(block) >= rules.minDuration))
+  )
+}
+
+// Index to split a full block at, the last sentence then clause end in its
+// second half, or right before the word that did not fit
+const breakIndex = (block: readonly TimedWord[]) => {
+  const candidates = Array.from(
+    { length: Math.floor(block.length / 2) },
+    (_, index) => block.length - 1 - index,
+  ).filter((index) => index > 0)
+
+  return (
+    candidates.find((index) =>
+      SENTENCE_END.test(block[index - 1]?.text ?? ''),
+    ) ??
+    candidates.find((index) => CLAUSE_END.test(block[index - 1]?.text ?? '')) ??
+    block.length
+  )
+}
+
+const segmentWords = (
+  words: readonly TimedWord[],
+  rules: SegmentationRules,
+) => {
+  const blocks: TimedWord[][] = []
+  let block: TimedWord[] = []
+
+  for (const word of words) {
+    if (endsCue(block, word, rules)) {
+      blocks.push(block)
+      block = [word]
+    } else if (block.length > 0 && !fitsRules([...block, word], rules)) {
+      const index = breakIndex(block)
+      blocks.push(block.slice(0, index))
+      block = [...block.slice(index), word]
+    } else {
+      block.push(word)
+    }
+  }
+  if (block.length > 0) {
+    blocks.push(block)
+  }
+
+  return blocks
+}
+
+// Cues read too fast or flashing by are held longer, into the silence after them
+const extendCue = (
+  cue: Cue,
+  next: Cue | undefined,
+  rules: SegmentationRules,
+) => {
+  const readingTime = (cue.text.length * 1000) / rules.maxCharsPerSecond
+  const wanted = Math.min(
+    Math.max(rules.minDuration, Math.ceil(readingTime)),
+    rules.maxDuration,
+  )
+  const limit = next === undefined ? Number.POSITIVE_INFINITY : next.start
+  return {
+    ...cue,
+    end: Math.max(cue.end, Math.min(cue.start + wanted, limit - rules.minGap)),
+  }
+}
+
+// Cues keep `minGap` between them when there is room for it, and only touch otherwise
+const separateCues = (cues: readonly Cue[], minGap: number) => {
+  const separated: Cue[] = []
+
+  for (const [index, cue] of cues.entries()) {
+    const start = Math.max(cue.start, separated.at(-1)?.end ?? cue.start)
+    const next = cues[index + 1]
+    const gapped = (next?.start ?? 0) - minGap
+    const limit =
+      next === undefined
+        ? cue.end
+        : gapped > start
+          ? gapped
+          : Math.max(next.start, start)
+    separated.push({
+      ...cue,
+      start,
+      end: Math.max(start, Math.min(cue.end, limit)),
+    })
+  }
+
+  return separated
+}
+
+const averageConfidence = (block: readonly TimedWord[]) => {
+  const confidences = block.flatMap(({ confidence }) =>
+    confidence === undefined ? [] : [confidence],
+  )
+  return confidences.length === 0
+    ? undefined
+    : confidences.reduce((sum, confidence) => sum + confidence, 0) /
+        confidences.length
+}
+
+const toCue = (block: readonly TimedWord[], rules: SegmentationRules): Cue => ({
+  start: block[0]?.start ?? 0,
+  end: block.at(-1)?.end ?? 0,
+  text: wrapText(blockText(block), rules.maxCharsPerLine).join('\n'),
+  speaker: block[0]?.speaker,
+  confidence: averageConfidence(block),
+  words: block.every(({ timed }) => timed)
+    ? block.map(({ text, start, end, confidence }) => ({
+        start,
+        end,
+        text,
+        confidence,
+      }))
+    : undefined,
+})
+
+/**
+ * Splits and merges cues to fit on screen: at most `maxLines` lines of
+ * `maxCharsPerLine`, broken at sentence and clause ends where possible, shown
+ * for `minDuration` to `maxDuration` and slow enough to read at
+ * `maxCharsPerSecond`. Cues never overlap or mix speakers. Lines are separated
+ * by `\n`.
+ */
+export const segmentCues = (
+  cues: SubtitleJsonType,
+  rules: SegmentationRules,
+): SubtitleJsonType => {
+  const words = [...cues]
+    .sort((a, b) => a.start - b.start)
+    .flatMap(toTimedWords)
+  const segmented = segmentWords(words, rules).map((block) =>
+    toCue(block, rules),
+  )
+
+  return separateCues(
+    segmented.map((cue, index) => extendCue(cue, segmented[index + 1], rules)),
+    rules.minGap,
+  )
+}
@@ -0,0 +1,8 @@
+import { Data } from 'effect'
+
+// Internal domain errors (for business logic)
+export class TranslationError extends Data.TaggedError('TranslationError')<{
+  readonly source: string
+  readonly target: string
+  readonly error: unknown
+}> {}
@@ -0,0 +1,25 @@
+import { Schema } from 'effect'
+
+// ISO 639 code with an optional region or script, such as `pt` or `pt-BR`
+const LANGUAGE_CODE = /^[a-z]{2,3}(-[A-Za-z0-9]{2,4})?$/
+
+export const LanguageCode = Schema.String.pipe(Schema.pattern(LANGUAGE_CODE))
+
+const MAX_TARGET_LANGUAGES = 10
+
+// Multipart forms send a single field as a plain string
+export const TargetLanguages = Schema.Union(
+  Schema.Array(LanguageCode),
+  Schema.transform(LanguageCode, Schema.Array(LanguageCode), {
+    strict: true,
+    decode: (language) => [language],
+    encode: ([language]) => language ?? '',
+  }),
+).pipe(Schema.maxItems(MAX_TARGET_LANGUAGES))
+
+/**
+ * Translation engines take the base language, regional variants such as
+ * `pt-BR` are translated as `pt`.
+ */
+export const toBaseLanguage = (language: string) =>
+  language.split('-')[0] ?? language
@@ -0,0 +1,28 @@
+import { Data, Schema } from 'effect'
+
+// API boundary errors (for HttpApi serialization)
+export class UploadNotFound extends Schema.TaggedError<UploadNotFound>()(
+  'UploadNotFound',
+  {},
+) {}
+
+export class UploadConflict extends Schema.TaggedError<UploadConflict>()(
+  'UploadConflict',
+  {
+    reason: Schema.String,
+  },
+) {}
+
+// Internal domain errors (for business logic)
+export class UploadNotFoundError extends Data.TaggedError(
+  'UploadNotFoundError',
+)<{
+  readonly id: string
+}> {}
+
+export class UploadConflictError extends Data.TaggedError(
+  'UploadConflictError',
+)<{
+  readonly id: string
+  readonly reason: string
+}> {}
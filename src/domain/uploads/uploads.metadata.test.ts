@@ -0,0 +1,24 @@
+import { describe, expect, it } from '@effect/vitest'
+import { parseUploadMetadata } from './uploads.metadata'
+
+describe('parseUploadMetadata', () => {
+  it('should decode base64 values', () => {
+    expect(
+      parseUploadMetadata('filename bGVjdHVyZS5tcDQ=, filetype dmlkZW8vbXA0'),
+    ).toEqual({ filename: 'lecture.mp4', filetype: 'video/mp4' })
+  })
+
+  it('should keep keys without a value', () => {
+    expect(parseUploadMetadata('is_confidential')).toEqual({
+      is_confidential: '',
+    })
+  })
+
+  it('should skip values that are not base64', () => {
+    expect(parseUploadMetadata('filename not*base64')).toEqual({})
+  })
+
+  it('should accept a missing header', () => {
+    expect(parseUploadMetadata(undefined)).toEqual({})
+  })
+})
@@ -0,0 +1,21 @@
+import { Either, Encoding } from 'effect'
+
+const WHITESPACE = /\s+/
+
+/**
+ * Decodes the tus `Upload-Metadata` header, pairs that are not valid base64
+ * are skipped and a key without a value maps to an empty string.
+ */
+export const parseUploadMetadata = (header: string | undefined) =>
+  Object.fromEntries(
+    (header ?? '')
+      .split(',')
+      .map((pair) => pair.trim().split(WHITESPACE))
+      .flatMap(([key, value = '']) => {
+        if (!key) {
+          return []
+        }
+        const decoded = Encoding.decodeBase64String(value)
+        return Either.isRight(decoded) ? [[key, decoded.right] as const] : []
+      }),
+  ) as Readonly<Record<string, string>>
@@ -0,0 +1,49 @@
+import { HttpApiSchema } from '@effect/platform'
+import { DateTime, Schema } from 'effect'
+
+// Version of the tus resumable upload protocol the upload endpoints follow
+export const TUS_VERSION = '1.0.0'
+
+export const uploadIdParam = HttpApiSchema.param('uploadId', Schema.UUID)
+
+const ByteCountFromString = Schema.NumberFromString.pipe(
+  Schema.int(),
+  Schema.nonNegative(),
+)
+
+// `upload-metadata` is a comma separated list of `<key> <base64 value>` pairs
+export const CreateUploadHeaders = Schema.Struct({
+  'upload-length': ByteCountFromString.pipe(Schema.positive()),
+  'upload-metadata': Schema.optional(Schema.String),
+})
+
+// Chunks are appended at `upload-offset`, which must be the bytes received so far
+export const AppendUploadHeaders = Schema.Struct({
+  'upload-offset': ByteCountFromString,
+  'content-type': Schema.Literal('application/offset+octet-stream'),
+})
+
+export const UploadResponse = Schema.Struct({
+  id: Schema.UUID,
+  name: Schema.String,
+  contentType: Schema.String,
+  length: Schema.Number,
+  offset: Schema.Number,
+  createdAt: Schema.DateTimeUtc,
+  expiresAt: Schema.DateTimeUtc,
+})
+export type UploadResponse = typeof UploadResponse.Type
+
+export const isUploadComplete = (upload: UploadResponse) =>
+  upload.offset === upload.length
+
+/**
+ * Headers tus clients read the upload state from, on every upload response.
+ */
+export const uploadHeaders = (upload: UploadResponse) => ({
+  'tus-resumable': TUS_VERSION,
+  'upload-offset': String(upload.offset),
+  'upload-length': String(upload.length),
+  'upload-expires': DateTime.toDateUtc(upload.expiresAt).toUTCString(),
+  'cache-control': 'no-store',
+})
@@ -0,0 +1,25 @@
+import { Data, Schema } from 'effect'
+
+// API boundary errors (for HttpApi serialization)
+export class WebhooksDisabled extends Schema.TaggedError<WebhooksDisabled>()(
+  'WebhooksDisabled',
+  {
+    reason: Schema.String,
+  },
+) {}
+
+// Internal domain errors (for business logic)
+export class WebhookDeliveryError extends Data.TaggedError(
+  'WebhookDeliveryError',
+)<{
+  readonly jobId: number
+  readonly url: string
+  readonly reason: string
+}> {}
+
+// A `callbackUrl` was given while no `WEBHOOK_SECRET` is set to sign deliveries
+export class WebhooksDisabledError extends Data.TaggedError(
+  'WebhooksDisabledError',
+)<{
+  readonly reason: string
+}> {}
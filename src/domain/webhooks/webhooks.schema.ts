@@ -0,0 +1,29 @@
+import { Schema } from 'effect'
+import { JobResponse } from '../jobs/jobs.schema'
+
+export const WebhookEvent = Schema.Literal(
+  'job.completed',
+  'job.failed',
+  'job.cancelled',
+)
+
+// Body POSTed to the callback URL once a job is finished
+export const WebhookPayload = Schema.Struct({
+  event: WebhookEvent,
+  job: JobResponse,
+})
+
+export const WebhookDelivery = Schema.Struct({
+  id: Schema.Number,
+  jobId: Schema.Number,
+  url: Schema.String,
+  attempt: Schema.Number,
+  succeeded: Schema.Boolean,
+  statusCode: Schema.optional(Schema.Number),
+  error: Schema.optional(Schema.String),
+  createdAt: Schema.DateTimeUtc,
+})
+
+export const JobDeliveriesResponse = Schema.Struct({
+  deliveries: Schema.Array(WebhookDelivery),
+})
@@ -0,0 +1,42 @@
+import { describe, expect, it } from '@effect/vitest'
+import { Effect as E } from 'effect'
+import {
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from './webhooks.signature'
+
+const body = '{"event":"job.completed"}'
+const SIGNATURE = /^t=1700000000,v1=[0-9a-f]{64}$/
+
+describe('webhook signatures', () => {
+  it.effect('should sign the timestamp and body', () =>
+    E.gen(function* () {
+      const signature = yield* signWebhookPayload('secret', 1_700_000_000, body)
+
+      expect(signature).toMatch(SIGNATURE)
+      expect(yield* verifyWebhookSignature('secret', signature, body)).toBe(
+        true,
+      )
+    }),
+  )
+
+  it.effect('should reject other secrets, bodies and timestamps', () =>
+    E.gen(function* () {
+      const signature = yield* signWebhookPayload('secret', 1_700_000_000, body)
+      const replayed = signature.replace('t=1700000000', 't=1700000001')
+
+      expect(yield* verifyWebhookSignature('other', signature, body)).toBe(
+        false,
+      )
+      expect(yield* verifyWebhookSignature('secret', signature, '{}')).toBe(
+        false,
+      )
+      expect(yield* verifyWebhookSignature('secret', replayed, body)).toBe(
+        false,
+      )
+      expect(yield* verifyWebhookSignature('secret', 'v1=abc', body)).toBe(
+        false,
+      )
+    }),
+  )
+})
@@ -0,0 +1,92 @@
+import {
+  HttpApi,
+  HttpApiBuilder,
+  HttpApiEndpoint,
+  HttpApiGroup,
+  HttpClient,
+  HttpClientRequest,
+} from '@effect/platform'
+import { NodeContext, NodeHttpServer } from '@effect/platform-node'
+import { describe, expect, it } from '@effect/vitest'
+import { Effect as E, Layer, Schema } from 'effect'
+import { MockConfigLayer } from '../../config'
+import { Authentication } from '../../domain/auth/auth.middleware'
+import { CurrentTenant } from '../../domain/auth/auth.schema'
+import { ApiKeysStore } from '../../stores/auth/api-keys.store'
+import { AuthenticationLive } from './authentication.middleware'
+
+// Minimal API echoing the tenant resolved for the request
+const api = HttpApi.make('testApi').add(
+  HttpApiGroup.make('tenant')
+    .add(HttpApiEndpoint.get('read', '/tenant').addSuccess(Schema.String))
+    .add(HttpApiEndpoint.post('write', '/tenant').addSuccess(Schema.String))
+    .middleware(Authentication),
+)
+
+const TenantLive = HttpApiBuilder.group(api, 'tenant', (handlers) =>
+  handlers
+    .handle('read', () => CurrentTenant.pipe(E.map(({ id }) => id)))
+    .handle('write', () => CurrentTenant.pipe(E.map(({ id }) => id))),
+)
+
+const ServerTestLayer = HttpApiBuilder.serve().pipe(
+  Layer.provide(HttpApiBuilder.api(api)),
+  Layer.provide(TenantLive),
+  Layer.provide(AuthenticationLive),
+  Layer.provide(ApiKeysStore.Default),
+  Layer.provide(NodeContext.layer),
+  Layer.provideMerge(NodeHttpServer.layerTest),
+  Layer.provide(MockConfigLayer),
+)
+
+const send = (method: 'GET' | 'POST', apiKey?: string) =>
+  HttpClient.HttpClient.pipe(
+    E.flatMap((client) =>
+      client.execute(
+        HttpClientRequest.make(method)('/tenant').pipe(
+          apiKey ? HttpClientRequest.bearerToken(apiKey) : (request) => request,
+        ),
+      ),
+    ),
+    E.flatMap((response) =>
+      E.map(response.json, (body) => ({ status: response.status, body })),
+    ),
+  )
+
+describe('AuthenticationLive', () => {
+  it.scoped('should resolve API keys to their tenant', () =>
+    E.gen(function* () {
+      expect(yield* send('GET', 'test-key')).toEqual({
+        status: 200,
+        body: 'tenant-test',
+      })
+      expect(yield* send('POST', 'other-key')).toEqual({
+        status: 200,
+        body: 'tenant-other',
+      })
+    }).pipe(E.provide(ServerTestLayer)),
+  )
+
+  it.scoped('should reject missing and unknown keys with 401', () =>
+    E.gen(function* () {
+      expect(yield* send('GET')).toEqual({
+        status: 401,
+        body: { _tag: 'Unauthorized' },
+      })
+      expect(yield* send('GET', 'unknown-key')).toEqual({
+        status: 401,
+        body: { _tag: 'Unauthorized' },
+      })
+    }).pipe(E.provide(ServerTestLayer)),
+  )
+
+  it.scoped('should only allow GET requests for read-only keys', () =>
+    E.gen(function* () {
+      expect((yield* send('GET', 'test-read-key')).status).toBe(200)
+      expect(yield* send('POST', 'test-read-key')).toEqual({
+        status: 403,
+        body: { _tag: 'Forbidden', reason: 'API key is read-only' },
+      })
+    }).pipe(E.provide(ServerTestLayer)),
+  )
+})
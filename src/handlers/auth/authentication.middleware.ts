@@ -0,0 +1,33 @@
+import { HttpServerRequest } from '@effect/platform'
+import { Effect as E, Layer, Option, Redacted } from 'effect'
+import { Forbidden, Unauthorized } from '../../domain/auth/auth.errors'
+import { Authentication } from '../../domain/auth/auth.middleware'
+import { ApiKeysStore } from '../../stores/auth/api-keys.store'
+
+export const AuthenticationLive = Layer.effect(
+  Authentication,
+  E.gen(function* () {
+    const apiKeysStore = yield* ApiKeysStore
+
+    return {
+      bearer: (token) =>
+        E.gen(function* () {
+          const apiKey = yield* apiKeysStore.findApiKey(Redacted.value(token))
+
+          if (Option.isNone(apiKey)) {
+            return yield* E.fail(new Unauthorized())
+          }
+
+          const { method } = yield* HttpServerRequest.HttpServerRequest
+          if (apiKey.value.readOnly && method !== 'GET' && method !== 'HEAD') {
+            return yield* E.fail(
+              new Forbidden({ reason: 'API key is read-only' }),
+            )
+          }
+
+          yield* E.annotateCurrentSpan('tenant', apiKey.value.tenant)
+          return { id: apiKey.value.tenant }
+        }).pipe(E.withSpan('Authentication.bearer')),
+    }
+  }),
+)
@@ -0,0 +1,22 @@
+import { Effect as E } from 'effect'
+import type { CreateBatchRequest } from '../../domain/batches/batches.schema'
+import { WebhooksDisabled } from '../../domain/webhooks/webhooks.errors'
+import { createBatchUsecase } from '../../usecases/batches/create-batch.usecase'
+import { tooManyRequests } from '../rate-limit/rate-limit.middleware'
+
+export const createBatchHandler = (request: CreateBatchRequest) =>
+  createBatchUsecase(request).pipe(
+    E.catchTags({
+      // Map internal errors to API errors
+      JobQuotaExceededError: ({ limit, retryAfter }) =>
+        tooManyRequests(
+          `Tenant already has ${limit} jobs in flight`,
+          retryAfter,
+        ),
+      WebhooksDisabledError: ({ reason }) => new WebhooksDisabled({ reason }),
+    }),
+    E.tapError(E.logError),
+    E.withSpan('createBatchHandler', {
+      attributes: { items: request.items.length, language: request.language },
+    }),
+  )
@@ -0,0 +1,32 @@
+import { HttpServerResponse } from '@effect/platform'
+import { Effect as E } from 'effect'
+import {
+  BatchNotFound,
+  BatchResultNotFound,
+} from '../../domain/batches/batches.errors'
+import type { BatchExportParams } from '../../domain/batches/batches.schema'
+import { exportBatchUsecase } from '../../usecases/batches/export-batch.usecase'
+
+export const exportBatchHandler = (
+  id: number,
+  params: typeof BatchExportParams.Type = {},
+) =>
+  exportBatchUsecase(id, params).pipe(
+    E.map((archive) =>
+      HttpServerResponse.uint8Array(archive, {
+        contentType: 'application/zip',
+        headers: {
+          'content-disposition': `attachment; filename="batch-${id}.zip"`,
+        },
+      }),
+    ),
+    E.catchTags({
+      // Map internal errors to API errors
+      BatchNotFoundError: () => new BatchNotFound(),
+      BatchResultNotFoundError: () => new BatchResultNotFound(),
+    }),
+    E.tapError(E.logError),
+    E.withSpan('exportBatchHandler', {
+      attributes: { id, format: params.format, lang: params.lang },
+    }),
+  )
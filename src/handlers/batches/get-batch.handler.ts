@@ -0,0 +1,13 @@
+import { Effect as E } from 'effect'
+import { BatchNotFound } from '../../domain/batches/batches.errors'
+import { getBatchUsecase } from '../../usecases/batches/get-batch.usecase'
+
+export const getBatchHandler = (id: number) =>
+  getBatchUsecase(id).pipe(
+    E.catchTags({
+      // Map internal errors to API errors
+      BatchNotFoundError: () => new BatchNotFound(),
+    }),
+    E.tapError(E.logError),
+    E.withSpan('getBatchHandler', { attributes: { id } }),
+  )
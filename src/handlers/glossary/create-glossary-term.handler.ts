@@ -0,0 +1,19 @@
+import { Effect as E } from 'effect'
+import { GlossaryTermConflict } from '../../domain/glossary/glossary.errors'
+import type { GlossaryTermRequest } from '../../domain/glossary/glossary.schema'
+import { createGlossaryTermUsecase } from '../../usecases/glossary/create-glossary-term.usecase'
+
+export const createGlossaryTermHandler = (
+  request: typeof GlossaryTermRequest.Type,
+) =>
+  createGlossaryTermUsecase(request).pipe(
+    E.catchTags({
+      // Map internal errors to API errors
+      GlossaryTermConflictError: ({ reason }) =>
+        new GlossaryTermConflict({ reason }),
+    }),
+    E.tapError(E.logError),
+    E.withSpan('createGlossaryTermHandler', {
+      attributes: { term: request.term },
+    }),
+  )
@@ -0,0 +1,13 @@
+import { Effect as E } from 'effect'
+import { GlossaryTermNotFound } from '../../domain/glossary/glossary.errors'
+import { deleteGlossaryTermUsecase } from '../../usecases/glossary/delete-glossary-term.usecase'
+
+export const deleteGlossaryTermHandler = (id: number) =>
+  deleteGlossaryTermUsecase(id).pipe(
+    E.catchTags({
+      // Map internal errors to API errors
+      GlossaryTermNotFoundError: () => new GlossaryTermNotFound(),
+    }),
+    E.tapError(E.logError),
+    E.withSpan('deleteGlossaryTermHandler', { attributes: { termId: id } }),
+  )
@@ -0,0 +1,13 @@
+import { Effect as E } from 'effect'
+import { GlossaryTermNotFound } from '../../domain/glossary/glossary.errors'
+import { getGlossaryTermUsecase } from '../../usecases/glossary/get-glossary-term.usecase'
+
+export const getGlossaryTermHandler = (id: number) =>
+  getGlossaryTermUsecase(id).pipe(
+    E.catchTags({
+      // Map internal errors to API errors
+      GlossaryTermNotFoundError: () => new GlossaryTermNotFound(),
+    }),
+    E.tapError(E.logError),
+    E.withSpan('getGlossaryTermHandler', { attributes: { termId: id } }),
+  )
@@ -0,0 +1,8 @@
+import { Effect as E } from 'effect'
+import { getGlossaryUsecase } from '../../usecases/glossary/get-glossary.usecase'
+
+export const getGlossaryHandler = () =>
+  getGlossaryUsecase().pipe(
+    E.tapError(E.logError),
+    E.withSpan('getGlossaryHandler'),
+  )
@@ -0,0 +1,24 @@
+import { Effect as E } from 'effect'
+import {
+  GlossaryTermConflict,
+  GlossaryTermNotFound,
+} from '../../domain/glossary/glossary.errors'
+import type { GlossaryTermRequest } from '../../domain/glossary/glossary.schema'
+import { updateGlossaryTermUsecase } from '../../usecases/glossary/update-glossary-term.usecase'
+
+export const updateGlossaryTermHandler = (
+  id: number,
+  request: typeof GlossaryTermRequest.Type,
+) =>
+  updateGlossaryTermUsecase(id, request).pipe(
+    E.catchTags({
+      // Map internal errors to API errors
+      GlossaryTermNotFoundError: () => new GlossaryTermNotFound(),
+      GlossaryTermConflictError: ({ reason }) =>
+        new GlossaryTermConflict({ reason }),
+    }),
+    E.tapError(E.logError),
+    E.withSpan('updateGlossaryTermHandler', {
+      attributes: { termId: id, term: request.term },
+    }),
+  )
@@ -0,0 +1,14 @@
+import { Effect as E } from 'effect'
+import { JobConflict, JobNotFound } from '../../domain/jobs/jobs.errors'
+import { cancelJobUsecase } from '../../usecases/jobs/cancel-job.usecase'
+
+export const cancelJobHandler = (id: number) =>
+  cancelJobUsecase(id).pipe(
+    E.catchTags({
+      // Map internal errors to API errors
+      JobNotFoundError: () => new JobNotFound(),
+      JobConflictError: ({ reason }) => new JobConflict({ reason }),
+    }),
+    E.tapError(E.logError),
+    E.withSpan('cancelJobHandler', { attributes: { jobId: id } }),
+  )
@@ -0,0 +1,13 @@
+import { Effect as E } from 'effect'
+import { JobNotFound } from '../../domain/jobs/jobs.errors'
+import { deleteJobUsecase } from '../../usecases/jobs/delete-job.usecase'
+
+export const deleteJobHandler = (id: number) =>
+  deleteJobUsecase(id).pipe(
+    E.catchTags({
+      // Map internal errors to API errors
+      JobNotFoundError: () => new JobNotFound(),
+    }),
+    E.tapError(E.logError),
+    E.withSpan('deleteJobHandler', { attributes: { jobId: id } }),
+  )
@@ -0,0 +1,26 @@
+import { Effect as E } from 'effect'
+import {
+  JobNotFound,
+  JobResultNotFound,
+  JobRevisionNotFound,
+} from '../../domain/jobs/jobs.errors'
+import { diffJobRevisionsUsecase } from '../../usecases/jobs/diff-job-revisions.usecase'
+
+export const diffJobRevisionsHandler = (
+  jobId: number,
+  revision: number,
+  from?: number,
+) =>
+  diffJobRevisionsUsecase(jobId, revision, from).pipe(
+    E.catchTags({
+      // Map internal errors to API errors
+      JobNotFoundError: () => new JobNotFound(),
+      JobResultNotFoundError: () => new JobResultNotFound(),
+      JobRevisionNotFoundError: ({ revision }) =>
+        new JobRevisionNotFound({ revision }),
+    }),
+    E.tapError(E.logError),
+    E.withSpan('diffJobRevisionsHandler', {
+      attributes: { jobId, revision, from },
+    }),
+  )
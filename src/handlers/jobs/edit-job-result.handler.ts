@@ -0,0 +1,32 @@
+import { Effect as E, type Schema } from 'effect'
+import {
+  JobConflict,
+  JobNotFound,
+  JobResultNotFound,
+  JobRevisionNotFound,
+} from '../../domain/jobs/jobs.errors'
+import type { EditJobResultRequest } from '../../domain/jobs/jobs.schema'
+import { InvalidSubtitleEdit } from '../../domain/subtitles/subtitles.errors'
+import { editJobResultUsecase } from '../../usecases/jobs/edit-job-result.usecase'
+
+type EditJobResultRequestType = Schema.Schema.Type<typeof EditJobResultRequest>
+
+export const editJobResultHandler = (
+  jobId: number,
+  request: EditJobResultRequestType,
+) =>
+  editJobResultUsecase(jobId, request).pipe(
+    E.catchTags({
+      // Map internal errors to API errors
+      JobNotFoundError: () => new JobNotFound(),
+      JobResultNotFoundError: () => new JobResultNotFound(),
+      JobRevisionNotFoundError: ({ revision }) =>
+        new JobRevisionNotFound({ revision }),
+      JobConflictError: ({ reason }) => new JobConflict({ reason }),
+      SubtitleEditError: ({ issues }) => new InvalidSubtitleEdit({ issues }),
+    }),
+    E.tapError(E.logError),
+    E.withSpan('editJobResultHandler', {
+      attributes: { jobId, edits: request.edits.length },
+    }),
+  )
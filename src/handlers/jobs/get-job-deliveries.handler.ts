@@ -0,0 +1,13 @@
+import { Effect as E } from 'effect'
+import { JobNotFound } from '../../domain/jobs/jobs.errors'
+import { getJobDeliveriesUsecase } from '../../usecases/webhooks/get-job-deliveries.usecase'
+
+export const getJobDeliveriesHandler = (id: number) =>
+  getJobDeliveriesUsecase(id).pipe(
+    E.catchTags({
+      // Map internal errors to API errors
+      JobNotFoundError: () => new JobNotFound(),
+    }),
+    E.tapError(E.logError),
+    E.withSpan('getJobDeliveriesHandler', { attributes: { jobId: id } }),
+  )
@@ -0,0 +1,25 @@
+import { HttpServerResponse } from '@effect/platform'
+import { Effect as E, Stream } from 'effect'
+import { JobNotFound } from '../../domain/jobs/jobs.errors'
+import { toServerSentEvent } from '../../domain/jobs/jobs.events'
+import { streamJobEventsUsecase } from '../../usecases/jobs/stream-job-events.usecase'
+
+export const getJobEventsHandler = (id: number) =>
+  E.gen(function* () {
+    const events = yield* streamJobEventsUsecase(id)
+
+    return HttpServerResponse.stream(
+      events.pipe(Stream.map(toServerSentEvent), Stream.encodeText),
+      {
+        contentType: 'text/event-stream',
+        headers: { 'cache-control': 'no-cache' },
+      },
+    )
+  }).pipe(
+    E.catchTags({
+      // Map internal errors to API errors
+      JobNotFoundError: () => new JobNotFound(),
+    }),
+    E.tapError(E.logError),
+    E.withSpan('getJobEventsHandler', { attributes: { jobId: id } }),
+  )
@@ -0,0 +1,191 @@
+import { HttpServerResponse } from '@effect/platform'
+import { NodeContext } from '@effect/platform-node'
+import { describe, expect, it } from '@effect/vitest'
+import { Effect as E } from 'effect'
+import { MockConfigLayer } from '../../config'
+import { resultBlobKey } from '../../domain/blobs/blobs.schema'
+import { JobTranslationNotFound } from '../../domain/jobs/jobs.errors'
+import { BlobStore } from '../../stores/blobs/blob.store'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+import {
+  SqliteTestLayer,
+  TestBlobStoreLayer,
+  TestTenantLayer,
+  getExitError,
+} from '../../test-utils'
+import { getJobResultHandler } from './get-job-result.handler'
+
+const seedCompletedJob = E.gen(function* () {
+  const store = yield* JobsStore
+  const job = yield* store.createJob({ name: 'Parse Video 1' })
+  yield* store.transitionJob(job.id, { status: 'in-progress' })
+  yield* store.transitionJob(job.id, {
+    status: 'completed',
+    result: [
+      { start: 0, end: 2000, text: 'Hello world' },
+      { start: 2000, end: 4000, text: 'Welcome to the course' },
+    ],
+    translations: {
+      de: [
+        { start: 0, end: 2000, text: 'Hallo Welt' },
+        { start: 2000, end: 4000, text: 'Willkommen zum Kurs' },
+      ],
+    },
+  })
+  return job
+})
+
+const toWebResponse = (response: HttpServerResponse.HttpServerResponse) =>
+  HttpServerResponse.toWeb(response)
+
+describe('getJobResultHandler', () => {
+  it.effect('should return JSON by default', () =>
+    E.gen(function* () {
+      const job = yield* seedCompletedJob
+      const response = toWebResponse(yield* getJobResultHandler(job.id))
+      const body = yield* E.promise(() => response.json())
+
+      expect(response.headers.get('content-type')).toBe('application/json')
+      expect(body.result).toHaveLength(2)
+    }).pipe(
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.effect('should export the requested subtitle format', () =>
+    E.gen(function* () {
+      const job = yield* seedCompletedJob
+      const response = toWebResponse(
+        yield* getJobResultHandler(job.id, {
+          format: 'srt',
+          maxLineLength: 12,
+        }),
+      )
+      const body = yield* E.promise(() => response.text())
+
+      expect(response.headers.get('content-type')).toBe('application/x-subrip')
+      expect(body).toBe(
+        [
+          '1',
+          '00:00:00,000 --> 00:00:02,000',
+          'Hello world',
+          '',
+          '2',
+          '00:00:02,000 --> 00:00:04,000',
+          'Welcome to',
+          'the course',
+          '',
+        ].join('\n'),
+      )
+    }).pipe(
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.effect('should negotiate the format from the Accept header', () =>
+    E.gen(function* () {
+      const job = yield* seedCompletedJob
+      const response = toWebResponse(
+        yield* getJobResultHandler(job.id, {}, 'text/vtt'),
+      )
+      const body = yield* E.promise(() => response.text())
+
+      expect(response.headers.get('content-type')).toBe('text/vtt')
+      expect(body.startsWith('WEBVTT\n\n00:00:00.000 --> 00:00:02.000')).toBe(
+        true,
+      )
+    }).pipe(
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.effect('should serve the file stored when the job completed', () =>
+    E.gen(function* () {
+      const blobStore = yield* BlobStore
+      const job = yield* seedCompletedJob
+      yield* blobStore.put(
+        resultBlobKey('tenant-test', job.id, 'srt'),
+        new TextEncoder().encode('1\n00:00:00,000 --> 00:00:04,000\nStored\n'),
+        { contentType: 'application/x-subrip' },
+      )
+
+      const stored = toWebResponse(
+        yield* getJobResultHandler(job.id, { format: 'srt' }),
+      )
+      const rendered = toWebResponse(
+        yield* getJobResultHandler(job.id, {
+          format: 'srt',
+          maxLineLength: 12,
+        }),
+      )
+
+      expect(yield* E.promise(() => stored.text())).toContain('Stored')
+      expect(yield* E.promise(() => rendered.text())).toContain('Hello world')
+    }).pipe(
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.effect('should serve translations in any format', () =>
+    E.gen(function* () {
+      const job = yield* seedCompletedJob
+      yield* (yield* BlobStore).put(
+        resultBlobKey('tenant-test', job.id, 'vtt'),
+        new TextEncoder().encode('WEBVTT\n\nStored\n'),
+        { contentType: 'text/vtt' },
+      )
+
+      const json = toWebResponse(
+        yield* getJobResultHandler(job.id, { lang: 'de' }),
+      )
+      const vtt = toWebResponse(
+        yield* getJobResultHandler(job.id, { format: 'vtt', lang: 'de' }),
+      )
+      const missing = yield* getJobResultHandler(job.id, { lang: 'fr' }).pipe(
+        E.exit,
+      )
+
+      expect(yield* E.promise(() => json.json())).toEqual({
+        id: job.id,
+        language: 'de',
+        result: [
+          { start: 0, end: 2000, text: 'Hallo Welt' },
+          { start: 2000, end: 4000, text: 'Willkommen zum Kurs' },
+        ],
+      })
+      expect(yield* E.promise(() => vtt.text())).toContain(
+        'Willkommen zum Kurs',
+      )
+      expect(getExitError(missing)).toEqual(
+        new JobTranslationNotFound({ language: 'fr' }),
+      )
+    }).pipe(
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+})
@@ -1,17 +1,49 @@
-import { Effect as E } from 'effect'
-import { JobNotFound, JobResultNotFound } from '../../domain/jobs/jobs.errors'
+import { HttpServerResponse } from '@effect/platform'
+import { Effect as E, type Schema } from 'effect'
+import {
+  JobNotFound,
+  JobResultNotFound,
+  JobTranslationNotFound,
+} from '../../domain/jobs/jobs.errors'
+import {
+  type JobResultParams,
+  JobResultResponse,
+} from '../../domain/jobs/jobs.schema'
+import { negotiateSubtitleFormat } from '../../domain/subtitles/subtitles.format'
+import { getJobResultFileUsecase } from '../../usecases/jobs/get-job-result-file.usecase'
 import { getJobResultUsecase } from '../../usecases/jobs/get-job-result.usecase'
 
-export const getJobResultHandler = (jobId: number) =>
+type JobResultParamsType = Schema.Schema.Type<typeof JobResultParams>
+
+export const getJobResultHandler = (
+  jobId: number,
+  params: JobResultParamsType = {},
+  accept?: string,
+) =>
   E.gen(function* () {
-    const result = yield* getJobResultUsecase(jobId)
-    return result
+    const result = yield* getJobResultUsecase(jobId, params.lang)
+    const format = negotiateSubtitleFormat(params.format, accept)
+
+    if (format === 'json') {
+      return yield* HttpServerResponse.schemaJson(JobResultResponse)(
+        result,
+      ).pipe(E.orDie)
+    }
+
+    const file = yield* getJobResultFileUsecase(result, format, params)
+    return HttpServerResponse.text(file.content, {
+      contentType: file.contentType,
+    })
   }).pipe(
     E.catchTags({
       // Map internal errors to API errors
       JobNotFoundError: () => new JobNotFound(),
       JobResultNotFoundError: () => new JobResultNotFound(),
+      JobTranslationNotFoundError: ({ language }) =>
+        new JobTranslationNotFound({ language }),
     }),
     E.tapError(E.logError),
-    E.withSpan('getJobResultHandler', { attributes: { jobId } }),
+    E.withSpan('getJobResultHandler', {
+      attributes: { jobId, format: params.format, lang: params.lang },
+    }),
   )
@@ -0,0 +1,19 @@
+import { Effect as E } from 'effect'
+import {
+  JobNotFound,
+  JobResultNotFound,
+  JobRevisionNotFound,
+} from '../../domain/jobs/jobs.errors'
+import { getJobRevisionUsecase } from '../../usecases/jobs/get-job-revision.usecase'
+
+export const getJobRevisionHandler = (jobId: number, revision: number) =>
+  getJobRevisionUsecase(jobId, revision).pipe(
+    E.catchTags({
+      // Map internal errors to API errors
+      JobNotFoundError: () => new JobNotFound(),
+      JobResultNotFoundError: () => new JobResultNotFound(),
+      JobRevisionNotFoundError: () => new JobRevisionNotFound({ revision }),
+    }),
+    E.tapError(E.logError),
+    E.withSpan('getJobRevisionHandler', { attributes: { jobId, revision } }),
+  )
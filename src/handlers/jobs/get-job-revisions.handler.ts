@@ -0,0 +1,14 @@
+import { Effect as E } from 'effect'
+import { JobNotFound, JobResultNotFound } from '../../domain/jobs/jobs.errors'
+import { getJobRevisionsUsecase } from '../../usecases/jobs/get-job-revisions.usecase'
+
+export const getJobRevisionsHandler = (jobId: number) =>
+  getJobRevisionsUsecase(jobId).pipe(
+    E.catchTags({
+      // Map internal errors to API errors
+      JobNotFoundError: () => new JobNotFound(),
+      JobResultNotFoundError: () => new JobResultNotFound(),
+    }),
+    E.tapError(E.logError),
+    E.withSpan('getJobRevisionsHandler', { attributes: { jobId } }),
+  )
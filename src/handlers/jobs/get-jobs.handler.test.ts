@@ -1,12 +1,20 @@
 import { describe, expect, it } from '@effect/vitest'
-import { Effect as E } from 'effect'
+import { DateTime, Effect as E } from 'effect'
 import { MockConfigLayer } from '../../config'
 import { JobsStore } from '../../stores/jobs/jobs.store'
+import { SqliteTestLayer, TestTenantLayer } from '../../test-utils'
 import { getJobsHandler } from './get-jobs.handler'
 
 describe('getJobsHandler', () => {
   it.effect('should return jobs response', () =>
     E.gen(function* () {
+      const store = yield* JobsStore
+      const job = yield* store.createJob({ name: 'Parse Video 1' })
+      yield* store.transitionJob(job.id, { status: 'in-progress' })
+      yield* store.transitionJob(job.id, { status: 'completed', result: [] })
+      yield* store.createJob({ name: 'Parse Audio 2' })
+      yield* store.createJob({ name: 'Parse Document 3' })
+
       const result = yield* getJobsHandler()
 
       expect(result.jobs).toHaveLength(3)
@@ -14,7 +22,12 @@ describe('getJobsHandler', () => {
       expect(result.jobs[0]?.status).toBe('completed')
       expect(result.jobs[1]?.name).toBe('Parse Audio 2')
       expect(result.jobs[2]?.name).toBe('Parse Document 3')
-    }).pipe(E.provide(JobsStore.Default), E.provide(MockConfigLayer)),
+    }).pipe(
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
   )
 
   it.effect('should work with test service', () =>
@@ -28,10 +41,19 @@ describe('getJobsHandler', () => {
         JobsStore.makeTestService({
           getAllJobs: () =>
             E.succeed({
-              jobs: [{ id: 99, name: 'Handler Test Job', status: 'pending' }],
+              jobs: [
+                {
+                  id: 99,
+                  name: 'Handler Test Job',
+                  status: 'pending',
+                  createdAt: DateTime.unsafeMake(0),
+                },
+              ],
+              total: 1,
             }),
         }),
       ),
+      E.provide(TestTenantLayer),
       E.provide(MockConfigLayer),
     ),
   )
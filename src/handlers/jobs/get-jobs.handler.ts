@@ -1,8 +1,14 @@
 import { Effect as E } from 'effect'
+import type { JobsQuery } from '../../domain/jobs/jobs.schema'
 import { getJobsUsecase } from '../../usecases/jobs/get-jobs.usecase'
 
-export const getJobsHandler = () =>
+export const getJobsHandler = (query: JobsQuery = {}) =>
   E.gen(function* () {
-    const result = yield* getJobsUsecase()
+    const result = yield* getJobsUsecase(query)
     return result
-  }).pipe(E.tapError(E.logError), E.withSpan('getJobsHandler'))
+  }).pipe(
+    E.tapError(E.logError),
+    E.withSpan('getJobsHandler', {
+      attributes: { ...query },
+    }),
+  )
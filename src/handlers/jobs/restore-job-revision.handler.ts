@@ -0,0 +1,32 @@
+import { Effect as E, type Schema } from 'effect'
+import {
+  JobConflict,
+  JobNotFound,
+  JobResultNotFound,
+  JobRevisionNotFound,
+} from '../../domain/jobs/jobs.errors'
+import type { RestoreJobRevisionRequest } from '../../domain/jobs/jobs.schema'
+import { restoreJobRevisionUsecase } from '../../usecases/jobs/restore-job-revision.usecase'
+
+type RestoreJobRevisionRequestType = Schema.Schema.Type<
+  typeof RestoreJobRevisionRequest
+>
+
+export const restoreJobRevisionHandler = (
+  jobId: number,
+  revision: number,
+  request: RestoreJobRevisionRequestType,
+) =>
+  restoreJobRevisionUsecase(jobId, revision, request).pipe(
+    E.catchTags({
+      // Map internal errors to API errors
+      JobNotFoundError: () => new JobNotFound(),
+      JobResultNotFoundError: () => new JobResultNotFound(),
+      JobRevisionNotFoundError: () => new JobRevisionNotFound({ revision }),
+      JobConflictError: ({ reason }) => new JobConflict({ reason }),
+    }),
+    E.tapError(E.logError),
+    E.withSpan('restoreJobRevisionHandler', {
+      attributes: { jobId, revision },
+    }),
+  )
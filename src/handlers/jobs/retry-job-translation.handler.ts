@@ -0,0 +1,27 @@
+import { Effect as E, Inspectable } from 'effect'
+import {
+  JobConflict,
+  JobNotFound,
+  JobResultNotFound,
+  JobTranslationFailed,
+} from '../../domain/jobs/jobs.errors'
+import { retryJobTranslationUsecase } from '../../usecases/jobs/retry-job-translation.usecase'
+
+export const retryJobTranslationHandler = (id: number, language: string) =>
+  retryJobTranslationUsecase(id, language).pipe(
+    E.catchTags({
+      // Map internal errors to API errors
+      JobNotFoundError: () => new JobNotFound(),
+      JobResultNotFoundError: () => new JobResultNotFound(),
+      JobConflictError: ({ reason }) => new JobConflict({ reason }),
+      TranslationError: ({ target, error }) =>
+        new JobTranslationFailed({
+          language: target,
+          reason: Inspectable.toStringUnknown(error),
+        }),
+    }),
+    E.tapError(E.logError),
+    E.withSpan('retryJobTranslationHandler', {
+      attributes: { jobId: id, language },
+    }),
+  )
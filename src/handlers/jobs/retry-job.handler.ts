@@ -0,0 +1,20 @@
+import { Effect as E } from 'effect'
+import { JobConflict, JobNotFound } from '../../domain/jobs/jobs.errors'
+import { retryJobUsecase } from '../../usecases/jobs/retry-job.usecase'
+import { tooManyRequests } from '../rate-limit/rate-limit.middleware'
+
+export const retryJobHandler = (id: number) =>
+  retryJobUsecase(id).pipe(
+    E.catchTags({
+      // Map internal errors to API errors
+      JobNotFoundError: () => new JobNotFound(),
+      JobConflictError: ({ reason }) => new JobConflict({ reason }),
+      JobQuotaExceededError: ({ limit, retryAfter }) =>
+        tooManyRequests(
+          `Tenant already has ${limit} jobs in flight`,
+          retryAfter,
+        ),
+    }),
+    E.tapError(E.logError),
+    E.withSpan('retryJobHandler', { attributes: { jobId: id } }),
+  )
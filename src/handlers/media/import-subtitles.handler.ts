@@ -0,0 +1,23 @@
+import { Effect as E, type Schema } from 'effect'
+import { InvalidSubtitleFile } from '../../domain/subtitles/subtitles.errors'
+import type { ImportSubtitlesRequest } from '../../domain/subtitles/subtitles.schema'
+import { importSubtitlesUsecase } from '../../usecases/subtitles/import-subtitles.usecase'
+
+type ImportSubtitlesRequestType = Schema.Schema.Type<
+  typeof ImportSubtitlesRequest
+>
+
+export const importSubtitlesHandler = (request: ImportSubtitlesRequestType) =>
+  E.gen(function* () {
+    const job = yield* importSubtitlesUsecase(request)
+    return job
+  }).pipe(
+    E.catchTags({
+      // Map internal errors to API errors
+      SubtitleParseError: ({ issues }) => new InvalidSubtitleFile({ issues }),
+    }),
+    E.tapError(E.logError),
+    E.withSpan('importSubtitlesHandler', {
+      attributes: { fileName: request.file.name },
+    }),
+  )
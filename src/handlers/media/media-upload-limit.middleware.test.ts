@@ -0,0 +1,114 @@
+import {
+  HttpApi,
+  HttpApiBuilder,
+  HttpApiEndpoint,
+  HttpApiGroup,
+  HttpApiSchema,
+  HttpClient,
+  HttpClientRequest,
+  Multipart,
+} from '@effect/platform'
+import { NodeContext, NodeHttpServer } from '@effect/platform-node'
+import { describe, expect, it } from '@effect/vitest'
+import { Effect as E, Layer, Schema } from 'effect'
+import { MockConfigLayer } from '../../config'
+import { MediaTooLarge } from '../../domain/media/media.errors'
+import { MediaUploadLimitLive } from './media-upload-limit.middleware'
+
+// Minimal API with endpoints accepting raw and multipart media
+const api = HttpApi.make('testApi')
+  .add(
+    HttpApiGroup.make('media')
+      .add(HttpApiEndpoint.post('upload', '/upload').addSuccess(Schema.String))
+      .add(
+        HttpApiEndpoint.post('uploadFile', '/upload-file')
+          .setPayload(
+            HttpApiSchema.Multipart(
+              Schema.Struct({ file: Multipart.SingleFileSchema }),
+            ),
+          )
+          .addSuccess(Schema.String),
+      ),
+  )
+  .addError(MediaTooLarge, { status: 413 })
+
+const MediaLive = HttpApiBuilder.group(api, 'media', (handlers) =>
+  handlers
+    .handle('upload', () => E.succeed('accepted'))
+    .handle('uploadFile', () => E.succeed('accepted')),
+)
+
+const ServerTestLayer = HttpApiBuilder.serve().pipe(
+  Layer.provide(HttpApiBuilder.api(api)),
+  Layer.provide(MediaLive),
+  Layer.provide(MediaUploadLimitLive),
+  Layer.provide(NodeContext.layer),
+  Layer.provideMerge(NodeHttpServer.layerTest),
+  Layer.provide(MockConfigLayer),
+)
+
+const upload = (size: number) =>
+  HttpClient.HttpClient.pipe(
+    E.flatMap((client) =>
+      client.execute(
+        HttpClientRequest.post('/upload').pipe(
+          HttpClientRequest.bodyUint8Array(new Uint8Array(size)),
+        ),
+      ),
+    ),
+    E.flatMap((response) =>
+      E.map(response.json, (body) => ({ status: response.status, body })),
+    ),
+  )
+
+// Form data bodies are streamed without a length
+const uploadFile = (size: number) =>
+  HttpClient.HttpClient.pipe(
+    E.flatMap((client) => {
+      const form = new FormData()
+      form.append('file', new Blob([new Uint8Array(size)]), 'lecture.mp4')
+      return client.execute(
+        HttpClientRequest.post('/upload-file').pipe(
+          HttpClientRequest.bodyFormData(form),
+        ),
+      )
+    }),
+    E.flatMap((response) =>
+      E.map(response.json, (body) => ({ status: response.status, body })),
+    ),
+  )
+
+describe('MediaUploadLimitLive', () => {
+  it.scoped('should answer 413 before reading a body over the limit', () =>
+    E.gen(function* () {
+      // `MEDIA_MAX_SIZE` is 4096 bytes in the mock config
+      const accepted = yield* upload(4096)
+      const rejected = yield* upload(4097)
+
+      expect(accepted).toEqual({ status: 200, body: 'accepted' })
+      expect(rejected).toEqual({
+        status: 413,
+        body: {
+          _tag: 'MediaTooLarge',
+          reason: 'Request body is 4097 bytes, the limit is 4096',
+        },
+      })
+    }).pipe(E.provide(ServerTestLayer)),
+  )
+
+  it.scoped('should answer 413 once a multipart file goes over the limit', () =>
+    E.gen(function* () {
+      const accepted = yield* uploadFile(1024)
+      const rejected = yield* uploadFile(8192)
+
+      expect(accepted).toEqual({ status: 200, body: 'accepted' })
+      expect(rejected).toEqual({
+        status: 413,
+        body: {
+          _tag: 'MediaTooLarge',
+          reason: 'File is over the limit of 4096 bytes',
+        },
+      })
+    }).pipe(E.provide(ServerTestLayer)),
+  )
+})
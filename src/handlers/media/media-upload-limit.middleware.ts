@@ -0,0 +1,47 @@
+import {
+  FileSystem,
+  HttpApiBuilder,
+  type HttpApp,
+  HttpServerRequest,
+  Multipart,
+} from '@effect/platform'
+import { Effect as E, Option } from 'effect'
+import { api } from '../../api'
+import { envVars } from '../../config'
+import { MediaTooLarge } from '../../domain/media/media.errors'
+
+// Payloads are decoded before handlers run, so an oversize file surfaces as a defect
+const isFileTooLarge = (defect: unknown) =>
+  defect instanceof Multipart.MultipartError && defect.reason === 'FileTooLarge'
+
+/**
+ * Turns down request bodies over `MEDIA_MAX_SIZE` before they are read.
+ * Chunked bodies have no length, their files are cut off at the limit while
+ * they are streamed to disk.
+ */
+export const MediaUploadLimitLive = HttpApiBuilder.middleware(
+  api,
+  E.gen(function* () {
+    const maxSize = yield* envVars.MEDIA_MAX_SIZE
+    const tooLarge = (reason: string) => E.fail(new MediaTooLarge({ reason }))
+
+    return (app: HttpApp.Default) =>
+      HttpServerRequest.HttpServerRequest.pipe(
+        E.flatMap(({ headers: { 'content-length': contentLength } }) =>
+          Number(contentLength ?? 0) > maxSize
+            ? tooLarge(
+                `Request body is ${contentLength} bytes, the limit is ${maxSize}`,
+              )
+            : app,
+        ),
+        Multipart.withMaxFileSize(Option.some(FileSystem.Size(maxSize))),
+        E.catchSomeDefect((defect) =>
+          isFileTooLarge(defect)
+            ? Option.some(
+                tooLarge(`File is over the limit of ${maxSize} bytes`),
+              )
+            : Option.none(),
+        ),
+      )
+  }),
+)
@@ -1,22 +1,124 @@
+import { HttpServerResponse } from '@effect/platform'
 import { Effect as E } from 'effect'
 import type { Schema } from 'effect'
-import { MediaEmpty } from '../../domain/media/media.errors'
-import type { UnifiedMediaRequest } from '../../domain/media/media.schema'
+import {
+  MediaEmpty,
+  MediaEngineUnavailable,
+  MediaTooLarge,
+  MediaUnreachable,
+  UnsupportedMediaType,
+} from '../../domain/media/media.errors'
+import {
+  MediaJobAccepted,
+  MediaResponse,
+  type ParseMediaParams,
+  type UnifiedMediaRequest,
+} from '../../domain/media/media.schema'
+import type { TooManyRequests } from '../../domain/rate-limit/rate-limit.errors'
+import { negotiateSubtitleFormat } from '../../domain/subtitles/subtitles.format'
+import {
+  UploadConflict,
+  UploadNotFound,
+} from '../../domain/uploads/uploads.errors'
+import { WebhooksDisabled } from '../../domain/webhooks/webhooks.errors'
+import type { MediaEngineError } from '../../stores/media/media.store'
 import { parseMediaUsecase } from '../../usecases/media/parse-media.usecase'
+import type { ParseMediaRejection } from '../../usecases/media/run-parse-media-job.usecase'
+import { submitParseMediaUsecase } from '../../usecases/media/submit-parse-media.usecase'
+import { exportSubtitlesUsecase } from '../../usecases/subtitles/export-subtitles.usecase'
+import { tooManyRequests } from '../rate-limit/rate-limit.middleware'
 
 type UnifiedMediaRequestType = Schema.Schema.Type<typeof UnifiedMediaRequest>
+type ParseMediaParamsType = Schema.Schema.Type<typeof ParseMediaParams>
 
-export const parseMediaHandler = (request: UnifiedMediaRequestType) =>
+// Map internal errors to API errors
+const toApiError = (
+  error: ParseMediaRejection | MediaEngineError,
+): E.Effect<
+  never,
+  | TooManyRequests
+  | UnsupportedMediaType
+  | MediaTooLarge
+  | MediaUnreachable
+  | MediaEmpty
+  | MediaEngineUnavailable
+  | UploadNotFound
+  | UploadConflict
+  | WebhooksDisabled
+> => {
+  switch (error._tag) {
+    case 'MediaEngineUnavailableError':
+      return E.fail(
+        new MediaEngineUnavailable({
+          engine: error.engine,
+          reason: error.reason,
+        }),
+      )
+    case 'MediaParsingError':
+      return E.fail(new MediaEmpty())
+    case 'JobQuotaExceededError':
+      return tooManyRequests(
+        `Tenant already has ${error.limit} jobs in flight`,
+        error.retryAfter,
+      )
+    case 'UnsupportedMediaTypeError':
+      return E.fail(new UnsupportedMediaType({ reason: error.reason }))
+    case 'MediaTooLargeError':
+      return E.fail(new MediaTooLarge({ reason: error.reason }))
+    case 'UploadNotFoundError':
+      return E.fail(new UploadNotFound())
+    case 'UploadConflictError':
+      return E.fail(new UploadConflict({ reason: error.reason }))
+    case 'WebhooksDisabledError':
+      return E.fail(new WebhooksDisabled({ reason: error.reason }))
+    default:
+      return E.fail(
+        new MediaUnreachable({ url: error.url, reason: error.reason }),
+      )
+  }
+}
+
+export const parseMediaHandler = (
+  request: UnifiedMediaRequestType,
+  params: ParseMediaParamsType = {},
+  accept?: string,
+) =>
   E.gen(function* () {
-    const result = yield* parseMediaUsecase(request)
-    return result
+    const format = negotiateSubtitleFormat(params.format, accept)
+
+    // Subtitle files can only be rendered from a finished parse, so they imply sync mode
+    if (format !== 'json') {
+      const result = yield* parseMediaUsecase(request)
+      const file = yield* exportSubtitlesUsecase(result.json, format, {
+        ...params,
+        language: request.language,
+      })
+      return HttpServerResponse.text(file.content, {
+        contentType: file.contentType,
+      })
+    }
+
+    // Jobs are queued by default, `?mode=sync` waits for the parsed result
+    if (params.mode === 'sync') {
+      const result = yield* parseMediaUsecase(request)
+      return yield* HttpServerResponse.schemaJson(MediaResponse)(result).pipe(
+        E.orDie,
+      )
+    }
+
+    const result = yield* submitParseMediaUsecase(request)
+    return yield* HttpServerResponse.schemaJson(MediaJobAccepted)(result, {
+      status: 202,
+    }).pipe(E.orDie)
   }).pipe(
-    E.catchAll(() => new MediaEmpty()),
+    E.catchAll(toApiError),
     E.tapError(E.logError),
     E.withSpan('parseMediaHandler', {
       attributes: {
         language: request.language,
         source: 'url' in request ? 'url' : 'file',
+        mode: params.mode ?? 'async',
+        format: params.format,
       },
     }),
   )
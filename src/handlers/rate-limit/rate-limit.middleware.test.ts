@@ -0,0 +1,98 @@
+import {
+  HttpApi,
+  HttpApiBuilder,
+  HttpApiEndpoint,
+  HttpApiGroup,
+  HttpClient,
+  HttpClientRequest,
+} from '@effect/platform'
+import { NodeContext, NodeHttpServer } from '@effect/platform-node'
+import { describe, expect, it } from '@effect/vitest'
+import { Effect as E, Layer, Schema } from 'effect'
+import { MockConfigLayer } from '../../config'
+import { RateLimit } from '../../domain/rate-limit/rate-limit.middleware'
+import { ApiKeysStore } from '../../stores/auth/api-keys.store'
+import { RateLimitStore } from '../../stores/rate-limit/rate-limit.store'
+import { RateLimitLive } from './rate-limit.middleware'
+
+// Minimal API with a single rate limited endpoint
+const api = HttpApi.make('testApi').add(
+  HttpApiGroup.make('limited').add(
+    HttpApiEndpoint.post('submit', '/submit')
+      .addSuccess(Schema.String)
+      .middleware(RateLimit),
+  ),
+)
+
+const LimitedLive = HttpApiBuilder.group(api, 'limited', (handlers) =>
+  handlers.handle('submit', () => E.succeed('accepted')),
+)
+
+const ServerTestLayer = HttpApiBuilder.serve().pipe(
+  Layer.provide(HttpApiBuilder.api(api)),
+  Layer.provide(LimitedLive),
+  Layer.provide(RateLimitLive),
+  Layer.provide(RateLimitStore.Default),
+  Layer.provide(ApiKeysStore.Default),
+  Layer.provide(NodeContext.layer),
+  Layer.provideMerge(NodeHttpServer.layerTest),
+  Layer.provide(MockConfigLayer),
+)
+
+const submit = (apiKey: string) =>
+  HttpClient.HttpClient.pipe(
+    E.flatMap((client) =>
+      client.execute(
+        HttpClientRequest.post('/submit').pipe(
+          HttpClientRequest.bearerToken(apiKey),
+        ),
+      ),
+    ),
+    E.flatMap((response) =>
+      E.map(response.json, (body) => ({
+        status: response.status,
+        retryAfter: response.headers['retry-after'],
+        body,
+      })),
+    ),
+  )
+
+describe('RateLimitLive', () => {
+  it.scoped(
+    'should answer 429 with Retry-After once a key is over the limit',
+    () =>
+      E.gen(function* () {
+        // The mock config allows bursts of 3 requests
+        const accepted = yield* E.all([
+          submit('test-key'),
+          submit('test-key'),
+          submit('test-key'),
+        ])
+        const limited = yield* submit('test-key')
+
+        expect(accepted.map(({ status }) => status)).toEqual([200, 200, 200])
+        expect(limited).toEqual({
+          status: 429,
+          retryAfter: '1',
+          body: {
+            _tag: 'TooManyRequests',
+            reason: 'Rate limit exceeded',
+            retryAfter: 1,
+          },
+        })
+        expect((yield* submit('other-key')).status).toBe(200)
+      }).pipe(E.provide(ServerTestLayer)),
+  )
+
+  it.scoped('should limit unknown keys by client address', () =>
+    E.gen(function* () {
+      const statuses = yield* E.forEach(
+        ['random-1', 'random-2', 'random-3', 'random-4'],
+        (apiKey) => submit(apiKey).pipe(E.map(({ status }) => status)),
+      )
+
+      expect(statuses).toEqual([200, 200, 200, 429])
+      expect((yield* submit('test-key')).status).toBe(200)
+    }).pipe(E.provide(ServerTestLayer)),
+  )
+})
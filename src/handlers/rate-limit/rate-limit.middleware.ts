@@ -0,0 +1,69 @@
+import {
+  HttpApp,
+  HttpServerRequest,
+  HttpServerResponse,
+} from '@effect/platform'
+import { Duration, Effect as E, Layer, Option } from 'effect'
+import { sha256Hex } from '../../domain/media/media.fingerprint'
+import { TooManyRequests } from '../../domain/rate-limit/rate-limit.errors'
+import { RateLimit } from '../../domain/rate-limit/rate-limit.middleware'
+import { ApiKeysStore } from '../../stores/auth/api-keys.store'
+import { RateLimitStore } from '../../stores/rate-limit/rate-limit.store'
+
+const BEARER_PREFIX = 'Bearer '
+
+const encoder = new TextEncoder()
+
+/**
+ * Error responses are encoded from their schema alone, so the `Retry-After`
+ * header is added once the response is built.
+ */
+export const tooManyRequests = (
+  reason: string,
+  retryAfter: Duration.Duration,
+) =>
+  E.gen(function* () {
+    const seconds = Math.ceil(Duration.toSeconds(retryAfter))
+    yield* HttpApp.appendPreResponseHandler((_request, response) =>
+      E.succeed(
+        HttpServerResponse.setHeader(response, 'retry-after', String(seconds)),
+      ),
+    )
+    return yield* E.fail(new TooManyRequests({ reason, retryAfter: seconds }))
+  })
+
+export const RateLimitLive = Layer.effect(
+  RateLimit,
+  E.gen(function* () {
+    const rateLimitStore = yield* RateLimitStore
+    const apiKeysStore = yield* ApiKeysStore
+
+    // Runs before authentication, so only known API keys get a bucket of their
+    // own, kept by hash. Made up tokens share the bucket of their client address
+    const rateLimitKey = ({
+      headers: { authorization },
+      remoteAddress,
+    }: HttpServerRequest.HttpServerRequest) =>
+      E.gen(function* () {
+        const token = authorization?.startsWith(BEARER_PREFIX)
+          ? authorization.slice(BEARER_PREFIX.length)
+          : undefined
+        if (
+          token !== undefined &&
+          Option.isSome(yield* apiKeysStore.findApiKey(token))
+        ) {
+          return `api-key:${yield* sha256Hex(encoder.encode(token))}`
+        }
+        return `ip:${Option.getOrElse(remoteAddress, () => 'unknown')}`
+      })
+
+    return HttpServerRequest.HttpServerRequest.pipe(
+      E.flatMap(rateLimitKey),
+      E.flatMap(rateLimitStore.take),
+      E.catchTag('RateLimitExceededError', ({ retryAfter }) =>
+        tooManyRequests('Rate limit exceeded', retryAfter),
+      ),
+      E.withSpan('RateLimit'),
+    )
+  }),
+)
@@ -0,0 +1,78 @@
+import { describe, expect, it } from '@effect/vitest'
+import { Effect as E } from 'effect'
+import { MockConfigLayer } from '../../config'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+import { SearchStore } from '../../stores/search/search.store'
+import { SqliteTestLayer, TestTenantLayer } from '../../test-utils'
+import { searchJobsHandler } from './search-jobs.handler'
+
+describe('searchJobsHandler', () => {
+  it.effect('should return search response', () =>
+    E.gen(function* () {
+      const store = yield* JobsStore
+      const job = yield* store.createJob({ name: 'Lecture 1', language: 'en' })
+      yield* store.transitionJob(job.id, { status: 'in-progress' })
+      yield* store.transitionJob(job.id, {
+        status: 'completed',
+        result: [{ start: 0, end: 2000, text: 'Monads <b>chain</b> effects.' }],
+      })
+
+      const result = yield* searchJobsHandler({ q: 'chain' })
+
+      expect(result.results).toEqual([
+        {
+          id: job.id,
+          name: 'Lecture 1',
+          language: 'en',
+          hits: [
+            {
+              cue: 0,
+              start: 0,
+              end: 2000,
+              language: 'en',
+              snippet: 'Monads &lt;b&gt;<mark>chain</mark>&lt;/b&gt; effects.',
+            },
+          ],
+        },
+      ])
+    }).pipe(
+      E.provide(SearchStore.Default),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.effect('should work with test service', () =>
+    E.gen(function* () {
+      const result = yield* searchJobsHandler({ q: 'monads' })
+
+      expect(result.results).toHaveLength(1)
+      expect(result.results[0]?.name).toBe('Handler Test Job')
+    }).pipe(
+      E.provide(
+        SearchStore.makeTestService({
+          search: () =>
+            E.succeed({
+              results: [
+                {
+                  id: 99,
+                  name: 'Handler Test Job',
+                  hits: [
+                    {
+                      cue: 0,
+                      start: 0,
+                      end: 1000,
+                      snippet: '<mark>Monads</mark>',
+                    },
+                  ],
+                },
+              ],
+            }),
+        }),
+      ),
+      E.provide(TestTenantLayer),
+    ),
+  )
+})
@@ -0,0 +1,11 @@
+import { Effect as E } from 'effect'
+import type { SearchQuery } from '../../domain/search/search.schema'
+import { searchJobsUsecase } from '../../usecases/search/search-jobs.usecase'
+
+export const searchJobsHandler = (query: SearchQuery) =>
+  searchJobsUsecase(query).pipe(
+    E.tapError(E.logError),
+    E.withSpan('searchJobsHandler', {
+      attributes: { ...query },
+    }),
+  )
@@ -0,0 +1,38 @@
+import { HttpServerRequest, HttpServerResponse } from '@effect/platform'
+import { Effect as E } from 'effect'
+import { MediaTooLarge } from '../../domain/media/media.errors'
+import {
+  UploadConflict,
+  UploadNotFound,
+} from '../../domain/uploads/uploads.errors'
+import { uploadHeaders } from '../../domain/uploads/uploads.schema'
+import { appendUploadUsecase } from '../../usecases/uploads/append-upload.usecase'
+
+// The body is streamed to disk as it arrives, it is never buffered whole
+export const appendUploadHandler = (id: string, offset: number) =>
+  E.gen(function* () {
+    const {
+      stream,
+      headers: { 'content-length': contentLength },
+    } = yield* HttpServerRequest.HttpServerRequest
+    const upload = yield* appendUploadUsecase(id, offset, {
+      body: stream,
+      length: contentLength === undefined ? undefined : Number(contentLength),
+    })
+
+    return HttpServerResponse.empty({
+      status: 204,
+      headers: uploadHeaders(upload),
+    })
+  }).pipe(
+    E.catchTags({
+      // Map internal errors to API errors
+      UploadNotFoundError: () => new UploadNotFound(),
+      UploadConflictError: ({ reason }) => new UploadConflict({ reason }),
+      MediaTooLargeError: ({ reason }) => new MediaTooLarge({ reason }),
+      // The client went away, the bytes received so far are kept
+      RequestError: (error) => E.die(error),
+    }),
+    E.tapError(E.logError),
+    E.withSpan('appendUploadHandler', { attributes: { uploadId: id, offset } }),
+  )
@@ -0,0 +1,33 @@
+import { HttpServerResponse } from '@effect/platform'
+import { Effect as E, type Schema } from 'effect'
+import { MediaTooLarge } from '../../domain/media/media.errors'
+import {
+  type CreateUploadHeaders,
+  UploadResponse,
+  uploadHeaders,
+} from '../../domain/uploads/uploads.schema'
+import { createUploadUsecase } from '../../usecases/uploads/create-upload.usecase'
+
+type CreateUploadHeadersType = Schema.Schema.Type<typeof CreateUploadHeaders>
+
+export const createUploadHandler = (headers: CreateUploadHeadersType) =>
+  E.gen(function* () {
+    const upload = yield* createUploadUsecase(headers)
+
+    return yield* HttpServerResponse.schemaJson(UploadResponse)(upload, {
+      status: 201,
+      headers: {
+        location: `/media/uploads/${upload.id}`,
+        ...uploadHeaders(upload),
+      },
+    }).pipe(E.orDie)
+  }).pipe(
+    E.catchTags({
+      // Map internal errors to API errors
+      MediaTooLargeError: ({ reason }) => new MediaTooLarge({ reason }),
+    }),
+    E.tapError(E.logError),
+    E.withSpan('createUploadHandler', {
+      attributes: { length: headers['upload-length'] },
+    }),
+  )
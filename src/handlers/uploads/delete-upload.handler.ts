@@ -0,0 +1,21 @@
+import { HttpServerResponse } from '@effect/platform'
+import { Effect as E } from 'effect'
+import { UploadNotFound } from '../../domain/uploads/uploads.errors'
+import { TUS_VERSION } from '../../domain/uploads/uploads.schema'
+import { deleteUploadUsecase } from '../../usecases/uploads/delete-upload.usecase'
+
+export const deleteUploadHandler = (id: string) =>
+  deleteUploadUsecase(id).pipe(
+    E.as(
+      HttpServerResponse.empty({
+        status: 204,
+        headers: { 'tus-resumable': TUS_VERSION },
+      }),
+    ),
+    E.catchTags({
+      // Map internal errors to API errors
+      UploadNotFoundError: () => new UploadNotFound(),
+    }),
+    E.tapError(E.logError),
+    E.withSpan('deleteUploadHandler', { attributes: { uploadId: id } }),
+  )
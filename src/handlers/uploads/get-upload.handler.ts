@@ -0,0 +1,25 @@
+import { HttpServerResponse } from '@effect/platform'
+import { Effect as E } from 'effect'
+import { UploadNotFound } from '../../domain/uploads/uploads.errors'
+import {
+  UploadResponse,
+  uploadHeaders,
+} from '../../domain/uploads/uploads.schema'
+import { getUploadUsecase } from '../../usecases/uploads/get-upload.usecase'
+
+// Also answers `HEAD`, which tus clients send to find the offset to resume from
+export const getUploadHandler = (id: string) =>
+  E.gen(function* () {
+    const upload = yield* getUploadUsecase(id)
+
+    return yield* HttpServerResponse.schemaJson(UploadResponse)(upload, {
+      headers: uploadHeaders(upload),
+    }).pipe(E.orDie)
+  }).pipe(
+    E.catchTags({
+      // Map internal errors to API errors
+      UploadNotFoundError: () => new UploadNotFound(),
+    }),
+    E.tapError(E.logError),
+    E.withSpan('getUploadHandler', { attributes: { uploadId: id } }),
+  )
@@ -5,34 +5,179 @@ import {
   HttpApiScalar,
   HttpMiddleware,
   HttpServer,
+  HttpServerRequest,
 } from '@effect/platform'
-import { BunHttpServer, BunRuntime } from '@effect/platform-bun'
+import { BunContext, BunHttpServer, BunRuntime } from '@effect/platform-bun'
 import * as FetchHttpClient from '@effect/platform/FetchHttpClient'
+import { SqliteClient } from '@effect/sql-sqlite-bun'
 import { Effect as E, Layer } from 'effect'
 import { api } from './api'
 import { envVars } from './config'
+import { AuthenticationLive } from './handlers/auth/authentication.middleware'
+import { createBatchHandler } from './handlers/batches/create-batch.handler'
+import { exportBatchHandler } from './handlers/batches/export-batch.handler'
+import { getBatchHandler } from './handlers/batches/get-batch.handler'
+import { createGlossaryTermHandler } from './handlers/glossary/create-glossary-term.handler'
+import { deleteGlossaryTermHandler } from './handlers/glossary/delete-glossary-term.handler'
+import { getGlossaryTermHandler } from './handlers/glossary/get-glossary-term.handler'
+import { getGlossaryHandler } from './handlers/glossary/get-glossary.handler'
+import { updateGlossaryTermHandler } from './handlers/glossary/update-glossary-term.handler'
+import { cancelJobHandler } from './handlers/jobs/cancel-job.handler'
+import { deleteJobHandler } from './handlers/jobs/delete-job.handler'
+import { diffJobRevisionsHandler } from './handlers/jobs/diff-job-revisions.handler'
+import { editJobResultHandler } from './handlers/jobs/edit-job-result.handler'
 import { getJobByIdHandler } from './handlers/jobs/get-job-by-id.handler'
+import { getJobDeliveriesHandler } from './handlers/jobs/get-job-deliveries.handler'
+import { getJobEventsHandler } from './handlers/jobs/get-job-events.handler'
 import { getJobResultHandler } from './handlers/jobs/get-job-result.handler'
+import { getJobRevisionHandler } from './handlers/jobs/get-job-revision.handler'
+import { getJobRevisionsHandler } from './handlers/jobs/get-job-revisions.handler'
 import { getJobsHandler } from './handlers/jobs/get-jobs.handler'
+import { restoreJobRevisionHandler } from './handlers/jobs/restore-job-revision.handler'
+import { retryJobTranslationHandler } from './handlers/jobs/retry-job-translation.handler'
+import { retryJobHandler } from './handlers/jobs/retry-job.handler'
+import { importSubtitlesHandler } from './handlers/media/import-subtitles.handler'
+import { MediaUploadLimitLive } from './handlers/media/media-upload-limit.middleware'
 import { parseMediaHandler } from './handlers/media/parse-media.handler'
+import { RateLimitLive } from './handlers/rate-limit/rate-limit.middleware'
+import { searchJobsHandler } from './handlers/search/search-jobs.handler'
+import { appendUploadHandler } from './handlers/uploads/append-upload.handler'
+import { createUploadHandler } from './handlers/uploads/create-upload.handler'
+import { deleteUploadHandler } from './handlers/uploads/delete-upload.handler'
+import { getUploadHandler } from './handlers/uploads/get-upload.handler'
+import { ApiKeysStore } from './stores/auth/api-keys.store'
+import { BatchesStore } from './stores/batches/batches.store'
+import { BlobStore } from './stores/blobs/blob.store'
+import { GlossaryStore } from './stores/glossary/glossary.store'
 import { JobsStore } from './stores/jobs/jobs.store'
+import { MediaCacheStore } from './stores/media/media-cache.store'
+import { MediaProbeStore } from './stores/media/media-probe.store'
 import { MediaStore } from './stores/media/media.store'
+import { RateLimitStore } from './stores/rate-limit/rate-limit.store'
+import { SearchStore } from './stores/search/search.store'
+import { TranslationStore } from './stores/translations/translation.store'
+import { UploadsStore } from './stores/uploads/uploads.store'
+import { WebhooksStore } from './stores/webhooks/webhooks.store'
+import { BlobRetentionWorker } from './workers/blob-retention.worker'
+import { ParseMediaWorker } from './workers/parse-media.worker'
+import { WebhookWorker } from './workers/webhook.worker'
 
 const mediaGroupImplementation = HttpApiBuilder.group(
   api,
   'media',
   (handlers) =>
     handlers
-      .handle('parseMedia', ({ payload }) => parseMediaHandler(payload))
-      .handle('getJobs', () => getJobsHandler())
+      // Raw handlers build their own response to serve subtitle files
+      .handleRaw('parseMedia', ({ payload, urlParams }) =>
+        HttpServerRequest.HttpServerRequest.pipe(
+          E.flatMap(({ headers: { accept } }) =>
+            parseMediaHandler(payload, urlParams, accept),
+          ),
+        ),
+      )
+      .handle('createBatch', ({ payload }) => createBatchHandler(payload))
+      .handle('getBatch', ({ path: { id } }) => getBatchHandler(id))
+      // Raw handler, the archive is served as a download
+      .handleRaw('exportBatch', ({ path: { id }, urlParams }) =>
+        exportBatchHandler(id, urlParams),
+      )
+      .handle('importSubtitles', ({ payload }) =>
+        importSubtitlesHandler(payload),
+      )
+      .handle('getJobs', ({ urlParams }) => getJobsHandler(urlParams))
       .handle('getJob', ({ path: { id } }) => getJobByIdHandler(id))
-      .handle('getJobResult', ({ path: { id } }) => getJobResultHandler(id)),
+      .handleRaw('getJobResult', ({ path: { id }, urlParams }) =>
+        HttpServerRequest.HttpServerRequest.pipe(
+          E.flatMap(({ headers: { accept } }) =>
+            getJobResultHandler(id, urlParams, accept),
+          ),
+        ),
+      )
+      .handle('editJobResult', ({ path: { id }, payload }) =>
+        editJobResultHandler(id, payload),
+      )
+      .handle('getJobRevisions', ({ path: { id } }) =>
+        getJobRevisionsHandler(id),
+      )
+      .handle('getJobRevision', ({ path: { id, revision } }) =>
+        getJobRevisionHandler(id, revision),
+      )
+      .handle('diffJobRevisions', ({ path: { id, revision }, urlParams }) =>
+        diffJobRevisionsHandler(id, revision, urlParams.from),
+      )
+      .handle('restoreJobRevision', ({ path: { id, revision }, payload }) =>
+        restoreJobRevisionHandler(id, revision, payload),
+      )
+      .handle('searchJobs', ({ urlParams }) => searchJobsHandler(urlParams))
+      // Streams Server-Sent Events until the job is finished
+      .handleRaw('getJobEvents', ({ path: { id } }) => getJobEventsHandler(id))
+      .handle('getJobDeliveries', ({ path: { id } }) =>
+        getJobDeliveriesHandler(id),
+      )
+      .handle('cancelJob', ({ path: { id } }) => cancelJobHandler(id))
+      .handle('retryJob', ({ path: { id } }) => retryJobHandler(id))
+      .handle('retryJobTranslation', ({ path: { id, lang } }) =>
+        retryJobTranslationHandler(id, lang),
+      )
+      .handle('deleteJob', ({ path: { id } }) => deleteJobHandler(id))
+      // Raw handlers add the tus headers, the upload body is streamed to disk
+      .handleRaw('createUpload', ({ headers }) => createUploadHandler(headers))
+      .handleRaw('getUpload', ({ path: { uploadId } }) =>
+        getUploadHandler(uploadId),
+      )
+      .handleRaw('appendUpload', ({ path: { uploadId }, headers }) =>
+        appendUploadHandler(uploadId, headers['upload-offset']),
+      )
+      .handleRaw('deleteUpload', ({ path: { uploadId } }) =>
+        deleteUploadHandler(uploadId),
+      )
+      .handle('getGlossary', () => getGlossaryHandler())
+      .handle('createGlossaryTerm', ({ payload }) =>
+        createGlossaryTermHandler(payload),
+      )
+      .handle('getGlossaryTerm', ({ path: { id } }) =>
+        getGlossaryTermHandler(id),
+      )
+      .handle('updateGlossaryTerm', ({ path: { id }, payload }) =>
+        updateGlossaryTermHandler(id, payload),
+      )
+      .handle('deleteGlossaryTerm', ({ path: { id } }) =>
+        deleteGlossaryTermHandler(id),
+      ),
+)
+
+const SqlLive = SqliteClient.layerConfig({
+  filename: envVars.DATABASE_FILE,
+})
+
+// Stores kept in the SQLite database, they share its migrations
+const SqlStores = Layer.mergeAll(
+  JobsStore.Default,
+  WebhooksStore.Default,
+  UploadsStore.Default,
+  GlossaryStore.Default,
+  SearchStore.Default,
+  BatchesStore.Default,
 )
 
 const ApiImplementation = HttpApiBuilder.api(api).pipe(
   Layer.provide(mediaGroupImplementation),
-  Layer.provide(JobsStore.Default),
-  Layer.provide(Layer.succeed(MediaStore, MediaStore.Deepgram)),
+  Layer.provide(AuthenticationLive),
+  Layer.provide(ApiKeysStore.Default),
+  Layer.provide(RateLimitLive),
+  Layer.provide(RateLimitStore.Default),
+  Layer.provide(ParseMediaWorker.Default),
+  Layer.provide(WebhookWorker.Default),
+  Layer.provide(BlobRetentionWorker.Default),
+  Layer.provide(SqlStores),
+  Layer.provide(MediaCacheStore.Default),
+  Layer.provide(MediaProbeStore.Default),
+  Layer.provide(MediaStore.Registry),
+  Layer.provide(TranslationStore.Configured),
+  Layer.provide(BlobStore.Configured),
+  Layer.provide(SqlLive),
+  Layer.provide(FetchHttpClient.layer),
+  Layer.provide(BunContext.layer),
 )
 
 const ServerLayer = E.gen(function* () {
@@ -40,12 +185,14 @@ const ServerLayer = E.gen(function* () {
 
   return Layer.mergeAll(
     DevTools.layer(),
+    // Exports the rate limit and job quota metrics next to the traces
     Otlp.layer({
       baseUrl: 'http://localhost:4318',
       resource: { serviceName: 'coursition-api' },
     }).pipe(Layer.provide(FetchHttpClient.layer)),
     HttpApiScalar.layer(),
     HttpApiBuilder.middlewareCors(),
+    MediaUploadLimitLive,
     BunHttpServer.layer({ port }),
   )
 }).pipe(Layer.unwrapEffect)
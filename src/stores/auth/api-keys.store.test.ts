@@ -0,0 +1,58 @@
+import { FileSystem } from '@effect/platform'
+import { NodeContext } from '@effect/platform-node'
+import { describe, expect, it } from '@effect/vitest'
+import { ConfigProvider, Effect as E, Exit, Option } from 'effect'
+import { ApiKeysStore } from './api-keys.store'
+
+const findTenant = (key: string) =>
+  ApiKeysStore.pipe(
+    E.flatMap((store) => store.findApiKey(key)),
+    E.map(Option.map(({ tenant }) => tenant)),
+  )
+
+describe('ApiKeysStore', () => {
+  it.scoped('should merge keys from the file and the environment', () =>
+    E.gen(function* () {
+      const fs = yield* FileSystem.FileSystem
+      const path = yield* fs.makeTempFileScoped({ prefix: 'api-keys-' })
+      yield* fs.writeFileString(
+        path,
+        JSON.stringify([{ key: 'file-key', tenant: 'acme' }]),
+      )
+
+      const tenants = yield* E.all([
+        findTenant('file-key'),
+        findTenant('env-key'),
+        findTenant('missing-key'),
+      ]).pipe(
+        E.provide(ApiKeysStore.Default),
+        E.withConfigProvider(
+          ConfigProvider.fromJson({
+            API_KEYS_FILE: path,
+            API_KEYS: JSON.stringify([{ key: 'env-key', tenant: 'globex' }]),
+          }),
+        ),
+      )
+
+      expect(tenants).toEqual([
+        Option.some('acme'),
+        Option.some('globex'),
+        Option.none(),
+      ])
+    }).pipe(E.provide(NodeContext.layer)),
+  )
+
+  it.effect('should fail to start on malformed keys', () =>
+    E.gen(function* () {
+      const result = yield* findTenant('any').pipe(
+        E.provide(ApiKeysStore.Default),
+        E.withConfigProvider(
+          ConfigProvider.fromJson({ API_KEYS: '[{"key":""}]' }),
+        ),
+        E.exit,
+      )
+
+      expect(Exit.isFailure(result)).toBe(true)
+    }).pipe(E.provide(NodeContext.layer)),
+  )
+})
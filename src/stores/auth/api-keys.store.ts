@@ -0,0 +1,44 @@
+import { FileSystem } from '@effect/platform'
+import { Effect as E, Layer, Option, Redacted, Schema } from 'effect'
+import { envVars } from '../../config'
+import { type ApiKey, ApiKeys } from '../../domain/auth/auth.schema'
+
+export class ApiKeysStore extends E.Service<ApiKeysStore>()('ApiKeysStore', {
+  effect: E.gen(function* () {
+    const fs = yield* FileSystem.FileSystem
+    const fromEnv = yield* envVars.API_KEYS
+    const file = yield* envVars.API_KEYS_FILE
+
+    // Keys from `API_KEYS_FILE` and `API_KEYS` are merged, neither means no access at all
+    const sources = [
+      ...Option.toArray(fromEnv).map(Redacted.value),
+      ...(yield* E.forEach(Option.toArray(file), (path) =>
+        fs.readFileString(path),
+      )),
+    ]
+    const keys = new Map<string, ApiKey>()
+    for (const source of sources) {
+      for (const apiKey of yield* Schema.decode(ApiKeys)(source)) {
+        keys.set(Redacted.value(apiKey.key), apiKey)
+      }
+    }
+
+    yield* E.logInfo('API keys loaded', { count: keys.size })
+
+    return {
+      findApiKey: (key: string) =>
+        E.succeed(Option.fromNullable(keys.get(key))).pipe(
+          E.withSpan('ApiKeysStore.findApiKey'),
+        ),
+    }
+  }),
+}) {
+  static makeTestService = (
+    mockImplementation: Partial<Omit<ApiKeysStore, '_tag'>>,
+  ) =>
+    Layer.succeed(ApiKeysStore, {
+      _tag: 'ApiKeysStore',
+      findApiKey: () => E.die('Not implemented' as const),
+      ...mockImplementation,
+    })
+}
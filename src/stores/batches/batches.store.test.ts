@@ -0,0 +1,115 @@
+import { describe, expect, it } from '@effect/vitest'
+import { Effect as E, Layer } from 'effect'
+import { MockConfigLayer } from '../../config'
+import { CurrentTenant } from '../../domain/auth/auth.schema'
+import { BatchNotFoundError } from '../../domain/batches/batches.errors'
+import {
+  SqliteTestLayer,
+  TestTenantLayer,
+  getExitError,
+} from '../../test-utils'
+import { JobsStore } from '../jobs/jobs.store'
+import { BatchesStore } from './batches.store'
+
+const BatchesTestLayer = Layer.mergeAll(
+  BatchesStore.Default,
+  JobsStore.Default,
+).pipe(
+  Layer.provide(SqliteTestLayer),
+  Layer.provideMerge(TestTenantLayer),
+  Layer.provide(MockConfigLayer),
+)
+
+describe('BatchesStore', () => {
+  it.effect('should report the progress of the items from their jobs', () =>
+    E.gen(function* () {
+      const store = yield* BatchesStore
+      const jobsStore = yield* JobsStore
+      const [first, second, third] = yield* E.forEach(['a', 'b', 'c'], (name) =>
+        jobsStore.createJob({ name }),
+      )
+
+      const batch = yield* store.createBatch({
+        name: 'Course',
+        items: [
+          { url: 'https://example.com/a.mp4', name: 'Intro', jobId: first?.id },
+          { url: 'https://example.com/b.mp4', jobId: second?.id },
+          { url: 'https://example.com/c.mp4', jobId: third?.id },
+          {
+            url: 'https://example.com/d.txt',
+            rejectionReason:
+              'Media is not a supported audio or video container',
+          },
+        ],
+      })
+      yield* jobsStore.transitionJob(1, { status: 'in-progress' })
+      yield* jobsStore.transitionJob(1, { status: 'completed', result: [] })
+      yield* jobsStore.transitionJob(2, { status: 'in-progress' })
+      yield* jobsStore.deleteJob(3)
+      const progress = yield* store.getBatch(batch.id)
+
+      expect(batch).toMatchObject({ name: 'Course', status: 'in-progress' })
+      expect(progress.items.map(({ status }) => status)).toEqual([
+        'completed',
+        'in-progress',
+        'deleted',
+        'rejected',
+      ])
+      expect(progress.items[0]).toMatchObject({ name: 'Intro', jobId: 1 })
+      expect(progress.items[3]?.failureReason).toBe(
+        'Media is not a supported audio or video container',
+      )
+      expect(progress.progress).toMatchObject({
+        total: 4,
+        finished: 3,
+        percent: 75,
+      })
+      expect(progress.progress.statuses).toMatchObject({
+        completed: 1,
+        'in-progress': 1,
+        deleted: 1,
+        rejected: 1,
+        pending: 0,
+      })
+    }).pipe(E.provide(BatchesTestLayer)),
+  )
+
+  it.effect('should finish once every item is finished', () =>
+    E.gen(function* () {
+      const store = yield* BatchesStore
+      const jobsStore = yield* JobsStore
+      const job = yield* jobsStore.createJob({ name: 'a' })
+      const batch = yield* store.createBatch({
+        items: [{ url: 'https://example.com/a.mp4', jobId: job.id }],
+      })
+
+      yield* jobsStore.transitionJob(job.id, { status: 'in-progress' })
+      yield* jobsStore.transitionJob(job.id, {
+        status: 'failed',
+        failureReason: 'Engine unavailable',
+      })
+      const finished = yield* store.getBatch(batch.id)
+
+      expect(finished.status).toBe('finished')
+      expect(finished.items[0]).toMatchObject({
+        status: 'failed',
+        failureReason: 'Engine unavailable',
+      })
+    }).pipe(E.provide(BatchesTestLayer)),
+  )
+
+  it.effect('should keep the batches of other tenants apart', () =>
+    E.gen(function* () {
+      const store = yield* BatchesStore
+      const batch = yield* store.createBatch({
+        items: [{ url: 'https://example.com/a.mp4', rejectionReason: 'Nope' }],
+      })
+
+      const exit = yield* store
+        .getBatch(batch.id)
+        .pipe(E.provideService(CurrentTenant, { id: 'tenant-other' }), E.exit)
+
+      expect(getExitError(exit)).toBeInstanceOf(BatchNotFoundError)
+    }).pipe(E.provide(BatchesTestLayer)),
+  )
+})
@@ -0,0 +1,197 @@
+import { SqlClient, SqlSchema } from '@effect/sql'
+import { DateTime, Effect as E, Layer, Option, Schema } from 'effect'
+import { envVars } from '../../config'
+import { CurrentTenant } from '../../domain/auth/auth.schema'
+import { BatchNotFoundError } from '../../domain/batches/batches.errors'
+import {
+  BatchItem,
+  BatchResponse,
+  isFinishedBatchItem,
+  summarizeBatchItems,
+} from '../../domain/batches/batches.schema'
+import { JobStatus } from '../../domain/jobs/jobs.schema'
+import { JobsMigrations } from '../jobs/jobs.migrations'
+
+// Row shape as stored in the SQLite batches table
+const BatchRow = Schema.Struct({
+  id: Schema.Number,
+  tenant: Schema.String,
+  name: Schema.NullOr(Schema.String),
+  created_at: Schema.DateTimeUtc,
+})
+type BatchRow = typeof BatchRow.Type
+
+const InsertBatchRow = BatchRow.omit('id')
+
+const InsertBatchItemRow = Schema.Struct({
+  batch_id: Schema.Number,
+  position: Schema.Number,
+  url: Schema.String,
+  name: Schema.NullOr(Schema.String),
+  job_id: Schema.NullOr(Schema.Number),
+  rejection_reason: Schema.NullOr(Schema.String),
+})
+
+// Items joined with their job, whose columns are null once it is deleted
+const BatchItemRow = Schema.Struct({
+  ...InsertBatchItemRow.fields,
+  status: Schema.NullOr(JobStatus),
+  failure_reason: Schema.NullOr(Schema.String),
+})
+type BatchItemRow = typeof BatchItemRow.Type
+
+const BatchKey = Schema.Struct({
+  id: Schema.Number,
+  tenant: Schema.String,
+})
+
+// Item as submitted, either with its job or with the reason it was turned down
+export type NewBatchItem = {
+  readonly url: string
+  readonly name?: string
+  readonly jobId?: number
+  readonly rejectionReason?: string
+}
+
+const toBatchItem = (row: BatchItemRow) =>
+  BatchItem.make({
+    url: row.url,
+    name: row.name ?? undefined,
+    jobId: row.job_id ?? undefined,
+    status: row.job_id === null ? 'rejected' : (row.status ?? 'deleted'),
+    failureReason: row.rejection_reason ?? row.failure_reason ?? undefined,
+  })
+
+const toBatchResponse = (batch: BatchRow, rows: readonly BatchItemRow[]) => {
+  const items = rows.map(toBatchItem)
+  return BatchResponse.make({
+    id: batch.id,
+    name: batch.name ?? undefined,
+    status: items.every((item) => isFinishedBatchItem(item.status))
+      ? 'finished'
+      : 'in-progress',
+    createdAt: batch.created_at,
+    progress: summarizeBatchItems(items),
+    items,
+  })
+}
+
+/**
+ * Batches of the current tenant, each grouping the jobs of the items
+ * submitted together. Their progress is read from the jobs, so it follows
+ * retries, cancellations and deletions of single jobs.
+ */
+export class BatchesStore extends E.Service<BatchesStore>()('BatchesStore', {
+  dependencies: [JobsMigrations],
+  effect: E.gen(function* () {
+    const sql = yield* SqlClient.SqlClient
+    const jobsTable = yield* envVars.JOBS_TABLE
+    const tableName = `${jobsTable}_batches`
+    const table = sql(tableName)
+    const itemsTable = sql(`${jobsTable}_batch_items`)
+
+    const findBatchRow = SqlSchema.findOne({
+      Request: BatchKey,
+      Result: BatchRow,
+      execute: ({ id, tenant }) =>
+        sql`SELECT * FROM ${table} WHERE id = ${id} AND tenant = ${tenant}`,
+    })
+
+    const findBatchItemRows = SqlSchema.findAll({
+      Request: BatchKey,
+      Result: BatchItemRow,
+      execute: ({ id, tenant }) => sql`
+        SELECT item.*, job.status AS status, job.failure_reason AS failure_reason
+        FROM ${itemsTable} AS item
+        LEFT JOIN ${sql(jobsTable)} AS job ON job.id = item.job_id AND job.tenant = ${tenant}
+        WHERE item.batch_id = ${id}
+        ORDER BY item.position
+      `,
+    })
+
+    const insertBatchRow = SqlSchema.single({
+      Request: InsertBatchRow,
+      Result: BatchRow,
+      execute: (row) =>
+        sql`INSERT INTO ${table} ${sql.insert(row)} RETURNING *`,
+    })
+
+    const insertBatchItemRows = SqlSchema.void({
+      Request: Schema.Array(InsertBatchItemRow),
+      execute: (rows) => sql`INSERT INTO ${itemsTable} ${sql.insert(rows)}`,
+    })
+
+    const getBatchResponse = (batch: BatchRow) =>
+      findBatchItemRows({ id: batch.id, tenant: batch.tenant }).pipe(
+        E.orDie,
+        E.map((rows) => toBatchResponse(batch, rows)),
+      )
+
+    return {
+      createBatch: (batch: {
+        readonly name?: string
+        readonly items: readonly NewBatchItem[]
+      }) =>
+        E.gen(function* () {
+          const tenant = yield* CurrentTenant
+          const now = yield* DateTime.now
+
+          const row = yield* insertBatchRow({
+            tenant: tenant.id,
+            name: batch.name ?? null,
+            created_at: now,
+          })
+          yield* insertBatchItemRows(
+            batch.items.map((item, position) => ({
+              batch_id: row.id,
+              position,
+              url: item.url,
+              name: item.name ?? null,
+              job_id: item.jobId ?? null,
+              rejection_reason: item.rejectionReason ?? null,
+            })),
+          )
+
+          yield* E.logInfo('Batch created', {
+            id: row.id,
+            items: batch.items.length,
+          })
+          return yield* getBatchResponse(row)
+        }).pipe(
+          sql.withTransaction,
+          E.orDie,
+          E.withSpan('BatchesStore.createBatch', {
+            attributes: { items: batch.items.length, tableName },
+          }),
+        ),
+
+      getBatch: (id: number) =>
+        E.gen(function* () {
+          const tenant = yield* CurrentTenant
+          const row = yield* findBatchRow({ id, tenant: tenant.id }).pipe(
+            E.orDie,
+          )
+
+          if (Option.isNone(row)) {
+            return yield* E.fail(new BatchNotFoundError({ id }))
+          }
+
+          return yield* getBatchResponse(row.value)
+        }).pipe(
+          E.withSpan('BatchesStore.getBatch', {
+            attributes: { id, tableName },
+          }),
+        ),
+    }
+  }),
+}) {
+  static makeTestService = (
+    mockImplementation: Partial<Omit<BatchesStore, '_tag'>>,
+  ) =>
+    Layer.succeed(BatchesStore, {
+      _tag: 'BatchesStore',
+      createBatch: () => E.die('Not implemented' as const),
+      getBatch: () => E.die('Not implemented' as const),
+      ...mockImplementation,
+    })
+}
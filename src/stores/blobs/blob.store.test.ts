@@ -0,0 +1,281 @@
+import {
+  FileSystem,
+  HttpRouter,
+  HttpServerRequest,
+  HttpServerResponse,
+} from '@effect/platform'
+import {
+  NodeContext,
+  NodeHttpClient,
+  NodeHttpServer,
+} from '@effect/platform-node'
+import { describe, expect, it } from '@effect/vitest'
+import { ConfigProvider, Effect as E, Layer, Stream } from 'effect'
+import {
+  BlobNotFoundError,
+  BlobStoreError,
+} from '../../domain/blobs/blobs.errors'
+import { signS3Request } from '../../domain/blobs/s3.signature'
+import {
+  TestBlobStoreLayer,
+  getExitError,
+  serveFakeHttpApp,
+} from '../../test-utils'
+import { BlobStore } from './blob.store'
+
+const credentials = {
+  region: 'us-east-1',
+  accessKeyId: 'test-access-key',
+  secretAccessKey: 'test-secret-key',
+}
+
+// Small pages so listing has to follow continuation tokens
+const LIST_PAGE_SIZE = 2
+
+const AMZ_DATE = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/
+
+type StoredObject = {
+  readonly body: Uint8Array
+  readonly contentType: string
+}
+
+/**
+ * MinIO-style stand-in for an S3 bucket, it checks every signature and keeps
+ * objects in memory.
+ */
+const makeFakeS3 = (bucket: string) => {
+  const objects = new Map<string, StoredObject>()
+
+  const isSigned = (request: HttpServerRequest.HttpServerRequest) =>
+    E.gen(function* () {
+      const { host, authorization, 'x-amz-date': amzDate } = request.headers
+      const url = new URL(request.url, `http://${host}`)
+      const [, ...parts] = AMZ_DATE.exec(amzDate ?? '') ?? []
+      const [year, month, day, hours, minutes, seconds] = parts.map(Number)
+      const signature = yield* signS3Request(
+        credentials,
+        { method: request.method, url, headers: {} },
+        new Date(
+          Date.UTC(year ?? 0, (month ?? 1) - 1, day, hours, minutes, seconds),
+        ),
+      )
+      return signature.authorization === authorization
+    })
+
+  const listObjects = (url: URL) => {
+    const prefix = url.searchParams.get('prefix') ?? ''
+    const start = Number(url.searchParams.get('continuation-token') ?? 0)
+    const keys = [...objects.keys()]
+      .filter((key) => key.startsWith(prefix))
+      .sort()
+    const page = keys.slice(start, start + LIST_PAGE_SIZE)
+    const next = start + LIST_PAGE_SIZE
+
+    return HttpServerResponse.text(
+      [
+        '<ListBucketResult>',
+        ...page.map(
+          (key) =>
+            `<Contents><Key>${key}</Key><Size>${objects.get(key)?.body.length}</Size><LastModified>2026-01-01T00:00:00.000Z</LastModified></Contents>`,
+        ),
+        next < keys.length
+          ? `<NextContinuationToken>${next}</NextContinuationToken>`
+          : '',
+        '</ListBucketResult>',
+      ].join(''),
+      { contentType: 'application/xml' },
+    )
+  }
+
+  const app = HttpRouter.empty.pipe(
+    HttpRouter.all(
+      '*',
+      E.gen(function* () {
+        const request = yield* HttpServerRequest.HttpServerRequest
+        if (!(yield* isSigned(request))) {
+          return HttpServerResponse.empty({ status: 403 })
+        }
+
+        const url = new URL(request.url, 'http://localhost')
+        const key = url.pathname.slice(`/${bucket}/`.length)
+        const object = objects.get(key)
+
+        switch (request.method) {
+          case 'PUT': {
+            const body = new Uint8Array(yield* request.arrayBuffer)
+            objects.set(key, {
+              body,
+              contentType:
+                request.headers['content-type'] ?? 'binary/octet-stream',
+            })
+            return HttpServerResponse.empty({ status: 200 })
+          }
+          case 'DELETE': {
+            objects.delete(key)
+            return HttpServerResponse.empty({ status: 204 })
+          }
+          default: {
+            if (url.pathname === `/${bucket}`) {
+              return listObjects(url)
+            }
+            return object
+              ? HttpServerResponse.uint8Array(object.body, {
+                  contentType: object.contentType,
+                })
+              : HttpServerResponse.empty({ status: 404 })
+          }
+        }
+      }),
+    ),
+  )
+
+  return { app, objects }
+}
+
+const LocalTestLayer = TestBlobStoreLayer.pipe(
+  Layer.provideMerge(NodeContext.layer),
+)
+
+const makeS3TestLayer = (secretAccessKey = credentials.secretAccessKey) =>
+  Layer.unwrapScoped(
+    E.gen(function* () {
+      const fake = makeFakeS3('coursition-test')
+      const endpoint = yield* serveFakeHttpApp(fake.app)
+      return BlobStore.S3.pipe(
+        Layer.provide(
+          Layer.setConfigProvider(
+            ConfigProvider.fromJson({
+              S3_ENDPOINT: endpoint,
+              S3_BUCKET: 'coursition-test',
+              S3_ACCESS_KEY_ID: credentials.accessKeyId,
+              S3_SECRET_ACCESS_KEY: secretAccessKey,
+            }),
+          ),
+        ),
+      )
+    }),
+  ).pipe(
+    // The store talks to the stand-in like any remote host
+    Layer.provide(NodeHttpClient.layerUndici),
+    Layer.provide(NodeHttpServer.layerTest),
+    Layer.provideMerge(NodeContext.layer),
+  )
+
+const encoder = new TextEncoder()
+
+const readText = (body: Stream.Stream<Uint8Array, BlobStoreError>) =>
+  body.pipe(Stream.decodeText(), Stream.mkString)
+
+// Both implementations honour the same contract
+const stores: ReadonlyArray<{
+  readonly name: string
+  readonly layer: Layer.Layer<BlobStore | FileSystem.FileSystem, unknown>
+}> = [
+  { name: 'BlobStore.Local', layer: LocalTestLayer },
+  { name: 'BlobStore.S3', layer: makeS3TestLayer() },
+]
+
+describe.each(stores)('$name', ({ layer }) => {
+  it.scoped('should return a blob with its content type', () =>
+    E.gen(function* () {
+      const store = yield* BlobStore
+
+      const info = yield* store.put(
+        'results/tenant-test/1/subtitles.vtt',
+        encoder.encode('WEBVTT\n'),
+        { contentType: 'text/vtt' },
+      )
+      const blob = yield* store.get('results/tenant-test/1/subtitles.vtt')
+
+      expect(info.size).toBe(7)
+      expect(blob.contentType).toBe('text/vtt')
+      expect(blob.size).toBe(7)
+      expect(yield* readText(blob.body)).toBe('WEBVTT\n')
+    }).pipe(E.provide(layer)),
+  )
+
+  it.scoped('should stream a file into a blob', () =>
+    E.gen(function* () {
+      const store = yield* BlobStore
+      const fs = yield* FileSystem.FileSystem
+      const file = yield* fs.makeTempFileScoped()
+      yield* fs.writeFileString(file, 'media bytes')
+
+      const info = yield* store.putFile('inputs/tenant-test/upload', file, {
+        contentType: 'video/mp4',
+      })
+      const blob = yield* store.get('inputs/tenant-test/upload')
+
+      expect(info.size).toBe(11)
+      expect(blob.contentType).toBe('video/mp4')
+      expect(yield* readText(blob.body)).toBe('media bytes')
+    }).pipe(E.provide(layer)),
+  )
+
+  it.scoped('should report missing and deleted blobs as not found', () =>
+    E.gen(function* () {
+      const store = yield* BlobStore
+      yield* store.put('inputs/tenant-test/media', encoder.encode('bytes'), {
+        contentType: 'audio/mpeg',
+      })
+
+      yield* store.delete('inputs/tenant-test/media')
+      yield* store.delete('inputs/tenant-test/missing')
+      const exit = yield* store.get('inputs/tenant-test/media').pipe(E.exit)
+
+      expect(getExitError(exit)).toEqual(
+        new BlobNotFoundError({ key: 'inputs/tenant-test/media' }),
+      )
+    }).pipe(E.provide(layer)),
+  )
+
+  it.scoped('should list every blob under a prefix', () =>
+    E.gen(function* () {
+      const store = yield* BlobStore
+      const keys = [
+        'results/tenant-test/1/subtitles.srt',
+        'results/tenant-test/1/subtitles.txt',
+        'results/tenant-test/1/subtitles.vtt',
+        'results/tenant-test/2/subtitles.srt',
+      ]
+      yield* E.forEach(keys, (key) =>
+        store.put(key, encoder.encode('cues'), { contentType: 'text/plain' }),
+      )
+
+      const blobs = yield* store.list('results/tenant-test/1/')
+
+      expect(blobs.map(({ key }) => key).sort()).toEqual(keys.slice(0, 3))
+      expect(blobs.every(({ size }) => size === 4)).toBe(true)
+    }).pipe(E.provide(layer)),
+  )
+
+  it.scoped('should refuse keys escaping the store', () =>
+    E.gen(function* () {
+      const store = yield* BlobStore
+
+      const exit = yield* store
+        .put('../outside', encoder.encode('bytes'), {
+          contentType: 'text/plain',
+        })
+        .pipe(E.exit)
+
+      expect(getExitError(exit)).toBeInstanceOf(BlobStoreError)
+    }).pipe(E.provide(layer)),
+  )
+})
+
+describe('BlobStore.S3', () => {
+  it.scoped('should fail when the service rejects the signature', () =>
+    E.gen(function* () {
+      const store = yield* BlobStore
+
+      const exit = yield* store
+        .put('inputs/tenant-test/media', encoder.encode('bytes'), {
+          contentType: 'audio/mpeg',
+        })
+        .pipe(E.exit)
+
+      expect(getExitError(exit)).toBeInstanceOf(BlobStoreError)
+    }).pipe(E.provide(makeS3TestLayer('wrong-secret-key'))),
+  )
+})
@@ -0,0 +1,54 @@
+import { Context, Effect as E, Layer } from 'effect'
+import { envVars } from '../../config'
+import type {
+  BlobNotFoundError,
+  BlobStoreError,
+} from '../../domain/blobs/blobs.errors'
+import type { BlobInfo, StoredBlob } from '../../domain/blobs/blobs.schema'
+import { makeLocalBlobStore } from './local-blob.adapter'
+import { makeS3BlobStore } from './s3-blob.adapter'
+
+export type PutBlobOptions = {
+  readonly contentType: string
+}
+
+/**
+ * Media and subtitle files kept outside the database, addressed by keys such
+ * as `results/<tenant>/<job>/subtitles.srt`. Putting a key again replaces it.
+ */
+export class BlobStore extends Context.Tag('BlobStore')<
+  BlobStore,
+  {
+    readonly put: (
+      key: string,
+      data: Uint8Array,
+      options: PutBlobOptions,
+    ) => E.Effect<BlobInfo, BlobStoreError>
+    // Streams a file on disk, for media too large to hold in memory
+    readonly putFile: (
+      key: string,
+      path: string,
+      options: PutBlobOptions,
+    ) => E.Effect<BlobInfo, BlobStoreError>
+    readonly get: (
+      key: string,
+    ) => E.Effect<StoredBlob, BlobNotFoundError | BlobStoreError>
+    // Deleting a missing key succeeds
+    readonly delete: (key: string) => E.Effect<void, BlobStoreError>
+    readonly list: (
+      prefix: string,
+    ) => E.Effect<readonly BlobInfo[], BlobStoreError>
+  }
+>() {
+  static Local = Layer.effect(BlobStore, makeLocalBlobStore)
+  static S3 = Layer.effect(BlobStore, makeS3BlobStore)
+
+  // Picks the implementation named by `BLOB_STORE`
+  static Configured = Layer.effect(
+    BlobStore,
+    E.gen(function* () {
+      const store = yield* envVars.BLOB_STORE
+      return store === 's3' ? yield* makeS3BlobStore : yield* makeLocalBlobStore
+    }),
+  )
+}
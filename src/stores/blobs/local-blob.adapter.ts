@@ -0,0 +1,182 @@
+import { FileSystem, Path } from '@effect/platform'
+import { DateTime, Effect as E, Option, Schema, Stream } from 'effect'
+import { envVars } from '../../config'
+import {
+  BlobNotFoundError,
+  BlobStoreError,
+} from '../../domain/blobs/blobs.errors'
+import { type BlobInfo, isValidBlobKey } from '../../domain/blobs/blobs.schema'
+import type { PutBlobOptions } from './blob.store'
+
+const DEFAULT_CONTENT_TYPE = 'application/octet-stream'
+
+// Stored next to the data, the filesystem has nowhere to keep a content type
+const BlobMetadata = Schema.parseJson(
+  Schema.Struct({
+    contentType: Schema.String,
+  }),
+)
+
+const isNotFound = (error: unknown) =>
+  typeof error === 'object' &&
+  error !== null &&
+  'reason' in error &&
+  error.reason === 'NotFound'
+
+/**
+ * Blobs as files under `BLOBS_DIRECTORY`, `data/<key>` with its metadata in
+ * `meta/<key>.json`. Files are written aside and renamed in place, so readers
+ * never see half a blob.
+ */
+export const makeLocalBlobStore = E.gen(function* () {
+  const fs = yield* FileSystem.FileSystem
+  const path = yield* Path.Path
+  const directory = path.resolve(yield* envVars.BLOBS_DIRECTORY)
+  const dataDirectory = path.join(directory, 'data')
+  const metaDirectory = path.join(directory, 'meta')
+  const tmpDirectory = path.join(directory, 'tmp')
+
+  yield* E.forEach(
+    [dataDirectory, metaDirectory, tmpDirectory],
+    (dir) => fs.makeDirectory(dir, { recursive: true }),
+    { discard: true },
+  ).pipe(E.orDie)
+
+  const dataPath = (key: string) => path.join(dataDirectory, key)
+  const metaPath = (key: string) => path.join(metaDirectory, `${key}.json`)
+
+  const checkKey = (key: string) =>
+    isValidBlobKey(key)
+      ? E.void
+      : E.fail(new BlobStoreError({ key, error: 'Invalid blob key' }))
+
+  const statBlob = (key: string) =>
+    fs.stat(dataPath(key)).pipe(
+      E.map(
+        ({ size, mtime }): BlobInfo => ({
+          key,
+          size: Number(size),
+          modifiedAt: DateTime.unsafeFromDate(
+            Option.getOrElse(mtime, () => new Date(0)),
+          ),
+        }),
+      ),
+    )
+
+  // `write` fills the file at the given temporary path
+  const putWith = (
+    key: string,
+    contentType: string,
+    write: (tmpPath: string) => E.Effect<void, unknown>,
+  ) =>
+    E.gen(function* () {
+      yield* checkKey(key)
+      const tmpPath = path.join(tmpDirectory, crypto.randomUUID())
+
+      yield* E.forEach(
+        [dataPath(key), metaPath(key)],
+        (file) => fs.makeDirectory(path.dirname(file), { recursive: true }),
+        { discard: true },
+      )
+      yield* fs.writeFileString(
+        metaPath(key),
+        Schema.encodeSync(BlobMetadata)({ contentType }),
+      )
+      yield* write(tmpPath).pipe(
+        E.zipRight(fs.rename(tmpPath, dataPath(key))),
+        E.onError(() => fs.remove(tmpPath, { force: true }).pipe(E.ignore)),
+      )
+
+      return yield* statBlob(key)
+    }).pipe(
+      E.mapError((error) =>
+        error instanceof BlobStoreError
+          ? error
+          : new BlobStoreError({ key, error }),
+      ),
+    )
+
+  return {
+    put: (key: string, data: Uint8Array, options: PutBlobOptions) =>
+      putWith(key, options.contentType, (tmpPath) =>
+        fs.writeFile(tmpPath, data),
+      ).pipe(
+        E.withSpan('BlobStore.Local.put', {
+          attributes: { key, size: data.length },
+        }),
+      ),
+
+    putFile: (key: string, file: string, options: PutBlobOptions) =>
+      putWith(key, options.contentType, (tmpPath) =>
+        fs.copyFile(file, tmpPath),
+      ).pipe(E.withSpan('BlobStore.Local.putFile', { attributes: { key } })),
+
+    get: (key: string) =>
+      E.gen(function* () {
+        yield* checkKey(key)
+        const info = yield* statBlob(key).pipe(
+          E.mapError((error) =>
+            isNotFound(error)
+              ? new BlobNotFoundError({ key })
+              : new BlobStoreError({ key, error }),
+          ),
+        )
+        // Blobs put before their metadata was written are served as bytes
+        const metadata = yield* fs
+          .readFileString(metaPath(key))
+          .pipe(E.flatMap(Schema.decode(BlobMetadata)), E.option)
+
+        return {
+          ...info,
+          contentType: Option.match(metadata, {
+            onNone: () => DEFAULT_CONTENT_TYPE,
+            onSome: ({ contentType }) => contentType,
+          }),
+          body: fs
+            .stream(dataPath(key))
+            .pipe(
+              Stream.mapError((error) => new BlobStoreError({ key, error })),
+            ),
+        }
+      }).pipe(E.withSpan('BlobStore.Local.get', { attributes: { key } })),
+
+    delete: (key: string) =>
+      checkKey(key).pipe(
+        E.zipRight(
+          E.all(
+            [
+              fs.remove(dataPath(key), { force: true }),
+              fs.remove(metaPath(key), { force: true }),
+            ],
+            { discard: true },
+          ).pipe(E.mapError((error) => new BlobStoreError({ key, error }))),
+        ),
+        E.withSpan('BlobStore.Local.delete', { attributes: { key } }),
+      ),
+
+    list: (prefix: string) =>
+      E.gen(function* () {
+        const entries = yield* fs.readDirectory(dataDirectory, {
+          recursive: true,
+        })
+        const keys = entries
+          .map((entry) => entry.split(path.sep).join('/'))
+          .filter((key) => key.startsWith(prefix) && isValidBlobKey(key))
+
+        const blobs = yield* E.forEach(keys, (key) =>
+          fs.stat(dataPath(key)).pipe(
+            E.flatMap((stat) =>
+              stat.type === 'File' ? E.asSome(statBlob(key)) : E.succeedNone,
+            ),
+            // Deleted while listing
+            E.catchIf(isNotFound, () => E.succeedNone),
+          ),
+        )
+
+        return blobs.flatMap(Option.toArray)
+      }).pipe(
+        E.mapError((error) => new BlobStoreError({ key: prefix, error })),
+        E.withSpan('BlobStore.Local.list', { attributes: { prefix } }),
+      ),
+  }
+})
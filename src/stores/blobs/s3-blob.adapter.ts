@@ -0,0 +1,226 @@
+import {
+  FileSystem,
+  HttpClient,
+  HttpClientRequest,
+  HttpClientResponse,
+} from '@effect/platform'
+import {
+  Array as Arr,
+  DateTime,
+  Effect as E,
+  Option,
+  Redacted,
+  Stream,
+} from 'effect'
+import { envVars } from '../../config'
+import {
+  BlobNotFoundError,
+  BlobStoreError,
+} from '../../domain/blobs/blobs.errors'
+import { type BlobInfo, isValidBlobKey } from '../../domain/blobs/blobs.schema'
+import { signS3Request } from '../../domain/blobs/s3.signature'
+import type { PutBlobOptions } from './blob.store'
+
+const DEFAULT_CONTENT_TYPE = 'application/octet-stream'
+
+const TRAILING_SLASH = /\/$/
+const CONTENTS = /<Contents>([\s\S]*?)<\/Contents>/g
+const KEY = /<Key>([^<]*)<\/Key>/
+const SIZE = /<Size>(\d+)<\/Size>/
+const LAST_MODIFIED = /<LastModified>([^<]*)<\/LastModified>/
+const NEXT_CONTINUATION_TOKEN =
+  /<NextContinuationToken>([^<]*)<\/NextContinuationToken>/
+
+type ListPage = {
+  readonly blobs: readonly BlobInfo[]
+  readonly nextToken: Option.Option<string>
+}
+
+const toBlobStoreError = (key: string) => (error: unknown) =>
+  error instanceof BlobStoreError ? error : new BlobStoreError({ key, error })
+
+const toModifiedAt = (value: string | undefined) =>
+  Option.fromNullable(value).pipe(
+    Option.flatMap((date) => DateTime.make(date)),
+    Option.getOrElse(() => DateTime.unsafeMake(0)),
+  )
+
+// Keys are plain path segments, see `isValidBlobKey`, so no entities to decode
+export const parseListObjects = (xml: string): ListPage => ({
+  blobs: Arr.fromIterable(xml.matchAll(CONTENTS)).flatMap(([, contents = '']) =>
+    Option.fromNullable(KEY.exec(contents)?.[1]).pipe(
+      Option.map((key) => ({
+        key,
+        size: Number(SIZE.exec(contents)?.[1] ?? 0),
+        modifiedAt: toModifiedAt(LAST_MODIFIED.exec(contents)?.[1]),
+      })),
+      Option.toArray,
+    ),
+  ),
+  nextToken: Option.fromNullable(NEXT_CONTINUATION_TOKEN.exec(xml)?.[1]),
+})
+
+/**
+ * Blobs as objects of `S3_BUCKET` on any S3-compatible service (AWS, MinIO,
+ * R2...), addressed path-style so local stand-ins need no DNS.
+ */
+export const makeS3BlobStore = E.gen(function* () {
+  const endpoint = (yield* envVars.S3_ENDPOINT).replace(TRAILING_SLASH, '')
+  const bucket = yield* envVars.S3_BUCKET
+  const credentials = {
+    region: yield* envVars.S3_REGION,
+    accessKeyId: yield* envVars.S3_ACCESS_KEY_ID,
+    secretAccessKey: Redacted.value(yield* envVars.S3_SECRET_ACCESS_KEY),
+  }
+  const fs = yield* FileSystem.FileSystem
+  const client = yield* HttpClient.HttpClient
+
+  const bucketUrl = () => new URL(`${endpoint}/${bucket}`)
+  const objectUrl = (key: string) => new URL(`${endpoint}/${bucket}/${key}`)
+
+  const checkKey = (key: string) =>
+    isValidBlobKey(key)
+      ? E.void
+      : E.fail(new BlobStoreError({ key, error: 'Invalid blob key' }))
+
+  // Signs with the current time, requests are sent right away
+  const execute = (request: HttpClientRequest.HttpClientRequest, url: URL) =>
+    E.gen(function* () {
+      const now = yield* DateTime.now
+      const signature = yield* signS3Request(
+        credentials,
+        { method: request.method, url, headers: {} },
+        DateTime.toDate(now),
+      )
+      return yield* client.execute(
+        HttpClientRequest.setHeaders(request, signature),
+      )
+    })
+
+  const putObject = (
+    key: string,
+    url: URL,
+    request: HttpClientRequest.HttpClientRequest,
+  ) =>
+    E.gen(function* () {
+      yield* execute(request, url).pipe(
+        E.flatMap(HttpClientResponse.filterStatusOk),
+      )
+      return {
+        key,
+        size: Number(request.headers['content-length'] ?? 0),
+        modifiedAt: yield* DateTime.now,
+      } satisfies BlobInfo
+    })
+
+  // Follows continuation tokens until every page is read
+  const listPage = (prefix: string, token: Option.Option<string>) =>
+    E.gen(function* () {
+      const url = bucketUrl()
+      url.searchParams.set('list-type', '2')
+      url.searchParams.set('prefix', prefix)
+      if (Option.isSome(token)) {
+        url.searchParams.set('continuation-token', token.value)
+      }
+
+      const response = yield* execute(HttpClientRequest.get(url), url).pipe(
+        E.flatMap(HttpClientResponse.filterStatusOk),
+      )
+      return parseListObjects(yield* response.text)
+    })
+
+  return {
+    put: (key: string, data: Uint8Array, options: PutBlobOptions) =>
+      E.gen(function* () {
+        yield* checkKey(key)
+        const url = objectUrl(key)
+        return yield* putObject(
+          key,
+          url,
+          HttpClientRequest.put(url).pipe(
+            HttpClientRequest.bodyUint8Array(data, options.contentType),
+          ),
+        )
+      }).pipe(
+        E.mapError(toBlobStoreError(key)),
+        E.withSpan('BlobStore.S3.put', {
+          attributes: { key, size: data.length },
+        }),
+      ),
+
+    putFile: (key: string, file: string, options: PutBlobOptions) =>
+      E.gen(function* () {
+        yield* checkKey(key)
+        const url = objectUrl(key)
+        // S3 needs the length up front, it is taken from the file
+        const request = yield* HttpClientRequest.put(url).pipe(
+          HttpClientRequest.bodyFile(file, {
+            contentType: options.contentType,
+          }),
+          E.provideService(FileSystem.FileSystem, fs),
+        )
+        return yield* putObject(key, url, request)
+      }).pipe(
+        E.mapError(toBlobStoreError(key)),
+        E.withSpan('BlobStore.S3.putFile', { attributes: { key } }),
+      ),
+
+    get: (key: string) =>
+      E.gen(function* () {
+        yield* checkKey(key)
+        const url = objectUrl(key)
+        const response = yield* execute(HttpClientRequest.get(url), url).pipe(
+          E.mapError((error) => new BlobStoreError({ key, error })),
+        )
+
+        if (response.status === 404) {
+          return yield* E.fail(new BlobNotFoundError({ key }))
+        }
+        yield* HttpClientResponse.filterStatusOk(response).pipe(
+          E.mapError((error) => new BlobStoreError({ key, error })),
+        )
+
+        const { headers } = response
+        return {
+          key,
+          size: Number(headers['content-length'] ?? 0),
+          modifiedAt: toModifiedAt(headers['last-modified']),
+          contentType: headers['content-type'] ?? DEFAULT_CONTENT_TYPE,
+          body: response.stream.pipe(
+            Stream.mapError((error) => new BlobStoreError({ key, error })),
+          ),
+        }
+      }).pipe(E.withSpan('BlobStore.S3.get', { attributes: { key } })),
+
+    delete: (key: string) =>
+      E.gen(function* () {
+        yield* checkKey(key)
+        const url = objectUrl(key)
+        const response = yield* execute(HttpClientRequest.del(url), url)
+
+        // S3 answers 204 for missing keys too, stand-ins may not
+        if (response.status !== 404) {
+          yield* HttpClientResponse.filterStatusOk(response)
+        }
+      }).pipe(
+        E.mapError(toBlobStoreError(key)),
+        E.withSpan('BlobStore.S3.delete', { attributes: { key } }),
+      ),
+
+    list: (prefix: string) =>
+      Stream.paginateEffect(Option.none<string>(), (token) =>
+        listPage(prefix, token).pipe(
+          E.map(
+            ({ blobs, nextToken }) =>
+              [blobs, Option.map(nextToken, Option.some)] as const,
+          ),
+        ),
+      ).pipe(
+        Stream.flattenIterables,
+        Stream.runCollect,
+        E.map(Arr.fromIterable),
+        E.mapError(toBlobStoreError(prefix)),
+        E.withSpan('BlobStore.S3.list', { attributes: { prefix } }),
+      ),
+  }
+})
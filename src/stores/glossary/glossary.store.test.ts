@@ -0,0 +1,93 @@
+import { describe, expect, it } from '@effect/vitest'
+import { Effect as E, Layer } from 'effect'
+import { MockConfigLayer } from '../../config'
+import { CurrentTenant } from '../../domain/auth/auth.schema'
+import {
+  GlossaryTermConflictError,
+  GlossaryTermNotFoundError,
+} from '../../domain/glossary/glossary.errors'
+import {
+  SqliteTestLayer,
+  TestTenantLayer,
+  getExitError,
+} from '../../test-utils'
+import { GlossaryStore } from './glossary.store'
+
+const GlossaryTestLayer = GlossaryStore.Default.pipe(
+  Layer.provide(SqliteTestLayer),
+  Layer.provideMerge(TestTenantLayer),
+  Layer.provide(MockConfigLayer),
+)
+
+describe('GlossaryStore', () => {
+  it.effect('should create, update and delete terms', () =>
+    E.gen(function* () {
+      const store = yield* GlossaryStore
+
+      const created = yield* store.createTerm({
+        term: 'kubernetes',
+        soundsLike: ['cube nettis'],
+      })
+      const updated = yield* store.updateTerm(created.id, {
+        term: 'kubernetes',
+        soundsLike: ['cube nettis', 'cooper netties'],
+        casing: 'Kubernetes',
+      })
+      yield* store.createTerm({ term: 'Effect-TS' })
+
+      expect(created).toMatchObject({
+        term: 'kubernetes',
+        soundsLike: ['cube nettis'],
+      })
+      expect(updated.casing).toBe('Kubernetes')
+      expect(yield* store.getTerm(created.id)).toEqual(updated)
+      expect((yield* store.getGlossary()).map(({ term }) => term)).toEqual([
+        'kubernetes',
+        'Effect-TS',
+      ])
+
+      yield* store.deleteTerm(created.id)
+      const exit = yield* store.getTerm(created.id).pipe(E.exit)
+
+      expect(getExitError(exit)).toBeInstanceOf(GlossaryTermNotFoundError)
+      expect(yield* store.getGlossary()).toHaveLength(1)
+    }).pipe(E.provide(GlossaryTestLayer)),
+  )
+
+  it.effect('should reject a term the glossary already has', () =>
+    E.gen(function* () {
+      const store = yield* GlossaryStore
+      const term = yield* store.createTerm({ term: 'Kubernetes' })
+      const other = yield* store.createTerm({ term: 'Effect-TS' })
+
+      const created = yield* store
+        .createTerm({ term: 'KUBERNETES' })
+        .pipe(E.exit)
+      const renamed = yield* store
+        .updateTerm(other.id, { term: 'kubernetes' })
+        .pipe(E.exit)
+      const recased = yield* store.updateTerm(term.id, { term: 'kubernetes' })
+
+      expect(getExitError(created)).toBeInstanceOf(GlossaryTermConflictError)
+      expect(getExitError(renamed)).toBeInstanceOf(GlossaryTermConflictError)
+      expect(recased.term).toBe('kubernetes')
+    }).pipe(E.provide(GlossaryTestLayer)),
+  )
+
+  it.effect('should keep the terms of other tenants apart', () =>
+    E.gen(function* () {
+      const store = yield* GlossaryStore
+      const term = yield* store.createTerm({ term: 'Kubernetes' })
+
+      const other = E.provideService(CurrentTenant, { id: 'tenant-other' })
+      const exit = yield* store.deleteTerm(term.id).pipe(other, E.exit)
+      const created = yield* store
+        .createTerm({ term: 'Kubernetes' })
+        .pipe(other)
+
+      expect(getExitError(exit)).toBeInstanceOf(GlossaryTermNotFoundError)
+      expect(yield* store.getGlossary().pipe(other)).toEqual([created])
+      expect(yield* store.getGlossary()).toEqual([term])
+    }).pipe(E.provide(GlossaryTestLayer)),
+  )
+})
@@ -0,0 +1,241 @@
+import { SqlClient, SqlSchema } from '@effect/sql'
+import { DateTime, Effect as E, Layer, Option, Schema } from 'effect'
+import { envVars } from '../../config'
+import { CurrentTenant } from '../../domain/auth/auth.schema'
+import {
+  GlossaryTermConflictError,
+  GlossaryTermNotFoundError,
+} from '../../domain/glossary/glossary.errors'
+import {
+  GlossaryTerm,
+  type GlossaryTermRequest,
+} from '../../domain/glossary/glossary.schema'
+import { JobsMigrations } from '../jobs/jobs.migrations'
+
+type GlossaryTermRequestType = typeof GlossaryTermRequest.Type
+
+// Row shape as stored in the SQLite glossary table
+const GlossaryRow = Schema.Struct({
+  id: Schema.Number,
+  tenant: Schema.String,
+  term: Schema.String,
+  term_key: Schema.String,
+  sounds_like: Schema.parseJson(Schema.Array(Schema.String)),
+  casing: Schema.NullOr(Schema.String),
+  created_at: Schema.DateTimeUtc,
+  updated_at: Schema.DateTimeUtc,
+})
+type GlossaryRow = typeof GlossaryRow.Type
+
+const InsertGlossaryRow = GlossaryRow.omit('id')
+
+const UpdateGlossaryRow = GlossaryRow.omit('created_at')
+
+const GlossaryKey = Schema.Struct({
+  id: Schema.Number,
+  tenant: Schema.String,
+})
+
+const GlossaryTermKey = Schema.Struct({
+  tenant: Schema.String,
+  term_key: Schema.String,
+})
+
+// Terms differing in case only are the same term
+const toTermKey = (term: string) => term.toLowerCase()
+
+const toGlossaryTerm = (row: GlossaryRow) =>
+  GlossaryTerm.make({
+    id: row.id,
+    term: row.term,
+    soundsLike: row.sounds_like,
+    casing: row.casing ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  })
+
+const termColumns = (request: GlossaryTermRequestType) => ({
+  term: request.term,
+  term_key: toTermKey(request.term),
+  sounds_like: request.soundsLike ?? [],
+  casing: request.casing ?? null,
+})
+
+/**
+ * Glossary terms of the current tenant, applied to the transcripts of its
+ * jobs. Terms of other tenants are reported as not found.
+ */
+export class GlossaryStore extends E.Service<GlossaryStore>()('GlossaryStore', {
+  dependencies: [JobsMigrations],
+  effect: E.gen(function* () {
+    const sql = yield* SqlClient.SqlClient
+    const jobsTable = yield* envVars.JOBS_TABLE
+    const tableName = `${jobsTable}_glossary`
+    const table = sql(tableName)
+
+    const findGlossaryRows = SqlSchema.findAll({
+      Request: Schema.String,
+      Result: GlossaryRow,
+      execute: (tenant) =>
+        sql`SELECT * FROM ${table} WHERE tenant = ${tenant} ORDER BY id`,
+    })
+
+    const findGlossaryRow = SqlSchema.findOne({
+      Request: GlossaryKey,
+      Result: GlossaryRow,
+      execute: ({ id, tenant }) =>
+        sql`SELECT * FROM ${table} WHERE id = ${id} AND tenant = ${tenant}`,
+    })
+
+    const findGlossaryRowByTerm = SqlSchema.findOne({
+      Request: GlossaryTermKey,
+      Result: GlossaryRow,
+      execute: ({ tenant, term_key }) =>
+        sql`SELECT * FROM ${table} WHERE tenant = ${tenant} AND term_key = ${term_key}`,
+    })
+
+    const insertGlossaryRow = SqlSchema.single({
+      Request: InsertGlossaryRow,
+      Result: GlossaryRow,
+      execute: (row) =>
+        sql`INSERT INTO ${table} ${sql.insert(row)} RETURNING *`,
+    })
+
+    const updateGlossaryRow = SqlSchema.single({
+      Request: UpdateGlossaryRow,
+      Result: GlossaryRow,
+      execute: ({ id, tenant, ...values }) =>
+        sql`UPDATE ${table} SET ${sql.update(values)} WHERE id = ${id} AND tenant = ${tenant} RETURNING *`,
+    })
+
+    const getGlossaryRow = (id: number) =>
+      E.gen(function* () {
+        const tenant = yield* CurrentTenant
+        const row = yield* findGlossaryRow({ id, tenant: tenant.id }).pipe(
+          E.orDie,
+        )
+
+        if (Option.isNone(row)) {
+          return yield* E.fail(new GlossaryTermNotFoundError({ id }))
+        }
+
+        return row.value
+      })
+
+    // A tenant has each term once, whatever its case
+    const checkTermIsFree = (term: string, id?: number) =>
+      E.gen(function* () {
+        const tenant = yield* CurrentTenant
+        const existing = yield* findGlossaryRowByTerm({
+          tenant: tenant.id,
+          term_key: toTermKey(term),
+        }).pipe(E.orDie)
+
+        if (Option.isSome(existing) && existing.value.id !== id) {
+          return yield* E.fail(
+            new GlossaryTermConflictError({
+              term,
+              reason: `Term "${existing.value.term}" is already in the glossary`,
+            }),
+          )
+        }
+      })
+
+    return {
+      // Oldest terms first, they win when terms share a sound-alike
+      getGlossary: () =>
+        E.gen(function* () {
+          const tenant = yield* CurrentTenant
+          const rows = yield* findGlossaryRows(tenant.id).pipe(E.orDie)
+          return rows.map(toGlossaryTerm)
+        }).pipe(
+          E.withSpan('GlossaryStore.getGlossary', {
+            attributes: { tableName },
+          }),
+        ),
+
+      getTerm: (id: number) =>
+        getGlossaryRow(id).pipe(
+          E.map(toGlossaryTerm),
+          E.withSpan('GlossaryStore.getTerm', {
+            attributes: { id, tableName },
+          }),
+        ),
+
+      createTerm: (request: GlossaryTermRequestType) =>
+        E.gen(function* () {
+          const tenant = yield* CurrentTenant
+          const now = yield* DateTime.now
+
+          yield* checkTermIsFree(request.term)
+          const row = yield* insertGlossaryRow({
+            tenant: tenant.id,
+            ...termColumns(request),
+            created_at: now,
+            updated_at: now,
+          }).pipe(E.orDie)
+
+          yield* E.logInfo('Glossary term created', { id: row.id })
+          return toGlossaryTerm(row)
+        }).pipe(
+          sql.withTransaction,
+          E.catchTag('SqlError', E.die),
+          E.withSpan('GlossaryStore.createTerm', {
+            attributes: { term: request.term, tableName },
+          }),
+        ),
+
+      updateTerm: (id: number, request: GlossaryTermRequestType) =>
+        E.gen(function* () {
+          const tenant = yield* CurrentTenant
+          const now = yield* DateTime.now
+
+          yield* getGlossaryRow(id)
+          yield* checkTermIsFree(request.term, id)
+          const row = yield* updateGlossaryRow({
+            id,
+            tenant: tenant.id,
+            ...termColumns(request),
+            updated_at: now,
+          }).pipe(E.orDie)
+
+          yield* E.logInfo('Glossary term updated', { id })
+          return toGlossaryTerm(row)
+        }).pipe(
+          sql.withTransaction,
+          E.catchTag('SqlError', E.die),
+          E.withSpan('GlossaryStore.updateTerm', {
+            attributes: { id, term: request.term, tableName },
+          }),
+        ),
+
+      deleteTerm: (id: number) =>
+        E.gen(function* () {
+          const tenant = yield* CurrentTenant
+
+          yield* getGlossaryRow(id)
+          yield* sql`DELETE FROM ${table} WHERE id = ${id} AND tenant = ${tenant.id}`.pipe(
+            E.orDie,
+          )
+          yield* E.logInfo('Glossary term deleted', { id })
+        }).pipe(
+          E.withSpan('GlossaryStore.deleteTerm', {
+            attributes: { id, tableName },
+          }),
+        ),
+    }
+  }),
+}) {
+  static makeTestService = (
+    mockImplementation: Partial<Omit<GlossaryStore, '_tag'>>,
+  ) =>
+    Layer.succeed(GlossaryStore, {
+      _tag: 'GlossaryStore',
+      getGlossary: () => E.die('Not implemented' as const),
+      getTerm: () => E.die('Not implemented' as const),
+      createTerm: () => E.die('Not implemented' as const),
+      updateTerm: () => E.die('Not implemented' as const),
+      deleteTerm: () => E.die('Not implemented' as const),
+      ...mockImplementation,
+    })
+}
@@ -0,0 +1,42 @@
+import { Migrator } from '@effect/sql'
+import { Layer } from 'effect'
+
+const runMigrations = Migrator.make({})
+
+// Each migration lives in ./migrations as `<id>_<name>.ts` with a default export
+export const JobsMigrations = Layer.effectDiscard(
+  runMigrations({
+    loader: Migrator.fromGlob({
+      './migrations/0001_create_jobs_table.ts': () =>
+        import('./migrations/0001_create_jobs_table'),
+      './migrations/0002_add_job_lifecycle_columns.ts': () =>
+        import('./migrations/0002_add_job_lifecycle_columns'),
+      './migrations/0003_add_job_engine_column.ts': () =>
+        import('./migrations/0003_add_job_engine_column'),
+      './migrations/0004_add_job_language_column.ts': () =>
+        import('./migrations/0004_add_job_language_column'),
+      './migrations/0005_add_job_request_column.ts': () =>
+        import('./migrations/0005_add_job_request_column'),
+      './migrations/0006_create_job_deliveries_table.ts': () =>
+        import('./migrations/0006_create_job_deliveries_table'),
+      './migrations/0007_add_job_tenant_column.ts': () =>
+        import('./migrations/0007_add_job_tenant_column'),
+      './migrations/0008_create_job_uploads_table.ts': () =>
+        import('./migrations/0008_create_job_uploads_table'),
+      './migrations/0009_add_job_translations_column.ts': () =>
+        import('./migrations/0009_add_job_translations_column'),
+      './migrations/0010_create_job_revisions_table.ts': () =>
+        import('./migrations/0010_create_job_revisions_table'),
+      './migrations/0011_create_job_glossary_table.ts': () =>
+        import('./migrations/0011_create_job_glossary_table'),
+      './migrations/0012_add_job_replacements_column.ts': () =>
+        import('./migrations/0012_add_job_replacements_column'),
+      './migrations/0013_create_job_search_table.ts': () =>
+        import('./migrations/0013_create_job_search_table'),
+      './migrations/0014_create_job_batches_tables.ts': () =>
+        import('./migrations/0014_create_job_batches_tables'),
+      './migrations/0015_add_job_translation_failures_column.ts': () =>
+        import('./migrations/0015_add_job_translation_failures_column'),
+    }),
+  }),
+)
@@ -1,21 +1,326 @@
 import { describe, expect, it } from '@effect/vitest'
-import { Effect as E, Exit } from 'effect'
+import { DateTime, Effect as E, Exit, Option, TestClock } from 'effect'
 import { MockConfigLayer } from '../../config'
+import { CurrentTenant } from '../../domain/auth/auth.schema'
 import { JobResultNotFoundError } from '../../domain/jobs/jobs.errors'
-import { getExitError } from '../../test-utils'
+import {
+  SqliteTestLayer,
+  TestTenantLayer,
+  getExitError,
+} from '../../test-utils'
 import { JobsStore } from './jobs.store'
 
 describe('JobsStore', () => {
   describe('getAllJobs', () => {
-    it.effect('should return list of jobs', () =>
+    it.effect('should return empty list for fresh database', () =>
       E.gen(function* () {
         const store = yield* JobsStore
         const result = yield* store.getAllJobs()
 
-        expect(result.jobs).toHaveLength(3)
+        expect(result.jobs).toHaveLength(0)
+      }).pipe(
+        E.provide(JobsStore.Default),
+        E.provide(SqliteTestLayer),
+        E.provide(TestTenantLayer),
+        E.provide(MockConfigLayer),
+      ),
+    )
+
+    it.effect('should return list of created jobs', () =>
+      E.gen(function* () {
+        const store = yield* JobsStore
+        yield* store.createJob({ name: 'Parse Video 1' })
+        yield* store.createJob({ name: 'Parse Audio 2' })
+        const result = yield* store.getAllJobs()
+
+        expect(result.jobs).toHaveLength(2)
         expect(result.jobs[0]?.name).toBe('Parse Video 1')
-        expect(result.jobs[0]?.status).toBe('completed')
-      }).pipe(E.provide(JobsStore.Default), E.provide(MockConfigLayer)),
+        expect(result.jobs[0]?.status).toBe('pending')
+        expect(result.jobs[1]?.name).toBe('Parse Audio 2')
+      }).pipe(
+        E.provide(JobsStore.Default),
+        E.provide(SqliteTestLayer),
+        E.provide(TestTenantLayer),
+        E.provide(MockConfigLayer),
+      ),
+    )
+
+    it.effect('should paginate with a cursor', () =>
+      E.gen(function* () {
+        const store = yield* JobsStore
+        for (const name of ['Job 1', 'Job 2', 'Job 3', 'Job 4', 'Job 5']) {
+          yield* store.createJob({ name })
+          yield* TestClock.adjust('1 second')
+        }
+
+        const first = yield* store.getAllJobs({ limit: 2 })
+        const second = yield* store.getAllJobs({
+          limit: 2,
+          cursor: first.nextCursor,
+        })
+        const last = yield* store.getAllJobs({
+          limit: 2,
+          cursor: second.nextCursor,
+        })
+
+        expect(first.jobs.map(({ name }) => name)).toEqual(['Job 1', 'Job 2'])
+        expect(second.jobs.map(({ name }) => name)).toEqual(['Job 3', 'Job 4'])
+        expect(last.jobs.map(({ name }) => name)).toEqual(['Job 5'])
+        expect(last.nextCursor).toBeUndefined()
+        expect(first.total).toBe(5)
+      }).pipe(
+        E.provide(JobsStore.Default),
+        E.provide(SqliteTestLayer),
+        E.provide(TestTenantLayer),
+        E.provide(MockConfigLayer),
+      ),
+    )
+
+    it.effect(
+      'should filter by status, language, engine and creation date',
+      () =>
+        E.gen(function* () {
+          const store = yield* JobsStore
+          const english = yield* store.createJob({
+            name: 'English',
+            language: 'en',
+            engine: 'whisper',
+          })
+          yield* store.transitionJob(english.id, { status: 'in-progress' })
+          yield* TestClock.adjust('1 hour')
+          yield* store.createJob({
+            name: 'Spanish',
+            language: 'es',
+            engine: 'whisper',
+          })
+          yield* store.createJob({ name: 'German', language: 'de' })
+
+          const byStatus = yield* store.getAllJobs({ status: 'in-progress' })
+          const byLanguage = yield* store.getAllJobs({ language: 'es' })
+          const byEngine = yield* store.getAllJobs({ engine: 'whisper' })
+          const byDate = yield* store.getAllJobs({
+            createdAfter: DateTime.unsafeMake(60_000),
+          })
+
+          expect(byStatus.jobs.map(({ name }) => name)).toEqual(['English'])
+          expect(byLanguage.jobs.map(({ name }) => name)).toEqual(['Spanish'])
+          expect(byEngine.total).toBe(2)
+          expect(byDate.jobs.map(({ name }) => name)).toEqual([
+            'Spanish',
+            'German',
+          ])
+        }).pipe(
+          E.provide(JobsStore.Default),
+          E.provide(SqliteTestLayer),
+          E.provide(TestTenantLayer),
+          E.provide(MockConfigLayer),
+        ),
+    )
+
+    it.effect('should sort descending across pages', () =>
+      E.gen(function* () {
+        const store = yield* JobsStore
+        for (const name of ['b', 'a', 'c', 'a']) {
+          yield* store.createJob({ name })
+        }
+
+        const first = yield* store.getAllJobs({
+          sortBy: 'name',
+          order: 'desc',
+          limit: 3,
+        })
+        const second = yield* store.getAllJobs({
+          sortBy: 'name',
+          order: 'desc',
+          limit: 3,
+          cursor: first.nextCursor,
+        })
+
+        expect(first.jobs.map(({ id }) => id)).toEqual([3, 1, 4])
+        expect(second.jobs.map(({ id }) => id)).toEqual([2])
+      }).pipe(
+        E.provide(JobsStore.Default),
+        E.provide(SqliteTestLayer),
+        E.provide(TestTenantLayer),
+        E.provide(MockConfigLayer),
+      ),
+    )
+  })
+
+  describe('createJob', () => {
+    it.effect('should assign incrementing ids', () =>
+      E.gen(function* () {
+        const store = yield* JobsStore
+        const first = yield* store.createJob({ name: 'First' })
+        const second = yield* store.createJob({ name: 'Second' })
+
+        expect(first.id).toBe(1)
+        expect(second.id).toBe(2)
+        expect(second.status).toBe('pending')
+        expect(second.createdAt).toEqual(DateTime.unsafeMake(0))
+        expect(second.startedAt).toBeUndefined()
+      }).pipe(
+        E.provide(JobsStore.Default),
+        E.provide(SqliteTestLayer),
+        E.provide(TestTenantLayer),
+        E.provide(MockConfigLayer),
+      ),
+    )
+
+    it.effect('should record the parsing engine', () =>
+      E.gen(function* () {
+        const store = yield* JobsStore
+        const job = yield* store.createJob({ name: 'Job', engine: 'whisper' })
+        const stored = yield* store.getJobById(job.id)
+
+        expect(job.engine).toBe('whisper')
+        expect(stored.engine).toBe('whisper')
+      }).pipe(
+        E.provide(JobsStore.Default),
+        E.provide(SqliteTestLayer),
+        E.provide(TestTenantLayer),
+        E.provide(MockConfigLayer),
+      ),
+    )
+  })
+
+  describe('createJobWithinLimit', () => {
+    it.effect('should not go past the limit with concurrent submissions', () =>
+      E.gen(function* () {
+        const store = yield* JobsStore
+        const done = yield* store.createJob({ name: 'Done' })
+        yield* store.transitionJob(done.id, { status: 'in-progress' })
+        yield* store.transitionJob(done.id, { status: 'failed' })
+
+        const created = yield* E.forEach(
+          ['1', '2', '3', '4', '5'],
+          (name) => store.createJobWithinLimit({ name }, 3),
+          { concurrency: 'unbounded' },
+        )
+
+        expect(created.filter(Option.isSome)).toHaveLength(3)
+        expect(yield* store.countActiveJobs()).toBe(3)
+      }).pipe(
+        E.provide(JobsStore.Default),
+        E.provide(SqliteTestLayer),
+        E.provide(TestTenantLayer),
+        E.provide(MockConfigLayer),
+      ),
+    )
+  })
+
+  describe('transitionJob', () => {
+    it.effect('should move job to in-progress and record start time', () =>
+      E.gen(function* () {
+        const store = yield* JobsStore
+        const job = yield* store.createJob({ name: 'Job 1' })
+        yield* TestClock.adjust('1 minute')
+        const updated = yield* store.transitionJob(job.id, {
+          status: 'in-progress',
+        })
+
+        expect(updated.id).toBe(job.id)
+        expect(updated.name).toBe('Job 1')
+        expect(updated.status).toBe('in-progress')
+        expect(updated.startedAt).toEqual(DateTime.unsafeMake(60_000))
+        expect(updated.finishedAt).toBeUndefined()
+      }).pipe(
+        E.provide(JobsStore.Default),
+        E.provide(SqliteTestLayer),
+        E.provide(TestTenantLayer),
+        E.provide(MockConfigLayer),
+      ),
+    )
+
+    it.effect('should record finish time and failure reason', () =>
+      E.gen(function* () {
+        const store = yield* JobsStore
+        const job = yield* store.createJob({ name: 'Job 1' })
+        yield* store.transitionJob(job.id, { status: 'in-progress' })
+        yield* TestClock.adjust('2 minutes')
+        const failed = yield* store.transitionJob(job.id, {
+          status: 'failed',
+          failureReason: 'Engine unavailable',
+        })
+
+        expect(failed.status).toBe('failed')
+        expect(failed.startedAt).toEqual(DateTime.unsafeMake(0))
+        expect(failed.finishedAt).toEqual(DateTime.unsafeMake(120_000))
+        expect(failed.failureReason).toBe('Engine unavailable')
+      }).pipe(
+        E.provide(JobsStore.Default),
+        E.provide(SqliteTestLayer),
+        E.provide(TestTenantLayer),
+        E.provide(MockConfigLayer),
+      ),
+    )
+
+    it.effect('should reset a failed job when retried', () =>
+      E.gen(function* () {
+        const store = yield* JobsStore
+        const job = yield* store.createJob({ name: 'Job 1' })
+        yield* store.transitionJob(job.id, { status: 'in-progress' })
+        yield* store.transitionJob(job.id, {
+          status: 'failed',
+          failureReason: 'Engine unavailable',
+        })
+        const retried = yield* store.transitionJob(job.id, {
+          status: 'pending',
+        })
+
+        expect(retried.status).toBe('pending')
+        expect(retried.startedAt).toBeUndefined()
+        expect(retried.finishedAt).toBeUndefined()
+        expect(retried.failureReason).toBeUndefined()
+      }).pipe(
+        E.provide(JobsStore.Default),
+        E.provide(SqliteTestLayer),
+        E.provide(TestTenantLayer),
+        E.provide(MockConfigLayer),
+      ),
+    )
+
+    it.effect('should reject illegal transitions', () =>
+      E.gen(function* () {
+        const store = yield* JobsStore
+        const job = yield* store.createJob({ name: 'Job 1' })
+        const result = yield* store
+          .transitionJob(job.id, { status: 'completed' })
+          .pipe(E.exit)
+        const unchanged = yield* store.getJobById(job.id)
+
+        expect(Exit.isFailure(result)).toBe(true)
+        if (Exit.isFailure(result)) {
+          const error = getExitError(result)
+          expect(error?._tag).toBe('InvalidJobTransitionError')
+        }
+        expect(unchanged.status).toBe('pending')
+      }).pipe(
+        E.provide(JobsStore.Default),
+        E.provide(SqliteTestLayer),
+        E.provide(TestTenantLayer),
+        E.provide(MockConfigLayer),
+      ),
+    )
+
+    it.effect('should handle not found error', () =>
+      E.gen(function* () {
+        const store = yield* JobsStore
+        const result = yield* store
+          .transitionJob(999, { status: 'in-progress' })
+          .pipe(E.exit)
+
+        expect(Exit.isFailure(result)).toBe(true)
+        if (Exit.isFailure(result)) {
+          const error = getExitError(result)
+          expect(error?._tag).toBe('JobNotFoundError')
+        }
+      }).pipe(
+        E.provide(JobsStore.Default),
+        E.provide(SqliteTestLayer),
+        E.provide(TestTenantLayer),
+        E.provide(MockConfigLayer),
+      ),
     )
   })
 
@@ -23,12 +328,19 @@ describe('JobsStore', () => {
     it.effect('should return job when found', () =>
       E.gen(function* () {
         const store = yield* JobsStore
-        const result = yield* store.getJobById(1)
+        const job = yield* store.createJob({ name: 'Job 1' })
+        yield* store.transitionJob(job.id, { status: 'in-progress' })
+        const result = yield* store.getJobById(job.id)
 
-        expect(result.id).toBe(1)
+        expect(result.id).toBe(job.id)
         expect(result.name).toBe('Job 1')
         expect(result.status).toBe('in-progress')
-      }).pipe(E.provide(JobsStore.Default), E.provide(MockConfigLayer)),
+      }).pipe(
+        E.provide(JobsStore.Default),
+        E.provide(SqliteTestLayer),
+        E.provide(TestTenantLayer),
+        E.provide(MockConfigLayer),
+      ),
     )
 
     it.effect('should handle not found error', () =>
@@ -41,39 +353,120 @@ describe('JobsStore', () => {
           const error = getExitError(result)
           expect(error?._tag).toBe('JobNotFoundError')
         }
-      }).pipe(E.provide(JobsStore.Default), E.provide(MockConfigLayer)),
+      }).pipe(
+        E.provide(JobsStore.Default),
+        E.provide(SqliteTestLayer),
+        E.provide(TestTenantLayer),
+        E.provide(MockConfigLayer),
+      ),
+    )
+  })
+
+  describe('getJobRequest', () => {
+    it.effect('should return the stored request', () =>
+      E.gen(function* () {
+        const store = yield* JobsStore
+        const request = {
+          url: 'https://example.com/video.mp4',
+          language: 'en',
+          engine: 'whisper',
+        } as const
+        const job = yield* store.createJob({ name: 'Job 1', request })
+        const imported = yield* store.createJob({ name: 'Job 2' })
+
+        expect(yield* store.getJobRequest(job.id)).toEqual(Option.some(request))
+        expect(yield* store.getJobRequest(imported.id)).toEqual(Option.none())
+      }).pipe(
+        E.provide(JobsStore.Default),
+        E.provide(SqliteTestLayer),
+        E.provide(TestTenantLayer),
+        E.provide(MockConfigLayer),
+      ),
+    )
+  })
+
+  describe('deleteJob', () => {
+    it.effect('should remove the job', () =>
+      E.gen(function* () {
+        const store = yield* JobsStore
+        const job = yield* store.createJob({ name: 'Job 1' })
+        yield* store.deleteJob(job.id)
+        const result = yield* store.getJobById(job.id).pipe(E.exit)
+        const again = yield* store.deleteJob(job.id).pipe(E.exit)
+
+        expect(getExitError(result)?._tag).toBe('JobNotFoundError')
+        expect(getExitError(again)?._tag).toBe('JobNotFoundError')
+      }).pipe(
+        E.provide(JobsStore.Default),
+        E.provide(SqliteTestLayer),
+        E.provide(TestTenantLayer),
+        E.provide(MockConfigLayer),
+      ),
     )
   })
 
   describe('getJobResult', () => {
-    it.effect('should return result for completed job', () =>
+    it.effect('should return stored result for completed job', () =>
       E.gen(function* () {
         const store = yield* JobsStore
-        const result = yield* store.getJobResult(1)
+        const job = yield* store.createJob({ name: 'Job 1' })
+        yield* store.transitionJob(job.id, { status: 'in-progress' })
+        yield* store.transitionJob(job.id, {
+          status: 'completed',
+          result: [{ start: 0, end: 5000, text: 'Hello world' }],
+        })
+        const result = yield* store.getJobResult(job.id)
 
-        expect(result.id).toBe(1)
-        expect(result.result).toBe('Result for job 1')
+        expect(result.id).toBe(job.id)
+        expect(result.result).toHaveLength(1)
+        expect(result.result[0]?.text).toBe('Hello world')
       }).pipe(
-        E.provide(
-          JobsStore.makeTestService({
-            getJobById: (id) =>
-              E.succeed({
-                id,
-                name: `Job ${id}`,
-                status: 'completed',
-              }),
-            getJobResult: (jobId) =>
-              E.succeed({
-                id: jobId,
-                result: `Result for job ${jobId}`,
-              }),
-          }),
-        ),
+        E.provide(JobsStore.Default),
+        E.provide(SqliteTestLayer),
+        E.provide(TestTenantLayer),
         E.provide(MockConfigLayer),
       ),
     )
 
     it.effect('should handle result not found for incomplete job', () =>
+      E.gen(function* () {
+        const store = yield* JobsStore
+        const job = yield* store.createJob({ name: 'Job 2' })
+        yield* store.transitionJob(job.id, { status: 'in-progress' })
+        const result = yield* store.getJobResult(job.id).pipe(E.exit)
+
+        expect(Exit.isFailure(result)).toBe(true)
+        if (Exit.isFailure(result)) {
+          const error = getExitError(result)
+          expect(error?._tag).toBe('JobResultNotFoundError')
+        }
+      }).pipe(
+        E.provide(JobsStore.Default),
+        E.provide(SqliteTestLayer),
+        E.provide(TestTenantLayer),
+        E.provide(MockConfigLayer),
+      ),
+    )
+
+    it.effect('should handle job not found', () =>
+      E.gen(function* () {
+        const store = yield* JobsStore
+        const result = yield* store.getJobResult(999).pipe(E.exit)
+
+        expect(Exit.isFailure(result)).toBe(true)
+        if (Exit.isFailure(result)) {
+          const error = getExitError(result)
+          expect(error?._tag).toBe('JobNotFoundError')
+        }
+      }).pipe(
+        E.provide(JobsStore.Default),
+        E.provide(SqliteTestLayer),
+        E.provide(TestTenantLayer),
+        E.provide(MockConfigLayer),
+      ),
+    )
+
+    it.effect('should work with test service', () =>
       E.gen(function* () {
         const store = yield* JobsStore
         const result = yield* store.getJobResult(2).pipe(E.exit)
@@ -86,16 +479,135 @@ describe('JobsStore', () => {
       }).pipe(
         E.provide(
           JobsStore.makeTestService({
-            getJobById: (id) =>
-              E.succeed({
-                id,
-                name: `Job ${id}`,
-                status: 'in-progress',
-              }),
             getJobResult: (jobId) =>
               E.fail(new JobResultNotFoundError({ jobId })),
           }),
         ),
+        E.provide(TestTenantLayer),
+        E.provide(MockConfigLayer),
+      ),
+    )
+  })
+
+  describe('revisions', () => {
+    const completeJob = E.gen(function* () {
+      const store = yield* JobsStore
+      const job = yield* store.createJob({ name: 'Interview' })
+      yield* store.transitionJob(job.id, { status: 'in-progress' })
+      yield* store.transitionJob(job.id, {
+        status: 'completed',
+        result: [{ start: 0, end: 1000, text: 'Helo' }],
+      })
+      return job.id
+    })
+
+    it.effect('should keep every revision and update the result', () =>
+      E.gen(function* () {
+        const store = yield* JobsStore
+        const jobId = yield* completeJob
+
+        const revision = yield* store.addJobRevision(jobId, {
+          result: [{ start: 0, end: 1000, text: 'Hello' }],
+          author: 'editor',
+          baseRevision: 1,
+        })
+        const revisions = yield* store.getJobRevisions(jobId)
+        const original = yield* store.getJobRevision(jobId, 1)
+        const result = yield* store.getJobResult(jobId)
+
+        expect(revision).toMatchObject({ revision: 2, author: 'editor' })
+        expect(
+          revisions.map(({ revision, author }) => [revision, author]),
+        ).toEqual([
+          [1, undefined],
+          [2, 'editor'],
+        ])
+        expect(original.result[0]?.text).toBe('Helo')
+        expect(result.result[0]?.text).toBe('Hello')
+      }).pipe(
+        E.provide(JobsStore.Default),
+        E.provide(SqliteTestLayer),
+        E.provide(TestTenantLayer),
+        E.provide(MockConfigLayer),
+      ),
+    )
+
+    it.effect('should list the completed result as revision 1', () =>
+      E.gen(function* () {
+        const store = yield* JobsStore
+        const jobId = yield* completeJob
+
+        const revisions = yield* store.getJobRevisions(jobId)
+        const latest = yield* store.getJobRevision(jobId)
+        const missing = yield* store.getJobRevision(jobId, 2).pipe(E.exit)
+
+        expect(revisions).toHaveLength(1)
+        expect(latest).toMatchObject({ id: jobId, revision: 1 })
+        expect(getExitError(missing)).toMatchObject({
+          _tag: 'JobRevisionNotFoundError',
+          revision: 2,
+        })
+      }).pipe(
+        E.provide(JobsStore.Default),
+        E.provide(SqliteTestLayer),
+        E.provide(TestTenantLayer),
+        E.provide(MockConfigLayer),
+      ),
+    )
+
+    it.effect('should reject revisions made on an older one', () =>
+      E.gen(function* () {
+        const store = yield* JobsStore
+        const jobId = yield* completeJob
+        const edit = (text: string) =>
+          store.addJobRevision(jobId, {
+            result: [{ start: 0, end: 1000, text }],
+            author: 'editor',
+            baseRevision: 1,
+          })
+
+        yield* edit('Hello')
+        const stale = yield* edit('Hallo').pipe(E.exit)
+
+        expect(getExitError(stale)).toMatchObject({
+          _tag: 'JobConflictError',
+        })
+        expect((yield* store.getJobRevisions(jobId)).length).toBe(2)
+      }).pipe(
+        E.provide(JobsStore.Default),
+        E.provide(SqliteTestLayer),
+        E.provide(TestTenantLayer),
+        E.provide(MockConfigLayer),
+      ),
+    )
+  })
+
+  describe('tenants', () => {
+    it.effect('should hide jobs of other tenants', () =>
+      E.gen(function* () {
+        const store = yield* JobsStore
+        const job = yield* store.createJob({ name: 'Job 1' })
+
+        const asOther = <A, E, R>(effect: E.Effect<A, E, R>) =>
+          effect.pipe(E.provideService(CurrentTenant, { id: 'tenant-other' }))
+        const listed = yield* asOther(store.getAllJobs())
+        const found = yield* asOther(store.getJobById(job.id)).pipe(E.exit)
+        const transitioned = yield* asOther(
+          store.transitionJob(job.id, { status: 'cancelled' }),
+        ).pipe(E.exit)
+        const deleted = yield* asOther(store.deleteJob(job.id)).pipe(E.exit)
+        const own = yield* store.getJobById(job.id)
+
+        expect(listed.jobs).toHaveLength(0)
+        expect(listed.total).toBe(0)
+        expect(getExitError(found)?._tag).toBe('JobNotFoundError')
+        expect(getExitError(transitioned)?._tag).toBe('JobNotFoundError')
+        expect(getExitError(deleted)?._tag).toBe('JobNotFoundError')
+        expect(own.status).toBe('pending')
+      }).pipe(
+        E.provide(JobsStore.Default),
+        E.provide(SqliteTestLayer),
+        E.provide(TestTenantLayer),
         E.provide(MockConfigLayer),
       ),
     )
@@ -1,72 +1,757 @@
-import { Effect as E, Layer } from 'effect'
+import { SqlClient, SqlSchema } from '@effect/sql'
+import {
+  DateTime,
+  Effect as E,
+  Layer,
+  Option,
+  PubSub,
+  Record as Rec,
+  Schema,
+  Stream,
+} from 'effect'
 import { envVars } from '../../config'
+import { CurrentTenant, type Tenant } from '../../domain/auth/auth.schema'
+import { GlossaryReplacement } from '../../domain/glossary/glossary.schema'
 import {
+  InvalidJobTransitionError,
+  JobConflictError,
   JobNotFoundError,
   JobResultNotFoundError,
+  JobRevisionNotFoundError,
+  JobTranslationNotFoundError,
 } from '../../domain/jobs/jobs.errors'
 import {
+  JobDeletedEvent,
+  type JobEvent,
   JobResponse,
   JobResultResponse,
+  JobRevision,
+  JobRevisionResponse,
+  JobStatus,
+  JobStatusEvent,
+  JobTranslationFailures,
+  JobTranslations,
+  type JobsQuery,
   JobsResponse,
+  type JobsSortField,
+  canTransitionJob,
+  isTerminalJobStatus,
 } from '../../domain/jobs/jobs.schema'
+import {
+  MediaEngine,
+  StoredMediaRequest,
+  SubtitleJson,
+} from '../../domain/media/media.schema'
+import { JobsMigrations } from './jobs.migrations'
+
+// Row shape as stored in the SQLite jobs table
+const JobRow = Schema.Struct({
+  id: Schema.Number,
+  name: Schema.String,
+  status: JobStatus,
+  result: Schema.NullOr(Schema.parseJson(SubtitleJson)),
+  translations: Schema.NullOr(Schema.parseJson(JobTranslations)),
+  translation_failures: Schema.NullOr(Schema.parseJson(JobTranslationFailures)),
+  replacements: Schema.NullOr(
+    Schema.parseJson(Schema.Array(GlossaryReplacement)),
+  ),
+  failure_reason: Schema.NullOr(Schema.String),
+  engine: Schema.NullOr(MediaEngine),
+  language: Schema.NullOr(Schema.String),
+  request: Schema.NullOr(Schema.parseJson(StoredMediaRequest)),
+  tenant: Schema.NullOr(Schema.String),
+  created_at: Schema.DateTimeUtc,
+  updated_at: Schema.DateTimeUtc,
+  started_at: Schema.NullOr(Schema.DateTimeUtc),
+  finished_at: Schema.NullOr(Schema.DateTimeUtc),
+})
+type JobRow = typeof JobRow.Type
+
+const InsertJobRow = JobRow.pick(
+  'name',
+  'status',
+  'engine',
+  'language',
+  'request',
+  'tenant',
+  'created_at',
+  'updated_at',
+)
+
+const UpdateJobRow = Schema.Struct({
+  id: Schema.Number,
+  tenant: Schema.String,
+  status: JobStatus,
+  result: Schema.optional(Schema.NullOr(Schema.parseJson(SubtitleJson))),
+  translations: Schema.optional(
+    Schema.NullOr(Schema.parseJson(JobTranslations)),
+  ),
+  translation_failures: Schema.optional(
+    Schema.NullOr(Schema.parseJson(JobTranslationFailures)),
+  ),
+  replacements: Schema.optional(
+    Schema.NullOr(Schema.parseJson(Schema.Array(GlossaryReplacement))),
+  ),
+  failure_reason: Schema.optional(Schema.NullOr(Schema.String)),
+  engine: Schema.optional(MediaEngine),
+  updated_at: Schema.DateTimeUtc,
+  started_at: Schema.optional(Schema.NullOr(Schema.DateTimeUtc)),
+  finished_at: Schema.optional(Schema.NullOr(Schema.DateTimeUtc)),
+})
+
+const JobKey = Schema.Struct({
+  id: Schema.Number,
+  tenant: Schema.String,
+})
+
+// Row shape as stored in the SQLite revisions table
+const RevisionRow = Schema.Struct({
+  id: Schema.Number,
+  job_id: Schema.Number,
+  revision: Schema.Number,
+  author: Schema.NullOr(Schema.String),
+  restored_from: Schema.NullOr(Schema.Number),
+  result: Schema.parseJson(SubtitleJson),
+  created_at: Schema.DateTimeUtc,
+})
+
+const InsertRevisionRow = RevisionRow.omit('id')
+type InsertRevisionRow = typeof InsertRevisionRow.Type
+
+const RevisionSummaryRow = RevisionRow.omit('result')
+
+// Latest revision when `revision` is omitted
+const RevisionKey = Schema.Struct({
+  job_id: Schema.Number,
+  revision: Schema.optional(Schema.Number),
+})
+
+export type TenantJobEvent = {
+  readonly tenant: Tenant
+  readonly event: JobEvent
+}
+
+export type CreateJob = {
+  readonly name: string
+  readonly engine?: MediaEngine
+  readonly language?: string
+  readonly request?: typeof StoredMediaRequest.Type
+}
+
+export type AddJobRevision = {
+  readonly result: typeof SubtitleJson.Type
+  readonly author: string
+  readonly restoredFrom?: number
+  // Latest revision the result was made from
+  readonly baseRevision: number
+}
+
+export type JobTransition = {
+  readonly status: JobStatus
+  readonly result?: typeof SubtitleJson.Type
+  readonly translations?: typeof JobTranslations.Type
+  readonly translationFailures?: typeof JobTranslationFailures.Type
+  readonly replacements?: readonly GlossaryReplacement[]
+  readonly failureReason?: string
+  // Engine that answered, it replaces the engine the job was created with
+  readonly engine?: MediaEngine
+}
+
+// Optional columns that are not part of an update must not be bound as NULL
+const withoutUndefined = (values: object) =>
+  Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined),
+  )
+
+// Going back to pending is a retry, so the previous run is forgotten
+const lifecycleColumns = (transition: JobTransition, now: DateTime.Utc) =>
+  transition.status === 'pending'
+    ? {
+        result: null,
+        translations: null,
+        translation_failures: null,
+        replacements: null,
+        failure_reason: null,
+        started_at: null,
+        finished_at: null,
+      }
+    : {
+        result: transition.result,
+        translations: transition.translations,
+        translation_failures: transition.translationFailures,
+        replacements: transition.replacements,
+        failure_reason: transition.failureReason,
+        engine: transition.engine,
+        started_at: transition.status === 'in-progress' ? now : undefined,
+        finished_at: isTerminalJobStatus(transition.status) ? now : undefined,
+      }
+
+const toJobResponse = (row: JobRow) =>
+  JobResponse.make({
+    id: row.id,
+    name: row.name,
+    status: row.status,
+    createdAt: row.created_at,
+    startedAt: row.started_at ?? undefined,
+    finishedAt: row.finished_at ?? undefined,
+    failureReason: row.failure_reason ?? undefined,
+    engine: row.engine ?? undefined,
+    language: row.language ?? undefined,
+  })
+
+const toJobRevision = (row: Omit<InsertRevisionRow, 'result'>) =>
+  JobRevision.make({
+    revision: row.revision,
+    author: row.author ?? undefined,
+    restoredFrom: row.restored_from ?? undefined,
+    createdAt: row.created_at,
+  })
+
+const toJobRevisionResponse = (row: InsertRevisionRow) =>
+  JobRevisionResponse.make({
+    id: row.job_id,
+    ...toJobRevision(row),
+    result: row.result,
+  })
+
+// Completed jobs without revisions still have their result as revision 1
+const originalRevisionRow = (
+  job: JobRow,
+  result: typeof SubtitleJson.Type,
+): InsertRevisionRow => ({
+  job_id: job.id,
+  revision: 1,
+  author: null,
+  restored_from: null,
+  result,
+  created_at: job.finished_at ?? job.updated_at,
+})
+
+const DEFAULT_PAGE_SIZE = 20
+
+const sortColumns = {
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  name: 'name',
+  status: 'status',
+} as const satisfies Record<JobsSortField, keyof JobRow>
+
+// Raw column value of the sort field, as compared by SQLite
+const sortValue = (row: JobRow, sortBy: JobsSortField) => {
+  const value = row[sortColumns[sortBy]]
+  return typeof value === 'string' ? value : DateTime.formatIso(value)
+}
 
 export class JobsStore extends E.Service<JobsStore>()('JobsStore', {
+  dependencies: [JobsMigrations],
   effect: E.gen(function* () {
+    const sql = yield* SqlClient.SqlClient
     const tableName = yield* envVars.JOBS_TABLE
+    const table = sql(tableName)
+    const revisionsTableName = `${tableName}_revisions`
+    const revisionsTable = sql(revisionsTableName)
+    // Subscribers get every event published after they subscribed
+    const events = yield* PubSub.unbounded<TenantJobEvent>()
+
+    const jobFilters = (tenant: string, query: JobsQuery) =>
+      sql.and([
+        sql`tenant = ${tenant}`,
+        ...(query.status ? [sql`status = ${query.status}`] : []),
+        ...(query.language ? [sql`language = ${query.language}`] : []),
+        ...(query.engine ? [sql`engine = ${query.engine}`] : []),
+        ...(query.createdAfter
+          ? [sql`created_at >= ${DateTime.formatIso(query.createdAfter)}`]
+          : []),
+        ...(query.createdBefore
+          ? [sql`created_at < ${DateTime.formatIso(query.createdBefore)}`]
+          : []),
+      ])
+
+    // Keyset pagination, ties on the sort column are broken by id
+    const findJobRows = (tenant: string, query: JobsQuery, limit: number) => {
+      const column = sql(sortColumns[query.sortBy ?? 'createdAt'])
+      const descending = query.order === 'desc'
+      const direction = descending ? sql`DESC` : sql`ASC`
+      const after = query.cursor
+        ? descending
+          ? sql`(${column} < ${query.cursor[0]} OR (${column} = ${query.cursor[0]} AND id < ${query.cursor[1]}))`
+          : sql`(${column} > ${query.cursor[0]} OR (${column} = ${query.cursor[0]} AND id > ${query.cursor[1]}))`
+        : sql`1=1`
+
+      return sql`SELECT * FROM ${table} WHERE ${jobFilters(tenant, query)} AND ${after} ORDER BY ${column} ${direction}, id ${direction} LIMIT ${limit}`.pipe(
+        E.flatMap(Schema.decodeUnknown(Schema.Array(JobRow))),
+      )
+    }
+
+    const countJobRows = (tenant: string, query: JobsQuery) =>
+      sql<{
+        readonly total: number
+      }>`SELECT COUNT(*) AS total FROM ${table} WHERE ${jobFilters(tenant, query)}`.pipe(
+        E.map(([row]) => row?.total ?? 0),
+      )
+
+    const findJobRow = SqlSchema.findOne({
+      Request: JobKey,
+      Result: JobRow,
+      execute: ({ id, tenant }) =>
+        sql`SELECT * FROM ${table} WHERE id = ${id} AND tenant = ${tenant}`,
+    })
+
+    const insertJobRow = SqlSchema.single({
+      Request: InsertJobRow,
+      Result: JobRow,
+      execute: (row) =>
+        sql`INSERT INTO ${table} ${sql.insert(row)} RETURNING *`,
+    })
+
+    const updateJobRow = SqlSchema.findOne({
+      Request: UpdateJobRow,
+      Result: JobRow,
+      execute: ({ id, tenant, ...values }) =>
+        sql`UPDATE ${table} SET ${sql.update(withoutUndefined(values))} WHERE id = ${id} AND tenant = ${tenant} RETURNING *`,
+    })
+
+    const deleteJobRow = SqlSchema.findOne({
+      Request: JobKey,
+      Result: Schema.Struct({ id: Schema.Number }),
+      execute: ({ id, tenant }) =>
+        sql`DELETE FROM ${table} WHERE id = ${id} AND tenant = ${tenant} RETURNING id`,
+    })
+
+    const findRevisionRows = SqlSchema.findAll({
+      Request: Schema.Number,
+      Result: RevisionSummaryRow,
+      execute: (jobId) =>
+        sql`SELECT id, job_id, revision, author, restored_from, created_at FROM ${revisionsTable} WHERE job_id = ${jobId} ORDER BY revision`,
+    })
+
+    const findRevisionRow = SqlSchema.findOne({
+      Request: RevisionKey,
+      Result: RevisionRow,
+      execute: ({ job_id, revision }) =>
+        revision === undefined
+          ? sql`SELECT * FROM ${revisionsTable} WHERE job_id = ${job_id} ORDER BY revision DESC LIMIT 1`
+          : sql`SELECT * FROM ${revisionsTable} WHERE job_id = ${job_id} AND revision = ${revision}`,
+    })
+
+    const insertRevisionRow = SqlSchema.single({
+      Request: InsertRevisionRow,
+      Result: RevisionRow,
+      execute: (row) =>
+        sql`INSERT INTO ${revisionsTable} ${sql.insert(row)} RETURNING *`,
+    })
+
+    const deleteRevisionRows = (jobId: number) =>
+      sql`DELETE FROM ${revisionsTable} WHERE job_id = ${jobId}`.pipe(E.asVoid)
+
+    // Jobs of other tenants are reported as not found, so their ids do not leak
+    const getJobRow = (id: number) =>
+      E.gen(function* () {
+        const tenant = yield* CurrentTenant
+        const row = yield* findJobRow({ id, tenant: tenant.id }).pipe(E.orDie)
+
+        if (Option.isNone(row)) {
+          return yield* E.fail(new JobNotFoundError({ id }))
+        }
+
+        return row.value
+      })
+
+    // Only completed jobs have a result to revise
+    const getCompletedJobRow = (jobId: number) =>
+      E.gen(function* () {
+        const job = yield* getJobRow(jobId)
+
+        if (job.status !== 'completed' || job.result === null) {
+          return yield* E.fail(new JobResultNotFoundError({ jobId }))
+        }
+
+        return { job, result: job.result }
+      })
+
+    const publish = (event: JobEvent) =>
+      CurrentTenant.pipe(
+        E.flatMap((tenant) => PubSub.publish(events, { tenant, event })),
+        E.asVoid,
+      )
+
+    const insertJob = (job: CreateJob) =>
+      E.gen(function* () {
+        const tenant = yield* CurrentTenant
+        const now = yield* DateTime.now
+        const row = yield* insertJobRow({
+          name: job.name,
+          status: 'pending',
+          engine: job.engine ?? null,
+          language: job.language ?? null,
+          request: job.request ?? null,
+          tenant: tenant.id,
+          created_at: now,
+          updated_at: now,
+        }).pipe(E.orDie)
+
+        yield* E.logInfo('Job created', { id: row.id })
+        return toJobResponse(row)
+      })
+
+    const countActiveJobRows = (tenant: string) =>
+      sql<{
+        readonly total: number
+      }>`SELECT COUNT(*) AS total FROM ${table} WHERE tenant = ${tenant} AND ${sql.in('status', ['pending', 'in-progress'])}`.pipe(
+        E.map(([row]) => row?.total ?? 0),
+      )
 
     return {
-      getAllJobs: () =>
-        E.succeed(
-          JobsResponse.make({
-            jobs: [
-              { id: 1, name: 'Parse Video 1', status: 'completed' },
-              { id: 2, name: 'Parse Audio 2', status: 'in-progress' },
-              { id: 3, name: 'Parse Document 3', status: 'pending' },
-            ],
-          }),
-        ).pipe(
+      getAllJobs: (query: JobsQuery = {}) =>
+        E.gen(function* () {
+          const tenant = yield* CurrentTenant
+          const limit = query.limit ?? DEFAULT_PAGE_SIZE
+          const sortBy = query.sortBy ?? 'createdAt'
+          // One extra row tells whether another page follows
+          const rows = yield* findJobRows(tenant.id, query, limit + 1).pipe(
+            E.orDie,
+          )
+          const total = yield* countJobRows(tenant.id, query).pipe(E.orDie)
+          const page = rows.slice(0, limit)
+          const last = page.at(-1)
+
+          return JobsResponse.make({
+            jobs: page.map(toJobResponse),
+            nextCursor:
+              rows.length > limit && last
+                ? [sortValue(last, sortBy), last.id]
+                : undefined,
+            total,
+          })
+        }).pipe(
           E.withSpan('JobsStore.getAllJobs', {
-            attributes: { tableName },
+            attributes: { tableName, ...query },
           }),
         ),
 
       getJobById: (id: number) =>
+        getJobRow(id).pipe(
+          E.map(toJobResponse),
+          E.withSpan('JobsStore.getJobById', {
+            attributes: { id, tableName },
+          }),
+        ),
+
+      // In the job language, or translated into `language` when it differs
+      getJobResult: (jobId: number, language?: string) =>
+        E.gen(function* () {
+          const job = yield* getJobRow(jobId)
+
+          // Check if job has results
+          if (job.status !== 'completed' || job.result === null) {
+            return yield* E.fail(new JobResultNotFoundError({ jobId }))
+          }
+          if (language === undefined || language === job.language) {
+            return JobResultResponse.make({
+              id: jobId,
+              language,
+              result: job.result,
+              replacements: job.replacements ?? undefined,
+              translationFailures: job.translation_failures ?? undefined,
+            })
+          }
+
+          const translation = job.translations?.[language]
+          if (translation === undefined) {
+            return yield* E.fail(
+              new JobTranslationNotFoundError({ jobId, language }),
+            )
+          }
+
+          return JobResultResponse.make({
+            id: jobId,
+            language,
+            result: translation,
+          })
+        }).pipe(
+          E.withSpan('JobsStore.getJobResult', {
+            attributes: { jobId, language, tableName },
+          }),
+        ),
+
+      // Replaces the translation of a completed job, the language is no longer
+      // listed as failed
+      saveJobTranslation: (
+        jobId: number,
+        language: string,
+        translation: typeof SubtitleJson.Type,
+      ) =>
+        E.gen(function* () {
+          const tenant = yield* CurrentTenant
+          const job = yield* getJobRow(jobId)
+
+          if (job.status !== 'completed' || job.result === null) {
+            return yield* E.fail(new JobResultNotFoundError({ jobId }))
+          }
+
+          const failures = Rec.remove(job.translation_failures ?? {}, language)
+          yield* updateJobRow({
+            id: jobId,
+            tenant: tenant.id,
+            status: job.status,
+            translations: { ...job.translations, [language]: translation },
+            translation_failures: Rec.isEmptyRecord(failures) ? null : failures,
+            updated_at: yield* DateTime.now,
+          }).pipe(E.orDie)
+
+          yield* E.logInfo('Job translation saved', { jobId, language })
+          return JobResultResponse.make({
+            id: jobId,
+            language,
+            result: translation,
+          })
+        }).pipe(
+          sql.withTransaction,
+          E.catchTag('SqlError', E.die),
+          E.withSpan('JobsStore.saveJobTranslation', {
+            attributes: { jobId, language, tableName },
+          }),
+        ),
+
+      createJob: (job: CreateJob) =>
+        insertJob(job).pipe(
+          E.withSpan('JobsStore.createJob', {
+            attributes: { name: job.name, engine: job.engine, tableName },
+          }),
+        ),
+
+      // Counted and inserted in one transaction, so concurrent submissions
+      // can't go past `limit` together. None while the tenant has `limit` jobs
+      // queued or running
+      createJobWithinLimit: (job: CreateJob, limit: number) =>
+        E.gen(function* () {
+          const tenant = yield* CurrentTenant
+          const active = yield* countActiveJobRows(tenant.id)
+          if (active >= limit) {
+            return Option.none()
+          }
+          return Option.some(yield* insertJob(job))
+        }).pipe(
+          sql.withTransaction,
+          E.catchTag('SqlError', E.die),
+          E.withSpan('JobsStore.createJobWithinLimit', {
+            attributes: { name: job.name, limit, tableName },
+          }),
+        ),
+
+      transitionJob: (id: number, transition: JobTransition) =>
         E.gen(function* () {
-          // Mock implementation - replace with real database lookup
-          if (id === 999) {
+          const tenant = yield* CurrentTenant
+          const job = yield* getJobRow(id)
+
+          if (!canTransitionJob(job.status, transition.status)) {
+            return yield* E.fail(
+              new InvalidJobTransitionError({
+                jobId: id,
+                from: job.status,
+                to: transition.status,
+              }),
+            )
+          }
+
+          const now = yield* DateTime.now
+          const row = yield* updateJobRow({
+            id,
+            tenant: tenant.id,
+            status: transition.status,
+            updated_at: now,
+            ...lifecycleColumns(transition, now),
+          }).pipe(E.orDie)
+
+          if (Option.isNone(row)) {
             return yield* E.fail(new JobNotFoundError({ id }))
           }
+          // Revisions belong to the run that is forgotten
+          if (transition.status === 'pending') {
+            yield* deleteRevisionRows(id)
+          }
 
-          return JobResponse.make({
+          yield* E.logInfo('Job transitioned', {
             id,
-            name: `Job ${id}`,
-            status: 'in-progress',
+            from: job.status,
+            to: transition.status,
           })
+          return toJobResponse(row.value)
         }).pipe(
-          E.withSpan('JobsStore.getJobById', {
+          sql.withTransaction,
+          // Published once committed, so subscribers never see a rolled back status
+          E.tap((job) =>
+            publish(
+              JobStatusEvent.make({
+                jobId: job.id,
+                status: job.status,
+                failureReason: job.failureReason,
+              }),
+            ),
+          ),
+          E.catchTag('SqlError', E.die),
+          E.withSpan('JobsStore.transitionJob', {
+            attributes: { id, status: transition.status, tableName },
+          }),
+        ),
+
+      // Jobs queued or running for the current tenant
+      countActiveJobs: () =>
+        E.gen(function* () {
+          const tenant = yield* CurrentTenant
+          return yield* countActiveJobRows(tenant.id).pipe(E.orDie)
+        }).pipe(
+          E.withSpan('JobsStore.countActiveJobs', {
+            attributes: { tableName },
+          }),
+        ),
+
+      getJobRequest: (id: number) =>
+        getJobRow(id).pipe(
+          E.map((row) => Option.fromNullable(row.request)),
+          E.withSpan('JobsStore.getJobRequest', {
             attributes: { id, tableName },
           }),
         ),
 
-      getJobResult: (jobId: number) =>
+      deleteJob: (id: number) =>
         E.gen(function* () {
-          const jobsStore = yield* JobsStore
-          const job = yield* jobsStore.getJobById(jobId)
+          const tenant = yield* CurrentTenant
+          const deleted = yield* deleteJobRow({ id, tenant: tenant.id }).pipe(
+            E.orDie,
+          )
 
-          // Check if job has results
-          if (job.status !== 'completed') {
-            return yield* E.fail(new JobResultNotFoundError({ jobId }))
+          if (Option.isNone(deleted)) {
+            return yield* E.fail(new JobNotFoundError({ id }))
           }
+          yield* deleteRevisionRows(id).pipe(E.orDie)
 
-          return JobResultResponse.make({
+          yield* E.logInfo('Job deleted', { id })
+        }).pipe(
+          // The revisions go with their job or not at all
+          sql.withTransaction,
+          // Published once committed, so subscribers never see a rolled back deletion
+          E.tap(() => publish(JobDeletedEvent.make({ jobId: id }))),
+          E.catchTag('SqlError', E.die),
+          E.withSpan('JobsStore.deleteJob', {
+            attributes: { id, tableName },
+          }),
+        ),
+
+      getJobRevisions: (jobId: number) =>
+        E.gen(function* () {
+          const { job, result } = yield* getCompletedJobRow(jobId)
+          const rows = yield* findRevisionRows(jobId).pipe(E.orDie)
+
+          return rows.length > 0
+            ? rows.map(toJobRevision)
+            : [toJobRevision(originalRevisionRow(job, result))]
+        }).pipe(
+          E.withSpan('JobsStore.getJobRevisions', {
+            attributes: { jobId, tableName: revisionsTableName },
+          }),
+        ),
+
+      // The latest revision when `revision` is omitted
+      getJobRevision: (jobId: number, revision?: number) =>
+        E.gen(function* () {
+          const { job, result } = yield* getCompletedJobRow(jobId)
+          const row = yield* findRevisionRow({ job_id: jobId, revision }).pipe(
+            E.orDie,
+          )
+
+          if (Option.isSome(row)) {
+            return toJobRevisionResponse(row.value)
+          }
+          // Revision 1 is only stored along with the first edit
+          if (revision === undefined || revision === 1) {
+            return toJobRevisionResponse(originalRevisionRow(job, result))
+          }
+          return yield* E.fail(
+            new JobRevisionNotFoundError({ jobId, revision }),
+          )
+        }).pipe(
+          E.withSpan('JobsStore.getJobRevision', {
+            attributes: { jobId, revision, tableName: revisionsTableName },
+          }),
+        ),
+
+      // Saves the next revision and makes it the job result
+      addJobRevision: (jobId: number, revision: AddJobRevision) =>
+        E.gen(function* () {
+          const tenant = yield* CurrentTenant
+          const { job, result } = yield* getCompletedJobRow(jobId)
+          const latest = yield* findRevisionRow({ job_id: jobId }).pipe(E.orDie)
+          const base = Option.isSome(latest)
+            ? latest.value
+            : yield* insertRevisionRow(originalRevisionRow(job, result)).pipe(
+                E.orDie,
+              )
+
+          if (base.revision !== revision.baseRevision) {
+            return yield* E.fail(
+              new JobConflictError({
+                jobId,
+                reason: `Revision ${base.revision} was saved after revision ${revision.baseRevision}`,
+              }),
+            )
+          }
+
+          const now = yield* DateTime.now
+          const row = yield* insertRevisionRow({
+            job_id: jobId,
+            revision: base.revision + 1,
+            author: revision.author,
+            restored_from: revision.restoredFrom ?? null,
+            result: revision.result,
+            created_at: now,
+          }).pipe(E.orDie)
+          yield* updateJobRow({
             id: jobId,
-            result: `Result for job ${jobId}`,
+            tenant: tenant.id,
+            status: job.status,
+            result: revision.result,
+            updated_at: now,
+          }).pipe(E.orDie)
+
+          yield* E.logInfo('Job revision added', {
+            id: jobId,
+            revision: row.revision,
           })
+          return toJobRevisionResponse(row)
         }).pipe(
-          E.withSpan('JobsStore.getJobResult', {
-            attributes: { jobId, tableName },
+          sql.withTransaction,
+          E.catchTag('SqlError', E.die),
+          E.withSpan('JobsStore.addJobRevision', {
+            attributes: {
+              jobId,
+              baseRevision: revision.baseRevision,
+              tableName: revisionsTableName,
+            },
           }),
         ),
+
+      publishJobEvent: publish,
+
+      // Scoped, the subscription ends with the scope
+      subscribeJobEvents: (jobId: number) =>
+        E.gen(function* () {
+          const tenant = yield* CurrentTenant
+          const subscription = yield* PubSub.subscribe(events)
+
+          return Stream.fromQueue(subscription).pipe(
+            Stream.filter(
+              (published) =>
+                published.tenant.id === tenant.id &&
+                published.event.jobId === jobId,
+            ),
+            Stream.map(({ event }) => event),
+          )
+        }),
+
+      // Events of every tenant, for background workers acting on their behalf
+      subscribeAllJobEvents: () =>
+        PubSub.subscribe(events).pipe(E.map(Stream.fromQueue)),
     }
   }),
 }) {
@@ -78,6 +763,19 @@ export class JobsStore extends E.Service<JobsStore>()('JobsStore', {
       getAllJobs: () => E.die('Not implemented' as const),
       getJobById: () => E.die('Not implemented' as const),
       getJobResult: () => E.die('Not implemented' as const),
+      saveJobTranslation: () => E.die('Not implemented' as const),
+      createJob: () => E.die('Not implemented' as const),
+      createJobWithinLimit: () => E.die('Not implemented' as const),
+      transitionJob: () => E.die('Not implemented' as const),
+      countActiveJobs: () => E.die('Not implemented' as const),
+      getJobRequest: () => E.die('Not implemented' as const),
+      deleteJob: () => E.die('Not implemented' as const),
+      getJobRevisions: () => E.die('Not implemented' as const),
+      getJobRevision: () => E.die('Not implemented' as const),
+      addJobRevision: () => E.die('Not implemented' as const),
+      publishJobEvent: () => E.die('Not implemented' as const),
+      subscribeJobEvents: () => E.die('Not implemented' as const),
+      subscribeAllJobEvents: () => E.die('Not implemented' as const),
       ...mockImplementation,
     })
 }
@@ -0,0 +1,19 @@
+import { SqlClient } from '@effect/sql'
+import { Effect as E } from 'effect'
+import { envVars } from '../../../config'
+
+export default E.gen(function* () {
+  const sql = yield* SqlClient.SqlClient
+  const tableName = yield* envVars.JOBS_TABLE
+
+  yield* sql`
+    CREATE TABLE ${sql(tableName)} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      status TEXT NOT NULL,
+      result TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )
+  `
+})
@@ -0,0 +1,12 @@
+import { SqlClient } from '@effect/sql'
+import { Effect as E } from 'effect'
+import { envVars } from '../../../config'
+
+export default E.gen(function* () {
+  const sql = yield* SqlClient.SqlClient
+  const table = sql(yield* envVars.JOBS_TABLE)
+
+  yield* sql`ALTER TABLE ${table} ADD COLUMN started_at TEXT`
+  yield* sql`ALTER TABLE ${table} ADD COLUMN finished_at TEXT`
+  yield* sql`ALTER TABLE ${table} ADD COLUMN failure_reason TEXT`
+})
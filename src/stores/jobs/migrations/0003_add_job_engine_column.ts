@@ -0,0 +1,10 @@
+import { SqlClient } from '@effect/sql'
+import { Effect as E } from 'effect'
+import { envVars } from '../../../config'
+
+export default E.gen(function* () {
+  const sql = yield* SqlClient.SqlClient
+  const table = sql(yield* envVars.JOBS_TABLE)
+
+  yield* sql`ALTER TABLE ${table} ADD COLUMN engine TEXT`
+})
@@ -0,0 +1,13 @@
+import { SqlClient } from '@effect/sql'
+import { Effect as E } from 'effect'
+import { envVars } from '../../../config'
+
+export default E.gen(function* () {
+  const sql = yield* SqlClient.SqlClient
+  const tableName = yield* envVars.JOBS_TABLE
+  const table = sql(tableName)
+
+  yield* sql`ALTER TABLE ${table} ADD COLUMN language TEXT`
+  // Default listing order for paginated job queries
+  yield* sql`CREATE INDEX ${sql(`${tableName}_created_at`)} ON ${table} (created_at, id)`
+})
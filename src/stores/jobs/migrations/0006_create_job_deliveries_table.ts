@@ -0,0 +1,24 @@
+import { SqlClient } from '@effect/sql'
+import { Effect as E } from 'effect'
+import { envVars } from '../../../config'
+
+export default E.gen(function* () {
+  const sql = yield* SqlClient.SqlClient
+  const tableName = yield* envVars.JOBS_TABLE
+  const deliveriesTable = `${tableName}_deliveries`
+
+  // One row per webhook delivery attempt
+  yield* sql`
+    CREATE TABLE ${sql(deliveriesTable)} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      job_id INTEGER NOT NULL,
+      url TEXT NOT NULL,
+      attempt INTEGER NOT NULL,
+      succeeded INTEGER NOT NULL,
+      status_code INTEGER,
+      error TEXT,
+      created_at TEXT NOT NULL
+    )
+  `
+  yield* sql`CREATE INDEX ${sql(`${deliveriesTable}_job_id`)} ON ${sql(deliveriesTable)} (job_id, id)`
+})
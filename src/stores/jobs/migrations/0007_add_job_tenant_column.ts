@@ -0,0 +1,13 @@
+import { SqlClient } from '@effect/sql'
+import { Effect as E } from 'effect'
+import { envVars } from '../../../config'
+
+export default E.gen(function* () {
+  const sql = yield* SqlClient.SqlClient
+  const tableName = yield* envVars.JOBS_TABLE
+  const table = sql(tableName)
+
+  // Jobs created before tenants existed belong to nobody and stay hidden
+  yield* sql`ALTER TABLE ${table} ADD COLUMN tenant TEXT`
+  yield* sql`CREATE INDEX ${sql(`${tableName}_tenant_created_at`)} ON ${table} (tenant, created_at, id)`
+})
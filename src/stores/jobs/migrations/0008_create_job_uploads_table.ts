@@ -0,0 +1,24 @@
+import { SqlClient } from '@effect/sql'
+import { Effect as E } from 'effect'
+import { envVars } from '../../../config'
+
+export default E.gen(function* () {
+  const sql = yield* SqlClient.SqlClient
+  const tableName = yield* envVars.JOBS_TABLE
+  const uploadsTable = `${tableName}_uploads`
+
+  // Resumable uploads until they are claimed by a job, the bytes live on disk
+  yield* sql`
+    CREATE TABLE ${sql(uploadsTable)} (
+      id TEXT PRIMARY KEY,
+      tenant TEXT NOT NULL,
+      name TEXT NOT NULL,
+      content_type TEXT NOT NULL,
+      upload_length INTEGER NOT NULL,
+      upload_offset INTEGER NOT NULL,
+      created_at TEXT NOT NULL,
+      expires_at TEXT NOT NULL
+    )
+  `
+  yield* sql`CREATE INDEX ${sql(`${uploadsTable}_expires_at`)} ON ${sql(uploadsTable)} (expires_at)`
+})
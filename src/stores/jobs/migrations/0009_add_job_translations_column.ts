@@ -0,0 +1,11 @@
+import { SqlClient } from '@effect/sql'
+import { Effect as E } from 'effect'
+import { envVars } from '../../../config'
+
+export default E.gen(function* () {
+  const sql = yield* SqlClient.SqlClient
+  const table = sql(yield* envVars.JOBS_TABLE)
+
+  // Translated results by language, next to the result in the job language
+  yield* sql`ALTER TABLE ${table} ADD COLUMN translations TEXT`
+})
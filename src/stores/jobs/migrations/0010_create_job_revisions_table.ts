@@ -0,0 +1,23 @@
+import { SqlClient } from '@effect/sql'
+import { Effect as E } from 'effect'
+import { envVars } from '../../../config'
+
+export default E.gen(function* () {
+  const sql = yield* SqlClient.SqlClient
+  const tableName = yield* envVars.JOBS_TABLE
+  const revisionsTable = `${tableName}_revisions`
+
+  // Immutable results of a job, numbered from 1 per job
+  yield* sql`
+    CREATE TABLE ${sql(revisionsTable)} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      job_id INTEGER NOT NULL,
+      revision INTEGER NOT NULL,
+      author TEXT,
+      restored_from INTEGER,
+      result TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      UNIQUE (job_id, revision)
+    )
+  `
+})
@@ -0,0 +1,24 @@
+import { SqlClient } from '@effect/sql'
+import { Effect as E } from 'effect'
+import { envVars } from '../../../config'
+
+export default E.gen(function* () {
+  const sql = yield* SqlClient.SqlClient
+  const tableName = yield* envVars.JOBS_TABLE
+  const glossaryTable = `${tableName}_glossary`
+
+  // Glossary terms by tenant, `term_key` is the lower-cased term each tenant has once
+  yield* sql`
+    CREATE TABLE ${sql(glossaryTable)} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      tenant TEXT NOT NULL,
+      term TEXT NOT NULL,
+      term_key TEXT NOT NULL,
+      sounds_like TEXT NOT NULL,
+      casing TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      UNIQUE (tenant, term_key)
+    )
+  `
+})
@@ -0,0 +1,64 @@
+import { SqlClient } from '@effect/sql'
+import { Effect as E } from 'effect'
+import { envVars } from '../../../config'
+
+export default E.gen(function* () {
+  const sql = yield* SqlClient.SqlClient
+  const tableName = yield* envVars.JOBS_TABLE
+  const searchTable = `${tableName}_search`
+  const jobs = sql(tableName)
+  const search = sql(searchTable)
+
+  // Cues of completed results and their translations, one row per cue.
+  // Stemmed, so "monad" also finds "monads"
+  yield* sql`
+    CREATE VIRTUAL TABLE ${search} USING fts5(
+      text,
+      job_id UNINDEXED,
+      tenant UNINDEXED,
+      language UNINDEXED,
+      cue UNINDEXED,
+      cue_start UNINDEXED,
+      cue_end UNINDEXED,
+      tokenize = 'porter unicode61 remove_diacritics 2'
+    )
+  `
+
+  // Inserts the cues of the completed jobs in `source`, aliased as `job`
+  const indexCues = (source: string) =>
+    [
+      `SELECT json_extract(cue.value, '$.text'), job.id, job.tenant, job.language, cue.key, json_extract(cue.value, '$.start'), json_extract(cue.value, '$.end')
+      FROM ${source}, json_each(job.result) AS cue`,
+      `SELECT json_extract(cue.value, '$.text'), job.id, job.tenant, translation.key, cue.key, json_extract(cue.value, '$.start'), json_extract(cue.value, '$.end')
+      FROM ${source}, json_each(job.translations) AS translation, json_each(translation.value) AS cue`,
+    ].map(
+      (select) => `
+        INSERT INTO "${searchTable}" (text, job_id, tenant, language, cue, cue_start, cue_end)
+        ${select}
+        WHERE job.status = 'completed';`,
+    )
+  const newJob =
+    '(SELECT new.id AS id, new.tenant AS tenant, new.language AS language, new.status AS status, new.result AS result, new.translations AS translations) AS job'
+
+  // Kept up to date by the database, whichever way a result changes
+  yield* sql`
+    CREATE TRIGGER ${sql(`${searchTable}_update`)}
+    AFTER UPDATE OF result, translations ON ${jobs}
+    BEGIN
+      DELETE FROM ${search} WHERE job_id = old.id;
+      ${sql.literal(indexCues(newJob).join('\n'))}
+    END
+  `
+  yield* sql`
+    CREATE TRIGGER ${sql(`${searchTable}_delete`)}
+    AFTER DELETE ON ${jobs}
+    BEGIN
+      DELETE FROM ${search} WHERE job_id = old.id;
+    END
+  `
+
+  // Results completed before the index existed
+  yield* E.forEach(indexCues(`"${tableName}" AS job`), (statement) =>
+    sql.unsafe(statement),
+  )
+})
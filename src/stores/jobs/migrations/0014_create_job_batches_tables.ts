@@ -0,0 +1,33 @@
+import { SqlClient } from '@effect/sql'
+import { Effect as E } from 'effect'
+import { envVars } from '../../../config'
+
+export default E.gen(function* () {
+  const sql = yield* SqlClient.SqlClient
+  const tableName = yield* envVars.JOBS_TABLE
+  const batchesTable = `${tableName}_batches`
+  const batchItemsTable = `${tableName}_batch_items`
+
+  yield* sql`
+    CREATE TABLE ${sql(batchesTable)} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      tenant TEXT NOT NULL,
+      name TEXT,
+      created_at TEXT NOT NULL
+    )
+  `
+
+  // Items in submission order, `job_id` is null for items turned down on submission
+  yield* sql`
+    CREATE TABLE ${sql(batchItemsTable)} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      batch_id INTEGER NOT NULL,
+      position INTEGER NOT NULL,
+      url TEXT NOT NULL,
+      name TEXT,
+      job_id INTEGER,
+      rejection_reason TEXT,
+      UNIQUE (batch_id, position)
+    )
+  `
+})
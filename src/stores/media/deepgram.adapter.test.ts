@@ -0,0 +1,208 @@
+import {
+  FileSystem,
+  HttpRouter,
+  HttpServerRequest,
+  HttpServerResponse,
+} from '@effect/platform'
+import { NodeHttpClient, NodeHttpServer } from '@effect/platform-node'
+import { describe, expect, it } from '@effect/vitest'
+import { ConfigProvider, Effect as E, Exit, type Schema } from 'effect'
+import type { MediaRequest } from '../../domain/media/media.schema'
+import {
+  getExitError,
+  makePersistedFile,
+  serveFakeHttpApp,
+} from '../../test-utils'
+import diarizedFixture from './fixtures/deepgram-diarized.json'
+import utterancesFixture from './fixtures/deepgram-utterances.json'
+import wordsFixture from './fixtures/deepgram-words.json'
+import { MediaStore } from './media.store'
+
+type RecordedRequest = {
+  readonly url: string
+  readonly contentType: string | undefined
+  readonly authorization: string | undefined
+  readonly body: string
+}
+
+const makeFakeDeepgram = (fixture: unknown, status = 200) => {
+  const requests: RecordedRequest[] = []
+  const app = HttpRouter.empty.pipe(
+    HttpRouter.post(
+      '/v1/listen',
+      E.gen(function* () {
+        const request = yield* HttpServerRequest.HttpServerRequest
+        const { authorization, 'content-type': contentType } = request.headers
+        requests.push({
+          url: request.url,
+          contentType,
+          authorization,
+          body: yield* request.text,
+        })
+        return yield* HttpServerResponse.json(fixture, { status })
+      }),
+    ),
+  )
+  return { app, requests }
+}
+
+type MediaRequestType = Schema.Schema.Type<typeof MediaRequest>
+
+const parseWithDeepgram = (baseUrl: string, request: MediaRequestType) =>
+  E.gen(function* () {
+    const store = yield* MediaStore
+    return yield* store.parseMedia(request)
+  }).pipe(
+    E.provide(MediaStore.Deepgram),
+    E.provide(NodeHttpClient.layerUndici),
+    E.withConfigProvider(
+      ConfigProvider.fromJson({
+        PARSING_ENGINE_URL: baseUrl,
+        PARSING_ENGINE_API_KEY: 'test-key',
+      }),
+    ),
+  )
+
+describe('MediaStore.Deepgram', () => {
+  it.scoped('should map utterances of a URL request to subtitles', () =>
+    E.gen(function* () {
+      const fake = makeFakeDeepgram(utterancesFixture)
+      const baseUrl = yield* serveFakeHttpApp(fake.app)
+
+      const result = yield* parseWithDeepgram(baseUrl, {
+        url: 'https://example.com/lecture.mp4',
+        language: 'en',
+      })
+
+      expect(result.json).toEqual([
+        {
+          start: 320,
+          end: 1620,
+          text: 'Welcome to the course.',
+          confidence: 0.997,
+        },
+        {
+          start: 2400,
+          end: 4240,
+          text: 'Today we talk about effects.',
+          confidence: 0.994,
+        },
+      ])
+      expect(fake.requests).toHaveLength(1)
+      expect(fake.requests[0]?.url).toContain('language=en')
+      expect(fake.requests[0]?.url).toContain('diarize=false')
+      expect(fake.requests[0]?.authorization).toBe('Token test-key')
+      expect(JSON.parse(fake.requests[0]?.body ?? '')).toEqual({
+        url: 'https://example.com/lecture.mp4',
+      })
+    }).pipe(E.provide(NodeHttpServer.layerTest)),
+  )
+
+  it.scoped('should upload files and group words into sentences', () =>
+    E.gen(function* () {
+      const fs = yield* FileSystem.FileSystem
+      const fake = makeFakeDeepgram(wordsFixture)
+      const baseUrl = yield* serveFakeHttpApp(fake.app)
+      const path = yield* fs.makeTempFileScoped({ prefix: 'lecture-' })
+      yield* fs.writeFileString(path, 'fake audio bytes')
+
+      const request = {
+        file: makePersistedFile({
+          name: 'lecture.mp3',
+          contentType: 'audio/mpeg',
+          path,
+        }),
+        language: 'es',
+      } as MediaRequestType
+      const result = yield* parseWithDeepgram(baseUrl, request)
+
+      expect(
+        result.json.map(({ start, end, text }) => ({ start, end, text })),
+      ).toEqual([
+        { start: 100, end: 1050, text: 'Hola a todos.' },
+        { start: 1800, end: 2450, text: 'Empezamos' },
+      ])
+      expect(result.json[0]?.words).toEqual([
+        { start: 100, end: 520, text: 'Hola', confidence: 0.995 },
+        { start: 520, end: 600, text: 'a', confidence: 0.991 },
+        { start: 600, end: 1050, text: 'todos.', confidence: 0.993 },
+      ])
+      expect(result.json[0]?.confidence).toBeCloseTo(0.993)
+      expect(fake.requests[0]?.contentType).toBe('audio/mpeg')
+      expect(fake.requests[0]?.body).toBe('fake audio bytes')
+    }).pipe(E.provide(NodeHttpServer.layerTest)),
+  )
+
+  it.scoped('should split cues where another speaker takes over', () =>
+    E.gen(function* () {
+      const fake = makeFakeDeepgram(diarizedFixture)
+      const baseUrl = yield* serveFakeHttpApp(fake.app)
+
+      const result = yield* parseWithDeepgram(baseUrl, {
+        url: 'https://example.com/interview.mp4',
+        language: 'en',
+        diarize: true,
+      })
+
+      expect(
+        result.json.map(({ start, end, text, speaker }) => ({
+          start,
+          end,
+          text,
+          speaker,
+        })),
+      ).toEqual([
+        {
+          start: 200,
+          end: 1300,
+          text: 'So what is an effect,',
+          speaker: 'Speaker 1',
+        },
+        {
+          start: 2100,
+          end: 3400,
+          text: 'a description of work',
+          speaker: 'Speaker 2',
+        },
+      ])
+      expect(fake.requests[0]?.url).toContain('diarize=true')
+    }).pipe(E.provide(NodeHttpServer.layerTest)),
+  )
+
+  it.scoped('should boost glossary keywords', () =>
+    E.gen(function* () {
+      const fake = makeFakeDeepgram(utterancesFixture)
+      const baseUrl = yield* serveFakeHttpApp(fake.app)
+
+      yield* parseWithDeepgram(baseUrl, {
+        url: 'https://example.com/lecture.mp4',
+        language: 'en',
+        keywords: ['Kubernetes', 'Effect-TS'],
+      })
+
+      const url = new URL(fake.requests[0]?.url ?? '', baseUrl)
+      expect(url.searchParams.getAll('keywords')).toEqual([
+        'Kubernetes:2',
+        'Effect-TS:2',
+      ])
+    }).pipe(E.provide(NodeHttpServer.layerTest)),
+  )
+
+  it.scoped('should surface engine failures as MediaParsingError', () =>
+    E.gen(function* () {
+      const fake = makeFakeDeepgram({ err_code: 'INVALID_AUTH' }, 401)
+      const baseUrl = yield* serveFakeHttpApp(fake.app)
+
+      const result = yield* parseWithDeepgram(baseUrl, {
+        url: 'https://example.com/lecture.mp4',
+        language: 'en',
+      }).pipe(E.exit)
+
+      expect(Exit.isFailure(result)).toBe(true)
+      expect(getExitError(result)).toMatchObject({
+        _tag: 'MediaParsingError',
+        source: 'url',
+      })
+    }).pipe(E.provide(NodeHttpServer.layerTest)),
+  )
+})
@@ -0,0 +1,204 @@
+import {
+  FileSystem,
+  HttpClient,
+  HttpClientRequest,
+  HttpClientResponse,
+} from '@effect/platform'
+import { Effect as E, Option, Redacted, Schema } from 'effect'
+import { envVars } from '../../config'
+import { MediaParsingError } from '../../domain/media/media.errors'
+import {
+  type MediaRequest,
+  MediaResponse,
+  type SubtitleJson,
+} from '../../domain/media/media.schema'
+
+type MediaRequestType = Schema.Schema.Type<typeof MediaRequest>
+type SubtitleJsonType = Schema.Schema.Type<typeof SubtitleJson>
+
+// Intensifier of glossary keywords, higher ones make terms heard that were never said
+const KEYWORD_BOOST = 2
+
+// Subset of the Deepgram `/v1/listen` response we rely on, timings are in seconds
+const DeepgramWord = Schema.Struct({
+  word: Schema.String,
+  start: Schema.Number,
+  end: Schema.Number,
+  confidence: Schema.optional(Schema.Number),
+  punctuated_word: Schema.optional(Schema.String),
+  // Only with `diarize=true`, numbered from 0
+  speaker: Schema.optional(Schema.Number),
+})
+
+const DeepgramUtterance = Schema.Struct({
+  start: Schema.Number,
+  end: Schema.Number,
+  transcript: Schema.String,
+  confidence: Schema.optional(Schema.Number),
+  speaker: Schema.optional(Schema.Number),
+  words: Schema.optional(Schema.Array(DeepgramWord)),
+})
+
+const DeepgramResponse = Schema.Struct({
+  results: Schema.Struct({
+    channels: Schema.Array(
+      Schema.Struct({
+        alternatives: Schema.Array(
+          Schema.Struct({
+            transcript: Schema.String,
+            words: Schema.Array(DeepgramWord),
+          }),
+        ),
+      }),
+    ),
+    utterances: Schema.optional(Schema.Array(DeepgramUtterance)),
+  }),
+})
+type DeepgramResponse = typeof DeepgramResponse.Type
+type DeepgramWord = typeof DeepgramWord.Type
+type Cue = SubtitleJsonType[number]
+
+const toMillis = (seconds: number) => Math.round(seconds * 1000)
+
+const toSpeaker = (speaker: number | undefined) =>
+  speaker === undefined ? undefined : `Speaker ${speaker + 1}`
+
+const toWord = (word: DeepgramWord) => ({
+  start: toMillis(word.start),
+  end: toMillis(word.end),
+  text: word.punctuated_word ?? word.word,
+  confidence: word.confidence,
+})
+
+const SENTENCE_END = /[.!?]$/
+
+// Without utterances, cues are cut at sentence-ending punctuation and where
+// another speaker takes over
+const wordsToCues = (words: readonly DeepgramWord[]) => {
+  const cues: Cue[] = []
+  let current: DeepgramWord[] = []
+
+  for (const word of words) {
+    if (current.length > 0 && current.at(-1)?.speaker !== word.speaker) {
+      cues.push(toCue(current))
+      current = []
+    }
+    current.push(word)
+    const text = word.punctuated_word ?? word.word
+    if (SENTENCE_END.test(text)) {
+      cues.push(toCue(current))
+      current = []
+    }
+  }
+  if (current.length > 0) {
+    cues.push(toCue(current))
+  }
+
+  return cues
+}
+
+const averageConfidence = (words: readonly DeepgramWord[]) => {
+  const confidences = words.flatMap(({ confidence }) =>
+    confidence === undefined ? [] : [confidence],
+  )
+  return confidences.length === 0
+    ? undefined
+    : confidences.reduce((sum, confidence) => sum + confidence, 0) /
+        confidences.length
+}
+
+const toCue = (words: readonly DeepgramWord[]): Cue => ({
+  start: toMillis(words[0]?.start ?? 0),
+  end: toMillis(words.at(-1)?.end ?? 0),
+  text: words.map((word) => word.punctuated_word ?? word.word).join(' '),
+  speaker: toSpeaker(words[0]?.speaker),
+  confidence: averageConfidence(words),
+  words: words.map(toWord),
+})
+
+export const toSubtitleJson = (
+  response: DeepgramResponse,
+): SubtitleJsonType => {
+  const { utterances, channels } = response.results
+
+  if (utterances && utterances.length > 0) {
+    return utterances.map((utterance) => ({
+      start: toMillis(utterance.start),
+      end: toMillis(utterance.end),
+      text: utterance.transcript.trim(),
+      speaker: toSpeaker(utterance.speaker),
+      confidence: utterance.confidence,
+      words: utterance.words?.map(toWord),
+    }))
+  }
+
+  return wordsToCues(channels[0]?.alternatives[0]?.words ?? [])
+}
+
+export const makeDeepgramMediaStore = E.gen(function* () {
+  const baseUrl = yield* envVars.PARSING_ENGINE_URL
+  const apiKey = yield* envVars.PARSING_ENGINE_API_KEY
+  const fs = yield* FileSystem.FileSystem
+  const client = (yield* HttpClient.HttpClient).pipe(
+    HttpClient.mapRequest(HttpClientRequest.prependUrl(baseUrl)),
+    HttpClient.filterStatusOk,
+  )
+
+  const listenRequest = (request: MediaRequestType) =>
+    HttpClientRequest.post('/v1/listen').pipe(
+      HttpClientRequest.setUrlParams({
+        language: request.language,
+        punctuate: 'true',
+        utterances: 'true',
+        diarize: String(request.diarize ?? false),
+        keywords: request.keywords?.map(
+          (keyword) => `${keyword}:${KEYWORD_BOOST}`,
+        ),
+      }),
+      HttpClientRequest.acceptJson,
+      Option.match(apiKey, {
+        onNone: () => (request: HttpClientRequest.HttpClientRequest) => request,
+        onSome: (key) =>
+          HttpClientRequest.setHeader(
+            'Authorization',
+            `Token ${Redacted.value(key)}`,
+          ),
+      }),
+    )
+
+  const buildRequest = (request: MediaRequestType) =>
+    'url' in request
+      ? E.succeed(
+          listenRequest(request).pipe(
+            HttpClientRequest.bodyUnsafeJson({ url: request.url }),
+          ),
+        )
+      : listenRequest(request).pipe(
+          HttpClientRequest.bodyFile(request.file.path, {
+            contentType: request.file.contentType,
+          }),
+          E.provideService(FileSystem.FileSystem, fs),
+        )
+
+  return {
+    parseMedia: (request: MediaRequestType) => {
+      const source = 'url' in request ? 'url' : 'file'
+
+      return E.gen(function* () {
+        const httpRequest = yield* buildRequest(request)
+        const response = yield* client
+          .execute(httpRequest)
+          .pipe(E.flatMap(HttpClientResponse.schemaBodyJson(DeepgramResponse)))
+        const json = toSubtitleJson(response)
+
+        yield* E.annotateCurrentSpan('cues', json.length)
+        return MediaResponse.make({ json })
+      }).pipe(
+        E.mapError((error) => new MediaParsingError({ source, error })),
+        E.withSpan('MediaStore.Deepgram.parseMedia', {
+          attributes: { language: request.language, source },
+        }),
+      )
+    },
+  }
+})
@@ -0,0 +1,65 @@
+import { Effect as E, type Schema } from 'effect'
+import {
+  type MediaRequest,
+  MediaResponse,
+} from '../../domain/media/media.schema'
+import { toWords } from '../../domain/subtitles/subtitles.format'
+import type { MediaProgressReporter } from './media.store'
+
+type MediaRequestType = Schema.Schema.Type<typeof MediaRequest>
+
+const CUE_DURATION = 2500
+
+// Words share the cue evenly, speakers take turns when diarizing
+const toCue = (text: string, index: number, diarize: boolean) => {
+  const start = index * CUE_DURATION
+  const words = toWords(text)
+  const wordDuration = CUE_DURATION / words.length
+
+  return {
+    start,
+    end: start + CUE_DURATION,
+    text,
+    speaker: diarize ? `Speaker ${(index % 2) + 1}` : undefined,
+    words: words.map((word, position) => ({
+      start: start + Math.round(position * wordDuration),
+      end: start + Math.round((position + 1) * wordDuration),
+      text: word,
+    })),
+  }
+}
+
+// Deterministic engine for local development and tests, no network involved
+export const makeFakeMediaStore = E.succeed({
+  parseMedia: (
+    request: MediaRequestType,
+    onProgress?: MediaProgressReporter,
+  ) => {
+    const source = 'url' in request ? 'url' : 'file'
+    const name = 'url' in request ? request.url : request.file.name
+    const lines = [
+      `Transcript of ${name}`,
+      `Language: ${request.language}`,
+      'Generated by the fake engine.',
+    ]
+
+    const cues = lines.map((text, index) =>
+      toCue(text, index, request.diarize ?? false),
+    )
+
+    return E.forEach(
+      cues,
+      (cue, index) =>
+        onProgress?.({
+          percent: Math.round(((index + 1) / cues.length) * 100),
+          cue,
+        }) ?? E.void,
+      { discard: true },
+    ).pipe(
+      E.as(MediaResponse.make({ json: cues })),
+      E.withSpan('MediaStore.Fake.parseMedia', {
+        attributes: { language: request.language, source },
+      }),
+    )
+  },
+})
@@ -0,0 +1,275 @@
+import { FileSystem, HttpRouter, HttpServerResponse } from '@effect/platform'
+import {
+  NodeContext,
+  NodeHttpClient,
+  NodeHttpServer,
+} from '@effect/platform-node'
+import { describe, expect, it } from '@effect/vitest'
+import { Deferred, Effect as E, Fiber, Layer, TestClock } from 'effect'
+import { MockConfigLayer } from '../../config'
+import { CurrentTenant } from '../../domain/auth/auth.schema'
+import { MediaParsingError } from '../../domain/media/media.errors'
+import {
+  TestTenantLayer,
+  getExitError,
+  makePersistedFile,
+  serveFakeHttpApp,
+} from '../../test-utils'
+import { MediaCacheStore, type MediaParse } from './media-cache.store'
+import type { MediaProgressReporter } from './media.store'
+
+const CacheTestLayer = MediaCacheStore.Default.pipe(
+  Layer.provide(NodeHttpClient.layerUndici),
+  Layer.provide(NodeContext.layer),
+  Layer.provideMerge(TestTenantLayer),
+  Layer.provide(MockConfigLayer),
+)
+
+// Counts the parses that actually reach the engine
+const makeParser = () => {
+  let calls = 0
+  const parse: MediaParse = () =>
+    E.sync(() => {
+      calls += 1
+      return { json: [{ start: 0, end: 1000, text: `Parse ${calls}` }] }
+    })
+  return { parse, calls: () => calls }
+}
+
+const getOrParse = (
+  request: Parameters<MediaCacheStore['getOrParse']>[0],
+  parse: MediaParse,
+  onProgress?: MediaProgressReporter,
+) =>
+  MediaCacheStore.pipe(
+    E.flatMap((cache) => cache.getOrParse(request, parse, onProgress)),
+  )
+
+const makeFakeMediaHost = () => {
+  let etag = '"v1"'
+  const app = HttpRouter.empty.pipe(
+    HttpRouter.head(
+      '/lecture.mp4',
+      E.sync(() => HttpServerResponse.empty({ headers: { etag } })),
+    ),
+  )
+  return {
+    app,
+    setEtag: (value: string) => {
+      etag = value
+    },
+  }
+}
+
+const writeUpload = (content: string) =>
+  E.gen(function* () {
+    const fs = yield* FileSystem.FileSystem
+    const path = yield* fs.makeTempFileScoped({ prefix: 'upload-' })
+    yield* fs.writeFileString(path, content)
+    return makePersistedFile({
+      name: 'lecture.mp4',
+      contentType: 'video/mp4',
+      path,
+    })
+  })
+
+describe('MediaCacheStore', () => {
+  it.scoped('should cache URL results by normalized URL and ETag', () =>
+    E.gen(function* () {
+      const host = makeFakeMediaHost()
+      const baseUrl = yield* serveFakeHttpApp(host.app)
+      const { parse, calls } = makeParser()
+
+      const first = yield* getOrParse(
+        { url: `${baseUrl}/lecture.mp4?b=2&a=1`, language: 'en' },
+        parse,
+      )
+      const second = yield* getOrParse(
+        { url: `${baseUrl}/lecture.mp4?a=1&b=2#intro`, language: 'en' },
+        parse,
+      )
+      expect(second).toEqual(first)
+      expect(calls()).toBe(1)
+
+      yield* getOrParse(
+        { url: `${baseUrl}/lecture.mp4?a=1&b=2`, language: 'fr' },
+        parse,
+      )
+      expect(calls()).toBe(2)
+
+      host.setEtag('"v2"')
+      yield* getOrParse(
+        { url: `${baseUrl}/lecture.mp4?a=1&b=2`, language: 'en' },
+        parse,
+      )
+      expect(calls()).toBe(3)
+    }).pipe(E.provide(CacheTestLayer), E.provide(NodeHttpServer.layerTest)),
+  )
+
+  it.scoped('should cache uploads by content hash', () =>
+    E.gen(function* () {
+      const { parse, calls } = makeParser()
+      const first = yield* writeUpload('lecture bytes')
+      const copy = yield* writeUpload('lecture bytes')
+      const other = yield* writeUpload('other bytes')
+
+      yield* getOrParse({ file: first, language: 'en' }, parse)
+      yield* getOrParse({ file: copy, language: 'en' }, parse)
+      expect(calls()).toBe(1)
+
+      yield* getOrParse({ file: other, language: 'en' }, parse)
+      expect(calls()).toBe(2)
+    }).pipe(E.provide(CacheTestLayer), E.provide(NodeContext.layer)),
+  )
+
+  it.scoped('should attach identical requests to the running parse', () =>
+    E.gen(function* () {
+      const file = yield* writeUpload('lecture bytes')
+      const started = yield* Deferred.make<void>()
+      const finish = yield* Deferred.make<void>()
+      const { parse, calls } = makeParser()
+      const slowParse: MediaParse = (request) =>
+        Deferred.succeed(started, undefined).pipe(
+          E.zipRight(Deferred.await(finish)),
+          E.zipRight(parse(request)),
+        )
+
+      const owner = yield* E.fork(
+        getOrParse({ file, language: 'en' }, slowParse),
+      )
+      yield* Deferred.await(started)
+      const attached = yield* E.fork(
+        getOrParse({ file, language: 'en' }, slowParse),
+      )
+      yield* Deferred.succeed(finish, undefined)
+
+      const results = yield* Fiber.join(Fiber.zip(owner, attached))
+      expect(results[1]).toEqual(results[0])
+      expect(calls()).toBe(1)
+    }).pipe(E.provide(CacheTestLayer), E.provide(NodeContext.layer)),
+  )
+
+  it.scopedLive(
+    'should keep parsing for attached requests when the first is cancelled',
+    () =>
+      E.gen(function* () {
+        const fs = yield* FileSystem.FileSystem
+        const started = yield* Deferred.make<void>()
+        const heard = yield* Deferred.make<void>()
+        const finish = yield* Deferred.make<void>()
+        const percents: number[] = []
+        const cue = { start: 0, end: 1000, text: 'Hello' }
+
+        // Reports until the attached request hears it, reads the media once let go
+        const parse: MediaParse = (request, onProgress = () => E.void) =>
+          E.gen(function* () {
+            yield* Deferred.succeed(started, undefined)
+            yield* onProgress({ percent: 50, cue }).pipe(
+              E.zipRight(E.sleep('10 millis')),
+              E.repeat({ until: () => percents.length > 0 }),
+            )
+            yield* Deferred.await(finish)
+            const text =
+              'file' in request
+                ? yield* fs.readFileString(request.file.path).pipe(E.orDie)
+                : ''
+            yield* onProgress({ percent: 100, cue })
+            return { json: [{ ...cue, text }] }
+          })
+
+        // Every job downloads the media to a file of its own
+        const parseUpload = (onProgress?: MediaProgressReporter) =>
+          writeUpload('lecture bytes').pipe(
+            E.flatMap((file) =>
+              getOrParse({ file, language: 'en' }, parse, onProgress),
+            ),
+            E.scoped,
+          )
+
+        const first = yield* E.fork(parseUpload())
+        yield* Deferred.await(started)
+        const attached = yield* E.fork(
+          parseUpload(({ percent }) =>
+            E.sync(() => percents.push(percent)).pipe(
+              E.zipRight(Deferred.succeed(heard, undefined)),
+            ),
+          ),
+        )
+        yield* Deferred.await(heard)
+        yield* Fiber.interrupt(first)
+        yield* Deferred.succeed(finish, undefined)
+
+        const result = yield* Fiber.join(attached)
+        expect(result.json[0]?.text).toBe('lecture bytes')
+        expect(percents).toContain(100)
+      }).pipe(E.provide(CacheTestLayer), E.provide(NodeContext.layer)),
+  )
+
+  it.scoped('should expire entries and evict the least recently used', () =>
+    E.gen(function* () {
+      const file = yield* writeUpload('lecture bytes')
+      const { parse, calls } = makeParser()
+
+      // The mock config keeps 2 entries for an hour
+      yield* getOrParse({ file, language: 'en' }, parse)
+      yield* getOrParse({ file, language: 'fr' }, parse)
+      yield* getOrParse({ file, language: 'en' }, parse)
+      yield* getOrParse({ file, language: 'de' }, parse)
+      expect(calls()).toBe(3)
+
+      yield* getOrParse({ file, language: 'en' }, parse)
+      expect(calls()).toBe(3)
+      yield* getOrParse({ file, language: 'fr' }, parse)
+      expect(calls()).toBe(4)
+
+      yield* TestClock.adjust('1 hour')
+      yield* getOrParse({ file, language: 'fr' }, parse)
+      expect(calls()).toBe(5)
+    }).pipe(E.provide(CacheTestLayer), E.provide(NodeContext.layer)),
+  )
+
+  it.scoped('should cache results under the engine that answered', () =>
+    E.gen(function* () {
+      const file = yield* writeUpload('lecture bytes')
+      const { parse, calls } = makeParser()
+      // Deepgram is paused, the fallback answers instead
+      const fallback: MediaParse = (request, onProgress) =>
+        parse(request, onProgress).pipe(
+          E.map((result) => ({ ...result, engine: 'whisper' as const })),
+        )
+
+      yield* getOrParse({ file, language: 'en', engine: 'deepgram' }, fallback)
+      yield* getOrParse({ file, language: 'en', engine: 'deepgram' }, fallback)
+      expect(calls()).toBe(2)
+
+      const cached = yield* getOrParse(
+        { file, language: 'en', engine: 'whisper' },
+        parse,
+      )
+      expect(calls()).toBe(2)
+      expect(cached.engine).toBe('whisper')
+    }).pipe(E.provide(CacheTestLayer), E.provide(NodeContext.layer)),
+  )
+
+  it.scoped('should not share results between tenants or cache failures', () =>
+    E.gen(function* () {
+      const file = yield* writeUpload('lecture bytes')
+      const { parse, calls } = makeParser()
+      const failure = new MediaParsingError({
+        source: 'file',
+        error: 'engine down',
+      })
+
+      const exit = yield* getOrParse({ file, language: 'en' }, () =>
+        E.fail(failure),
+      ).pipe(E.exit)
+      expect(getExitError(exit)).toEqual(failure)
+
+      yield* getOrParse({ file, language: 'en' }, parse)
+      yield* getOrParse({ file, language: 'en' }, parse).pipe(
+        E.provideService(CurrentTenant, { id: 'tenant-other' }),
+      )
+      expect(calls()).toBe(2)
+    }).pipe(E.provide(CacheTestLayer), E.provide(NodeContext.layer)),
+  )
+})
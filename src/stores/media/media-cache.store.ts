@@ -0,0 +1,266 @@
+import { FileSystem, HttpClient, Path } from '@effect/platform'
+import {
+  Clock,
+  Duration,
+  Effect as E,
+  Exit,
+  Fiber,
+  FiberMap,
+  Layer,
+  Option,
+  type Schema,
+  Scope,
+  Stream,
+} from 'effect'
+import { envVars } from '../../config'
+import { CurrentTenant } from '../../domain/auth/auth.schema'
+import {
+  normalizeMediaUrl,
+  sha256Hex,
+} from '../../domain/media/media.fingerprint'
+import type {
+  MediaEngine,
+  MediaRequest,
+  MediaResponse,
+} from '../../domain/media/media.schema'
+import {
+  type MediaEngineError,
+  type MediaProgressReporter,
+  resolveMediaEngine,
+} from './media.store'
+
+type MediaRequestType = Schema.Schema.Type<typeof MediaRequest>
+type MediaResponseType = Schema.Schema.Type<typeof MediaResponse>
+
+// Parses `request`, reporting its progress to `onProgress`
+export type MediaParse = (
+  request: MediaRequestType,
+  onProgress?: MediaProgressReporter,
+) => E.Effect<MediaResponseType, MediaEngineError>
+
+type CacheEntry = {
+  readonly result: MediaResponseType
+  readonly expiresAt: number
+}
+
+const HEAD_TIMEOUT = Duration.seconds(5)
+
+const HASH_CHUNK_SIZE = FileSystem.MiB(1)
+
+// Results of identical parses, a tenant never gets another tenant's result
+export class MediaCacheStore extends E.Service<MediaCacheStore>()(
+  'MediaCacheStore',
+  {
+    scoped: E.gen(function* () {
+      const ttl = Duration.toMillis(yield* envVars.MEDIA_CACHE_TTL)
+      const capacity = yield* envVars.MEDIA_CACHE_CAPACITY
+      const fs = yield* FileSystem.FileSystem
+      const path = yield* Path.Path
+      const httpClient = yield* HttpClient.HttpClient
+      // Insertion ordered, so the least recently used entry comes first
+      const entries = new Map<string, CacheEntry>()
+      // Parses in flight by cache key, identical requests join the same fiber
+      const running = yield* FiberMap.make<
+        string,
+        MediaResponseType,
+        MediaEngineError
+      >()
+      // Progress of a running parse goes to every request attached to it
+      const listeners = new Map<string, Set<MediaProgressReporter>>()
+
+      // Without an ETag the URL alone identifies the media until the entry expires
+      const fetchEtag = (url: string) =>
+        httpClient.head(url).pipe(
+          E.map(({ headers: { etag } }) => etag ?? ''),
+          E.timeout(HEAD_TIMEOUT),
+          E.orElseSucceed(() => ''),
+        )
+
+      // Hash of the chunk hashes, so recordings are never read into memory whole
+      const hashFile = (path: string) =>
+        fs.stream(path, { chunkSize: HASH_CHUNK_SIZE }).pipe(
+          // Copied, Web Crypto does not take views of shared buffers
+          Stream.mapEffect((chunk) => sha256Hex(new Uint8Array(chunk))),
+          Stream.runFold('', (hashes, hash) => hashes + hash),
+          E.flatMap((hashes) => sha256Hex(new TextEncoder().encode(hashes))),
+        )
+
+      const fingerprint = (request: MediaRequestType) =>
+        'url' in request
+          ? fetchEtag(request.url).pipe(
+              E.map((etag) => `url:${normalizeMediaUrl(request.url)} ${etag}`),
+            )
+          : hashFile(request.file.path).pipe(E.map((hash) => `file:${hash}`))
+
+      // Key of the request for every engine, results are cached under the
+      // engine that answered, which is the fallback while the requested one is paused
+      const cacheKeys = (request: MediaRequestType) =>
+        E.gen(function* () {
+          const tenant = yield* CurrentTenant
+          const source = yield* fingerprint(request)
+          return (engine: MediaEngine) =>
+            [
+              tenant.id,
+              engine,
+              request.language,
+              request.diarize ? 'diarize' : '',
+              JSON.stringify(request.keywords ?? []),
+              source,
+            ].join('\n')
+        })
+
+      const lookup = (key: string) =>
+        E.gen(function* () {
+          const now = yield* Clock.currentTimeMillis
+          const entry = entries.get(key)
+          entries.delete(key)
+          if (!entry || entry.expiresAt <= now) {
+            return Option.none()
+          }
+          entries.set(key, entry)
+          return Option.some(entry.result)
+        })
+
+      const remember = (key: string, result: MediaResponseType) =>
+        E.gen(function* () {
+          const now = yield* Clock.currentTimeMillis
+          entries.delete(key)
+          entries.set(key, { result, expiresAt: now + ttl })
+          for (const oldest of entries.keys()) {
+            if (entries.size <= capacity) {
+              break
+            }
+            entries.delete(oldest)
+          }
+        })
+
+      const listen = (key: string, onProgress: MediaProgressReporter) =>
+        E.acquireRelease(
+          E.sync(() => {
+            const current = listeners.get(key) ?? new Set()
+            listeners.set(key, current.add(onProgress))
+            return current
+          }),
+          (current) =>
+            E.sync(() => {
+              current.delete(onProgress)
+              if (current.size === 0 && listeners.get(key) === current) {
+                listeners.delete(key)
+              }
+            }),
+        )
+
+      const reportTo =
+        (key: string): MediaProgressReporter =>
+        (progress) =>
+          E.suspend(() =>
+            E.forEach(
+              [...(listeners.get(key) ?? [])],
+              (onProgress) => onProgress(progress),
+              { discard: true },
+            ),
+          )
+
+      // The file of a request belongs to its caller, the shared parse gets a
+      // hard link to it (or a copy across file systems) for as long as `scope` lasts
+      const holdMedia = (
+        request: MediaRequestType,
+        scope: Scope.Scope,
+      ): E.Effect<MediaRequestType> =>
+        'url' in request
+          ? E.succeed(request)
+          : E.gen(function* () {
+              const directory = yield* fs
+                .makeTempDirectoryScoped()
+                .pipe(Scope.extend(scope))
+              const held = path.join(directory, 'media')
+              yield* fs
+                .link(request.file.path, held)
+                .pipe(E.orElse(() => fs.copyFile(request.file.path, held)))
+              return { ...request, file: { ...request.file, path: held } }
+            }).pipe(
+              // Local disk failures are nothing the parse can recover from
+              E.orDie,
+            )
+
+      // Runs outside of the caller's scope, so cancelling the job that started
+      // it neither stops it nor takes its media away
+      const startParse = (
+        key: string,
+        keyOf: (engine: MediaEngine) => string,
+        request: MediaRequestType,
+        parse: MediaParse,
+      ) =>
+        E.uninterruptibleMask((restore) =>
+          E.gen(function* () {
+            const scope = yield* Scope.make()
+            const media = yield* restore(holdMedia(request, scope)).pipe(
+              E.onError((cause) => Scope.close(scope, Exit.failCause(cause))),
+            )
+            return yield* FiberMap.run(
+              running,
+              key,
+              restore(parse(media, reportTo(key))).pipe(
+                E.tap((result) =>
+                  remember(result.engine ? keyOf(result.engine) : key, result),
+                ),
+                E.onExit((exit) => Scope.close(scope, exit)),
+              ),
+            )
+          }),
+        )
+
+      return {
+        /**
+         * Returns the cached result of an identical request, joins an identical
+         * parse already running, or runs `parse` and caches its result. Every
+         * request waiting for a parse gets its progress from then on.
+         */
+        getOrParse: (
+          request: MediaRequestType,
+          parse: MediaParse,
+          onProgress?: MediaProgressReporter,
+        ) =>
+          E.gen(function* () {
+            const engine = yield* resolveMediaEngine(request).pipe(E.orDie)
+            const keys = yield* cacheKeys(request).pipe(E.option)
+            // Unreadable files are left for the engine to report
+            if (Option.isNone(keys)) {
+              yield* E.annotateCurrentSpan('cache', 'bypass')
+              return yield* parse(request, onProgress)
+            }
+            const key = keys.value(engine)
+
+            const cached = yield* lookup(key)
+            if (Option.isSome(cached)) {
+              yield* E.annotateCurrentSpan('cache', 'hit')
+              return cached.value
+            }
+
+            if (onProgress) {
+              yield* listen(key, onProgress)
+            }
+            // Keeps running when the waiting jobs are cancelled, so its result is still cached
+            const existing = yield* FiberMap.get(running, key).pipe(E.option)
+            yield* E.annotateCurrentSpan(
+              'cache',
+              Option.isSome(existing) ? 'attached' : 'miss',
+            )
+            const fiber = Option.isSome(existing)
+              ? existing.value
+              : yield* startParse(key, keys.value, request, parse)
+            return yield* Fiber.join(fiber)
+          }).pipe(E.scoped, E.withSpan('MediaCacheStore.getOrParse')),
+      }
+    }),
+  },
+) {
+  static makeTestService = (
+    mockImplementation: Partial<Omit<MediaCacheStore, '_tag'>>,
+  ) =>
+    Layer.succeed(MediaCacheStore, {
+      _tag: 'MediaCacheStore',
+      getOrParse: () => E.die('Not implemented' as const),
+      ...mockImplementation,
+    })
+}
@@ -0,0 +1,103 @@
+import {
+  FileSystem,
+  HttpRouter,
+  HttpServerRequest,
+  HttpServerResponse,
+} from '@effect/platform'
+import {
+  NodeContext,
+  NodeHttpClient,
+  NodeHttpServer,
+} from '@effect/platform-node'
+import { describe, expect, it } from '@effect/vitest'
+import { Effect as E, Layer, Option } from 'effect'
+import { MediaUnreachableError } from '../../domain/media/media.errors'
+import { getExitError, serveFakeHttpApp } from '../../test-utils'
+import { MediaProbeStore } from './media-probe.store'
+
+const ProbeTestLayer = MediaProbeStore.Default.pipe(
+  Layer.provide(NodeHttpClient.layerUndici),
+  Layer.provide(NodeContext.layer),
+)
+
+const ID3_MEDIA = 'ID3 pretend this is a long lecture'
+
+const makeFakeMediaHost = () => {
+  const ranges: (string | undefined)[] = []
+  const app = HttpRouter.empty.pipe(
+    HttpRouter.get(
+      '/lecture.mp3',
+      E.gen(function* () {
+        const {
+          headers: { range },
+        } = yield* HttpServerRequest.HttpServerRequest
+        ranges.push(range)
+        return HttpServerResponse.text(ID3_MEDIA.slice(0, 8), {
+          status: 206,
+          contentType: 'audio/mpeg',
+          headers: { 'content-range': `bytes 0-7/${ID3_MEDIA.length}` },
+        })
+      }),
+    ),
+    HttpRouter.get('/page.html', HttpServerResponse.html('<html></html>')),
+  )
+  return { app, ranges }
+}
+
+const probe = <A, E>(
+  f: (store: MediaProbeStore) => E.Effect<A, E>,
+): E.Effect<A, E, MediaProbeStore> => E.flatMap(MediaProbeStore, f)
+
+describe('MediaProbeStore', () => {
+  it.scoped('should probe URLs with a ranged request', () =>
+    E.gen(function* () {
+      const host = makeFakeMediaHost()
+      const baseUrl = yield* serveFakeHttpApp(host.app)
+
+      const media = yield* probe((store) =>
+        store.probeUrl(`${baseUrl}/lecture.mp3`),
+      )
+      const page = yield* probe((store) =>
+        store.probeUrl(`${baseUrl}/page.html`),
+      )
+
+      expect(media).toEqual({
+        header: Option.some({ container: 'mp3', mimeType: 'audio/mpeg' }),
+        size: Option.some(ID3_MEDIA.length),
+      })
+      expect(host.ranges).toEqual(['bytes=0-65535'])
+      expect(page).toEqual({
+        header: Option.none(),
+        size: Option.some('<html></html>'.length),
+      })
+    }).pipe(E.provide(ProbeTestLayer), E.provide(NodeHttpServer.layerTest)),
+  )
+
+  it.scoped('should report URLs that cannot be fetched', () =>
+    E.gen(function* () {
+      const host = makeFakeMediaHost()
+      const baseUrl = yield* serveFakeHttpApp(host.app)
+      const url = `${baseUrl}/missing.mp4`
+
+      const exit = yield* probe((store) => store.probeUrl(url)).pipe(E.exit)
+
+      expect(getExitError(exit)).toBeInstanceOf(MediaUnreachableError)
+      expect(getExitError(exit)?.url).toBe(url)
+    }).pipe(E.provide(ProbeTestLayer), E.provide(NodeHttpServer.layerTest)),
+  )
+
+  it.scoped('should probe uploaded files', () =>
+    E.gen(function* () {
+      const fs = yield* FileSystem.FileSystem
+      const path = yield* fs.makeTempFileScoped({ prefix: 'upload-' })
+      yield* fs.writeFileString(path, ID3_MEDIA)
+
+      const result = yield* probe((store) => store.probeFile(path))
+
+      expect(result).toEqual({
+        header: Option.some({ container: 'mp3', mimeType: 'audio/mpeg' }),
+        size: Option.some(ID3_MEDIA.length),
+      })
+    }).pipe(E.provide(ProbeTestLayer), E.provide(NodeContext.layer)),
+  )
+})
@@ -0,0 +1,117 @@
+import { FileSystem, type Headers, HttpClient } from '@effect/platform'
+import { Duration, Effect as E, Layer, Option, Stream } from 'effect'
+import { MediaUnreachableError } from '../../domain/media/media.errors'
+import {
+  MEDIA_PROBE_BYTES,
+  type MediaHeader,
+  probeMediaHeader,
+} from '../../domain/media/media.probe'
+
+export type MediaProbe = {
+  readonly header: Option.Option<MediaHeader>
+  // Bytes, unknown when a server sends neither a range nor a length
+  readonly size: Option.Option<number>
+}
+
+const PROBE_TIMEOUT = Duration.seconds(10)
+
+const CONTENT_RANGE_TOTAL = /\/(\d+)$/
+
+const concatBytes = (left: Uint8Array, right: Uint8Array) => {
+  const bytes = new Uint8Array(left.length + right.length)
+  bytes.set(left)
+  bytes.set(right, left.length)
+  return bytes
+}
+
+// Servers ignoring the range send the whole media, only its start is read
+const readHead = <E>(stream: Stream.Stream<Uint8Array, E>) =>
+  Stream.runFoldWhile(
+    stream,
+    new Uint8Array(0),
+    (bytes) => bytes.length < MEDIA_PROBE_BYTES,
+    concatBytes,
+  ).pipe(E.map((bytes) => bytes.subarray(0, MEDIA_PROBE_BYTES)))
+
+const remoteSize = (
+  status: number,
+  {
+    'content-range': contentRange,
+    'content-length': contentLength,
+  }: Headers.Headers,
+) => {
+  const [, total] = CONTENT_RANGE_TOTAL.exec(contentRange ?? '') ?? []
+  if (total !== undefined) {
+    return Option.some(Number(total))
+  }
+  return status === 200 && contentLength !== undefined
+    ? Option.some(Number(contentLength))
+    : Option.none()
+}
+
+// Inspects the start of the media before it is sent to an engine
+export class MediaProbeStore extends E.Service<MediaProbeStore>()(
+  'MediaProbeStore',
+  {
+    effect: E.gen(function* () {
+      const fs = yield* FileSystem.FileSystem
+      const httpClient = (yield* HttpClient.HttpClient).pipe(
+        HttpClient.filterStatusOk,
+      )
+
+      return {
+        probeUrl: (url: string) =>
+          httpClient
+            .get(url, {
+              headers: { range: `bytes=0-${MEDIA_PROBE_BYTES - 1}` },
+            })
+            .pipe(
+              E.flatMap((response) =>
+                readHead(response.stream).pipe(
+                  E.map(
+                    (bytes): MediaProbe => ({
+                      header: probeMediaHeader(bytes),
+                      size: remoteSize(response.status, response.headers),
+                    }),
+                  ),
+                ),
+              ),
+              E.scoped,
+              E.timeout(PROBE_TIMEOUT),
+              E.mapError(
+                (error) =>
+                  new MediaUnreachableError({ url, reason: error.message }),
+              ),
+              E.withSpan('MediaProbeStore.probeUrl'),
+            ),
+
+        probeFile: (path: string) =>
+          E.gen(function* () {
+            const file = yield* fs.open(path)
+            const { size } = yield* file.stat
+            const bytes = yield* file.readAlloc(MEDIA_PROBE_BYTES)
+
+            return {
+              header: Option.flatMap(bytes, probeMediaHeader),
+              size: Option.some(Number(size)),
+            } satisfies MediaProbe
+          }).pipe(
+            E.scoped,
+            // Uploads are written by the server itself, failing to read them is a defect
+            E.orDie,
+            E.withSpan('MediaProbeStore.probeFile'),
+          ),
+      }
+    }),
+  },
+) {
+  static makeTestService = (
+    mockImplementation: Partial<Omit<MediaProbeStore, '_tag'>>,
+  ) =>
+    Layer.succeed(MediaProbeStore, {
+      _tag: 'MediaProbeStore',
+      probeUrl: () => E.die('Not implemented' as const),
+      probeFile: () => E.die('Not implemented' as const),
+      ...mockImplementation,
+    })
+}
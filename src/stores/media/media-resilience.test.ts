@@ -0,0 +1,145 @@
+import {
+  HttpClientError,
+  HttpClientRequest,
+  HttpClientResponse,
+} from '@effect/platform'
+import { describe, expect, it } from '@effect/vitest'
+import { Duration, Effect as E, Ref } from 'effect'
+import {
+  MediaEngineUnavailableError,
+  MediaParsingError,
+} from '../../domain/media/media.errors'
+import { getExitError } from '../../test-utils'
+import { withEngineResilience } from './media-resilience'
+
+const request = { url: 'https://example.com/video.mp4', language: 'en' }
+
+const engineRequest = HttpClientRequest.post('http://engine/v1/listen')
+
+const connectionRefused = new MediaParsingError({
+  source: 'url',
+  error: new HttpClientError.RequestError({
+    request: engineRequest,
+    reason: 'Transport',
+    description: 'Connection refused',
+  }),
+})
+
+const statusError = (status: number) =>
+  new MediaParsingError({
+    source: 'url',
+    error: new HttpClientError.ResponseError({
+      request: engineRequest,
+      response: HttpClientResponse.fromWeb(
+        engineRequest,
+        new Response(null, { status }),
+      ),
+      reason: 'StatusCode',
+    }),
+  })
+
+const options = {
+  timeout: Duration.millis(50),
+  maxRetries: 2,
+  retryDelay: Duration.millis(1),
+  breakerThreshold: 3,
+  breakerReset: Duration.millis(100),
+}
+
+const result = { json: [{ start: 0, end: 1000, text: 'Hello world' }] }
+
+// Engine failing with the given errors in turn, then succeeding
+const makeEngine = (
+  failures: readonly MediaParsingError[],
+  calls: Ref.Ref<number>,
+) => ({
+  parseMedia: () =>
+    Ref.getAndUpdate(calls, (count) => count + 1).pipe(
+      E.flatMap((count) => {
+        const failure = failures[count]
+        return failure ? E.fail(failure) : E.succeed(result)
+      }),
+    ),
+})
+
+describe('withEngineResilience', () => {
+  it.live('should retry transient failures', () =>
+    E.gen(function* () {
+      const calls = yield* Ref.make(0)
+      const engine = yield* withEngineResilience(
+        'deepgram',
+        makeEngine([connectionRefused, statusError(503)], calls),
+        options,
+      )
+
+      expect(yield* engine.parseMedia(request)).toEqual(result)
+      expect(yield* Ref.get(calls)).toBe(3)
+    }),
+  )
+
+  it.live('should fail requests the engine turns down at once', () =>
+    E.gen(function* () {
+      const calls = yield* Ref.make(0)
+      const engine = yield* withEngineResilience(
+        'deepgram',
+        makeEngine([statusError(400)], calls),
+        options,
+      )
+
+      const exit = yield* engine.parseMedia(request).pipe(E.exit)
+
+      expect(getExitError(exit)).toBeInstanceOf(MediaParsingError)
+      expect(yield* Ref.get(calls)).toBe(1)
+    }),
+  )
+
+  it.live('should cut attempts that take too long', () =>
+    E.gen(function* () {
+      const engine = yield* withEngineResilience(
+        'whisper',
+        { parseMedia: () => E.never },
+        options,
+      )
+
+      const exit = yield* engine.parseMedia(request).pipe(E.exit)
+
+      expect(getExitError(exit)).toMatchObject({
+        _tag: 'MediaEngineUnavailableError',
+        engine: 'whisper',
+        reason: 'Engine whisper did not answer within 50ms',
+        circuitOpen: false,
+      })
+    }),
+  )
+
+  it.live('should pause requests to an engine that keeps failing', () =>
+    E.gen(function* () {
+      const calls = yield* Ref.make(0)
+      const engine = yield* withEngineResilience(
+        'deepgram',
+        makeEngine(
+          [connectionRefused, connectionRefused, connectionRefused],
+          calls,
+        ),
+        options,
+      )
+
+      const down = yield* engine.parseMedia(request).pipe(E.exit)
+      const paused = yield* engine.parseMedia(request).pipe(E.exit)
+      const callsWhilePaused = yield* Ref.get(calls)
+      yield* E.sleep(options.breakerReset)
+      const probed = yield* engine.parseMedia(request)
+
+      expect(getExitError(down)).toMatchObject({ circuitOpen: false })
+      expect(getExitError(paused)).toEqual(
+        new MediaEngineUnavailableError({
+          engine: 'deepgram',
+          reason: 'Engine deepgram keeps failing, requests are paused',
+          circuitOpen: true,
+        }),
+      )
+      expect(callsWhilePaused).toBe(3)
+      expect(probed).toEqual(result)
+    }),
+  )
+})
@@ -0,0 +1,214 @@
+import { HttpClientError } from '@effect/platform'
+import {
+  Cause,
+  Clock,
+  type Context,
+  Duration,
+  Effect as E,
+  Exit,
+  Inspectable,
+  Option,
+  Ref,
+  Schedule,
+  type Schema,
+} from 'effect'
+import { envVars } from '../../config'
+import {
+  MediaEngineUnavailableError,
+  MediaParsingError,
+} from '../../domain/media/media.errors'
+import type { MediaEngine, MediaRequest } from '../../domain/media/media.schema'
+import type { MediaProgressReporter, MediaStore } from './media.store'
+
+type MediaRequestType = Schema.Schema.Type<typeof MediaRequest>
+type MediaStoreService = Context.Tag.Service<MediaStore>
+
+export type EngineResilienceOptions = {
+  readonly timeout: Duration.Duration
+  readonly maxRetries: number
+  readonly retryDelay: Duration.Duration
+  readonly breakerThreshold: number
+  readonly breakerReset: Duration.Duration
+}
+
+export const engineResilienceOptions = E.all({
+  timeout: envVars.MEDIA_ENGINE_TIMEOUT,
+  maxRetries: envVars.MEDIA_ENGINE_MAX_RETRIES,
+  retryDelay: envVars.MEDIA_ENGINE_RETRY_DELAY,
+  breakerThreshold: envVars.MEDIA_ENGINE_BREAKER_THRESHOLD,
+  breakerReset: envVars.MEDIA_ENGINE_BREAKER_RESET,
+})
+
+// `Open` until the reset time, then `HalfOpen` while one request probes the engine
+type BreakerState =
+  | { readonly _tag: 'Closed'; readonly failures: number }
+  | { readonly _tag: 'Open'; readonly until: number }
+  | { readonly _tag: 'HalfOpen' }
+
+const isTransientStatus = (status: number) =>
+  status === 408 || status === 429 || status >= 500
+
+/**
+ * Timeouts, dropped connections, rate limiting and server errors are worth
+ * another attempt. Anything else is the request's fault and fails the same way
+ * every time.
+ */
+export const isTransientEngineError = (error: unknown) => {
+  if (Cause.isTimeoutException(error)) {
+    return true
+  }
+  if (!HttpClientError.isHttpClientError(error)) {
+    return false
+  }
+  return error._tag === 'RequestError'
+    ? error.reason === 'Transport'
+    : error.reason === 'StatusCode' && isTransientStatus(error.response.status)
+}
+
+const isTransientFailure = (
+  error: MediaParsingError | MediaEngineUnavailableError,
+): error is MediaParsingError =>
+  error._tag === 'MediaParsingError' && isTransientEngineError(error.error)
+
+const describeError = (error: unknown) =>
+  error instanceof Error ? error.message : Inspectable.toStringUnknown(error)
+
+/**
+ * Wraps an engine so every attempt is cut after `timeout`, and transient
+ * failures are retried with jittered exponential backoff. A circuit breaker
+ * fails requests fast once `breakerThreshold` attempts in a row failed for a
+ * transient reason. After `breakerReset` one request probes the engine, and
+ * the breaker closes again when it succeeds. Engines still failing after their
+ * retries are reported as unavailable.
+ */
+export const withEngineResilience = (
+  engine: MediaEngine,
+  store: MediaStoreService,
+  options: EngineResilienceOptions,
+) =>
+  E.gen(function* () {
+    const state = yield* Ref.make<BreakerState>({ _tag: 'Closed', failures: 0 })
+    const resetMillis = Duration.toMillis(options.breakerReset)
+
+    const acquire = E.gen(function* () {
+      const now = yield* Clock.currentTimeMillis
+      const allowed = yield* Ref.modify(
+        state,
+        (current): [boolean, BreakerState] => {
+          if (current._tag === 'Closed') {
+            return [true, current]
+          }
+          if (current._tag === 'Open' && now >= current.until) {
+            return [true, { _tag: 'HalfOpen' }]
+          }
+          return [false, current]
+        },
+      )
+
+      if (!allowed) {
+        return yield* E.fail(
+          new MediaEngineUnavailableError({
+            engine,
+            reason: `Engine ${engine} keeps failing, requests are paused`,
+            circuitOpen: true,
+          }),
+        )
+      }
+    })
+
+    // Answers that are the request's fault still tell the engine is up
+    const record = (transientFailure: boolean) =>
+      E.gen(function* () {
+        const now = yield* Clock.currentTimeMillis
+        const opened = yield* Ref.modify(
+          state,
+          (current): [boolean, BreakerState] => {
+            if (!transientFailure) {
+              return [false, { _tag: 'Closed', failures: 0 }]
+            }
+            const failures =
+              current._tag === 'Closed'
+                ? current.failures + 1
+                : options.breakerThreshold
+            return failures >= options.breakerThreshold
+              ? [
+                  current._tag !== 'Open',
+                  { _tag: 'Open', until: now + resetMillis },
+                ]
+              : [false, { _tag: 'Closed', failures }]
+          },
+        )
+
+        if (opened) {
+          yield* E.logWarning('Engine circuit opened', { engine })
+        }
+      })
+
+    // An interrupted probe proves nothing, the next request probes instead
+    const abandonProbe = Ref.update(
+      state,
+      (current): BreakerState =>
+        current._tag === 'HalfOpen' ? { _tag: 'Open', until: 0 } : current,
+    )
+
+    const attempt = (
+      request: MediaRequestType,
+      onProgress?: MediaProgressReporter,
+    ) =>
+      acquire.pipe(
+        E.zipRight(
+          store.parseMedia(request, onProgress).pipe(
+            E.timeoutFail({
+              duration: options.timeout,
+              onTimeout: () =>
+                new MediaParsingError({
+                  source: 'url' in request ? 'url' : 'file',
+                  error: new Cause.TimeoutException(
+                    `Engine ${engine} did not answer within ${Duration.format(options.timeout)}`,
+                  ),
+                }),
+            }),
+            E.onExit((exit) => {
+              if (Exit.isSuccess(exit)) {
+                return record(false)
+              }
+              return Exit.isInterrupted(exit)
+                ? abandonProbe
+                : record(
+                    Cause.failureOption(exit.cause).pipe(
+                      Option.exists(isTransientFailure),
+                    ),
+                  )
+            }),
+          ),
+        ),
+      )
+
+    return {
+      parseMedia: (
+        request: MediaRequestType,
+        onProgress?: MediaProgressReporter,
+      ) =>
+        attempt(request, onProgress).pipe(
+          E.retry({
+            schedule: Schedule.exponential(options.retryDelay).pipe(
+              Schedule.jittered,
+            ),
+            times: options.maxRetries,
+            while: isTransientFailure,
+          }),
+          E.catchIf(isTransientFailure, (error) =>
+            E.fail(
+              new MediaEngineUnavailableError({
+                engine,
+                reason: describeError(error.error),
+                circuitOpen: false,
+              }),
+            ),
+          ),
+          E.withSpan('MediaStore.withEngineResilience', {
+            attributes: { engine },
+          }),
+        ),
+    } satisfies MediaStoreService
+  })
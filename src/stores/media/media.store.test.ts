@@ -1,7 +1,10 @@
+import { FetchHttpClient } from '@effect/platform'
+import { NodeContext } from '@effect/platform-node'
 import { describe, expect, it } from '@effect/vitest'
-import { Effect as E } from 'effect'
-import { makeTestLayer } from '../../test-utils'
-import { MediaStore } from './media.store'
+import { ConfigProvider, Effect as E } from 'effect'
+import { MediaEngineUnavailableError } from '../../domain/media/media.errors'
+import { getExitError, makeTestLayer } from '../../test-utils'
+import { MediaStore, makeMediaRegistry } from './media.store'
 
 const MediaStoreTestLayer = makeTestLayer(MediaStore)({
   parseMedia: () =>
@@ -48,4 +51,150 @@ describe('MediaStore', () => {
       }).pipe(E.provide(MediaStoreTestLayer)),
     )
   })
+
+  describe('Registry', () => {
+    const parseWithRegistry = (
+      defaultEngine: string,
+      request: {
+        readonly url: string
+        readonly language: string
+        readonly engine?: 'deepgram' | 'whisper' | 'fake'
+      },
+    ) =>
+      E.gen(function* () {
+        const store = yield* MediaStore
+        return yield* store.parseMedia(request)
+      }).pipe(
+        E.provide(MediaStore.Registry),
+        E.provide(FetchHttpClient.layer),
+        E.provide(NodeContext.layer),
+        E.withConfigProvider(
+          ConfigProvider.fromJson({ PARSING_ENGINE: defaultEngine }),
+        ),
+      )
+
+    it.effect('should use the configured engine by default', () =>
+      E.gen(function* () {
+        const result = yield* parseWithRegistry('fake', {
+          url: 'https://example.com/video.mp4',
+          language: 'en',
+        })
+
+        expect(result.json).toHaveLength(3)
+        expect(result.json[0]?.text).toBe(
+          'Transcript of https://example.com/video.mp4',
+        )
+      }),
+    )
+
+    it.effect('should use the engine requested per request', () =>
+      E.gen(function* () {
+        const result = yield* parseWithRegistry('deepgram', {
+          url: 'https://example.com/video.mp4',
+          language: 'de',
+          engine: 'fake',
+        })
+
+        expect(result.json[1]?.text).toBe('Language: de')
+        expect(result.engine).toBe('fake')
+      }),
+    )
+
+    it.effect('should fall back while the engine asked for is paused', () =>
+      E.gen(function* () {
+        const registry = yield* makeMediaRegistry({
+          deepgram: {
+            parseMedia: () =>
+              E.fail(
+                new MediaEngineUnavailableError({
+                  engine: 'deepgram',
+                  reason: 'Engine deepgram keeps failing, requests are paused',
+                  circuitOpen: true,
+                }),
+              ),
+          },
+          whisper: {
+            parseMedia: (request) =>
+              E.succeed({
+                json: [{ start: 0, end: 1000, text: `By ${request.engine}` }],
+              }),
+          },
+          fake: { parseMedia: () => E.die('Not used') },
+        })
+        const request = { url: 'https://example.com/video.mp4', language: 'en' }
+
+        const result = yield* registry.parseMedia(request)
+
+        expect(result.json[0]?.text).toBe('By whisper')
+        expect(result.engine).toBe('whisper')
+      }).pipe(
+        E.withConfigProvider(
+          ConfigProvider.fromJson({
+            PARSING_ENGINE: 'deepgram',
+            MEDIA_FALLBACK_ENGINE: 'whisper',
+          }),
+        ),
+      ),
+    )
+
+    it.effect('should report engines that are down without a fallback', () =>
+      E.gen(function* () {
+        const unavailable = new MediaEngineUnavailableError({
+          engine: 'deepgram',
+          reason: 'Engine deepgram keeps failing, requests are paused',
+          circuitOpen: true,
+        })
+        const registry = yield* makeMediaRegistry({
+          deepgram: { parseMedia: () => E.fail(unavailable) },
+          whisper: { parseMedia: () => E.die('Not used') },
+          fake: { parseMedia: () => E.die('Not used') },
+        })
+
+        const exit = yield* registry
+          .parseMedia({ url: 'https://example.com/video.mp4', language: 'en' })
+          .pipe(E.exit)
+
+        expect(getExitError(exit)).toEqual(unavailable)
+      }).pipe(
+        E.withConfigProvider(
+          ConfigProvider.fromJson({ PARSING_ENGINE: 'deepgram' }),
+        ),
+      ),
+    )
+
+    it.effect('should report progress from engines that support it', () =>
+      E.gen(function* () {
+        const reported: number[] = []
+        const store = yield* MediaStore
+        const result = yield* store.parseMedia(
+          { url: 'https://example.com/video.mp4', language: 'en' },
+          ({ percent }) => E.sync(() => reported.push(percent)),
+        )
+
+        expect(reported).toEqual([33, 67, 100])
+        expect(result.json).toHaveLength(3)
+      }).pipe(E.provide(MediaStore.Fake)),
+    )
+
+    it.effect('should label speakers when diarizing', () =>
+      E.gen(function* () {
+        const store = yield* MediaStore
+        const result = yield* store.parseMedia({
+          url: 'https://example.com/video.mp4',
+          language: 'en',
+          diarize: true,
+        })
+
+        expect(result.json.map(({ speaker }) => speaker)).toEqual([
+          'Speaker 1',
+          'Speaker 2',
+          'Speaker 1',
+        ])
+        expect(result.json[1]?.words?.map(({ text }) => text)).toEqual([
+          'Language:',
+          'en',
+        ])
+      }).pipe(E.provide(MediaStore.Fake)),
+    )
+  })
 })
@@ -1,28 +1,127 @@
-import { Context, Effect as E, type Schema } from 'effect'
-import type { MediaParsingError } from '../../domain/media/media.errors'
 import {
+  Context,
+  Effect as E,
+  Layer,
+  Option,
+  Record as Rec,
+  type Schema,
+} from 'effect'
+import { envVars } from '../../config'
+import type {
+  MediaEngineUnavailableError,
+  MediaParsingError,
+} from '../../domain/media/media.errors'
+import type {
+  MediaEngine,
+  MediaRequest,
   MediaResponse,
-  type UnifiedMediaRequest,
+  SubtitleJson,
 } from '../../domain/media/media.schema'
+import { makeDeepgramMediaStore } from './deepgram.adapter'
+import { makeFakeMediaStore } from './fake.adapter'
+import {
+  engineResilienceOptions,
+  withEngineResilience,
+} from './media-resilience'
+import { makeWhisperMediaStore } from './whisper.adapter'
+
+type MediaRequestType = Schema.Schema.Type<typeof MediaRequest>
+
+/**
+ * Called by engines that produce cues incrementally, `percent` is the share of
+ * the media transcribed so far.
+ */
+export type MediaProgressReporter = (progress: {
+  readonly percent: number
+  readonly cue: Schema.Schema.Type<typeof SubtitleJson>[number]
+}) => E.Effect<void>
 
-type UnifiedMediaRequestType = Schema.Schema.Type<typeof UnifiedMediaRequest>
+// Failures of a parse, engines that are down are told apart from media they cannot parse
+export type MediaEngineError = MediaParsingError | MediaEngineUnavailableError
+
+/**
+ * Engine used for a request, falling back to the configured `PARSING_ENGINE`.
+ */
+export const resolveMediaEngine = (request: MediaRequestType) =>
+  request.engine ? E.succeed(request.engine) : envVars.PARSING_ENGINE
 
 export class MediaStore extends Context.Tag('MediaStore')<
   MediaStore,
   {
     readonly parseMedia: (
-      request: UnifiedMediaRequestType,
-    ) => E.Effect<Schema.Schema.Type<typeof MediaResponse>, MediaParsingError>
+      request: MediaRequestType,
+      onProgress?: MediaProgressReporter,
+    ) => E.Effect<Schema.Schema.Type<typeof MediaResponse>, MediaEngineError>
   }
 >() {
-  static Deepgram = MediaStore.of({
-    parseMedia: E.fn('parse-media')(function* (
-      request: UnifiedMediaRequestType,
-    ) {
-      yield* E.annotateCurrentSpan('request', request)
-      return MediaResponse.make({
-        json: [],
+  static Deepgram = Layer.effect(MediaStore, makeDeepgramMediaStore)
+  static Whisper = Layer.effect(MediaStore, makeWhisperMediaStore)
+  static Fake = Layer.effect(MediaStore, makeFakeMediaStore)
+
+  // Dispatches every request to the engine it asks for, see `makeMediaRegistry`
+  static Registry = Layer.effect(
+    MediaStore,
+    E.gen(function* () {
+      return yield* makeMediaRegistry({
+        deepgram: yield* makeDeepgramMediaStore,
+        whisper: yield* makeWhisperMediaStore,
+        fake: yield* makeFakeMediaStore,
       })
     }),
-  })
+  )
 }
+
+/**
+ * Engines made resilient, see `withEngineResilience`. While the breaker of the
+ * engine a request asks for is open, the request goes to `MEDIA_FALLBACK_ENGINE`
+ * when one is configured.
+ */
+export const makeMediaRegistry = (
+  engines: Record<MediaEngine, Context.Tag.Service<MediaStore>>,
+) =>
+  E.gen(function* () {
+    const options = yield* engineResilienceOptions
+    const fallback = yield* envVars.MEDIA_FALLBACK_ENGINE
+    const resilient = yield* E.all(
+      Rec.map(engines, (store, engine) =>
+        withEngineResilience(engine, store, options),
+      ),
+    )
+
+    const parseWithFallback = (
+      engine: MediaEngine,
+      request: MediaRequestType,
+      onProgress?: MediaProgressReporter,
+    ) =>
+      E.gen(function* () {
+        yield* E.logWarning('Engine unavailable, using the fallback', {
+          fallback: engine,
+        })
+        yield* E.annotateCurrentSpan('fallback', engine)
+        const response = yield* resilient[engine].parseMedia(
+          { ...request, engine },
+          onProgress,
+        )
+        return { ...response, engine }
+      })
+
+    const parseMedia: Context.Tag.Service<MediaStore>['parseMedia'] = (
+      request,
+      onProgress,
+    ) =>
+      E.gen(function* () {
+        const engine = yield* resolveMediaEngine(request).pipe(E.orDie)
+        yield* E.annotateCurrentSpan('engine', engine)
+        return yield* resilient[engine].parseMedia(request, onProgress).pipe(
+          E.map((response) => ({ ...response, engine })),
+          E.catchTag('MediaEngineUnavailableError', (error) => {
+            const other = Option.filter(fallback, (name) => name !== engine)
+            return error.circuitOpen && Option.isSome(other)
+              ? parseWithFallback(other.value, request, onProgress)
+              : E.fail(error)
+          }),
+        )
+      }).pipe(E.withSpan('MediaStore.Registry.parseMedia'))
+
+    return { parseMedia }
+  })
@@ -0,0 +1,164 @@
+import {
+  FileSystem,
+  HttpRouter,
+  HttpServerRequest,
+  HttpServerResponse,
+  type Multipart,
+} from '@effect/platform'
+import { NodeHttpClient, NodeHttpServer } from '@effect/platform-node'
+import { describe, expect, it } from '@effect/vitest'
+import { ConfigProvider, Effect as E, Exit, type Schema } from 'effect'
+import type { MediaRequest } from '../../domain/media/media.schema'
+import {
+  getExitError,
+  makePersistedFile,
+  serveFakeHttpApp,
+} from '../../test-utils'
+import verboseFixture from './fixtures/whisper-verbose.json'
+import { MediaStore } from './media.store'
+
+type RecordedUpload = {
+  readonly fileName: string
+  readonly fileType: string
+  readonly fileText: string
+  readonly model: string
+  readonly language: string
+  readonly responseFormat: string
+}
+
+const makeFakeWhisper = (fixture: unknown, status = 200) => {
+  const uploads: RecordedUpload[] = []
+  const app = HttpRouter.empty.pipe(
+    HttpRouter.post(
+      '/v1/audio/transcriptions',
+      E.gen(function* () {
+        const request = yield* HttpServerRequest.HttpServerRequest
+        const fs = yield* FileSystem.FileSystem
+        const { file, model, language, response_format } =
+          yield* request.multipart
+        const [upload] = file as readonly Multipart.PersistedFile[]
+        uploads.push({
+          fileName: upload?.name ?? '',
+          fileType: upload?.contentType ?? '',
+          fileText: upload ? yield* fs.readFileString(upload.path) : '',
+          model: String(model),
+          language: String(language),
+          responseFormat: String(response_format),
+        })
+        return yield* HttpServerResponse.json(fixture, { status })
+      }),
+    ),
+    HttpRouter.get(
+      '/media/lecture.mp4',
+      HttpServerResponse.text('remote audio bytes', {
+        contentType: 'video/mp4',
+      }),
+    ),
+  )
+  return { app, uploads }
+}
+
+type MediaRequestType = Schema.Schema.Type<typeof MediaRequest>
+
+const parseWithWhisper = (baseUrl: string, request: MediaRequestType) =>
+  E.gen(function* () {
+    const store = yield* MediaStore
+    return yield* store.parseMedia(request)
+  }).pipe(
+    E.provide(MediaStore.Whisper),
+    E.provide(NodeHttpClient.layer),
+    E.withConfigProvider(
+      ConfigProvider.fromJson({
+        WHISPER_ENGINE_URL: baseUrl,
+        WHISPER_MODEL: 'small',
+      }),
+    ),
+  )
+
+describe('MediaStore.Whisper', () => {
+  it.scoped('should upload files and map segments to subtitles', () =>
+    E.gen(function* () {
+      const fs = yield* FileSystem.FileSystem
+      const fake = makeFakeWhisper(verboseFixture)
+      const baseUrl = yield* serveFakeHttpApp(fake.app)
+      const path = yield* fs.makeTempFileScoped({ prefix: 'lecture-' })
+      yield* fs.writeFileString(path, 'fake audio bytes')
+
+      const request = {
+        file: makePersistedFile({
+          name: 'lecture.mp3',
+          contentType: 'audio/mpeg',
+          path,
+        }),
+        language: 'en',
+      } as MediaRequestType
+      const result = yield* parseWithWhisper(baseUrl, request)
+
+      expect(result.json).toMatchObject([
+        { start: 320, end: 1620, text: 'Welcome to the course.' },
+        { start: 2400, end: 4240, text: 'Today we talk about effects.' },
+      ])
+      // `exp(avg_logprob)` of the segment
+      expect(result.json[0]?.confidence).toBeCloseTo(0.81)
+      expect(result.json[1]?.words?.map(({ text }) => text)).toEqual([
+        'Today',
+        'we',
+        'talk',
+        'about',
+        'effects.',
+      ])
+      expect(result.json[1]?.words?.[0]).toEqual({
+        start: 2400,
+        end: 2800,
+        text: 'Today',
+      })
+      expect(fake.uploads).toEqual([
+        {
+          fileName: 'lecture.mp3',
+          fileType: 'audio/mpeg',
+          fileText: 'fake audio bytes',
+          model: 'small',
+          language: 'en',
+          responseFormat: 'verbose_json',
+        },
+      ])
+    }).pipe(E.provide(NodeHttpServer.layerTest)),
+  )
+
+  it.scoped('should download URL requests before uploading them', () =>
+    E.gen(function* () {
+      const fake = makeFakeWhisper(verboseFixture)
+      const baseUrl = yield* serveFakeHttpApp(fake.app)
+
+      const result = yield* parseWithWhisper(baseUrl, {
+        url: `${baseUrl}/media/lecture.mp4`,
+        language: 'en',
+      })
+
+      expect(result.json).toHaveLength(2)
+      expect(fake.uploads[0]).toMatchObject({
+        fileName: 'lecture.mp4',
+        fileType: 'video/mp4',
+        fileText: 'remote audio bytes',
+      })
+    }).pipe(E.provide(NodeHttpServer.layerTest)),
+  )
+
+  it.scoped('should surface engine failures as MediaParsingError', () =>
+    E.gen(function* () {
+      const fake = makeFakeWhisper({ error: 'model not loaded' }, 500)
+      const baseUrl = yield* serveFakeHttpApp(fake.app)
+
+      const result = yield* parseWithWhisper(baseUrl, {
+        url: `${baseUrl}/media/lecture.mp4`,
+        language: 'en',
+      }).pipe(E.exit)
+
+      expect(Exit.isFailure(result)).toBe(true)
+      expect(getExitError(result)).toMatchObject({
+        _tag: 'MediaParsingError',
+        source: 'url',
+      })
+    }).pipe(E.provide(NodeHttpServer.layerTest)),
+  )
+})
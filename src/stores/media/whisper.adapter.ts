@@ -0,0 +1,191 @@
+import {
+  FileSystem,
+  HttpClient,
+  HttpClientRequest,
+  HttpClientResponse,
+} from '@effect/platform'
+import { Effect as E, Schema, Stream } from 'effect'
+import { envVars } from '../../config'
+import { MediaParsingError } from '../../domain/media/media.errors'
+import {
+  type MediaRequest,
+  MediaResponse,
+  type SubtitleJson,
+} from '../../domain/media/media.schema'
+
+type MediaRequestType = Schema.Schema.Type<typeof MediaRequest>
+type SubtitleJsonType = Schema.Schema.Type<typeof SubtitleJson>
+
+// Subset of the OpenAI-compatible `verbose_json` transcription, timings are in seconds
+const WhisperSegment = Schema.Struct({
+  start: Schema.Number,
+  end: Schema.Number,
+  text: Schema.String,
+  avg_logprob: Schema.optional(Schema.Number),
+})
+
+// Only with the `word` timestamp granularity, servers without it leave them out
+const WhisperWord = Schema.Struct({
+  word: Schema.String,
+  start: Schema.Number,
+  end: Schema.Number,
+})
+
+const WhisperResponse = Schema.Struct({
+  text: Schema.String,
+  segments: Schema.Array(WhisperSegment),
+  words: Schema.optional(Schema.Array(WhisperWord)),
+})
+type WhisperResponse = typeof WhisperResponse.Type
+
+const toMillis = (seconds: number) => Math.round(seconds * 1000)
+
+// Whisper scores segments by the average log probability of their tokens
+const toConfidence = (logprob: number | undefined) =>
+  logprob === undefined ? undefined : Math.min(1, Math.exp(logprob))
+
+// Words belong to the segment they start in, Whisper does not tell speakers apart
+export const toSubtitleJson = (response: WhisperResponse): SubtitleJsonType =>
+  response.segments
+    .map((segment) => ({
+      start: toMillis(segment.start),
+      end: toMillis(segment.end),
+      text: segment.text.trim(),
+      confidence: toConfidence(segment.avg_logprob),
+      words: response.words
+        ?.filter(
+          (word) => word.start >= segment.start && word.start < segment.end,
+        )
+        .map((word) => ({
+          start: toMillis(word.start),
+          end: toMillis(word.end),
+          text: word.word.trim(),
+        })),
+    }))
+    .filter((cue) => cue.text.length > 0)
+
+type MediaUpload = {
+  readonly name: string
+  readonly contentType: string
+  readonly content: Stream.Stream<Uint8Array, unknown>
+}
+
+const encoder = new TextEncoder()
+
+// Quotes and line breaks would end the header, browsers escape them the same way
+const HEADER_BREAKING = /["\r\n]/g
+
+const escapeHeaderValue = (value: string) =>
+  value.replace(
+    HEADER_BREAKING,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  )
+
+/**
+ * `multipart/form-data` body with the media as its first part, streamed so
+ * long recordings are never held in memory. The fields follow it.
+ */
+const multipartStream = (
+  boundary: string,
+  upload: MediaUpload,
+  fields: readonly (readonly [string, string])[],
+) =>
+  Stream.make(
+    `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${escapeHeaderValue(upload.name)}"\r\nContent-Type: ${escapeHeaderValue(upload.contentType)}\r\n\r\n`,
+  ).pipe(
+    Stream.map((text) => encoder.encode(text)),
+    Stream.concat(upload.content),
+    Stream.concat(
+      Stream.make(
+        [
+          '\r\n',
+          ...fields.map(
+            ([name, value]) =>
+              `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`,
+          ),
+          `--${boundary}--\r\n`,
+        ].join(''),
+      ).pipe(Stream.map((text) => encoder.encode(text))),
+    ),
+  )
+
+export const makeWhisperMediaStore = E.gen(function* () {
+  const baseUrl = yield* envVars.WHISPER_ENGINE_URL
+  const model = yield* envVars.WHISPER_MODEL
+  const fs = yield* FileSystem.FileSystem
+  const httpClient = yield* HttpClient.HttpClient
+  const client = httpClient.pipe(
+    HttpClient.mapRequest(HttpClientRequest.prependUrl(baseUrl)),
+    HttpClient.filterStatusOk,
+  )
+
+  // Whisper servers only accept uploads, so URL requests are streamed through
+  const loadMedia = (request: MediaRequestType) =>
+    'url' in request
+      ? HttpClient.filterStatusOk(httpClient)
+          .get(request.url)
+          .pipe(
+            E.map(
+              (response): MediaUpload => ({
+                name:
+                  new URL(request.url).pathname.split('/').at(-1) || 'media',
+                contentType:
+                  response.headers['content-type'] ??
+                  'application/octet-stream',
+                content: response.stream,
+              }),
+            ),
+          )
+      : E.succeed<MediaUpload>({
+          name: request.file.name,
+          contentType: request.file.contentType,
+          content: fs.stream(request.file.path),
+        })
+
+  const transcriptionRequest = (
+    upload: MediaUpload,
+    request: MediaRequestType,
+  ) => {
+    const boundary = `coursition-${crypto.randomUUID()}`
+    const fields: (readonly [string, string])[] = [
+      ['model', model],
+      ['language', request.language],
+      ['response_format', 'verbose_json'],
+      ['timestamp_granularities[]', 'segment'],
+      ['timestamp_granularities[]', 'word'],
+    ]
+    // Whisper has no keyword boosts, a prompt listing the terms steers its spelling
+    if (request.keywords && request.keywords.length > 0) {
+      fields.push(['prompt', `Glossary: ${request.keywords.join(', ')}.`])
+    }
+
+    return HttpClientRequest.post('/v1/audio/transcriptions').pipe(
+      HttpClientRequest.acceptJson,
+      HttpClientRequest.bodyStream(multipartStream(boundary, upload, fields), {
+        contentType: `multipart/form-data; boundary=${boundary}`,
+      }),
+    )
+  }
+
+  return {
+    parseMedia: (request: MediaRequestType) => {
+      const source = 'url' in request ? 'url' : 'file'
+
+      return E.gen(function* () {
+        const upload = yield* loadMedia(request)
+        const response = yield* client
+          .execute(transcriptionRequest(upload, request))
+          .pipe(E.flatMap(HttpClientResponse.schemaBodyJson(WhisperResponse)))
+        const json = toSubtitleJson(response)
+
+        yield* E.annotateCurrentSpan('cues', json.length)
+        return MediaResponse.make({ json })
+      }).pipe(
+        E.mapError((error) => new MediaParsingError({ source, error })),
+        E.withSpan('MediaStore.Whisper.parseMedia', {
+          attributes: { language: request.language, source, model },
+        }),
+      )
+    },
+  }
+})
@@ -0,0 +1,75 @@
+import { describe, expect, it } from '@effect/vitest'
+import { Duration, Effect as E, TestClock } from 'effect'
+import { MockConfigLayer } from '../../config'
+import { RateLimitExceededError } from '../../domain/rate-limit/rate-limit.errors'
+import { getExitError } from '../../test-utils'
+import { RateLimitStore } from './rate-limit.store'
+
+const take = (key: string) =>
+  RateLimitStore.pipe(E.flatMap((store) => store.take(key)))
+
+describe('RateLimitStore', () => {
+  // The mock config allows bursts of 3 and refills a token every second
+  it.effect('should reject requests once the bucket is empty', () =>
+    E.gen(function* () {
+      yield* E.all([take('a'), take('a'), take('a')])
+      const exit = yield* take('a').pipe(E.exit)
+
+      expect(getExitError(exit)).toEqual(
+        new RateLimitExceededError({
+          key: 'a',
+          retryAfter: Duration.seconds(1),
+        }),
+      )
+    }).pipe(E.provide(RateLimitStore.Default), E.provide(MockConfigLayer)),
+  )
+
+  it.effect('should keep a separate bucket per key', () =>
+    E.gen(function* () {
+      yield* E.all([take('a'), take('a'), take('a')])
+      yield* take('b')
+
+      expect(getExitError(yield* take('a').pipe(E.exit))?._tag).toBe(
+        'RateLimitExceededError',
+      )
+    }).pipe(E.provide(RateLimitStore.Default), E.provide(MockConfigLayer)),
+  )
+
+  it.effect('should refill tokens over time', () =>
+    E.gen(function* () {
+      yield* E.all([take('a'), take('a'), take('a')])
+      yield* TestClock.adjust('500 millis')
+
+      const early = yield* take('a').pipe(E.exit)
+      expect(getExitError(early)).toEqual(
+        new RateLimitExceededError({
+          key: 'a',
+          retryAfter: Duration.millis(500),
+        }),
+      )
+
+      yield* TestClock.adjust('500 millis')
+      yield* take('a')
+    }).pipe(E.provide(RateLimitStore.Default), E.provide(MockConfigLayer)),
+  )
+
+  it.effect('should drop the least recently used buckets', () =>
+    E.gen(function* () {
+      yield* E.all([take('a'), take('a'), take('a')])
+      yield* E.all([take('b'), take('b'), take('b')])
+      // Fills the store, `a` is then used again and `b` is the oldest
+      yield* E.forEach(
+        Array.from({ length: 9_998 }, (_, index) => `key-${index}`),
+        take,
+        { discard: true },
+      )
+      yield* take('a').pipe(E.exit)
+      yield* take('new')
+
+      expect(getExitError(yield* take('a').pipe(E.exit))?._tag).toBe(
+        'RateLimitExceededError',
+      )
+      yield* take('b')
+    }).pipe(E.provide(RateLimitStore.Default), E.provide(MockConfigLayer)),
+  )
+})
@@ -0,0 +1,89 @@
+import { Clock, Duration, Effect as E, Layer, Metric } from 'effect'
+import { envVars } from '../../config'
+import { RateLimitExceededError } from '../../domain/rate-limit/rate-limit.errors'
+import { rateLimitRequests } from '../../domain/rate-limit/rate-limit.metrics'
+
+type Bucket = {
+  readonly tokens: number
+  readonly updatedAt: number
+}
+
+// Past this size the least recently used bucket is dropped, the one that had
+// the longest to refill
+const MAX_BUCKETS = 10_000
+
+// In-memory token buckets, limits are per process and reset on restart
+export class RateLimitStore extends E.Service<RateLimitStore>()(
+  'RateLimitStore',
+  {
+    effect: E.gen(function* () {
+      const capacity = yield* envVars.RATE_LIMIT_CAPACITY
+      const refillInterval = Duration.toMillis(
+        yield* envVars.RATE_LIMIT_REFILL_INTERVAL,
+      )
+      // Insertion ordered, so the least recently used bucket comes first
+      const buckets = new Map<string, Bucket>()
+
+      // Tokens are refilled continuously, one every `RATE_LIMIT_REFILL_INTERVAL`
+      const refill = (key: string, now: number) => {
+        const bucket = buckets.get(key)
+        return bucket
+          ? Math.min(
+              capacity,
+              bucket.tokens + (now - bucket.updatedAt) / refillInterval,
+            )
+          : capacity
+      }
+
+      const save = (key: string, bucket: Bucket) => {
+        buckets.delete(key)
+        buckets.set(key, bucket)
+        const oldest = buckets.keys().next()
+        if (buckets.size > MAX_BUCKETS && !oldest.done) {
+          buckets.delete(oldest.value)
+        }
+      }
+
+      return {
+        take: (key: string) =>
+          E.gen(function* () {
+            const now = yield* Clock.currentTimeMillis
+            const tokens = refill(key, now)
+
+            if (tokens < 1) {
+              // Clients retrying too early keep their bucket
+              const bucket = buckets.get(key)
+              if (bucket) {
+                save(key, bucket)
+              }
+              yield* Metric.increment(
+                Metric.tagged(rateLimitRequests, 'outcome', 'limited'),
+              )
+              return yield* E.fail(
+                new RateLimitExceededError({
+                  key,
+                  retryAfter: Duration.millis(
+                    Math.ceil((1 - tokens) * refillInterval),
+                  ),
+                }),
+              )
+            }
+
+            save(key, { tokens: tokens - 1, updatedAt: now })
+            yield* Metric.increment(
+              Metric.tagged(rateLimitRequests, 'outcome', 'allowed'),
+            )
+          }).pipe(E.withSpan('RateLimitStore.take')),
+      }
+    }),
+  },
+) {
+  static makeTestService = (
+    mockImplementation: Partial<Omit<RateLimitStore, '_tag'>>,
+  ) =>
+    Layer.succeed(RateLimitStore, {
+      _tag: 'RateLimitStore',
+      take: () => E.die('Not implemented' as const),
+      ...mockImplementation,
+    })
+}
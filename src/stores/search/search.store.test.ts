@@ -0,0 +1,153 @@
+import { describe, expect, it } from '@effect/vitest'
+import { Effect as E, Layer } from 'effect'
+import { MockConfigLayer } from '../../config'
+import { CurrentTenant } from '../../domain/auth/auth.schema'
+import { SqliteTestLayer, TestTenantLayer } from '../../test-utils'
+import { JobsStore } from '../jobs/jobs.store'
+import { SearchStore } from './search.store'
+
+const SearchTestLayer = Layer.mergeAll(
+  SearchStore.Default,
+  JobsStore.Default,
+).pipe(
+  Layer.provide(SqliteTestLayer),
+  Layer.provideMerge(TestTenantLayer),
+  Layer.provide(MockConfigLayer),
+)
+
+const completeJob = (name: string) =>
+  E.gen(function* () {
+    const store = yield* JobsStore
+    const job = yield* store.createJob({ name, language: 'en' })
+    yield* store.transitionJob(job.id, { status: 'in-progress' })
+    yield* store.transitionJob(job.id, {
+      status: 'completed',
+      result: [
+        { start: 0, end: 2000, text: 'Welcome to the course.' },
+        { start: 2000, end: 5000, text: 'Today we explain monads.' },
+        { start: 5000, end: 8000, text: 'A monad chains effects.' },
+      ],
+      translations: {
+        de: [{ start: 2000, end: 5000, text: 'Heute erklären wir Monaden.' }],
+      },
+    })
+    return job.id
+  })
+
+describe('SearchStore', () => {
+  it.effect('should find cues of completed results with snippets', () =>
+    E.gen(function* () {
+      const search = yield* SearchStore
+      const jobsStore = yield* JobsStore
+      const jobId = yield* completeJob('Lecture 1')
+      const pending = yield* jobsStore.createJob({ name: 'Lecture 2' })
+
+      const { results } = yield* search.search({ q: 'Monad' })
+
+      expect(results).toEqual([
+        {
+          id: jobId,
+          name: 'Lecture 1',
+          language: 'en',
+          hits: [
+            {
+              cue: 1,
+              start: 2000,
+              end: 5000,
+              language: 'en',
+              snippet: 'Today we explain <mark>monads</mark>.',
+            },
+            {
+              cue: 2,
+              start: 5000,
+              end: 8000,
+              language: 'en',
+              snippet: 'A <mark>monad</mark> chains effects.',
+            },
+          ],
+        },
+      ])
+      expect(results.map(({ id }) => id)).not.toContain(pending.id)
+    }).pipe(E.provide(SearchTestLayer)),
+  )
+
+  it.effect('should escape the cue text around the marks', () =>
+    E.gen(function* () {
+      const search = yield* SearchStore
+      const jobsStore = yield* JobsStore
+      const job = yield* jobsStore.createJob({ name: 'Lecture 1' })
+      yield* jobsStore.transitionJob(job.id, { status: 'in-progress' })
+      yield* jobsStore.transitionJob(job.id, {
+        status: 'completed',
+        result: [
+          {
+            start: 0,
+            end: 2000,
+            text: 'Type <script>alert("x")</script> & go',
+          },
+        ],
+      })
+
+      const { results } = yield* search.search({ q: 'script' })
+
+      expect(results[0]?.hits[0]?.snippet).toBe(
+        'Type &lt;<mark>script</mark>&gt;alert(&quot;x&quot;)&lt;/<mark>script</mark>&gt; &amp; go',
+      )
+    }).pipe(E.provide(SearchTestLayer)),
+  )
+
+  it.effect('should filter by language and need every word', () =>
+    E.gen(function* () {
+      const search = yield* SearchStore
+      yield* completeJob('Lecture 1')
+
+      const german = yield* search.search({ q: 'Monaden', language: 'de' })
+      const english = yield* search.search({ q: 'Monaden', language: 'en' })
+      const both = yield* search.search({ q: 'monad "chains" OR' })
+      const none = yield* search.search({ q: '"*"' })
+
+      expect(german.results[0]?.hits).toMatchObject([
+        { cue: 0, start: 2000, language: 'de' },
+      ])
+      expect(english.results).toEqual([])
+      expect(both.results).toEqual([])
+      expect(none.results).toEqual([])
+    }).pipe(E.provide(SearchTestLayer)),
+  )
+
+  it.effect('should follow edits and deletions of results', () =>
+    E.gen(function* () {
+      const search = yield* SearchStore
+      const jobsStore = yield* JobsStore
+      const jobId = yield* completeJob('Lecture 1')
+
+      yield* jobsStore.addJobRevision(jobId, {
+        result: [{ start: 0, end: 2000, text: 'Functors first.' }],
+        author: 'editor',
+        baseRevision: 1,
+      })
+      const edited = yield* search.search({ q: 'functors' })
+      const replaced = yield* search.search({ q: 'chains' })
+
+      yield* jobsStore.deleteJob(jobId)
+      const deleted = yield* search.search({ q: 'functors' })
+
+      expect(edited.results.map(({ id }) => id)).toEqual([jobId])
+      expect(replaced.results).toEqual([])
+      expect(deleted.results).toEqual([])
+    }).pipe(E.provide(SearchTestLayer)),
+  )
+
+  it.effect('should only search the results of the current tenant', () =>
+    E.gen(function* () {
+      const search = yield* SearchStore
+      yield* completeJob('Lecture 1')
+
+      const { results } = yield* search
+        .search({ q: 'monads' })
+        .pipe(E.provideService(CurrentTenant, { id: 'tenant-other' }))
+
+      expect(results).toEqual([])
+    }).pipe(E.provide(SearchTestLayer)),
+  )
+})
@@ -0,0 +1,156 @@
+import { SqlClient } from '@effect/sql'
+import { Effect as E, Layer, Schema } from 'effect'
+import { envVars } from '../../config'
+import { CurrentTenant } from '../../domain/auth/auth.schema'
+import {
+  type SearchQuery,
+  SearchResponse,
+} from '../../domain/search/search.schema'
+import { JobsMigrations } from '../jobs/jobs.migrations'
+
+// Row shape of a matching cue, joined with its job
+const HitRow = Schema.Struct({
+  job_id: Schema.Number,
+  name: Schema.String,
+  job_language: Schema.NullOr(Schema.String),
+  language: Schema.NullOr(Schema.String),
+  cue: Schema.Number,
+  cue_start: Schema.Number,
+  cue_end: Schema.Number,
+  snippet: Schema.String,
+})
+type HitRow = typeof HitRow.Type
+
+type JobHits = {
+  readonly id: number
+  readonly name: string
+  readonly language?: string
+  readonly hits: HitRow[]
+}
+
+const DEFAULT_RESULTS = 20
+
+// Best matching cues looked at, rarely reached once `q` has a few words
+const MAX_HITS = 500
+
+// Tokens around the matches a snippet keeps
+const SNIPPET_TOKENS = 16
+
+const WORD = /[\p{L}\p{N}]+/gu
+
+// Control characters FTS5 puts around the matches, they never occur in cue text
+const MATCH_START = '\u0002'
+const MATCH_END = '\u0003'
+
+// Cue text escaped as HTML before the matches are wrapped in `<mark>`
+const toSnippetHtml = (snippet: string) =>
+  snippet
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll(MATCH_START, '<mark>')
+    .replaceAll(MATCH_END, '</mark>')
+
+// Words of the query quoted, so none of it is read as FTS5 syntax
+const toMatchExpression = (q: string) =>
+  (q.match(WORD) ?? []).map((word) => `"${word}"`).join(' ')
+
+// Jobs in the order of their best hit, each with its hits in time order
+const toSearchResults = (rows: readonly HitRow[], limit: number) => {
+  const results = new Map<number, JobHits>()
+  for (const row of rows) {
+    const result = results.get(row.job_id)
+    if (result) {
+      result.hits.push(row)
+    } else if (results.size < limit) {
+      results.set(row.job_id, {
+        id: row.job_id,
+        name: row.name,
+        language: row.job_language ?? undefined,
+        hits: [row],
+      })
+    }
+  }
+
+  return [...results.values()].map((result) => ({
+    ...result,
+    hits: result.hits
+      .sort((a, b) => a.cue_start - b.cue_start || a.cue - b.cue)
+      .map((row) => ({
+        cue: row.cue,
+        start: row.cue_start,
+        end: row.cue_end,
+        language: row.language ?? undefined,
+        snippet: toSnippetHtml(row.snippet),
+      })),
+  }))
+}
+
+/**
+ * Full-text search over the cues of the current tenant's completed results
+ * and their translations. The index is maintained by triggers on the jobs
+ * table, see the `create_job_search_table` migration.
+ */
+export class SearchStore extends E.Service<SearchStore>()('SearchStore', {
+  dependencies: [JobsMigrations],
+  effect: E.gen(function* () {
+    const sql = yield* SqlClient.SqlClient
+    const jobsTable = yield* envVars.JOBS_TABLE
+    const tableName = `${jobsTable}_search`
+    const table = sql(tableName)
+
+    const findHitRows = (tenant: string, match: string, query: SearchQuery) =>
+      sql`
+        SELECT
+          ${table}.job_id AS job_id,
+          job.name AS name,
+          job.language AS job_language,
+          ${table}.language AS language,
+          ${table}.cue AS cue,
+          ${table}.cue_start AS cue_start,
+          ${table}.cue_end AS cue_end,
+          snippet(${table}, 0, ${MATCH_START}, ${MATCH_END}, '…', ${SNIPPET_TOKENS}) AS snippet
+        FROM ${table} JOIN ${sql(jobsTable)} AS job ON job.id = ${table}.job_id
+        WHERE ${sql.and([
+          sql`${table} MATCH ${match}`,
+          sql`${table}.tenant = ${tenant}`,
+          ...(query.language
+            ? [sql`${table}.language = ${query.language}`]
+            : []),
+        ])}
+        ORDER BY bm25(${table})
+        LIMIT ${MAX_HITS}
+      `.pipe(E.flatMap(Schema.decodeUnknown(Schema.Array(HitRow))))
+
+    return {
+      search: (query: SearchQuery) =>
+        E.gen(function* () {
+          const tenant = yield* CurrentTenant
+          const match = toMatchExpression(query.q)
+          if (match === '') {
+            return SearchResponse.make({ results: [] })
+          }
+
+          const rows = yield* findHitRows(tenant.id, match, query).pipe(E.orDie)
+          const results = toSearchResults(rows, query.limit ?? DEFAULT_RESULTS)
+
+          yield* E.annotateCurrentSpan('hits', rows.length)
+          return SearchResponse.make({ results })
+        }).pipe(
+          E.withSpan('SearchStore.search', {
+            attributes: { ...query, tableName },
+          }),
+        ),
+    }
+  }),
+}) {
+  static makeTestService = (
+    mockImplementation: Partial<Omit<SearchStore, '_tag'>>,
+  ) =>
+    Layer.succeed(SearchStore, {
+      _tag: 'SearchStore',
+      search: () => E.die('Not implemented' as const),
+      ...mockImplementation,
+    })
+}
@@ -0,0 +1,12 @@
+import { Effect as E } from 'effect'
+import type { TranslationOptions } from './translation.store'
+
+// Deterministic translations for local development and tests, no network involved
+export const makeFakeTranslationStore = E.succeed({
+  translate: (texts: readonly string[], options: TranslationOptions) =>
+    E.succeed(texts.map((text) => `[${options.target}] ${text}`)).pipe(
+      E.withSpan('TranslationStore.Fake.translate', {
+        attributes: { ...options, texts: texts.length },
+      }),
+    ),
+})
@@ -0,0 +1,96 @@
+import {
+  HttpRouter,
+  HttpServerRequest,
+  HttpServerResponse,
+} from '@effect/platform'
+import { NodeHttpClient, NodeHttpServer } from '@effect/platform-node'
+import { describe, expect, it } from '@effect/vitest'
+import { ConfigProvider, Effect as E, Schema } from 'effect'
+import { TranslationError } from '../../domain/translations/translations.errors'
+import { getExitError, serveFakeHttpApp } from '../../test-utils'
+import { TranslationStore } from './translation.store'
+
+const TranslateRequest = Schema.Struct({
+  q: Schema.Array(Schema.String),
+  source: Schema.String,
+  target: Schema.String,
+  format: Schema.String,
+  api_key: Schema.optional(Schema.String),
+})
+
+// Upper-cases every text, and answers with `status` when not 200
+const makeFakeLibreTranslate = (status = 200) => {
+  const requests: (typeof TranslateRequest.Type)[] = []
+  const app = HttpRouter.empty.pipe(
+    HttpRouter.post(
+      '/translate',
+      E.gen(function* () {
+        const body = yield* HttpServerRequest.schemaBodyJson(TranslateRequest)
+        requests.push(body)
+        return yield* HttpServerResponse.json(
+          status === 200
+            ? { translatedText: body.q.map((text) => text.toUpperCase()) }
+            : { error: 'Language not supported' },
+          { status },
+        )
+      }),
+    ),
+  )
+  return { app, requests }
+}
+
+const translateWithLibreTranslate = (
+  baseUrl: string,
+  texts: readonly string[],
+) =>
+  E.gen(function* () {
+    const store = yield* TranslationStore
+    return yield* store.translate(texts, { source: 'en-US', target: 'de' })
+  }).pipe(
+    E.provide(TranslationStore.LibreTranslate),
+    E.provide(NodeHttpClient.layerUndici),
+    E.withConfigProvider(
+      ConfigProvider.fromJson({
+        TRANSLATION_ENGINE_URL: baseUrl,
+        TRANSLATION_ENGINE_API_KEY: 'libre-key',
+      }),
+    ),
+  )
+
+describe('TranslationStore.LibreTranslate', () => {
+  it.scoped('should translate texts in batches, in order', () =>
+    E.gen(function* () {
+      const fake = makeFakeLibreTranslate()
+      const baseUrl = yield* serveFakeHttpApp(fake.app)
+      const texts = Array.from({ length: 60 }, (_, index) => `cue ${index}`)
+
+      const translated = yield* translateWithLibreTranslate(baseUrl, texts)
+
+      expect(translated).toEqual(texts.map((text) => text.toUpperCase()))
+      expect(fake.requests.map(({ q }) => q.length)).toEqual([50, 10])
+      expect(fake.requests[0]).toMatchObject({
+        source: 'en',
+        target: 'de',
+        format: 'text',
+        api_key: 'libre-key',
+      })
+    }).pipe(E.provide(NodeHttpServer.layerTest)),
+  )
+
+  it.scoped('should surface engine failures as TranslationError', () =>
+    E.gen(function* () {
+      const fake = makeFakeLibreTranslate(400)
+      const baseUrl = yield* serveFakeHttpApp(fake.app)
+
+      const exit = yield* translateWithLibreTranslate(baseUrl, ['Hello']).pipe(
+        E.exit,
+      )
+
+      expect(getExitError(exit)).toBeInstanceOf(TranslationError)
+      expect(getExitError(exit)).toMatchObject({
+        source: 'en-US',
+        target: 'de',
+      })
+    }).pipe(E.provide(NodeHttpServer.layerTest)),
+  )
+})
@@ -0,0 +1,76 @@
+import {
+  HttpClient,
+  HttpClientRequest,
+  HttpClientResponse,
+} from '@effect/platform'
+import { Array as Arr, Effect as E, Option, Redacted, Schema } from 'effect'
+import { envVars } from '../../config'
+import { TranslationError } from '../../domain/translations/translations.errors'
+import { toBaseLanguage } from '../../domain/translations/translations.schema'
+import type { TranslationOptions } from './translation.store'
+
+// Texts sent per request, long transcripts would exceed the request size limit
+const BATCH_SIZE = 50
+
+// Subset of the `/translate` response for a batch of texts
+const LibreTranslateResponse = Schema.Struct({
+  translatedText: Schema.Array(Schema.String),
+})
+
+/**
+ * Translations by a LibreTranslate-compatible `/translate` endpoint, texts are
+ * sent in batches and expected back in the same order.
+ */
+export const makeLibreTranslateStore = E.gen(function* () {
+  const baseUrl = yield* envVars.TRANSLATION_ENGINE_URL
+  const apiKey = yield* envVars.TRANSLATION_ENGINE_API_KEY
+  const client = (yield* HttpClient.HttpClient).pipe(
+    HttpClient.mapRequest(HttpClientRequest.prependUrl(baseUrl)),
+    HttpClient.filterStatusOk,
+  )
+
+  const translateBatch = (
+    texts: readonly string[],
+    options: TranslationOptions,
+  ) =>
+    E.gen(function* () {
+      const request = yield* HttpClientRequest.post('/translate').pipe(
+        HttpClientRequest.acceptJson,
+        HttpClientRequest.bodyJson({
+          q: texts,
+          source: toBaseLanguage(options.source),
+          target: toBaseLanguage(options.target),
+          format: 'text',
+          ...Option.match(apiKey, {
+            onNone: () => ({}),
+            onSome: (key) => ({ api_key: Redacted.value(key) }),
+          }),
+        }),
+      )
+      const { translatedText } = yield* client
+        .execute(request)
+        .pipe(
+          E.flatMap(HttpClientResponse.schemaBodyJson(LibreTranslateResponse)),
+        )
+
+      if (translatedText.length !== texts.length) {
+        return yield* E.fail(
+          `Expected ${texts.length} translations, got ${translatedText.length}`,
+        )
+      }
+      return translatedText
+    })
+
+  return {
+    translate: (texts: readonly string[], options: TranslationOptions) =>
+      E.forEach(Arr.chunksOf(texts, BATCH_SIZE), (batch) =>
+        translateBatch(batch, options),
+      ).pipe(
+        E.map(Arr.flatten),
+        E.mapError((error) => new TranslationError({ ...options, error })),
+        E.withSpan('TranslationStore.LibreTranslate.translate', {
+          attributes: { ...options, texts: texts.length },
+        }),
+      ),
+  }
+})
@@ -0,0 +1,42 @@
+import { Context, Effect as E, Layer } from 'effect'
+import { envVars } from '../../config'
+import type { TranslationError } from '../../domain/translations/translations.errors'
+import { makeFakeTranslationStore } from './fake.adapter'
+import { makeLibreTranslateStore } from './libretranslate.adapter'
+
+export type TranslationOptions = {
+  readonly source: string
+  readonly target: string
+}
+
+/**
+ * Machine translation of subtitle text, one translation per text in the order
+ * given. Fewer or more translations fail the translation, see
+ * `translateSubtitlesUsecase`.
+ */
+export class TranslationStore extends Context.Tag('TranslationStore')<
+  TranslationStore,
+  {
+    readonly translate: (
+      texts: readonly string[],
+      options: TranslationOptions,
+    ) => E.Effect<readonly string[], TranslationError>
+  }
+>() {
+  static LibreTranslate = Layer.effect(
+    TranslationStore,
+    makeLibreTranslateStore,
+  )
+  static Fake = Layer.effect(TranslationStore, makeFakeTranslationStore)
+
+  // Picks the implementation named by `TRANSLATION_ENGINE`
+  static Configured = Layer.effect(
+    TranslationStore,
+    E.gen(function* () {
+      const engine = yield* envVars.TRANSLATION_ENGINE
+      return engine === 'fake'
+        ? yield* makeFakeTranslationStore
+        : yield* makeLibreTranslateStore
+    }),
+  )
+}
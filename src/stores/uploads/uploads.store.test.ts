@@ -0,0 +1,162 @@
+import { FileSystem } from '@effect/platform'
+import { NodeContext } from '@effect/platform-node'
+import { describe, expect, it } from '@effect/vitest'
+import { Effect as E, Layer, Stream, TestClock } from 'effect'
+import { MockConfigLayer } from '../../config'
+import { CurrentTenant } from '../../domain/auth/auth.schema'
+import { MediaTooLargeError } from '../../domain/media/media.errors'
+import {
+  UploadConflictError,
+  UploadNotFoundError,
+} from '../../domain/uploads/uploads.errors'
+import {
+  SqliteTestLayer,
+  TestTenantLayer,
+  getExitError,
+} from '../../test-utils'
+import { UploadsStore } from './uploads.store'
+
+const UploadsTestLayer = UploadsStore.Default.pipe(
+  Layer.provide(SqliteTestLayer),
+  Layer.provideMerge(NodeContext.layer),
+  Layer.provideMerge(TestTenantLayer),
+  Layer.provide(MockConfigLayer),
+)
+
+const encoder = new TextEncoder()
+
+const chunks = (...parts: readonly string[]) =>
+  Stream.fromIterable(parts.map((part) => encoder.encode(part)))
+
+const createUpload = (length: number) =>
+  UploadsStore.pipe(
+    E.flatMap((store) =>
+      store.createUpload({
+        name: 'lecture.mp4',
+        contentType: 'video/mp4',
+        length,
+      }),
+    ),
+  )
+
+describe('UploadsStore', () => {
+  it.effect('should resume appending at the offset received so far', () =>
+    E.gen(function* () {
+      const store = yield* UploadsStore
+      const fs = yield* FileSystem.FileSystem
+      const upload = yield* createUpload(10)
+
+      const first = yield* store.appendUpload(upload.id, 0, chunks('hel', 'lo'))
+      const second = yield* store.appendUpload(upload.id, 5, chunks('world'))
+      const file = yield* store.getUploadedFile(upload.id)
+
+      expect(first.offset).toBe(5)
+      expect(second.offset).toBe(10)
+      expect(file.name).toBe('lecture.mp4')
+      expect(yield* fs.readFileString(file.path)).toBe('helloworld')
+    }).pipe(E.provide(UploadsTestLayer)),
+  )
+
+  it.effect('should reject appends at another offset', () =>
+    E.gen(function* () {
+      const store = yield* UploadsStore
+      const upload = yield* createUpload(10)
+      yield* store.appendUpload(upload.id, 0, chunks('hello'))
+
+      const exit = yield* store
+        .appendUpload(upload.id, 0, chunks('hello'))
+        .pipe(E.exit)
+
+      expect(getExitError(exit)).toEqual(
+        new UploadConflictError({
+          id: upload.id,
+          reason: 'Upload is at offset 5, not 0',
+        }),
+      )
+      expect((yield* store.getUpload(upload.id)).offset).toBe(5)
+    }).pipe(E.provide(UploadsTestLayer)),
+  )
+
+  it.effect('should keep the bytes received before the body failed', () =>
+    E.gen(function* () {
+      const store = yield* UploadsStore
+      const upload = yield* createUpload(10)
+      const body = Stream.concat(chunks('hello'), Stream.fail('disconnected'))
+
+      const exit = yield* store.appendUpload(upload.id, 0, body).pipe(E.exit)
+
+      expect(getExitError(exit)).toBe('disconnected')
+      expect((yield* store.getUpload(upload.id)).offset).toBe(5)
+    }).pipe(E.provide(UploadsTestLayer)),
+  )
+
+  it.effect('should reject bytes past the upload length', () =>
+    E.gen(function* () {
+      const store = yield* UploadsStore
+      const upload = yield* createUpload(4)
+
+      const exit = yield* store
+        .appendUpload(upload.id, 0, chunks('hello'))
+        .pipe(E.exit)
+
+      expect(getExitError(exit)).toEqual(
+        new MediaTooLargeError({
+          source: upload.id,
+          reason: 'Upload would exceed its length of 4 bytes',
+        }),
+      )
+      expect((yield* store.getUpload(upload.id)).offset).toBe(0)
+    }).pipe(E.provide(UploadsTestLayer)),
+  )
+
+  it.effect('should only hand out the file of a complete upload', () =>
+    E.gen(function* () {
+      const store = yield* UploadsStore
+      const upload = yield* createUpload(10)
+      yield* store.appendUpload(upload.id, 0, chunks('hello'))
+
+      const exit = yield* store.getUploadedFile(upload.id).pipe(E.exit)
+
+      expect(getExitError(exit)).toEqual(
+        new UploadConflictError({
+          id: upload.id,
+          reason: 'Upload has 5 of 10 bytes',
+        }),
+      )
+    }).pipe(E.provide(UploadsTestLayer)),
+  )
+
+  it.effect('should keep uploads of other tenants hidden', () =>
+    E.gen(function* () {
+      const store = yield* UploadsStore
+      const upload = yield* createUpload(10)
+
+      const exit = yield* store
+        .getUpload(upload.id)
+        .pipe(E.provideService(CurrentTenant, { id: 'tenant-other' }), E.exit)
+
+      expect(getExitError(exit)).toEqual(
+        new UploadNotFoundError({ id: upload.id }),
+      )
+    }).pipe(E.provide(UploadsTestLayer)),
+  )
+
+  it.effect('should remove expired uploads with their file', () =>
+    E.gen(function* () {
+      const store = yield* UploadsStore
+      const fs = yield* FileSystem.FileSystem
+      const upload = yield* createUpload(5)
+      yield* store.appendUpload(upload.id, 0, chunks('hello'))
+      const file = yield* store.getUploadedFile(upload.id)
+
+      // `UPLOAD_EXPIRY` is 1 hour in the mock config, swept every minute
+      yield* TestClock.adjust('61 minutes')
+      const exit = yield* store.getUpload(upload.id).pipe(E.exit)
+
+      expect(getExitError(exit)).toEqual(
+        new UploadNotFoundError({ id: upload.id }),
+      )
+      expect(yield* fs.exists(file.path)).toBe(false)
+    }).pipe(E.provide(UploadsTestLayer)),
+  )
+})
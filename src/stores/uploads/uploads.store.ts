@@ -0,0 +1,330 @@
+import { FileSystem, Path } from '@effect/platform'
+import { SqlClient, SqlSchema } from '@effect/sql'
+import {
+  DateTime,
+  Duration,
+  Effect as E,
+  Layer,
+  Option,
+  Schedule,
+  Schema,
+  Stream,
+} from 'effect'
+import { envVars } from '../../config'
+import { CurrentTenant } from '../../domain/auth/auth.schema'
+import { MediaTooLargeError } from '../../domain/media/media.errors'
+import {
+  UploadConflictError,
+  UploadNotFoundError,
+} from '../../domain/uploads/uploads.errors'
+import {
+  UploadResponse,
+  isUploadComplete,
+} from '../../domain/uploads/uploads.schema'
+import { JobsMigrations } from '../jobs/jobs.migrations'
+
+// Row shape as stored in the SQLite uploads table
+const UploadRow = Schema.Struct({
+  id: Schema.String,
+  tenant: Schema.String,
+  name: Schema.String,
+  content_type: Schema.String,
+  upload_length: Schema.Number,
+  upload_offset: Schema.Number,
+  created_at: Schema.DateTimeUtc,
+  expires_at: Schema.DateTimeUtc,
+})
+type UploadRow = typeof UploadRow.Type
+
+const UploadKey = Schema.Struct({
+  id: Schema.String,
+  tenant: Schema.String,
+})
+
+export type CreateUpload = {
+  readonly name: string
+  readonly contentType: string
+  readonly length: number
+}
+
+// Completed upload as referenced by a parse request
+export type UploadedFile = {
+  readonly name: string
+  readonly contentType: string
+  readonly path: string
+}
+
+const SWEEP_INTERVAL = Duration.minutes(1)
+
+const toUploadResponse = (row: UploadRow) =>
+  UploadResponse.make({
+    id: row.id,
+    name: row.name,
+    contentType: row.content_type,
+    length: row.upload_length,
+    offset: row.upload_offset,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  })
+
+/**
+ * Resumable uploads streamed to `UPLOADS_DIRECTORY`, or to a temporary
+ * directory removed with the store. Uploads nobody parses or deletes are
+ * removed once they expire.
+ */
+export class UploadsStore extends E.Service<UploadsStore>()('UploadsStore', {
+  dependencies: [JobsMigrations],
+  scoped: E.gen(function* () {
+    const sql = yield* SqlClient.SqlClient
+    const fs = yield* FileSystem.FileSystem
+    const path = yield* Path.Path
+    const jobsTable = yield* envVars.JOBS_TABLE
+    const expiry = yield* envVars.UPLOAD_EXPIRY
+    const configuredDirectory = yield* envVars.UPLOADS_DIRECTORY
+    const tableName = `${jobsTable}_uploads`
+    const table = sql(tableName)
+
+    const directory = yield* Option.match(configuredDirectory, {
+      onNone: () =>
+        fs.makeTempDirectoryScoped({ prefix: 'coursition-uploads-' }),
+      onSome: (directory) =>
+        fs.makeDirectory(directory, { recursive: true }).pipe(E.as(directory)),
+    })
+    // Uploads being written to, a second writer would interleave its bytes
+    const writing = new Set<string>()
+
+    const uploadPath = (id: string) => path.join(directory, `${id}.upload`)
+
+    const findUploadRow = SqlSchema.findOne({
+      Request: UploadKey,
+      Result: UploadRow,
+      execute: ({ id, tenant }) =>
+        sql`SELECT * FROM ${table} WHERE id = ${id} AND tenant = ${tenant}`,
+    })
+
+    const findExpiredUploadRows = SqlSchema.findAll({
+      Request: Schema.DateTimeUtc,
+      Result: UploadRow,
+      execute: (now) => sql`SELECT * FROM ${table} WHERE expires_at <= ${now}`,
+    })
+
+    const insertUploadRow = SqlSchema.single({
+      Request: UploadRow,
+      Result: UploadRow,
+      execute: (row) =>
+        sql`INSERT INTO ${table} ${sql.insert(row)} RETURNING *`,
+    })
+
+    const updateUploadOffset = (id: string, offset: number) =>
+      sql`UPDATE ${table} SET upload_offset = ${offset} WHERE id = ${id}`.pipe(
+        E.orDie,
+        E.asVoid,
+      )
+
+    const deleteUploadRow = (id: string) =>
+      sql`DELETE FROM ${table} WHERE id = ${id}`.pipe(E.orDie, E.asVoid)
+
+    // Expired uploads are reported as not found even before they are swept
+    const getUploadRow = (id: string) =>
+      E.gen(function* () {
+        const tenant = yield* CurrentTenant
+        const now = yield* DateTime.now
+        const row = yield* findUploadRow({ id, tenant: tenant.id }).pipe(
+          E.orDie,
+        )
+
+        if (
+          Option.isNone(row) ||
+          DateTime.lessThanOrEqualTo(row.value.expires_at, now)
+        ) {
+          return yield* E.fail(new UploadNotFoundError({ id }))
+        }
+
+        return row.value
+      })
+
+    const removeUpload = (id: string) =>
+      fs
+        .remove(uploadPath(id), { force: true })
+        .pipe(E.orDie, E.zipRight(deleteUploadRow(id)))
+
+    const removeExpiredUploads = E.gen(function* () {
+      const rows = yield* findExpiredUploadRows(yield* DateTime.now).pipe(
+        E.orDie,
+      )
+      yield* E.forEach(rows, ({ id }) => removeUpload(id), { discard: true })
+
+      if (rows.length > 0) {
+        yield* E.logInfo('Expired uploads removed', { count: rows.length })
+      }
+    }).pipe(E.withSpan('UploadsStore.removeExpiredUploads'))
+
+    yield* removeExpiredUploads.pipe(
+      E.catchAllCause(E.logError),
+      E.repeat(Schedule.spaced(SWEEP_INTERVAL)),
+      E.forkScoped,
+    )
+
+    const lockUpload = (id: string) =>
+      E.acquireRelease(
+        E.suspend(() =>
+          writing.has(id)
+            ? E.fail(
+                new UploadConflictError({
+                  id,
+                  reason: 'Upload is already being written to',
+                }),
+              )
+            : E.sync(() => writing.add(id)),
+        ),
+        () => E.sync(() => writing.delete(id)),
+      )
+
+    return {
+      directory,
+
+      createUpload: (upload: CreateUpload) =>
+        E.gen(function* () {
+          const tenant = yield* CurrentTenant
+          const now = yield* DateTime.now
+          const id = crypto.randomUUID()
+
+          yield* fs.writeFile(uploadPath(id), new Uint8Array()).pipe(E.orDie)
+          const row = yield* insertUploadRow({
+            id,
+            tenant: tenant.id,
+            name: upload.name,
+            content_type: upload.contentType,
+            upload_length: upload.length,
+            upload_offset: 0,
+            created_at: now,
+            expires_at: DateTime.addDuration(now, expiry),
+          }).pipe(E.orDie)
+
+          yield* E.logInfo('Upload created', { id, length: upload.length })
+          return toUploadResponse(row)
+        }).pipe(
+          E.withSpan('UploadsStore.createUpload', {
+            attributes: { length: upload.length, tableName },
+          }),
+        ),
+
+      getUpload: (id: string) =>
+        getUploadRow(id).pipe(
+          E.map(toUploadResponse),
+          E.withSpan('UploadsStore.getUpload', {
+            attributes: { id, tableName },
+          }),
+        ),
+
+      /**
+       * Appends `body` at `offset`, which must match the bytes received so far.
+       * Whatever was written is kept when the body fails or is interrupted, so
+       * the client can resume from the new offset.
+       */
+      appendUpload: <BodyError>(
+        id: string,
+        offset: number,
+        body: Stream.Stream<Uint8Array, BodyError>,
+      ) =>
+        E.gen(function* () {
+          yield* lockUpload(id)
+          const row = yield* getUploadRow(id)
+
+          if (offset !== row.upload_offset) {
+            return yield* E.fail(
+              new UploadConflictError({
+                id,
+                reason: `Upload is at offset ${row.upload_offset}, not ${offset}`,
+              }),
+            )
+          }
+
+          const remaining = row.upload_length - row.upload_offset
+          const bounded = body.pipe(
+            Stream.mapAccumEffect(0, (received, chunk) =>
+              received + chunk.length > remaining
+                ? E.fail(
+                    new MediaTooLargeError({
+                      source: id,
+                      reason: `Upload would exceed its length of ${row.upload_length} bytes`,
+                    }),
+                  )
+                : E.succeed([received + chunk.length, chunk] as const),
+            ),
+          )
+          const saveOffset = fs.stat(uploadPath(id)).pipe(
+            E.orDie,
+            E.flatMap(({ size }) => updateUploadOffset(id, Number(size))),
+          )
+
+          const file = yield* fs
+            .open(uploadPath(id), { flag: 'a' })
+            .pipe(E.orDie)
+
+          // Writes only fail when the disk does, nothing the client can fix
+          yield* Stream.runForEach(bounded, (chunk) =>
+            file.writeAll(chunk).pipe(E.orDie),
+          ).pipe(E.ensuring(saveOffset))
+
+          return toUploadResponse(yield* getUploadRow(id))
+        }).pipe(
+          E.scoped,
+          E.withSpan('UploadsStore.appendUpload', {
+            attributes: { id, offset, tableName },
+          }),
+        ),
+
+      /**
+       * File of a complete upload, it stays in place until the upload is
+       * deleted or expires.
+       */
+      getUploadedFile: (id: string) =>
+        E.gen(function* () {
+          const row = yield* getUploadRow(id)
+          const upload = toUploadResponse(row)
+
+          if (!isUploadComplete(upload)) {
+            return yield* E.fail(
+              new UploadConflictError({
+                id,
+                reason: `Upload has ${upload.offset} of ${upload.length} bytes`,
+              }),
+            )
+          }
+
+          return {
+            name: row.name,
+            contentType: row.content_type,
+            path: uploadPath(id),
+          } satisfies UploadedFile
+        }).pipe(
+          E.withSpan('UploadsStore.getUploadedFile', {
+            attributes: { id, tableName },
+          }),
+        ),
+
+      deleteUpload: (id: string) =>
+        getUploadRow(id).pipe(
+          E.zipRight(removeUpload(id)),
+          E.withSpan('UploadsStore.deleteUpload', {
+            attributes: { id, tableName },
+          }),
+        ),
+    }
+  }),
+}) {
+  static makeTestService = (
+    mockImplementation: Partial<Omit<UploadsStore, '_tag'>>,
+  ) =>
+    Layer.succeed(UploadsStore, {
+      _tag: 'UploadsStore',
+      directory: '/tmp/coursition-uploads-test',
+      createUpload: () => E.die('Not implemented' as const),
+      getUpload: () => E.die('Not implemented' as const),
+      appendUpload: () => E.die('Not implemented' as const),
+      getUploadedFile: () => E.die('Not implemented' as const),
+      deleteUpload: () => E.die('Not implemented' as const),
+      ...mockImplementation,
+    })
+}
@@ -0,0 +1,127 @@
+import { SqlClient, SqlSchema } from '@effect/sql'
+import { DateTime, Effect as E, Layer, Schema } from 'effect'
+import { envVars } from '../../config'
+import { WebhookDelivery } from '../../domain/webhooks/webhooks.schema'
+import { JobsMigrations } from '../jobs/jobs.migrations'
+
+// SQLite has no boolean type, flags are stored as 0 or 1
+const BooleanFromInteger = Schema.transform(Schema.Number, Schema.Boolean, {
+  strict: true,
+  decode: (value) => value !== 0,
+  encode: (value) => (value ? 1 : 0),
+})
+
+// Row shape as stored in the SQLite deliveries table
+const DeliveryRow = Schema.Struct({
+  id: Schema.Number,
+  job_id: Schema.Number,
+  url: Schema.String,
+  attempt: Schema.Number,
+  succeeded: BooleanFromInteger,
+  status_code: Schema.NullOr(Schema.Number),
+  error: Schema.NullOr(Schema.String),
+  created_at: Schema.DateTimeUtc,
+})
+type DeliveryRow = typeof DeliveryRow.Type
+
+const InsertDeliveryRow = DeliveryRow.omit('id')
+
+export type RecordDelivery = {
+  readonly jobId: number
+  readonly url: string
+  readonly attempt: number
+  readonly succeeded: boolean
+  readonly statusCode?: number
+  readonly error?: string
+}
+
+const toWebhookDelivery = (row: DeliveryRow) =>
+  WebhookDelivery.make({
+    id: row.id,
+    jobId: row.job_id,
+    url: row.url,
+    attempt: row.attempt,
+    succeeded: row.succeeded,
+    statusCode: row.status_code ?? undefined,
+    error: row.error ?? undefined,
+    createdAt: row.created_at,
+  })
+
+export class WebhooksStore extends E.Service<WebhooksStore>()('WebhooksStore', {
+  dependencies: [JobsMigrations],
+  effect: E.gen(function* () {
+    const sql = yield* SqlClient.SqlClient
+    const jobsTable = yield* envVars.JOBS_TABLE
+    const tableName = `${jobsTable}_deliveries`
+    const table = sql(tableName)
+
+    const findDeliveryRows = SqlSchema.findAll({
+      Request: Schema.Number,
+      Result: DeliveryRow,
+      execute: (jobId) =>
+        sql`SELECT * FROM ${table} WHERE job_id = ${jobId} ORDER BY id`,
+    })
+
+    const insertDeliveryRow = SqlSchema.single({
+      Request: InsertDeliveryRow,
+      Result: DeliveryRow,
+      execute: (row) =>
+        sql`INSERT INTO ${table} ${sql.insert(row)} RETURNING *`,
+    })
+
+    return {
+      getJobDeliveries: (jobId: number) =>
+        findDeliveryRows(jobId).pipe(
+          E.orDie,
+          E.map((rows) => rows.map(toWebhookDelivery)),
+          E.withSpan('WebhooksStore.getJobDeliveries', {
+            attributes: { jobId, tableName },
+          }),
+        ),
+
+      recordDelivery: (delivery: RecordDelivery) =>
+        E.gen(function* () {
+          const row = yield* insertDeliveryRow({
+            job_id: delivery.jobId,
+            url: delivery.url,
+            attempt: delivery.attempt,
+            succeeded: delivery.succeeded,
+            status_code: delivery.statusCode ?? null,
+            error: delivery.error ?? null,
+            created_at: yield* DateTime.now,
+          }).pipe(E.orDie)
+
+          return toWebhookDelivery(row)
+        }).pipe(
+          E.withSpan('WebhooksStore.recordDelivery', {
+            attributes: {
+              jobId: delivery.jobId,
+              attempt: delivery.attempt,
+              succeeded: delivery.succeeded,
+              tableName,
+            },
+          }),
+        ),
+
+      deleteJobDeliveries: (jobId: number) =>
+        sql`DELETE FROM ${table} WHERE job_id = ${jobId}`.pipe(
+          E.orDie,
+          E.asVoid,
+          E.withSpan('WebhooksStore.deleteJobDeliveries', {
+            attributes: { jobId, tableName },
+          }),
+        ),
+    }
+  }),
+}) {
+  static makeTestService = (
+    mockImplementation: Partial<Omit<WebhooksStore, '_tag'>>,
+  ) =>
+    Layer.succeed(WebhooksStore, {
+      _tag: 'WebhooksStore',
+      getJobDeliveries: () => E.die('Not implemented' as const),
+      recordDelivery: () => E.die('Not implemented' as const),
+      deleteJobDeliveries: () => E.die('Not implemented' as const),
+      ...mockImplementation,
+    })
+}
@@ -1,4 +1,26 @@
-import { type Context, Effect, Exit, Layer } from 'effect'
+import {
+  FileSystem,
+  type HttpApp,
+  HttpServer,
+  type HttpServerError,
+  Multipart,
+} from '@effect/platform'
+import { SqliteClient } from '@effect/sql-sqlite-node'
+import {
+  ConfigProvider,
+  type Context,
+  Effect,
+  Exit,
+  Layer,
+  Option,
+} from 'effect'
+import { envVars } from './config'
+import { CurrentTenant } from './domain/auth/auth.schema'
+import { BlobStore } from './stores/blobs/blob.store'
+import { makeLocalBlobStore } from './stores/blobs/local-blob.adapter'
+import { GlossaryStore } from './stores/glossary/glossary.store'
+import { MediaCacheStore } from './stores/media/media-cache.store'
+import { MediaProbeStore } from './stores/media/media-probe.store'
 
 /**
  * Utility function to extract error from an Exit.
@@ -44,3 +66,92 @@ export const makeTestLayer =
   <I, S extends object>(tag: Context.Tag<I, S>) =>
   (service: Partial<S>): Layer.Layer<I> =>
     Layer.succeed(tag, makeUnimplementedProxy(tag.key, service))
+
+/**
+ * SQLite client for store tests.
+ * Combined with `MockConfigLayer` it opens a fresh in-memory database per test.
+ */
+export const SqliteTestLayer = SqliteClient.layerConfig({
+  filename: envVars.DATABASE_FILE,
+})
+
+/**
+ * Tenant the tenant-scoped stores act for in tests, `MockConfigLayer` has API keys for it.
+ */
+export const TestTenantLayer = Layer.succeed(CurrentTenant, {
+  id: 'tenant-test',
+})
+
+/**
+ * Local blob store in a temporary directory removed with the test scope.
+ * Needs a real `FileSystem`, e.g. from `NodeContext.layer`.
+ */
+export const TestBlobStoreLayer = Layer.scoped(
+  BlobStore,
+  Effect.gen(function* () {
+    const fs = yield* FileSystem.FileSystem
+    const directory = yield* fs.makeTempDirectoryScoped()
+    return yield* makeLocalBlobStore.pipe(
+      Effect.withConfigProvider(
+        ConfigProvider.fromJson({ BLOBS_DIRECTORY: directory }),
+      ),
+    )
+  }),
+)
+
+/**
+ * Parses every request, for tests of the job flow that do not care about caching.
+ */
+export const NoMediaCacheLayer = MediaCacheStore.makeTestService({
+  getOrParse: (request, parse, onProgress) => parse(request, onProgress),
+})
+
+/**
+ * Tenant glossary without terms, for tests of the job flow that do not care about glossaries.
+ */
+export const EmptyGlossaryLayer = GlossaryStore.makeTestService({
+  getGlossary: () => Effect.succeed([]),
+})
+
+/**
+ * Probes every request as a small MP4, for tests that do not care about preflight checks.
+ */
+export const AnyMediaProbeLayer = MediaProbeStore.makeTestService({
+  probeUrl: () =>
+    Effect.succeed({
+      header: Option.some({ container: 'mp4', mimeType: 'video/mp4' }),
+      size: Option.some(1024),
+    }),
+  probeFile: () =>
+    Effect.succeed({
+      header: Option.some({ container: 'mp4', mimeType: 'video/mp4' }),
+      size: Option.some(1024),
+    }),
+})
+
+/**
+ * Serves a fake HTTP app (e.g. an engine `HttpRouter`) for the current scope.
+ * Provide `NodeHttpServer.layerTest` and use the returned base URL as the engine URL.
+ */
+export const serveFakeHttpApp = <E, R>(
+  app: HttpApp.Default<E | HttpServerError.RouteNotFound, R>,
+) =>
+  Effect.gen(function* () {
+    yield* HttpServer.serveEffect(app)
+    return yield* HttpServer.addressFormattedWith(Effect.succeed)
+  })
+
+/**
+ * Builds the multipart upload a handler would receive for a file on disk.
+ */
+export const makePersistedFile = (file: {
+  readonly name: string
+  readonly contentType: string
+  readonly path: string
+}) =>
+  ({
+    [Multipart.TypeId]: Multipart.TypeId,
+    _tag: 'PersistedFile',
+    key: 'file',
+    ...file,
+  }) as Multipart.PersistedFile
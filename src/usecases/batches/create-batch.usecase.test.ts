@@ -0,0 +1,184 @@
+import { NodeContext } from '@effect/platform-node'
+import { describe, expect, it } from '@effect/vitest'
+import { Duration, Effect as E, Exit, Layer, Option, Schedule } from 'effect'
+import { MockConfigLayer } from '../../config'
+import {
+  MediaParsingError,
+  MediaUnreachableError,
+} from '../../domain/media/media.errors'
+import { JobQuotaExceededError } from '../../domain/rate-limit/rate-limit.errors'
+import { BatchesStore } from '../../stores/batches/batches.store'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+import { MediaProbeStore } from '../../stores/media/media-probe.store'
+import { MediaStore } from '../../stores/media/media.store'
+import { TranslationStore } from '../../stores/translations/translation.store'
+import {
+  EmptyGlossaryLayer,
+  NoMediaCacheLayer,
+  SqliteTestLayer,
+  TestBlobStoreLayer,
+  TestTenantLayer,
+  getExitError,
+  makeTestLayer,
+} from '../../test-utils'
+import { ParseMediaWorker } from '../../workers/parse-media.worker'
+import { createBatchUsecase } from './create-batch.usecase'
+import { exportBatchUsecase } from './export-batch.usecase'
+
+const MediaStoreTestLayer = makeTestLayer(MediaStore)({
+  parseMedia: (request) =>
+    'url' in request && request.url.includes('broken')
+      ? E.fail(new MediaParsingError({ source: request.url, error: 'Corrupt' }))
+      : E.succeed({ json: [{ start: 0, end: 1000, text: 'Hello world' }] }),
+})
+
+// Every URL is a small MP4, except the unreachable ones
+const MediaProbeTestLayer = MediaProbeStore.makeTestService({
+  probeUrl: (url) =>
+    url.includes('offline')
+      ? E.fail(new MediaUnreachableError({ url, reason: 'Connection refused' }))
+      : E.succeed({
+          header: Option.some({ container: 'mp4', mimeType: 'video/mp4' }),
+          size: Option.some(1024),
+        }),
+})
+
+const BatchTestLayer = Layer.mergeAll(
+  ParseMediaWorker.Default,
+  BatchesStore.Default,
+).pipe(
+  Layer.provide(MediaStoreTestLayer),
+  Layer.provide(NoMediaCacheLayer),
+  Layer.provide(TranslationStore.Fake),
+  Layer.provide(EmptyGlossaryLayer),
+  Layer.provideMerge(MediaProbeTestLayer),
+  Layer.provideMerge(TestBlobStoreLayer),
+  Layer.provideMerge(JobsStore.Default),
+  Layer.provideMerge(SqliteTestLayer),
+  Layer.provide(NodeContext.layer),
+  Layer.provideMerge(TestTenantLayer),
+  Layer.provide(MockConfigLayer),
+)
+
+const decoder = new TextDecoder()
+
+describe('createBatchUsecase', () => {
+  it.live('should run every item whatever happens to the others', () =>
+    E.gen(function* () {
+      const batchesStore = yield* BatchesStore
+      const batch = yield* createBatchUsecase({
+        name: 'Course',
+        language: 'en',
+        items: [
+          { url: 'https://example.com/intro.mp4', name: 'Intro' },
+          { url: 'https://offline.example.com/lesson.mp4' },
+          { url: 'https://example.com/broken.mp4' },
+          { url: 'https://example.com/videos/Lesson%202.mp4?token=abc' },
+        ],
+      })
+      const finished = yield* batchesStore.getBatch(batch.id).pipe(
+        E.filterOrFail((current) => current.status === 'finished'),
+        E.retry(Schedule.spaced('10 millis')),
+        E.timeout('2 seconds'),
+      )
+      const archive = yield* exportBatchUsecase(batch.id)
+
+      expect(batch.items.map(({ status }) => status)).toEqual([
+        'pending',
+        'rejected',
+        'pending',
+        'pending',
+      ])
+      expect(batch.items[1]?.failureReason).toBe('Connection refused')
+      expect(finished.items.map(({ status }) => status)).toEqual([
+        'completed',
+        'rejected',
+        'failed',
+        'completed',
+      ])
+      expect(finished.progress).toMatchObject({
+        total: 4,
+        finished: 4,
+        percent: 100,
+      })
+      expect(decoder.decode(archive)).toContain('1 Intro.srt')
+      expect(decoder.decode(archive)).toContain('4 Lesson 2.srt')
+      expect(decoder.decode(archive)).not.toContain('broken')
+    }).pipe(E.provide(BatchTestLayer)),
+  )
+
+  it.live('should reject the items past the job quota', () =>
+    E.gen(function* () {
+      const jobsStore = yield* JobsStore
+      // `TENANT_MAX_CONCURRENT_JOBS` is 3 in the mock config
+      const batch = yield* createBatchUsecase({
+        language: 'en',
+        items: [
+          { url: 'https://example.com/1.mp4' },
+          { url: 'https://offline.example.com/2.mp4' },
+          { url: 'https://example.com/3.mp4' },
+          { url: 'https://example.com/4.mp4' },
+          { url: 'https://example.com/5.mp4' },
+        ],
+      })
+      // Never queued, so they stay in flight
+      yield* E.forEach(['a', 'b', 'c'], (name) => jobsStore.createJob({ name }))
+      const exit = yield* createBatchUsecase({
+        language: 'en',
+        items: [{ url: 'https://example.com/6.mp4' }],
+      }).pipe(E.exit)
+
+      expect(batch.items.map(({ status }) => status)).toEqual([
+        'pending',
+        'rejected',
+        'pending',
+        'pending',
+        'rejected',
+      ])
+      expect(batch.items[4]?.failureReason).toBe(
+        'Tenant already has 3 jobs in flight',
+      )
+      expect(getExitError(exit)).toEqual(
+        new JobQuotaExceededError({
+          tenant: 'tenant-test',
+          limit: 3,
+          retryAfter: Duration.seconds(5),
+        }),
+      )
+    }).pipe(E.provide(BatchTestLayer)),
+  )
+
+  it.live('should not leave jobs behind when the batch is not created', () =>
+    E.gen(function* () {
+      const jobsStore = yield* JobsStore
+      const exit = yield* createBatchUsecase({
+        language: 'en',
+        items: [{ url: 'https://example.com/intro.mp4' }],
+      }).pipe(E.exit)
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      expect((yield* jobsStore.getAllJobs()).total).toBe(0)
+    }).pipe(
+      E.provide(
+        Layer.mergeAll(
+          ParseMediaWorker.Default,
+          BatchesStore.makeTestService({
+            createBatch: () => E.die('Database is locked'),
+          }),
+        ).pipe(
+          Layer.provide(MediaStoreTestLayer),
+          Layer.provide(NoMediaCacheLayer),
+          Layer.provide(TranslationStore.Fake),
+          Layer.provide(EmptyGlossaryLayer),
+          Layer.provideMerge(MediaProbeTestLayer),
+          Layer.provideMerge(TestBlobStoreLayer),
+          Layer.provideMerge(JobsStore.Default),
+          Layer.provideMerge(SqliteTestLayer),
+          Layer.provide(NodeContext.layer),
+          Layer.provideMerge(TestTenantLayer),
+          Layer.provide(MockConfigLayer),
+        ),
+      ),
+    ),
+  )
+})
@@ -0,0 +1,142 @@
+import { SqlClient } from '@effect/sql'
+import { Effect as E } from 'effect'
+import type {
+  BatchItemRequest,
+  CreateBatchRequest,
+} from '../../domain/batches/batches.schema'
+import { BatchesStore } from '../../stores/batches/batches.store'
+import { ParseMediaWorker } from '../../workers/parse-media.worker'
+import {
+  type PreparedParseMediaJob,
+  checkCallbackUrl,
+  checkJobQuota,
+  insertParseMediaJob,
+  prepareParseMediaJob,
+  releaseMediaInput,
+} from '../media/run-parse-media-job.usecase'
+
+// Items are preflighted a few at a time, each probes its URL
+const PREFLIGHT_CONCURRENCY = 4
+
+// Reason recorded on items that failed for reasons of our own
+const NOT_SUBMITTED_REASON = 'The item could not be submitted'
+
+type PreflightedItem = {
+  readonly item: BatchItemRequest
+  readonly prepared?: PreparedParseMediaJob
+  readonly rejectionReason?: string
+}
+
+// Item recorded with the reason it was turned down, it gets no job
+const reject =
+  (item: BatchItemRequest) =>
+  ({ reason }: { readonly reason: string }) =>
+    E.succeed<PreflightedItem>({ item, rejectionReason: reason })
+
+const preflightItem = (
+  item: BatchItemRequest,
+  options: Omit<CreateBatchRequest, 'name' | 'items'>,
+) =>
+  prepareParseMediaJob({ ...options, url: item.url }).pipe(
+    E.map((prepared): PreflightedItem => ({ item, prepared })),
+    E.catchTags({
+      UnsupportedMediaTypeError: reject(item),
+      MediaTooLargeError: reject(item),
+      MediaUnreachableError: reject(item),
+    }),
+    // One item failing must not take the others down, it is rejected too
+    E.catchAll((error) =>
+      E.logError('Batch item not submitted', error).pipe(
+        E.zipRight(reject(item)({ reason: NOT_SUBMITTED_REASON })),
+      ),
+    ),
+  )
+
+// Job of a preflighted item, with the task queueing it once the batch is created
+const submitItem = ({ item, prepared, rejectionReason }: PreflightedItem) =>
+  E.gen(function* () {
+    if (!prepared) {
+      return { item: { ...item, rejectionReason }, task: undefined }
+    }
+    return yield* insertParseMediaJob(prepared).pipe(
+      E.map((job) => ({
+        item: { ...item, jobId: job.id },
+        task: { jobId: job.id, request: prepared.stored },
+      })),
+      // Items past the job quota are turned down, the batch keeps the others
+      E.catchTag('JobQuotaExceededError', ({ limit }) =>
+        E.succeed({
+          item: {
+            ...item,
+            rejectionReason: `Tenant already has ${limit} jobs in flight`,
+          },
+          task: undefined,
+        }),
+      ),
+    )
+  })
+
+/**
+ * Creates a job for every item of the batch and queues them. Items turned
+ * down by the preflight checks, or past the tenant's job quota, are recorded
+ * as rejected and the others go ahead. The batch needs room for one job at
+ * least, and its jobs are created together with it so none is left out.
+ */
+export const createBatchUsecase = (request: CreateBatchRequest) =>
+  E.gen(function* () {
+    const sql = yield* SqlClient.SqlClient
+    const batchesStore = yield* BatchesStore
+    const worker = yield* ParseMediaWorker
+    const { name, items, ...options } = request
+
+    yield* checkCallbackUrl(options)
+    yield* checkJobQuota
+    const preflighted = yield* E.forEach(
+      items,
+      (item) => preflightItem(item, options),
+      { concurrency: PREFLIGHT_CONCURRENCY },
+    )
+
+    // Jobs and batch are written together, so no job is left outside a batch
+    const { batch, tasks } = yield* E.gen(function* () {
+      const submitted = yield* E.forEach(preflighted, submitItem)
+      const batch = yield* batchesStore.createBatch({
+        name,
+        items: submitted.map(({ item }) => item),
+      })
+      return {
+        batch,
+        tasks: submitted.flatMap(({ task }) => (task ? [task] : [])),
+      }
+    }).pipe(
+      sql.withTransaction,
+      E.catchTag('SqlError', E.die),
+      E.onError(() =>
+        E.forEach(
+          preflighted,
+          ({ prepared }) =>
+            prepared ? releaseMediaInput(prepared.stored) : E.void,
+          { discard: true },
+        ),
+      ),
+    )
+
+    yield* E.forEach(tasks, (task) => worker.enqueue(task), { discard: true })
+    return batch
+  }).pipe(
+    E.tapError(E.logError),
+    // Let JobQuotaExceededError and WebhooksDisabledError bubble up for client handling, die on anything else
+    E.catchAll((error) =>
+      error._tag === 'JobQuotaExceededError' ||
+      error._tag === 'WebhooksDisabledError'
+        ? E.fail(error)
+        : E.die(error),
+    ),
+    E.withSpan('createBatchUsecase', {
+      attributes: {
+        items: request.items.length,
+        language: request.language,
+        engine: request.engine,
+      },
+    }),
+  )
@@ -0,0 +1,65 @@
+import { Array as Arr, Effect as E, Option } from 'effect'
+import { BatchResultNotFoundError } from '../../domain/batches/batches.errors'
+import {
+  type BatchExportParams,
+  type BatchItem,
+  batchItemFileName,
+} from '../../domain/batches/batches.schema'
+import { zipFiles } from '../../domain/batches/batches.zip'
+import { BatchesStore } from '../../stores/batches/batches.store'
+import { getJobResultFileUsecase } from '../jobs/get-job-result-file.usecase'
+import { getJobResultUsecase } from '../jobs/get-job-result.usecase'
+
+/**
+ * Zip of the subtitle files of the batch's completed items, in the format
+ * and language asked for. Items still running, failed or without the
+ * translation asked for are left out.
+ */
+export const exportBatchUsecase = (
+  id: number,
+  params: typeof BatchExportParams.Type = {},
+) =>
+  E.gen(function* () {
+    const batchesStore = yield* BatchesStore
+    const batch = yield* batchesStore.getBatch(id)
+    const format = params.format ?? 'srt'
+
+    const exportItem = (item: BatchItem, position: number) =>
+      item.status !== 'completed' || item.jobId === undefined
+        ? E.succeedNone
+        : getJobResultUsecase(item.jobId, params.lang).pipe(
+            E.flatMap((result) =>
+              getJobResultFileUsecase(result, format, params),
+            ),
+            E.map((file) =>
+              Option.some({
+                name: batchItemFileName(
+                  item,
+                  position,
+                  batch.items.length,
+                  format,
+                ),
+                content: file.content,
+              }),
+            ),
+            E.catchTags({
+              JobNotFoundError: () => E.succeedNone,
+              JobResultNotFoundError: () => E.succeedNone,
+              JobTranslationNotFoundError: () => E.succeedNone,
+            }),
+          )
+
+    const files = Arr.getSomes(yield* E.forEach(batch.items, exportItem))
+    if (files.length === 0) {
+      return yield* E.fail(new BatchResultNotFoundError({ batchId: id }))
+    }
+
+    yield* E.annotateCurrentSpan('files', files.length)
+    return zipFiles(files)
+  }).pipe(
+    E.tapError(E.logError),
+    // Let BatchNotFoundError and BatchResultNotFoundError bubble up for client handling
+    E.withSpan('exportBatchUsecase', {
+      attributes: { id, format: params.format, lang: params.lang },
+    }),
+  )
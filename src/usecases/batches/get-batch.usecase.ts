@@ -0,0 +1,12 @@
+import { Effect as E } from 'effect'
+import { BatchesStore } from '../../stores/batches/batches.store'
+
+export const getBatchUsecase = (id: number) =>
+  E.gen(function* () {
+    const batchesStore = yield* BatchesStore
+    return yield* batchesStore.getBatch(id)
+  }).pipe(
+    E.tapError(E.logError),
+    // Let BatchNotFoundError bubble up for client handling
+    E.withSpan('getBatchUsecase', { attributes: { id } }),
+  )
@@ -0,0 +1,18 @@
+import { Effect as E } from 'effect'
+import type { GlossaryTermRequest } from '../../domain/glossary/glossary.schema'
+import { GlossaryStore } from '../../stores/glossary/glossary.store'
+
+// Applied to the jobs that run from now on, finished results keep their text
+export const createGlossaryTermUsecase = (
+  request: typeof GlossaryTermRequest.Type,
+) =>
+  E.gen(function* () {
+    const glossaryStore = yield* GlossaryStore
+    return yield* glossaryStore.createTerm(request)
+  }).pipe(
+    E.tapError(E.logError),
+    // Let GlossaryTermConflictError bubble up for client handling
+    E.withSpan('createGlossaryTermUsecase', {
+      attributes: { term: request.term },
+    }),
+  )
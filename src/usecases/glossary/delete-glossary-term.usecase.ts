@@ -0,0 +1,14 @@
+import { Effect as E } from 'effect'
+import { GlossaryStore } from '../../stores/glossary/glossary.store'
+
+export const deleteGlossaryTermUsecase = (id: number) =>
+  E.gen(function* () {
+    const glossaryStore = yield* GlossaryStore
+    yield* glossaryStore.deleteTerm(id)
+  }).pipe(
+    E.tapError(E.logError),
+    // Let GlossaryTermNotFoundError bubble up for client handling
+    E.withSpan('deleteGlossaryTermUsecase', {
+      attributes: { termId: id },
+    }),
+  )
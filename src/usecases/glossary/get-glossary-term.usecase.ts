@@ -0,0 +1,14 @@
+import { Effect as E } from 'effect'
+import { GlossaryStore } from '../../stores/glossary/glossary.store'
+
+export const getGlossaryTermUsecase = (id: number) =>
+  E.gen(function* () {
+    const glossaryStore = yield* GlossaryStore
+    return yield* glossaryStore.getTerm(id)
+  }).pipe(
+    E.tapError(E.logError),
+    // Let GlossaryTermNotFoundError bubble up for client handling
+    E.withSpan('getGlossaryTermUsecase', {
+      attributes: { termId: id },
+    }),
+  )
@@ -0,0 +1,10 @@
+import { Effect as E } from 'effect'
+import { GlossaryResponse } from '../../domain/glossary/glossary.schema'
+import { GlossaryStore } from '../../stores/glossary/glossary.store'
+
+export const getGlossaryUsecase = () =>
+  E.gen(function* () {
+    const glossaryStore = yield* GlossaryStore
+    const terms = yield* glossaryStore.getGlossary()
+    return GlossaryResponse.make({ terms })
+  }).pipe(E.tapError(E.logError), E.withSpan('getGlossaryUsecase'))
@@ -0,0 +1,18 @@
+import { Effect as E } from 'effect'
+import type { GlossaryTermRequest } from '../../domain/glossary/glossary.schema'
+import { GlossaryStore } from '../../stores/glossary/glossary.store'
+
+export const updateGlossaryTermUsecase = (
+  id: number,
+  request: typeof GlossaryTermRequest.Type,
+) =>
+  E.gen(function* () {
+    const glossaryStore = yield* GlossaryStore
+    return yield* glossaryStore.updateTerm(id, request)
+  }).pipe(
+    E.tapError(E.logError),
+    // Let GlossaryTermNotFoundError and GlossaryTermConflictError bubble up for client handling
+    E.withSpan('updateGlossaryTermUsecase', {
+      attributes: { termId: id, term: request.term },
+    }),
+  )
@@ -0,0 +1,68 @@
+import { NodeContext } from '@effect/platform-node'
+import { describe, expect, it } from '@effect/vitest'
+import { Effect as E, Layer } from 'effect'
+import { MockConfigLayer } from '../../config'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+import { MediaStore } from '../../stores/media/media.store'
+import { TranslationStore } from '../../stores/translations/translation.store'
+import {
+  EmptyGlossaryLayer,
+  NoMediaCacheLayer,
+  SqliteTestLayer,
+  TestBlobStoreLayer,
+  TestTenantLayer,
+  getExitError,
+  makeTestLayer,
+} from '../../test-utils'
+import { ParseMediaWorker } from '../../workers/parse-media.worker'
+import { cancelJobUsecase } from './cancel-job.usecase'
+
+const request = {
+  url: 'https://example.com/video.mp4',
+  language: 'en',
+  engine: 'fake',
+} as const
+
+const MediaStoreTestLayer = makeTestLayer(MediaStore)({
+  parseMedia: () =>
+    E.succeed({
+      json: [{ start: 0, end: 5000, text: 'Hello world' }],
+    }),
+})
+
+const WorkerTestLayer = ParseMediaWorker.Default.pipe(
+  Layer.provideMerge(MediaStoreTestLayer),
+  Layer.provide(NoMediaCacheLayer),
+  Layer.provide(TranslationStore.Fake),
+  Layer.provide(EmptyGlossaryLayer),
+  Layer.provide(TestBlobStoreLayer),
+  Layer.provideMerge(JobsStore.Default),
+  Layer.provide(SqliteTestLayer),
+  Layer.provide(NodeContext.layer),
+  Layer.provideMerge(TestTenantLayer),
+  Layer.provide(MockConfigLayer),
+)
+
+describe('cancelJobUsecase', () => {
+  it.live('should cancel a pending job', () =>
+    E.gen(function* () {
+      const store = yield* JobsStore
+      const job = yield* store.createJob({ name: 'Job 1', request })
+      const cancelled = yield* cancelJobUsecase(job.id)
+
+      expect(cancelled.status).toBe('cancelled')
+    }).pipe(E.provide(WorkerTestLayer)),
+  )
+
+  it.live('should reject finished jobs', () =>
+    E.gen(function* () {
+      const store = yield* JobsStore
+      const job = yield* store.createJob({ name: 'Job 1', request })
+      yield* store.transitionJob(job.id, { status: 'in-progress' })
+      yield* store.transitionJob(job.id, { status: 'completed' })
+      const result = yield* cancelJobUsecase(job.id).pipe(E.exit)
+
+      expect(getExitError(result)?._tag).toBe('JobConflictError')
+    }).pipe(E.provide(WorkerTestLayer)),
+  )
+})
@@ -0,0 +1,34 @@
+import { Effect as E } from 'effect'
+import { JobConflictError } from '../../domain/jobs/jobs.errors'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+import { ParseMediaWorker } from '../../workers/parse-media.worker'
+
+export const cancelJobUsecase = (id: number) =>
+  E.gen(function* () {
+    const jobsStore = yield* JobsStore
+    const worker = yield* ParseMediaWorker
+
+    // Cancelled before it is interrupted, so only jobs of the current tenant
+    // that are still pending or running are
+    const cancelled = yield* jobsStore
+      .transitionJob(id, { status: 'cancelled' })
+      .pipe(
+        E.catchTag('InvalidJobTransitionError', ({ from }) =>
+          E.fail(
+            new JobConflictError({
+              jobId: id,
+              reason: `Cannot cancel a ${from} job`,
+            }),
+          ),
+        ),
+      )
+    yield* worker.cancel(id)
+
+    return cancelled
+  }).pipe(
+    E.tapError(E.logError),
+    // Let JobNotFoundError and JobConflictError bubble up for client handling
+    E.withSpan('cancelJobUsecase', {
+      attributes: { jobId: id },
+    }),
+  )
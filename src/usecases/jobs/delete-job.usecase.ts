@@ -0,0 +1,31 @@
+import { Effect as E, Option } from 'effect'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+import { WebhooksStore } from '../../stores/webhooks/webhooks.store'
+import { ParseMediaWorker } from '../../workers/parse-media.worker'
+import { releaseMediaInput } from '../media/run-parse-media-job.usecase'
+import { deleteSubtitleFilesUsecase } from '../subtitles/delete-subtitle-files.usecase'
+
+export const deleteJobUsecase = (id: number) =>
+  E.gen(function* () {
+    const jobsStore = yield* JobsStore
+    const webhooksStore = yield* WebhooksStore
+    const worker = yield* ParseMediaWorker
+    const request = yield* jobsStore.getJobRequest(id)
+
+    yield* worker.cancel(id)
+    // The result is stored on the job row, so it goes with it
+    yield* jobsStore.deleteJob(id)
+    yield* webhooksStore.deleteJobDeliveries(id)
+
+    if (Option.isSome(request)) {
+      yield* releaseMediaInput(request.value)
+    }
+    // Its subtitle files too, leftovers expire with the result retention
+    yield* deleteSubtitleFilesUsecase(id).pipe(E.ignore)
+  }).pipe(
+    E.tapError(E.logError),
+    // Let JobNotFoundError bubble up for client handling
+    E.withSpan('deleteJobUsecase', {
+      attributes: { jobId: id },
+    }),
+  )
@@ -0,0 +1,29 @@
+import { Effect as E } from 'effect'
+import { JobRevisionDiffResponse } from '../../domain/jobs/jobs.schema'
+import { diffCues } from '../../domain/subtitles/subtitles.diff'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+
+// Changes made by `revision`, or since `from` when given
+export const diffJobRevisionsUsecase = (
+  jobId: number,
+  revision: number,
+  from = Math.max(revision - 1, 1),
+) =>
+  E.gen(function* () {
+    const jobsStore = yield* JobsStore
+    const before = yield* jobsStore.getJobRevision(jobId, from)
+    const after = yield* jobsStore.getJobRevision(jobId, revision)
+
+    return JobRevisionDiffResponse.make({
+      id: jobId,
+      from,
+      to: revision,
+      changes: diffCues(before.result, after.result),
+    })
+  }).pipe(
+    E.tapError(E.logError),
+    // Let JobResultNotFoundError and JobRevisionNotFoundError bubble up for client handling
+    E.withSpan('diffJobRevisionsUsecase', {
+      attributes: { jobId, revision, from },
+    }),
+  )
@@ -0,0 +1,141 @@
+import { NodeContext } from '@effect/platform-node'
+import { describe, expect, it } from '@effect/vitest'
+import { Effect as E, Stream } from 'effect'
+import { MockConfigLayer } from '../../config'
+import { resultBlobKey } from '../../domain/blobs/blobs.schema'
+import { BlobStore } from '../../stores/blobs/blob.store'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+import {
+  SqliteTestLayer,
+  TestBlobStoreLayer,
+  TestTenantLayer,
+  getExitError,
+} from '../../test-utils'
+import { diffJobRevisionsUsecase } from './diff-job-revisions.usecase'
+import { editJobResultUsecase } from './edit-job-result.usecase'
+import { restoreJobRevisionUsecase } from './restore-job-revision.usecase'
+
+const completeJob = E.gen(function* () {
+  const store = yield* JobsStore
+  const job = yield* store.createJob({ name: 'Interview', language: 'en' })
+  yield* store.transitionJob(job.id, { status: 'in-progress' })
+  yield* store.transitionJob(job.id, {
+    status: 'completed',
+    result: [
+      { start: 0, end: 1000, text: 'Welcome to Coursiton.' },
+      { start: 1500, end: 2500, text: 'Lets start.' },
+    ],
+  })
+  return job.id
+})
+
+const readStoredVtt = (jobId: number) =>
+  BlobStore.pipe(
+    E.flatMap((blobStore) =>
+      blobStore.get(resultBlobKey('tenant-test', jobId, 'vtt')),
+    ),
+    E.flatMap(({ body }) => body.pipe(Stream.decodeText(), Stream.mkString)),
+  )
+
+describe('editJobResultUsecase', () => {
+  it.scoped('should save edits as a revision and store the files again', () =>
+    E.gen(function* () {
+      const store = yield* JobsStore
+      const jobId = yield* completeJob
+
+      const revision = yield* editJobResultUsecase(jobId, {
+        author: 'Ada',
+        edits: [{ op: 'update', index: 0, text: 'Welcome to Coursition.' }],
+      })
+      const result = yield* store.getJobResult(jobId)
+
+      expect(revision).toMatchObject({ revision: 2, author: 'Ada' })
+      expect(result.result[0]?.text).toBe('Welcome to Coursition.')
+      expect(yield* readStoredVtt(jobId)).toContain('Welcome to Coursition.')
+    }).pipe(
+      E.provide(JobsStore.Default),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(SqliteTestLayer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.scoped('should fail with the issues of invalid edits', () =>
+    E.gen(function* () {
+      const jobId = yield* completeJob
+
+      const exit = yield* editJobResultUsecase(jobId, {
+        edits: [{ op: 'update', index: 1, start: 500 }],
+      }).pipe(E.exit)
+
+      expect(getExitError(exit)).toMatchObject({
+        _tag: 'SubtitleEditError',
+        issues: [{ cue: 1, reason: 'Cue overlaps the previous one' }],
+      })
+    }).pipe(
+      E.provide(JobsStore.Default),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(SqliteTestLayer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.scoped('should restore and diff older revisions', () =>
+    E.gen(function* () {
+      const jobId = yield* completeJob
+      yield* editJobResultUsecase(jobId, {
+        edits: [{ op: 'delete', index: 1 }],
+      })
+
+      const restored = yield* restoreJobRevisionUsecase(jobId, 1)
+      const diff = yield* diffJobRevisionsUsecase(jobId, 2)
+
+      expect(restored).toMatchObject({
+        revision: 3,
+        author: 'tenant-test',
+        restoredFrom: 1,
+      })
+      expect(restored.result).toHaveLength(2)
+      expect(diff.changes).toEqual([
+        {
+          _tag: 'removed',
+          index: 1,
+          cue: { start: 1500, end: 2500, text: 'Lets start.' },
+        },
+      ])
+    }).pipe(
+      E.provide(JobsStore.Default),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(SqliteTestLayer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.scoped('should reject edits made on an older revision', () =>
+    E.gen(function* () {
+      const jobId = yield* completeJob
+      const edit = { op: 'update', index: 1, text: "Let's start." } as const
+      yield* editJobResultUsecase(jobId, { baseRevision: 1, edits: [edit] })
+
+      const exit = yield* editJobResultUsecase(jobId, {
+        baseRevision: 1,
+        edits: [edit],
+      }).pipe(E.exit)
+
+      expect(getExitError(exit)).toMatchObject({ _tag: 'JobConflictError' })
+    }).pipe(
+      E.provide(JobsStore.Default),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(SqliteTestLayer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+})
@@ -0,0 +1,68 @@
+import { Effect as E, Either, type Schema } from 'effect'
+import { CurrentTenant } from '../../domain/auth/auth.schema'
+import type { EditJobResultRequest } from '../../domain/jobs/jobs.schema'
+import { applySubtitleEdits } from '../../domain/subtitles/subtitles.edit'
+import { SubtitleEditError } from '../../domain/subtitles/subtitles.errors'
+import { type AddJobRevision, JobsStore } from '../../stores/jobs/jobs.store'
+import { deleteSubtitleFilesUsecase } from '../subtitles/delete-subtitle-files.usecase'
+import { storeSubtitleFilesUsecase } from '../subtitles/store-subtitle-files.usecase'
+
+type EditJobResultRequestType = Schema.Schema.Type<typeof EditJobResultRequest>
+
+/**
+ * Saves a revision as the job result and stores its subtitle files again.
+ * Files that cannot be replaced are removed, so they are rendered on demand
+ * instead of served out of date. Translations keep the result they came from.
+ */
+export const saveJobRevision = (jobId: number, revision: AddJobRevision) =>
+  E.gen(function* () {
+    const jobsStore = yield* JobsStore
+    const saved = yield* jobsStore.addJobRevision(jobId, revision)
+    const job = yield* jobsStore.getJobById(jobId)
+
+    yield* storeSubtitleFilesUsecase(jobId, saved.result, {
+      language: job.language,
+    }).pipe(
+      E.catchAll((error) =>
+        E.logWarning('Subtitle files not stored', error).pipe(
+          E.zipRight(deleteSubtitleFilesUsecase(jobId).pipe(E.ignore)),
+        ),
+      ),
+    )
+    return saved
+  })
+
+export const editJobResultUsecase = (
+  jobId: number,
+  request: EditJobResultRequestType,
+) =>
+  E.gen(function* () {
+    const jobsStore = yield* JobsStore
+    const tenant = yield* CurrentTenant
+    // Edits were made on `baseRevision`, saving fails if it is not the latest
+    const base = yield* jobsStore.getJobRevision(jobId, request.baseRevision)
+
+    const edited = applySubtitleEdits(base.result, request.edits)
+    if (Either.isLeft(edited)) {
+      return yield* E.fail(
+        new SubtitleEditError({ jobId, issues: edited.left }),
+      )
+    }
+
+    return yield* saveJobRevision(jobId, {
+      result: edited.right,
+      author: request.author ?? tenant.id,
+      baseRevision: base.revision,
+    })
+  }).pipe(
+    E.tapError(E.logError),
+    // Let JobResultNotFoundError, JobRevisionNotFoundError, JobConflictError
+    // and SubtitleEditError bubble up for client handling
+    E.withSpan('editJobResultUsecase', {
+      attributes: {
+        jobId,
+        baseRevision: request.baseRevision,
+        edits: request.edits.length,
+      },
+    }),
+  )
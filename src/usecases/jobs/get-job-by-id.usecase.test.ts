@@ -1,19 +1,32 @@
 import { describe, expect, it } from '@effect/vitest'
-import { Effect as E, Exit } from 'effect'
+import { DateTime, Effect as E, Exit } from 'effect'
 import { MockConfigLayer } from '../../config'
 import { JobsStore } from '../../stores/jobs/jobs.store'
-import { getExitError } from '../../test-utils'
+import {
+  SqliteTestLayer,
+  TestTenantLayer,
+  getExitError,
+} from '../../test-utils'
 import { getJobByIdUsecase } from './get-job-by-id.usecase'
 
 describe('getJobByIdUsecase', () => {
   it.effect('should return job when found', () =>
     E.gen(function* () {
+      const store = yield* JobsStore
+      const job = yield* store.createJob({ name: 'Job 1' })
+      yield* store.transitionJob(job.id, { status: 'in-progress' })
+
       const result = yield* getJobByIdUsecase(1)
 
       expect(result.id).toBe(1)
       expect(result.name).toBe('Job 1')
       expect(result.status).toBe('in-progress')
-    }).pipe(E.provide(JobsStore.Default), E.provide(MockConfigLayer)),
+    }).pipe(
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
   )
 
   it.effect('should handle not found error', () =>
@@ -25,7 +38,12 @@ describe('getJobByIdUsecase', () => {
         const error = getExitError(result)
         expect(error?._tag).toBe('JobNotFoundError')
       }
-    }).pipe(E.provide(JobsStore.Default), E.provide(MockConfigLayer)),
+    }).pipe(
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
   )
 
   it.effect('should work with test service', () =>
@@ -43,9 +61,11 @@ describe('getJobByIdUsecase', () => {
               id,
               name: 'Custom Test Job',
               status: 'completed',
+              createdAt: DateTime.unsafeMake(0),
             }),
         }),
       ),
+      E.provide(TestTenantLayer),
       E.provide(MockConfigLayer),
     ),
   )
@@ -0,0 +1,59 @@
+import { Effect as E, Option, type Schema, Stream } from 'effect'
+import { CurrentTenant } from '../../domain/auth/auth.schema'
+import { resultBlobKey } from '../../domain/blobs/blobs.schema'
+import type { JobResultResponse } from '../../domain/jobs/jobs.schema'
+import type {
+  SubtitleExportParams,
+  SubtitleFormat,
+} from '../../domain/subtitles/subtitles.schema'
+import { BlobStore } from '../../stores/blobs/blob.store'
+import { exportSubtitlesUsecase } from '../subtitles/export-subtitles.usecase'
+
+type JobResultType = Schema.Schema.Type<typeof JobResultResponse>
+type SubtitleExportParamsType = Schema.Schema.Type<typeof SubtitleExportParams>
+
+/**
+ * Subtitle file of a job result. Files stored when the job completed are
+ * served as they are, custom limits or missing files are rendered on demand.
+ */
+export const getJobResultFileUsecase = (
+  result: JobResultType,
+  format: Exclude<SubtitleFormat, 'json'>,
+  params: SubtitleExportParamsType = {},
+) =>
+  E.gen(function* () {
+    const blobStore = yield* BlobStore
+    const tenant = yield* CurrentTenant
+    // Stored files are in the job language
+    const isDefault =
+      params.maxLineLength === undefined &&
+      params.maxCueDuration === undefined &&
+      result.language === undefined
+
+    const stored = isDefault
+      ? yield* blobStore.get(resultBlobKey(tenant.id, result.id, format)).pipe(
+          E.flatMap((blob) =>
+            blob.body.pipe(
+              Stream.decodeText(),
+              Stream.mkString,
+              E.map((content) => ({ contentType: blob.contentType, content })),
+            ),
+          ),
+          E.tapErrorTag('BlobStoreError', E.logWarning),
+          E.option,
+        )
+      : Option.none()
+
+    return yield* Option.match(stored, {
+      onNone: () =>
+        exportSubtitlesUsecase(result.result, format, {
+          ...params,
+          language: result.language,
+        }),
+      onSome: E.succeed,
+    })
+  }).pipe(
+    E.withSpan('getJobResultFileUsecase', {
+      attributes: { jobId: result.id, format },
+    }),
+  )
@@ -1,15 +1,15 @@
 import { Effect as E } from 'effect'
 import { JobsStore } from '../../stores/jobs/jobs.store'
 
-export const getJobResultUsecase = (jobId: number) =>
+export const getJobResultUsecase = (jobId: number, language?: string) =>
   E.gen(function* () {
     const jobsStore = yield* JobsStore
-    const result = yield* jobsStore.getJobResult(jobId)
+    const result = yield* jobsStore.getJobResult(jobId, language)
     return result
   }).pipe(
     E.tapError(E.logError),
-    // Let JobResultNotFoundError bubble up for client handling
+    // Let JobResultNotFoundError and JobTranslationNotFoundError bubble up for client handling
     E.withSpan('getJobResultUsecase', {
-      attributes: { jobId },
+      attributes: { jobId, language },
     }),
   )
@@ -0,0 +1,14 @@
+import { Effect as E } from 'effect'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+
+export const getJobRevisionUsecase = (jobId: number, revision: number) =>
+  E.gen(function* () {
+    const jobsStore = yield* JobsStore
+    return yield* jobsStore.getJobRevision(jobId, revision)
+  }).pipe(
+    E.tapError(E.logError),
+    // Let JobResultNotFoundError and JobRevisionNotFoundError bubble up for client handling
+    E.withSpan('getJobRevisionUsecase', {
+      attributes: { jobId, revision },
+    }),
+  )
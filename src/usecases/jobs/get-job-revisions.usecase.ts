@@ -0,0 +1,16 @@
+import { Effect as E } from 'effect'
+import { JobRevisionsResponse } from '../../domain/jobs/jobs.schema'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+
+export const getJobRevisionsUsecase = (jobId: number) =>
+  E.gen(function* () {
+    const jobsStore = yield* JobsStore
+    const revisions = yield* jobsStore.getJobRevisions(jobId)
+    return JobRevisionsResponse.make({ id: jobId, revisions })
+  }).pipe(
+    E.tapError(E.logError),
+    // Let JobResultNotFoundError bubble up for client handling
+    E.withSpan('getJobRevisionsUsecase', {
+      attributes: { jobId },
+    }),
+  )
@@ -1,19 +1,30 @@
 import { describe, expect, it } from '@effect/vitest'
-import { Effect as E } from 'effect'
+import { DateTime, Effect as E } from 'effect'
 import { MockConfigLayer } from '../../config'
 import { JobsStore } from '../../stores/jobs/jobs.store'
+import { SqliteTestLayer, TestTenantLayer } from '../../test-utils'
 import { getJobsUsecase } from './get-jobs.usecase'
 
 describe('getJobsUsecase', () => {
   it.effect('should return jobs list', () =>
     E.gen(function* () {
+      const store = yield* JobsStore
+      yield* store.createJob({ name: 'Parse Video 1' })
+      yield* store.createJob({ name: 'Parse Audio 2' })
+      yield* store.createJob({ name: 'Parse Document 3' })
+
       const result = yield* getJobsUsecase()
 
       expect(result.jobs).toHaveLength(3)
       expect(result.jobs[0]?.name).toBe('Parse Video 1')
       expect(result.jobs[1]?.name).toBe('Parse Audio 2')
       expect(result.jobs[2]?.name).toBe('Parse Document 3')
-    }).pipe(E.provide(JobsStore.Default), E.provide(MockConfigLayer)),
+    }).pipe(
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
   )
 
   it.effect('should work with test service', () =>
@@ -29,12 +40,24 @@ describe('getJobsUsecase', () => {
           getAllJobs: () =>
             E.succeed({
               jobs: [
-                { id: 1, name: 'Test Job 1', status: 'in-progress' },
-                { id: 2, name: 'Test Job 2', status: 'completed' },
+                {
+                  id: 1,
+                  name: 'Test Job 1',
+                  status: 'in-progress',
+                  createdAt: DateTime.unsafeMake(0),
+                },
+                {
+                  id: 2,
+                  name: 'Test Job 2',
+                  status: 'completed',
+                  createdAt: DateTime.unsafeMake(0),
+                },
               ],
+              total: 2,
             }),
         }),
       ),
+      E.provide(TestTenantLayer),
       E.provide(MockConfigLayer),
     ),
   )
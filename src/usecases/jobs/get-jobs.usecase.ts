@@ -1,13 +1,16 @@
 import { Effect as E } from 'effect'
+import type { JobsQuery } from '../../domain/jobs/jobs.schema'
 import { JobsStore } from '../../stores/jobs/jobs.store'
 
-export const getJobsUsecase = () =>
+export const getJobsUsecase = (query: JobsQuery = {}) =>
   E.gen(function* () {
     const jobsStore = yield* JobsStore
-    const result = yield* jobsStore.getAllJobs()
+    const result = yield* jobsStore.getAllJobs(query)
     return result
   }).pipe(
     E.tapError(E.logError),
     E.orDie, // No expected domain errors for listing
-    E.withSpan('getJobsUsecase'),
+    E.withSpan('getJobsUsecase', {
+      attributes: { ...query },
+    }),
   )
@@ -0,0 +1,36 @@
+import { Effect as E, type Schema } from 'effect'
+import { CurrentTenant } from '../../domain/auth/auth.schema'
+import type { RestoreJobRevisionRequest } from '../../domain/jobs/jobs.schema'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+import { saveJobRevision } from './edit-job-result.usecase'
+
+type RestoreJobRevisionRequestType = Schema.Schema.Type<
+  typeof RestoreJobRevisionRequest
+>
+
+// Revisions are immutable, restoring one saves its cues as a new revision
+export const restoreJobRevisionUsecase = (
+  jobId: number,
+  revision: number,
+  request: RestoreJobRevisionRequestType = {},
+) =>
+  E.gen(function* () {
+    const jobsStore = yield* JobsStore
+    const tenant = yield* CurrentTenant
+    const restored = yield* jobsStore.getJobRevision(jobId, revision)
+    const latest = yield* jobsStore.getJobRevision(jobId)
+
+    return yield* saveJobRevision(jobId, {
+      result: restored.result,
+      author: request.author ?? tenant.id,
+      restoredFrom: revision,
+      baseRevision: latest.revision,
+    })
+  }).pipe(
+    E.tapError(E.logError),
+    // Let JobResultNotFoundError, JobRevisionNotFoundError and JobConflictError
+    // bubble up for client handling
+    E.withSpan('restoreJobRevisionUsecase', {
+      attributes: { jobId, revision },
+    }),
+  )
@@ -0,0 +1,105 @@
+import { describe, expect, it } from '@effect/vitest'
+import { Effect as E } from 'effect'
+import { MockConfigLayer } from '../../config'
+import { TranslationError } from '../../domain/translations/translations.errors'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+import { TranslationStore } from '../../stores/translations/translation.store'
+import {
+  SqliteTestLayer,
+  TestTenantLayer,
+  getExitError,
+  makeTestLayer,
+} from '../../test-utils'
+import { retryJobTranslationUsecase } from './retry-job-translation.usecase'
+
+const request = {
+  url: 'https://example.com/video.mp4',
+  language: 'en',
+  targetLanguages: ['de', 'fr'],
+} as const
+
+// A completed job whose French translation failed
+const createCompletedJob = E.gen(function* () {
+  const store = yield* JobsStore
+  const job = yield* store.createJob({ name: 'Job 1', language: 'en', request })
+  yield* store.transitionJob(job.id, { status: 'in-progress' })
+  yield* store.transitionJob(job.id, {
+    status: 'completed',
+    result: [{ start: 0, end: 5000, text: 'Hello world' }],
+    translations: { de: [{ start: 0, end: 5000, text: 'Hallo Welt' }] },
+    translationFailures: { fr: 'Engine down' },
+  })
+  return job
+})
+
+describe('retryJobTranslationUsecase', () => {
+  it.effect('should save the translation and clear its failure', () =>
+    E.gen(function* () {
+      const store = yield* JobsStore
+      const job = yield* createCompletedJob
+
+      const retried = yield* retryJobTranslationUsecase(job.id, 'fr')
+      const french = yield* store.getJobResult(job.id, 'fr')
+      const german = yield* store.getJobResult(job.id, 'de')
+      const result = yield* store.getJobResult(job.id)
+
+      expect(retried).toEqual(french)
+      expect(french.result).toEqual([
+        { start: 0, end: 5000, text: '[fr] Hello world' },
+      ])
+      expect(german.result).toEqual([
+        { start: 0, end: 5000, text: 'Hallo Welt' },
+      ])
+      expect(result.translationFailures).toBeUndefined()
+    }).pipe(
+      E.provide(TranslationStore.Fake),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.effect('should keep the failure when the translation fails again', () =>
+    E.gen(function* () {
+      const store = yield* JobsStore
+      const job = yield* createCompletedJob
+
+      const retried = yield* retryJobTranslationUsecase(job.id, 'fr').pipe(
+        E.exit,
+      )
+      const result = yield* store.getJobResult(job.id)
+
+      expect(getExitError(retried)?._tag).toBe('TranslationError')
+      expect(result.translationFailures).toEqual({ fr: 'Engine down' })
+    }).pipe(
+      E.provide(
+        makeTestLayer(TranslationStore)({
+          translate: (_, options) =>
+            E.fail(new TranslationError({ ...options, error: 'Still down' })),
+        }),
+      ),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.effect('should reject languages that did not fail', () =>
+    E.gen(function* () {
+      const job = yield* createCompletedJob
+      const result = yield* retryJobTranslationUsecase(job.id, 'de').pipe(
+        E.exit,
+      )
+
+      expect(getExitError(result)?._tag).toBe('JobConflictError')
+    }).pipe(
+      E.provide(TranslationStore.Fake),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+})
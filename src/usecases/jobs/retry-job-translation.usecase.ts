@@ -0,0 +1,43 @@
+import { Effect as E, Option } from 'effect'
+import { JobConflictError } from '../../domain/jobs/jobs.errors'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+import { translateSubtitlesUsecase } from '../translations/translate-subtitles.usecase'
+
+// Translates the result again for a target language that failed, the job
+// stays completed whatever the outcome
+export const retryJobTranslationUsecase = (jobId: number, language: string) =>
+  E.gen(function* () {
+    const jobsStore = yield* JobsStore
+    // In the job language, there is no translation to miss
+    const job = yield* jobsStore
+      .getJobResult(jobId)
+      .pipe(E.catchTag('JobTranslationNotFoundError', E.die))
+    const request = yield* jobsStore.getJobRequest(jobId)
+
+    if (
+      job.translationFailures?.[language] === undefined ||
+      Option.isNone(request)
+    ) {
+      return yield* E.fail(
+        new JobConflictError({
+          jobId,
+          reason: `Only failed translations can be retried, ${language} did not fail`,
+        }),
+      )
+    }
+
+    // The result is translated as it is now, with its edits
+    const translation = yield* translateSubtitlesUsecase(job.result, {
+      source: request.value.language,
+      target: language,
+      segmentation: request.value.segmentation,
+    })
+    return yield* jobsStore.saveJobTranslation(jobId, language, translation)
+  }).pipe(
+    E.tapError(E.logError),
+    // Let JobNotFoundError, JobResultNotFoundError, JobConflictError and
+    // TranslationError bubble up for client handling
+    E.withSpan('retryJobTranslationUsecase', {
+      attributes: { jobId, language },
+    }),
+  )
@@ -0,0 +1,104 @@
+import { NodeContext } from '@effect/platform-node'
+import { describe, expect, it } from '@effect/vitest'
+import { Effect as E, Layer, Schedule } from 'effect'
+import { MockConfigLayer } from '../../config'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+import { MediaStore } from '../../stores/media/media.store'
+import { TranslationStore } from '../../stores/translations/translation.store'
+import {
+  EmptyGlossaryLayer,
+  NoMediaCacheLayer,
+  SqliteTestLayer,
+  TestBlobStoreLayer,
+  TestTenantLayer,
+  getExitError,
+  makeTestLayer,
+} from '../../test-utils'
+import { ParseMediaWorker } from '../../workers/parse-media.worker'
+import { retryJobUsecase } from './retry-job.usecase'
+
+const request = {
+  url: 'https://example.com/video.mp4',
+  language: 'en',
+  engine: 'fake',
+} as const
+
+const MediaStoreTestLayer = makeTestLayer(MediaStore)({
+  parseMedia: () =>
+    E.succeed({
+      json: [{ start: 0, end: 5000, text: 'Hello world' }],
+    }),
+})
+
+const WorkerTestLayer = ParseMediaWorker.Default.pipe(
+  Layer.provideMerge(MediaStoreTestLayer),
+  Layer.provide(NoMediaCacheLayer),
+  Layer.provide(TranslationStore.Fake),
+  Layer.provide(EmptyGlossaryLayer),
+  Layer.provide(TestBlobStoreLayer),
+  Layer.provideMerge(JobsStore.Default),
+  Layer.provide(SqliteTestLayer),
+  Layer.provide(NodeContext.layer),
+  Layer.provideMerge(TestTenantLayer),
+  Layer.provide(MockConfigLayer),
+)
+
+describe('retryJobUsecase', () => {
+  it.live('should re-run a failed job with its original request', () =>
+    E.gen(function* () {
+      const store = yield* JobsStore
+      const job = yield* store.createJob({ name: 'Job 1', request })
+      yield* store.transitionJob(job.id, { status: 'in-progress' })
+      yield* store.transitionJob(job.id, { status: 'failed' })
+
+      const retried = yield* retryJobUsecase(job.id)
+      const completed = yield* store.getJobById(job.id).pipe(
+        E.filterOrFail((current) => current.status === 'completed'),
+        E.retry(Schedule.spaced('10 millis')),
+        E.timeout('2 seconds'),
+      )
+
+      expect(retried.status).toBe('pending')
+      expect(completed.status).toBe('completed')
+    }).pipe(E.provide(WorkerTestLayer)),
+  )
+
+  it.live('should reject jobs that did not fail', () =>
+    E.gen(function* () {
+      const store = yield* JobsStore
+      const job = yield* store.createJob({ name: 'Job 1', request })
+      const result = yield* retryJobUsecase(job.id).pipe(E.exit)
+
+      expect(getExitError(result)?._tag).toBe('JobConflictError')
+    }).pipe(E.provide(WorkerTestLayer)),
+  )
+
+  it.live('should reject jobs without a stored request', () =>
+    E.gen(function* () {
+      const store = yield* JobsStore
+      const job = yield* store.createJob({ name: 'Imported' })
+      yield* store.transitionJob(job.id, { status: 'in-progress' })
+      yield* store.transitionJob(job.id, { status: 'failed' })
+      const result = yield* retryJobUsecase(job.id).pipe(E.exit)
+
+      expect(getExitError(result)?._tag).toBe('JobConflictError')
+    }).pipe(E.provide(WorkerTestLayer)),
+  )
+
+  it.live('should need room in the job quota', () =>
+    E.gen(function* () {
+      const store = yield* JobsStore
+      const job = yield* store.createJob({ name: 'Job 1', request })
+      yield* store.transitionJob(job.id, { status: 'in-progress' })
+      yield* store.transitionJob(job.id, { status: 'failed' })
+      // Never queued, so they stay in flight. The mock config allows 3
+      yield* E.forEach(['a', 'b', 'c'], (name) => store.createJob({ name }))
+
+      const result = yield* retryJobUsecase(job.id).pipe(E.exit)
+      const stored = yield* store.getJobById(job.id)
+
+      expect(getExitError(result)?._tag).toBe('JobQuotaExceededError')
+      expect(stored.status).toBe('failed')
+    }).pipe(E.provide(WorkerTestLayer)),
+  )
+})
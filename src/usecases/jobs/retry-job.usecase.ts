@@ -0,0 +1,44 @@
+import { Effect as E, Option } from 'effect'
+import { JobConflictError } from '../../domain/jobs/jobs.errors'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+import { ParseMediaWorker } from '../../workers/parse-media.worker'
+import { checkJobQuota } from '../media/run-parse-media-job.usecase'
+
+export const retryJobUsecase = (id: number) =>
+  E.gen(function* () {
+    const jobsStore = yield* JobsStore
+    const worker = yield* ParseMediaWorker
+    const request = yield* jobsStore.getJobRequest(id)
+
+    // Imported jobs and jobs created before requests were stored cannot be re-run
+    if (Option.isNone(request)) {
+      return yield* E.fail(
+        new JobConflictError({
+          jobId: id,
+          reason: 'Job has no stored request to retry',
+        }),
+      )
+    }
+
+    // A retried job counts towards the tenant's job quota again
+    yield* checkJobQuota
+    const job = yield* jobsStore.transitionJob(id, { status: 'pending' }).pipe(
+      E.catchTag('InvalidJobTransitionError', ({ from }) =>
+        E.fail(
+          new JobConflictError({
+            jobId: id,
+            reason: `Only failed jobs can be retried, job is ${from}`,
+          }),
+        ),
+      ),
+    )
+    yield* worker.enqueue({ jobId: id, request: request.value })
+
+    return job
+  }).pipe(
+    E.tapError(E.logError),
+    // Let JobNotFoundError, JobConflictError and JobQuotaExceededError bubble up for client handling
+    E.withSpan('retryJobUsecase', {
+      attributes: { jobId: id },
+    }),
+  )
@@ -0,0 +1,84 @@
+import { describe, expect, it } from '@effect/vitest'
+import { Chunk, Effect as E, Fiber, Stream } from 'effect'
+import { MockConfigLayer } from '../../config'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+import {
+  SqliteTestLayer,
+  TestTenantLayer,
+  getExitError,
+} from '../../test-utils'
+import { streamJobEventsUsecase } from './stream-job-events.usecase'
+
+describe('streamJobEventsUsecase', () => {
+  it.live('should stream transitions until the job finishes', () =>
+    E.gen(function* () {
+      const store = yield* JobsStore
+      const job = yield* store.createJob({ name: 'Job 1' })
+      const events = yield* streamJobEventsUsecase(job.id)
+      const collected = yield* events.pipe(Stream.runCollect, E.fork)
+
+      // Let the stream subscribe before anything happens
+      yield* E.sleep('20 millis')
+      yield* store.transitionJob(job.id, { status: 'in-progress' })
+      yield* store.publishJobEvent({
+        _tag: 'progress',
+        jobId: job.id,
+        percent: 50,
+      })
+      yield* store.publishJobEvent({ _tag: 'progress', jobId: 99, percent: 1 })
+      yield* store.transitionJob(job.id, { status: 'completed', result: [] })
+
+      const result = yield* Fiber.join(collected).pipe(E.timeout('2 seconds'))
+
+      expect(Chunk.toArray(result).map((event) => event._tag)).toEqual([
+        'status',
+        'status',
+        'progress',
+        'status',
+      ])
+      expect(Chunk.toArray(result).at(-1)).toMatchObject({
+        status: 'completed',
+      })
+    }).pipe(
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.live('should end right away for finished jobs', () =>
+    E.gen(function* () {
+      const store = yield* JobsStore
+      const job = yield* store.createJob({ name: 'Job 1' })
+      yield* store.transitionJob(job.id, { status: 'cancelled' })
+
+      const events = yield* streamJobEventsUsecase(job.id)
+      const result = yield* Stream.runCollect(events).pipe(
+        E.timeout('2 seconds'),
+      )
+
+      expect(Chunk.toArray(result)).toEqual([
+        { _tag: 'status', jobId: job.id, status: 'cancelled' },
+      ])
+    }).pipe(
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.effect('should handle not found error', () =>
+    E.gen(function* () {
+      const result = yield* streamJobEventsUsecase(999).pipe(E.exit)
+
+      expect(getExitError(result)?._tag).toBe('JobNotFoundError')
+    }).pipe(
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+})
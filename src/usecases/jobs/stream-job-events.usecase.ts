@@ -0,0 +1,49 @@
+import { Effect as E, Stream } from 'effect'
+import { CurrentTenant } from '../../domain/auth/auth.schema'
+import { JobStatusEvent, isFinalJobEvent } from '../../domain/jobs/jobs.schema'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+
+/**
+ * Live events of a job, starting with its current status and ending once it
+ * reaches a terminal state or is deleted.
+ */
+export const streamJobEventsUsecase = (id: number) =>
+  E.gen(function* () {
+    const jobsStore = yield* JobsStore
+    const tenant = yield* CurrentTenant
+
+    // Fail before the stream starts when the job does not exist
+    yield* jobsStore.getJobById(id)
+
+    return Stream.unwrapScoped(
+      E.gen(function* () {
+        const events = yield* jobsStore.subscribeJobEvents(id)
+        // Read after subscribing so no transition in between is missed
+        const job = yield* jobsStore.getJobById(id)
+        const current = JobStatusEvent.make({
+          jobId: id,
+          status: job.status,
+          failureReason: job.failureReason,
+        })
+
+        return Stream.make(current).pipe(
+          Stream.concat(events),
+          Stream.takeUntil(isFinalJobEvent),
+        )
+      }),
+    ).pipe(
+      // Deleted in between, there is nothing left to follow
+      Stream.catchTag('JobNotFoundError', () => Stream.empty),
+      // The stream is consumed while the response is written
+      Stream.provideService(CurrentTenant, tenant),
+      Stream.withSpan('streamJobEventsUsecase.stream', {
+        attributes: { jobId: id },
+      }),
+    )
+  }).pipe(
+    E.tapError(E.logError),
+    // Let JobNotFoundError bubble up for client handling
+    E.withSpan('streamJobEventsUsecase', {
+      attributes: { jobId: id },
+    }),
+  )
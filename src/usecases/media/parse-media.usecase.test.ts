@@ -1,9 +1,33 @@
+import { FileSystem } from '@effect/platform'
+import { NodeContext } from '@effect/platform-node'
 import { describe, expect, it } from '@effect/vitest'
-import { Effect as E } from 'effect'
+import { ConfigProvider, Duration, Effect as E, Option } from 'effect'
+import { MockConfigLayer } from '../../config'
+import { MediaEngineUnavailableError } from '../../domain/media/media.errors'
+import { JobQuotaExceededError } from '../../domain/rate-limit/rate-limit.errors'
+import { UploadConflictError } from '../../domain/uploads/uploads.errors'
+import { WebhooksDisabledError } from '../../domain/webhooks/webhooks.errors'
+import { BlobStore } from '../../stores/blobs/blob.store'
+import { JobsStore } from '../../stores/jobs/jobs.store'
 import { MediaStore } from '../../stores/media/media.store'
-import { makeTestLayer } from '../../test-utils'
+import { TranslationStore } from '../../stores/translations/translation.store'
+import { UploadsStore } from '../../stores/uploads/uploads.store'
+import {
+  AnyMediaProbeLayer,
+  EmptyGlossaryLayer,
+  NoMediaCacheLayer,
+  SqliteTestLayer,
+  TestBlobStoreLayer,
+  TestTenantLayer,
+  getExitError,
+  makeTestLayer,
+} from '../../test-utils'
 import { parseMediaUsecase } from './parse-media.usecase'
 
+const INPUT_BLOB_KEY = /^inputs\/tenant-test\//
+
+const NoUploadsLayer = UploadsStore.makeTestService({})
+
 const MediaStoreTestLayer = makeTestLayer(MediaStore)({
   parseMedia: () =>
     E.succeed({
@@ -28,6 +52,285 @@ describe('parseMediaUsecase', () => {
       expect(result.json[0]?.text).toBe('Hello world')
       expect(result.json[1]?.start).toBe(5000)
       expect(result.json[2]?.end).toBe(15000)
-    }).pipe(E.provide(MediaStoreTestLayer)),
+    }).pipe(
+      E.provide(MediaStoreTestLayer),
+      E.provide(NoMediaCacheLayer),
+      E.provide(TranslationStore.Fake),
+      E.provide(EmptyGlossaryLayer),
+      E.provide(AnyMediaProbeLayer),
+      E.provide(NoUploadsLayer),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.effect('should track the parse as a completed job', () =>
+    E.gen(function* () {
+      const request = {
+        url: 'https://example.com/video.mp4',
+        language: 'en',
+      }
+      yield* parseMediaUsecase(request)
+
+      const jobsStore = yield* JobsStore
+      const { jobs } = yield* jobsStore.getAllJobs()
+      const result = yield* jobsStore.getJobResult(1)
+
+      expect(jobs).toHaveLength(1)
+      expect(jobs[0]?.name).toBe('https://example.com/video.mp4')
+      expect(jobs[0]?.status).toBe('completed')
+      expect(jobs[0]?.engine).toBe('fake')
+      expect(result.result).toHaveLength(3)
+    }).pipe(
+      E.provide(MediaStoreTestLayer),
+      E.provide(NoMediaCacheLayer),
+      E.provide(TranslationStore.Fake),
+      E.provide(EmptyGlossaryLayer),
+      E.provide(AnyMediaProbeLayer),
+      E.provide(NoUploadsLayer),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.effect('should record the engine requested per request', () =>
+    E.gen(function* () {
+      const request = {
+        url: 'https://example.com/video.mp4',
+        language: 'en',
+        engine: 'whisper' as const,
+      }
+      yield* parseMediaUsecase(request)
+
+      const jobsStore = yield* JobsStore
+      const job = yield* jobsStore.getJobById(1)
+
+      expect(job.engine).toBe('whisper')
+    }).pipe(
+      E.provide(MediaStoreTestLayer),
+      E.provide(NoMediaCacheLayer),
+      E.provide(TranslationStore.Fake),
+      E.provide(EmptyGlossaryLayer),
+      E.provide(AnyMediaProbeLayer),
+      E.provide(NoUploadsLayer),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.effect('should reject jobs over the tenant quota', () =>
+    E.gen(function* () {
+      const jobsStore = yield* JobsStore
+      // `TENANT_MAX_CONCURRENT_JOBS` is 3 in the mock config
+      yield* E.forEach(['1', '2', '3'], (name) => jobsStore.createJob({ name }))
+
+      const exit = yield* parseMediaUsecase({
+        url: 'https://example.com/video.mp4',
+        language: 'en',
+      }).pipe(E.exit)
+
+      expect(getExitError(exit)).toEqual(
+        new JobQuotaExceededError({
+          tenant: 'tenant-test',
+          limit: 3,
+          retryAfter: Duration.seconds(5),
+        }),
+      )
+      expect((yield* jobsStore.getAllJobs()).total).toBe(3)
+    }).pipe(
+      E.provide(MediaStoreTestLayer),
+      E.provide(NoMediaCacheLayer),
+      E.provide(TranslationStore.Fake),
+      E.provide(EmptyGlossaryLayer),
+      E.provide(AnyMediaProbeLayer),
+      E.provide(NoUploadsLayer),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.effect('should turn down callbacks without a webhook secret', () =>
+    E.gen(function* () {
+      const jobsStore = yield* JobsStore
+      const exit = yield* parseMediaUsecase({
+        url: 'https://example.com/video.mp4',
+        language: 'en',
+        callbackUrl: 'https://example.com/hooks',
+      }).pipe(
+        // No `WEBHOOK_SECRET`, the rest falls back to its defaults
+        E.withConfigProvider(ConfigProvider.fromJson({})),
+        E.exit,
+      )
+
+      expect(getExitError(exit)).toEqual(
+        new WebhooksDisabledError({
+          reason: 'Callbacks are disabled, WEBHOOK_SECRET is not set',
+        }),
+      )
+      expect((yield* jobsStore.getAllJobs()).total).toBe(0)
+    }).pipe(
+      E.provide(MediaStoreTestLayer),
+      E.provide(NoMediaCacheLayer),
+      E.provide(TranslationStore.Fake),
+      E.provide(EmptyGlossaryLayer),
+      E.provide(AnyMediaProbeLayer),
+      E.provide(NoUploadsLayer),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.effect('should report engines that are down and fail the job', () =>
+    E.gen(function* () {
+      const error = new MediaEngineUnavailableError({
+        engine: 'fake',
+        reason: 'Engine fake keeps failing, requests are paused',
+        circuitOpen: true,
+      })
+      const exit = yield* parseMediaUsecase({
+        url: 'https://example.com/video.mp4',
+        language: 'en',
+      }).pipe(
+        E.provide(
+          makeTestLayer(MediaStore)({ parseMedia: () => E.fail(error) }),
+        ),
+        E.exit,
+      )
+
+      const job = yield* (yield* JobsStore).getJobById(1)
+
+      expect(getExitError(exit)).toEqual(error)
+      expect(job.status).toBe('failed')
+      expect(job.failureReason).toBe(error.reason)
+    }).pipe(
+      E.provide(NoMediaCacheLayer),
+      E.provide(TranslationStore.Fake),
+      E.provide(EmptyGlossaryLayer),
+      E.provide(AnyMediaProbeLayer),
+      E.provide(NoUploadsLayer),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.scoped('should parse a completed upload in place', () => {
+    const deleted: string[] = []
+    return E.gen(function* () {
+      const fs = yield* FileSystem.FileSystem
+      const file = yield* fs.makeTempFileScoped()
+      yield* fs.writeFileString(file, 'media bytes')
+
+      const result = yield* parseMediaUsecase({
+        uploadId: '3f1b8a52-4c1e-4f7a-9d43-2b6f0c8e5a17',
+        language: 'en',
+      }).pipe(
+        E.provide(
+          UploadsStore.makeTestService({
+            getUploadedFile: () =>
+              E.succeed({
+                name: 'lecture.mp4',
+                contentType: 'video/mp4',
+                path: file,
+              }),
+            deleteUpload: (id) =>
+              E.sync(() => {
+                deleted.push(id)
+              }),
+          }),
+        ),
+      )
+
+      const jobsStore = yield* JobsStore
+      const job = yield* jobsStore.getJobById(1)
+      const request = yield* jobsStore.getJobRequest(1)
+
+      expect(result.json).toHaveLength(3)
+      expect(job.name).toBe('lecture.mp4')
+      expect(request).toEqual(
+        Option.some({
+          file: {
+            name: 'lecture.mp4',
+            contentType: 'video/mp4',
+            blobKey: expect.stringMatching(INPUT_BLOB_KEY),
+          },
+          language: 'en',
+          engine: 'fake',
+        }),
+      )
+      // The upload is done with once parsed, the stored copy was only kept for the parse
+      expect(deleted).toEqual(['3f1b8a52-4c1e-4f7a-9d43-2b6f0c8e5a17'])
+      expect(yield* (yield* BlobStore).list('inputs/')).toEqual([])
+    }).pipe(
+      E.provide(MediaStoreTestLayer),
+      E.provide(NoMediaCacheLayer),
+      E.provide(TranslationStore.Fake),
+      E.provide(EmptyGlossaryLayer),
+      E.provide(AnyMediaProbeLayer),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    )
+  })
+
+  it.effect('should reject uploads that are not complete', () =>
+    E.gen(function* () {
+      const error = new UploadConflictError({
+        id: '3f1b8a52-4c1e-4f7a-9d43-2b6f0c8e5a17',
+        reason: 'Upload has 10 of 20 bytes',
+      })
+      const exit = yield* parseMediaUsecase({
+        uploadId: '3f1b8a52-4c1e-4f7a-9d43-2b6f0c8e5a17',
+        language: 'en',
+      }).pipe(
+        E.provide(
+          UploadsStore.makeTestService({
+            getUploadedFile: () => E.fail(error),
+          }),
+        ),
+        E.exit,
+      )
+
+      expect(getExitError(exit)).toEqual(error)
+      expect((yield* (yield* JobsStore).getAllJobs()).total).toBe(0)
+    }).pipe(
+      E.provide(MediaStoreTestLayer),
+      E.provide(NoMediaCacheLayer),
+      E.provide(TranslationStore.Fake),
+      E.provide(EmptyGlossaryLayer),
+      E.provide(AnyMediaProbeLayer),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
   )
 })
@@ -1,20 +1,42 @@
 import { Effect as E, type Schema } from 'effect'
 import type { UnifiedMediaRequest } from '../../domain/media/media.schema'
-import { MediaStore } from '../../stores/media/media.store'
+import {
+  checkJobQuota,
+  createParseMediaJob,
+  isParseMediaRejection,
+  releaseMediaInput,
+  releaseUpload,
+  resolveMediaRequest,
+  runParseMediaJobUsecase,
+} from './run-parse-media-job.usecase'
 
 type UnifiedMediaRequestType = Schema.Schema.Type<typeof UnifiedMediaRequest>
 
 export const parseMediaUsecase = (request: UnifiedMediaRequestType) =>
   E.gen(function* () {
-    const mediaStore = yield* MediaStore
-    const result = yield* mediaStore.parseMedia(request)
+    const media = yield* resolveMediaRequest(request)
+    yield* checkJobQuota
+    const { job, request: pinned, stored } = yield* createParseMediaJob(media)
+    // Parsed from the file at hand, the stored copy is only needed for retries
+    const result = yield* runParseMediaJobUsecase(job.id, pinned).pipe(
+      E.ensuring(releaseUpload(request)),
+    )
+    yield* releaseMediaInput(stored)
     return result
   }).pipe(
     E.tapError(E.logError),
-    E.orDie, // Die on any unexpected errors
+    // Let rejections and engine failures bubble up for client handling, die on anything else
+    E.catchAll((error) =>
+      isParseMediaRejection(error) ||
+      error._tag === 'MediaParsingError' ||
+      error._tag === 'MediaEngineUnavailableError'
+        ? E.fail(error)
+        : E.die(error),
+    ),
     E.withSpan('parseMediaUsecase', {
       attributes: {
         language: request.language,
+        engine: request.engine,
         source: 'url' in request ? 'url' : 'file',
       },
     }),
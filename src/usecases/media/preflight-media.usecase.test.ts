@@ -0,0 +1,119 @@
+import { describe, expect, it } from '@effect/vitest'
+import { Effect as E, Option } from 'effect'
+import { MockConfigLayer } from '../../config'
+import {
+  MediaTooLargeError,
+  MediaUnreachableError,
+  UnsupportedMediaTypeError,
+} from '../../domain/media/media.errors'
+import {
+  type MediaProbe,
+  MediaProbeStore,
+} from '../../stores/media/media-probe.store'
+import { getExitError } from '../../test-utils'
+import { preflightMediaUsecase } from './preflight-media.usecase'
+
+const request = { url: 'https://example.com/video.mp4', language: 'en' }
+
+const probing = (probe: MediaProbe) =>
+  MediaProbeStore.makeTestService({ probeUrl: () => E.succeed(probe) })
+
+// The mock config allows 4096 bytes and an hour of media
+describe('preflightMediaUsecase', () => {
+  it.effect('should accept supported media within the limits', () =>
+    E.gen(function* () {
+      const header = yield* preflightMediaUsecase(request)
+
+      expect(header).toEqual({
+        container: 'mp4',
+        mimeType: 'video/mp4',
+        duration: 60_000,
+      })
+    }).pipe(
+      E.provide(
+        probing({
+          header: Option.some({
+            container: 'mp4',
+            mimeType: 'video/mp4',
+            duration: 60_000,
+          }),
+          size: Option.some(4096),
+        }),
+      ),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.effect('should reject media it does not recognise', () =>
+    E.gen(function* () {
+      const exit = yield* preflightMediaUsecase(request).pipe(E.exit)
+
+      expect(getExitError(exit)).toEqual(
+        new UnsupportedMediaTypeError({
+          source: request.url,
+          reason: 'Media is not a supported audio or video container',
+        }),
+      )
+    }).pipe(
+      E.provide(probing({ header: Option.none(), size: Option.some(10) })),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.effect('should reject media over the size or duration limit', () =>
+    E.gen(function* () {
+      const tooBig = yield* preflightMediaUsecase(request).pipe(
+        E.provide(
+          probing({
+            header: Option.some({ container: 'wav', mimeType: 'audio/wav' }),
+            size: Option.some(4097),
+          }),
+        ),
+        E.exit,
+      )
+      const tooLong = yield* preflightMediaUsecase(request).pipe(
+        E.provide(
+          probing({
+            header: Option.some({
+              container: 'wav',
+              mimeType: 'audio/wav',
+              duration: 5_400_000,
+            }),
+            size: Option.none(),
+          }),
+        ),
+        E.exit,
+      )
+
+      expect(getExitError(tooBig)).toEqual(
+        new MediaTooLargeError({
+          source: request.url,
+          reason: 'Media is 4097 bytes, the limit is 4096',
+        }),
+      )
+      expect(getExitError(tooLong)).toEqual(
+        new MediaTooLargeError({
+          source: request.url,
+          reason: 'Media lasts 1h 30m, the limit is 1h',
+        }),
+      )
+    }).pipe(E.provide(MockConfigLayer)),
+  )
+
+  it.effect('should let unreachable URLs bubble up', () =>
+    E.gen(function* () {
+      const error = new MediaUnreachableError({
+        url: request.url,
+        reason: 'Transport error',
+      })
+      const exit = yield* preflightMediaUsecase(request).pipe(
+        E.provide(
+          MediaProbeStore.makeTestService({ probeUrl: () => E.fail(error) }),
+        ),
+        E.exit,
+      )
+
+      expect(getExitError(exit)).toEqual(error)
+    }).pipe(E.provide(MockConfigLayer)),
+  )
+})
@@ -0,0 +1,71 @@
+import { Duration, Effect as E, Option, type Schema } from 'effect'
+import { envVars } from '../../config'
+import {
+  MediaTooLargeError,
+  UnsupportedMediaTypeError,
+} from '../../domain/media/media.errors'
+import type { MediaRequest } from '../../domain/media/media.schema'
+import { MediaProbeStore } from '../../stores/media/media-probe.store'
+
+type MediaRequestType = Schema.Schema.Type<typeof MediaRequest>
+
+const formatMillis = (millis: number) =>
+  Duration.format(Duration.millis(Math.round(millis)))
+
+// Rejects media the engines cannot handle before a job is created for it
+export const preflightMediaUsecase = (request: MediaRequestType) =>
+  E.gen(function* () {
+    const probeStore = yield* MediaProbeStore
+    const maxSize = yield* envVars.MEDIA_MAX_SIZE
+    const maxDuration = yield* envVars.MEDIA_MAX_DURATION
+    const source = 'url' in request ? request.url : request.file.name
+    const probe =
+      'url' in request
+        ? yield* probeStore.probeUrl(request.url)
+        : yield* probeStore.probeFile(request.file.path)
+
+    if (Option.isNone(probe.header)) {
+      return yield* E.fail(
+        new UnsupportedMediaTypeError({
+          source,
+          reason: 'Media is not a supported audio or video container',
+        }),
+      )
+    }
+
+    const header = probe.header.value
+    yield* E.annotateCurrentSpan({
+      container: header.container,
+      mimeType: header.mimeType,
+      size: Option.getOrUndefined(probe.size),
+      duration: header.duration,
+    })
+
+    if (Option.isSome(probe.size) && probe.size.value > maxSize) {
+      return yield* E.fail(
+        new MediaTooLargeError({
+          source,
+          reason: `Media is ${probe.size.value} bytes, the limit is ${maxSize}`,
+        }),
+      )
+    }
+    if (
+      header.duration !== undefined &&
+      header.duration > Duration.toMillis(maxDuration)
+    ) {
+      return yield* E.fail(
+        new MediaTooLargeError({
+          source,
+          reason: `Media lasts ${formatMillis(header.duration)}, the limit is ${Duration.format(maxDuration)}`,
+        }),
+      )
+    }
+
+    return header
+  }).pipe(
+    E.tapError(E.logError),
+    // Let preflight errors bubble up for client handling
+    E.withSpan('preflightMediaUsecase', {
+      attributes: { source: 'url' in request ? 'url' : 'file' },
+    }),
+  )
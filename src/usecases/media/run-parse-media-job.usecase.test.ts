@@ -0,0 +1,437 @@
+import { NodeContext } from '@effect/platform-node'
+import { describe, expect, it } from '@effect/vitest'
+import { Deferred, Effect as E, Exit, Fiber, FiberId, Stream } from 'effect'
+import { MockConfigLayer } from '../../config'
+import { resultBlobPrefix } from '../../domain/blobs/blobs.schema'
+import { JobTranslationNotFoundError } from '../../domain/jobs/jobs.errors'
+import { MediaParsingError } from '../../domain/media/media.errors'
+import { TranslationError } from '../../domain/translations/translations.errors'
+import { BlobStore } from '../../stores/blobs/blob.store'
+import { GlossaryStore } from '../../stores/glossary/glossary.store'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+import { MediaStore } from '../../stores/media/media.store'
+import { TranslationStore } from '../../stores/translations/translation.store'
+import {
+  EmptyGlossaryLayer,
+  NoMediaCacheLayer,
+  SqliteTestLayer,
+  TestBlobStoreLayer,
+  TestTenantLayer,
+  getExitError,
+  makeTestLayer,
+} from '../../test-utils'
+import { runParseMediaJobUsecase } from './run-parse-media-job.usecase'
+
+const request = {
+  url: 'https://example.com/video.mp4',
+  language: 'en',
+}
+
+describe('runParseMediaJobUsecase', () => {
+  it.effect('should complete the job and store the subtitles', () =>
+    E.gen(function* () {
+      const jobsStore = yield* JobsStore
+      const job = yield* jobsStore.createJob({ name: 'Parse Video 1' })
+
+      yield* runParseMediaJobUsecase(job.id, request)
+
+      const stored = yield* jobsStore.getJobById(job.id)
+      const result = yield* jobsStore.getJobResult(job.id)
+
+      expect(stored.status).toBe('completed')
+      expect(result.result).toEqual([
+        { start: 0, end: 5000, text: 'Hello world' },
+      ])
+    }).pipe(
+      E.provide(
+        makeTestLayer(MediaStore)({
+          parseMedia: () =>
+            E.succeed({
+              json: [{ start: 0, end: 5000, text: 'Hello world' }],
+            }),
+        }),
+      ),
+      E.provide(NoMediaCacheLayer),
+      E.provide(TranslationStore.Fake),
+      E.provide(EmptyGlossaryLayer),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.effect('should segment the cues with the requested rules', () =>
+    E.gen(function* () {
+      const jobsStore = yield* JobsStore
+      const job = yield* jobsStore.createJob({ name: 'Parse Video 1' })
+
+      const response = yield* runParseMediaJobUsecase(job.id, {
+        ...request,
+        segmentation: 'broadcast',
+      })
+      const result = yield* jobsStore.getJobResult(job.id)
+
+      expect(result.result).toEqual([
+        { start: 0, end: 4500, text: 'This is the first sentence,' },
+        { start: 4667, end: 7000, text: 'spoken slowly.' },
+        { start: 7167, end: 10000, text: 'And a second one.' },
+      ])
+      expect(response.json).toEqual(result.result)
+    }).pipe(
+      E.provide(
+        makeTestLayer(MediaStore)({
+          parseMedia: () =>
+            E.succeed({
+              json: [
+                {
+                  start: 0,
+                  end: 10000,
+                  text: 'This is the first sentence, spoken slowly. And a second one.',
+                },
+              ],
+            }),
+        }),
+      ),
+      E.provide(NoMediaCacheLayer),
+      E.provide(TranslationStore.Fake),
+      E.provide(EmptyGlossaryLayer),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.effect('should translate the result into the target languages', () =>
+    E.gen(function* () {
+      const jobsStore = yield* JobsStore
+      const job = yield* jobsStore.createJob({
+        name: 'Parse Video 1',
+        language: 'en',
+      })
+
+      yield* runParseMediaJobUsecase(job.id, {
+        ...request,
+        targetLanguages: ['de', 'en', 'de'],
+      })
+
+      const german = yield* jobsStore.getJobResult(job.id, 'de')
+      const english = yield* jobsStore.getJobResult(job.id, 'en')
+      const french = yield* jobsStore.getJobResult(job.id, 'fr').pipe(E.exit)
+
+      expect(german.result).toEqual([
+        { start: 0, end: 5000, text: '[de] Hello world' },
+      ])
+      expect(english.result).toEqual([
+        { start: 0, end: 5000, text: 'Hello world' },
+      ])
+      expect(getExitError(french)).toEqual(
+        new JobTranslationNotFoundError({ jobId: job.id, language: 'fr' }),
+      )
+    }).pipe(
+      E.provide(
+        makeTestLayer(MediaStore)({
+          parseMedia: () =>
+            E.succeed({
+              json: [{ start: 0, end: 5000, text: 'Hello world' }],
+            }),
+        }),
+      ),
+      E.provide(NoMediaCacheLayer),
+      E.provide(TranslationStore.Fake),
+      E.provide(EmptyGlossaryLayer),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.effect('should complete the job when a translation fails', () =>
+    E.gen(function* () {
+      const jobsStore = yield* JobsStore
+      const job = yield* jobsStore.createJob({
+        name: 'Parse Video 1',
+        language: 'en',
+      })
+
+      yield* runParseMediaJobUsecase(job.id, {
+        ...request,
+        targetLanguages: ['de', 'fr'],
+      })
+
+      const stored = yield* jobsStore.getJobById(job.id)
+      const result = yield* jobsStore.getJobResult(job.id)
+      const german = yield* jobsStore.getJobResult(job.id, 'de')
+      const french = yield* jobsStore.getJobResult(job.id, 'fr').pipe(E.exit)
+
+      expect(stored.status).toBe('completed')
+      expect(result.translationFailures).toEqual({ fr: 'Engine down' })
+      expect(german.result).toEqual([
+        { start: 0, end: 5000, text: '[de] Hello world' },
+      ])
+      expect(getExitError(french)).toEqual(
+        new JobTranslationNotFoundError({ jobId: job.id, language: 'fr' }),
+      )
+    }).pipe(
+      E.provide(
+        makeTestLayer(MediaStore)({
+          parseMedia: () =>
+            E.succeed({
+              json: [{ start: 0, end: 5000, text: 'Hello world' }],
+            }),
+        }),
+      ),
+      E.provide(
+        makeTestLayer(TranslationStore)({
+          translate: (texts, options) =>
+            options.target === 'fr'
+              ? E.fail(
+                  new TranslationError({ ...options, error: 'Engine down' }),
+                )
+              : E.succeed(texts.map((text) => `[${options.target}] ${text}`)),
+        }),
+      ),
+      E.provide(NoMediaCacheLayer),
+      E.provide(EmptyGlossaryLayer),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.effect('should boost and apply the glossary of the tenant', () => {
+    const keywords: (readonly string[] | undefined)[] = []
+    return E.gen(function* () {
+      const jobsStore = yield* JobsStore
+      const glossaryStore = yield* GlossaryStore
+      const job = yield* jobsStore.createJob({ name: 'Parse Video 1' })
+      yield* glossaryStore.createTerm({
+        term: 'Kubernetes',
+        soundsLike: ['cube nettis'],
+      })
+
+      const response = yield* runParseMediaJobUsecase(job.id, request)
+      const result = yield* jobsStore.getJobResult(job.id)
+
+      expect(keywords).toEqual([['Kubernetes']])
+      expect(result.result).toEqual([
+        { start: 0, end: 5000, text: 'Hello Kubernetes' },
+      ])
+      expect(result.replacements).toEqual([
+        { from: 'cube nettis', to: 'Kubernetes', count: 1 },
+      ])
+      expect(response.replacements).toEqual(result.replacements)
+    }).pipe(
+      E.provide(
+        makeTestLayer(MediaStore)({
+          parseMedia: (media) => {
+            keywords.push(media.keywords)
+            return E.succeed({
+              json: [{ start: 0, end: 5000, text: 'Hello cube nettis' }],
+            })
+          },
+        }),
+      ),
+      E.provide(NoMediaCacheLayer),
+      E.provide(TranslationStore.Fake),
+      E.provide(GlossaryStore.Default),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    )
+  })
+
+  it.effect('should record the engine that answered', () =>
+    E.gen(function* () {
+      const jobsStore = yield* JobsStore
+      const job = yield* jobsStore.createJob({
+        name: 'Parse Video 1',
+        engine: 'deepgram',
+      })
+
+      yield* runParseMediaJobUsecase(job.id, { ...request, engine: 'deepgram' })
+      const stored = yield* jobsStore.getJobById(job.id)
+
+      expect(stored.status).toBe('completed')
+      expect(stored.engine).toBe('whisper')
+    }).pipe(
+      E.provide(
+        makeTestLayer(MediaStore)({
+          parseMedia: () =>
+            E.succeed({
+              json: [{ start: 0, end: 5000, text: 'Hello world' }],
+              engine: 'whisper',
+            }),
+        }),
+      ),
+      E.provide(NoMediaCacheLayer),
+      E.provide(TranslationStore.Fake),
+      E.provide(EmptyGlossaryLayer),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.effect('should mark the job as failed when parsing fails', () =>
+    E.gen(function* () {
+      const jobsStore = yield* JobsStore
+      const job = yield* jobsStore.createJob({ name: 'Parse Video 1' })
+
+      const result = yield* runParseMediaJobUsecase(job.id, request).pipe(
+        E.exit,
+      )
+      const stored = yield* jobsStore.getJobById(job.id)
+
+      expect(Exit.isFailure(result)).toBe(true)
+      expect(getExitError(result)?._tag).toBe('MediaParsingError')
+      expect(stored.status).toBe('failed')
+      expect(stored.failureReason).toBe('Engine down')
+    }).pipe(
+      E.provide(
+        makeTestLayer(MediaStore)({
+          parseMedia: () =>
+            E.fail(
+              new MediaParsingError({ source: 'url', error: 'Engine down' }),
+            ),
+        }),
+      ),
+      E.provide(NoMediaCacheLayer),
+      E.provide(TranslationStore.Fake),
+      E.provide(EmptyGlossaryLayer),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.effect('should mark the job as failed when anything else fails', () =>
+    E.gen(function* () {
+      const jobsStore = yield* JobsStore
+      const job = yield* jobsStore.createJob({ name: 'Parse Video 1' })
+
+      const result = yield* runParseMediaJobUsecase(job.id, request).pipe(
+        E.exit,
+      )
+      const stored = yield* jobsStore.getJobById(job.id)
+
+      expect(Exit.isFailure(result)).toBe(true)
+      expect(stored.status).toBe('failed')
+      expect(stored.failureReason).toBe('Database is locked')
+    }).pipe(
+      E.provide(
+        makeTestLayer(MediaStore)({
+          parseMedia: () => E.die('Not used'),
+        }),
+      ),
+      E.provide(NoMediaCacheLayer),
+      E.provide(TranslationStore.Fake),
+      E.provide(
+        GlossaryStore.makeTestService({
+          getGlossary: () => E.die('Database is locked'),
+        }),
+      ),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.effect('should mark the job as cancelled when interrupted', () => {
+    const parsing = Deferred.unsafeMake<void>(FiberId.none)
+    return E.gen(function* () {
+      const jobsStore = yield* JobsStore
+      const job = yield* jobsStore.createJob({ name: 'Parse Video 1' })
+
+      const fiber = yield* E.fork(runParseMediaJobUsecase(job.id, request))
+      yield* Deferred.await(parsing)
+      yield* Fiber.interrupt(fiber)
+      const stored = yield* jobsStore.getJobById(job.id)
+
+      expect(stored.status).toBe('cancelled')
+    }).pipe(
+      E.provide(
+        makeTestLayer(MediaStore)({
+          parseMedia: () =>
+            Deferred.succeed(parsing, undefined).pipe(E.zipRight(E.never)),
+        }),
+      ),
+      E.provide(NoMediaCacheLayer),
+      E.provide(TranslationStore.Fake),
+      E.provide(EmptyGlossaryLayer),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    )
+  })
+
+  it.effect('should store the subtitles in every format', () =>
+    E.gen(function* () {
+      const jobsStore = yield* JobsStore
+      const blobStore = yield* BlobStore
+      const job = yield* jobsStore.createJob({ name: 'Parse Video 1' })
+
+      yield* runParseMediaJobUsecase(job.id, request)
+
+      const prefix = resultBlobPrefix('tenant-test', job.id)
+      const files = yield* blobStore.list(prefix)
+      const srt = yield* blobStore.get(`${prefix}subtitles.srt`)
+
+      expect(files.map(({ key }) => key.slice(prefix.length)).sort()).toEqual([
+        'subtitles.json',
+        'subtitles.srt',
+        'subtitles.ttml',
+        'subtitles.txt',
+        'subtitles.vtt',
+      ])
+      expect(srt.contentType).toBe('application/x-subrip')
+      expect(
+        yield* srt.body.pipe(Stream.decodeText(), Stream.mkString),
+      ).toContain('Hello world')
+    }).pipe(
+      E.provide(
+        makeTestLayer(MediaStore)({
+          parseMedia: () =>
+            E.succeed({
+              json: [{ start: 0, end: 5000, text: 'Hello world' }],
+            }),
+        }),
+      ),
+      E.provide(NoMediaCacheLayer),
+      E.provide(TranslationStore.Fake),
+      E.provide(EmptyGlossaryLayer),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestBlobStoreLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+})
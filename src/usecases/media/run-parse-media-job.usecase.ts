@@ -0,0 +1,447 @@
+import { FileSystem } from '@effect/platform'
+import {
+  Array as Arr,
+  Cause,
+  Duration,
+  Effect as E,
+  Exit,
+  Inspectable,
+  Metric,
+  Option,
+  type Schema,
+  type Scope,
+  Stream,
+  Struct,
+} from 'effect'
+import { envVars } from '../../config'
+import { CurrentTenant } from '../../domain/auth/auth.schema'
+import type {
+  BlobNotFoundError,
+  BlobStoreError,
+} from '../../domain/blobs/blobs.errors'
+import { inputBlobKey } from '../../domain/blobs/blobs.schema'
+import { applyGlossary } from '../../domain/glossary/glossary.replace'
+import { glossaryKeywords } from '../../domain/glossary/glossary.schema'
+import {
+  JobProgressEvent,
+  JobSegmentEvent,
+} from '../../domain/jobs/jobs.schema'
+import type {
+  MediaTooLargeError,
+  MediaUnreachableError,
+  UnsupportedMediaTypeError,
+} from '../../domain/media/media.errors'
+import type {
+  MediaRequest,
+  StoredMediaRequest,
+  SubtitleJson,
+  UnifiedMediaRequest,
+} from '../../domain/media/media.schema'
+import { JobQuotaExceededError } from '../../domain/rate-limit/rate-limit.errors'
+import {
+  inFlightJobs,
+  jobQuotaRejections,
+} from '../../domain/rate-limit/rate-limit.metrics'
+import {
+  resolveSegmentationRules,
+  segmentCues,
+} from '../../domain/subtitles/subtitles.segment'
+import type {
+  UploadConflictError,
+  UploadNotFoundError,
+} from '../../domain/uploads/uploads.errors'
+import { WebhooksDisabledError } from '../../domain/webhooks/webhooks.errors'
+import { BlobStore } from '../../stores/blobs/blob.store'
+import { GlossaryStore } from '../../stores/glossary/glossary.store'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+import { MediaCacheStore } from '../../stores/media/media-cache.store'
+import {
+  type MediaProgressReporter,
+  MediaStore,
+  resolveMediaEngine,
+} from '../../stores/media/media.store'
+import { UploadsStore } from '../../stores/uploads/uploads.store'
+import { storeSubtitleFilesUsecase } from '../subtitles/store-subtitle-files.usecase'
+import { translateSubtitlesUsecase } from '../translations/translate-subtitles.usecase'
+import { preflightMediaUsecase } from './preflight-media.usecase'
+
+type MediaRequestType = Schema.Schema.Type<typeof MediaRequest>
+type StoredMediaRequestType = Schema.Schema.Type<typeof StoredMediaRequest>
+type UnifiedMediaRequestType = Schema.Schema.Type<typeof UnifiedMediaRequest>
+
+// Reasons a parse request is turned down before its job is created
+export type ParseMediaRejection =
+  | JobQuotaExceededError
+  | UnsupportedMediaTypeError
+  | MediaTooLargeError
+  | MediaUnreachableError
+  | UploadNotFoundError
+  | UploadConflictError
+  | WebhooksDisabledError
+
+const rejections: ReadonlySet<string> = new Set([
+  'JobQuotaExceededError',
+  'UnsupportedMediaTypeError',
+  'MediaTooLargeError',
+  'MediaUnreachableError',
+  'UploadNotFoundError',
+  'UploadConflictError',
+  'WebhooksDisabledError',
+])
+
+export const isParseMediaRejection = (error: {
+  readonly _tag: string
+}): error is ParseMediaRejection => rejections.has(error._tag)
+
+// Only a hint, there is no telling when one of the running jobs finishes
+const JOB_QUOTA_RETRY_AFTER = Duration.seconds(5)
+
+const rejectOverQuota = (tenant: string, limit: number) =>
+  Metric.increment(Metric.tagged(jobQuotaRejections, 'tenant', tenant)).pipe(
+    E.zipRight(
+      E.fail(
+        new JobQuotaExceededError({
+          tenant,
+          limit,
+          retryAfter: JOB_QUOTA_RETRY_AFTER,
+        }),
+      ),
+    ),
+  )
+
+// Caps the jobs a tenant can have queued or running at once. Only an early
+// check, jobs are counted again as they are created, see `insertParseMediaJob`
+export const checkJobQuota = E.gen(function* () {
+  const jobsStore = yield* JobsStore
+  const tenant = yield* CurrentTenant
+  const limit = yield* envVars.TENANT_MAX_CONCURRENT_JOBS.pipe(E.orDie)
+  const active = yield* jobsStore.countActiveJobs()
+
+  yield* Metric.set(Metric.tagged(inFlightJobs, 'tenant', tenant.id), active)
+  if (active >= limit) {
+    return yield* rejectOverQuota(tenant.id, limit)
+  }
+})
+
+// Callbacks are signed with `WEBHOOK_SECRET`, they can't be sent without it
+export const checkCallbackUrl = (options: { readonly callbackUrl?: string }) =>
+  E.gen(function* () {
+    const secret = yield* envVars.WEBHOOK_SECRET.pipe(E.orDie)
+    if (options.callbackUrl && Option.isNone(secret)) {
+      return yield* E.fail(
+        new WebhooksDisabledError({
+          reason: 'Callbacks are disabled, WEBHOOK_SECRET is not set',
+        }),
+      )
+    }
+  })
+
+// Uploads are parsed from their file in place, jobs keep a copy in the blob store
+export const resolveMediaRequest = (
+  request: UnifiedMediaRequestType,
+): E.Effect<
+  MediaRequestType,
+  UploadNotFoundError | UploadConflictError,
+  UploadsStore | CurrentTenant
+> =>
+  'uploadId' in request
+    ? UploadsStore.pipe(
+        E.flatMap((uploadsStore) =>
+          uploadsStore.getUploadedFile(request.uploadId),
+        ),
+        E.map((file) => ({ ...Struct.omit(request, 'uploadId'), file })),
+      )
+    : E.succeed(request)
+
+// Once its job keeps a copy of the media, the upload a request named is done with
+export const releaseUpload = (request: UnifiedMediaRequestType) =>
+  'uploadId' in request
+    ? UploadsStore.pipe(
+        E.flatMap((uploadsStore) =>
+          uploadsStore.deleteUpload(request.uploadId),
+        ),
+        // Deleted meanwhile by the client
+        E.catchTag('UploadNotFoundError', () => E.void),
+      )
+    : E.void
+
+/**
+ * Copies the media of a file request to the blob store, so its job can run
+ * after the request ends and be retried later.
+ */
+export const storeMediaInput = (
+  request: MediaRequestType,
+): E.Effect<
+  StoredMediaRequestType,
+  BlobStoreError,
+  BlobStore | CurrentTenant
+> =>
+  'file' in request
+    ? E.gen(function* () {
+        const blobStore = yield* BlobStore
+        const tenant = yield* CurrentTenant
+        const { name, contentType, path } = request.file
+        const blobKey = inputBlobKey(tenant.id, crypto.randomUUID())
+
+        yield* blobStore.putFile(blobKey, path, { contentType })
+        return { ...request, file: { name, contentType, blobKey } }
+      })
+    : E.succeed(request)
+
+// Media kept in the blob store is downloaded for as long as the scope lasts
+export const loadMediaInput = (
+  request: StoredMediaRequestType,
+): E.Effect<
+  MediaRequestType,
+  BlobNotFoundError | BlobStoreError,
+  BlobStore | FileSystem.FileSystem | Scope.Scope
+> =>
+  E.gen(function* () {
+    if (!('file' in request)) {
+      return request
+    }
+    const { file, ...options } = request
+    if (!('blobKey' in file)) {
+      return { ...options, file }
+    }
+
+    const blobStore = yield* BlobStore
+    const fs = yield* FileSystem.FileSystem
+    const blob = yield* blobStore.get(file.blobKey)
+    // Local disk failures are nothing the job can recover from
+    const path = yield* fs.makeTempFileScoped().pipe(E.orDie)
+    yield* Stream.run(blob.body, fs.sink(path)).pipe(
+      E.catchTags({ BadArgument: E.die, SystemError: E.die }),
+    )
+
+    return {
+      ...options,
+      file: { name: file.name, contentType: file.contentType, path },
+    }
+  })
+
+// Drops the stored media once its job no longer needs it, leftovers expire with `BLOB_INPUT_RETENTION`
+export const releaseMediaInput = (request: StoredMediaRequestType) =>
+  E.gen(function* () {
+    if (!('file' in request) || !('blobKey' in request.file)) {
+      return
+    }
+    const blobStore = yield* BlobStore
+    yield* blobStore.delete(request.file.blobKey)
+  }).pipe(
+    E.catchAll((error) => E.logWarning('Media input not released', error)),
+  )
+
+// Preflights the media and pins the engine on the request so a queued or retried job runs with the
+// engine it was recorded with. The job itself is created by `insertParseMediaJob`
+export const prepareParseMediaJob = (request: MediaRequestType) =>
+  E.gen(function* () {
+    yield* checkCallbackUrl(request)
+    yield* preflightMediaUsecase(request)
+    const engine = yield* resolveMediaEngine(request)
+    const pinned = { ...request, engine }
+    const stored = yield* storeMediaInput(pinned)
+    yield* E.annotateCurrentSpan('engine', engine)
+    return { request: pinned, stored }
+  })
+
+export type PreparedParseMediaJob = E.Effect.Success<
+  ReturnType<typeof prepareParseMediaJob>
+>
+
+// Created only while the tenant has room in its job quota, the stored media
+// is released when the job can't be created
+export const insertParseMediaJob = ({
+  request,
+  stored,
+}: PreparedParseMediaJob) =>
+  E.gen(function* () {
+    const jobsStore = yield* JobsStore
+    const tenant = yield* CurrentTenant
+    const limit = yield* envVars.TENANT_MAX_CONCURRENT_JOBS.pipe(E.orDie)
+    const job = yield* jobsStore.createJobWithinLimit(
+      {
+        name: 'url' in request ? request.url : request.file.name,
+        engine: request.engine,
+        language: request.language,
+        request: stored,
+      },
+      limit,
+    )
+    if (Option.isNone(job)) {
+      return yield* rejectOverQuota(tenant.id, limit)
+    }
+    return job.value
+  }).pipe(E.onError(() => releaseMediaInput(stored)))
+
+// Callers check the tenant's job quota first, see `checkJobQuota`
+export const createParseMediaJob = (request: MediaRequestType) =>
+  E.gen(function* () {
+    const prepared = yield* prepareParseMediaJob(request)
+    const job = yield* insertParseMediaJob(prepared)
+    return { job, ...prepared }
+  })
+
+// Translations of the result by target language, the job language is left out.
+// A failed translation doesn't fail the job, its reason is kept by language
+const translateJobResult = (
+  cues: Schema.Schema.Type<typeof SubtitleJson>,
+  request: StoredMediaRequestType,
+) =>
+  E.partition(
+    Arr.dedupe(request.targetLanguages ?? []).filter(
+      (language) => language !== request.language,
+    ),
+    (target) =>
+      translateSubtitlesUsecase(cues, {
+        source: request.language,
+        target,
+        segmentation: request.segmentation,
+      }).pipe(
+        E.mapBoth({
+          onFailure: ({ error }) =>
+            [target, Inspectable.toStringUnknown(error)] as const,
+          onSuccess: (translated) => [target, translated] as const,
+        }),
+      ),
+  ).pipe(
+    E.map(([failures, translations]) => ({
+      translations: Object.fromEntries(translations),
+      translationFailures: Arr.isNonEmptyArray(failures)
+        ? Object.fromEntries(failures)
+        : undefined,
+    })),
+  )
+
+// Parses, corrects, segments and translates the media of an in-progress job
+const runJob = (jobId: number, request: StoredMediaRequestType) =>
+  E.gen(function* () {
+    const jobsStore = yield* JobsStore
+    const mediaStore = yield* MediaStore
+    const mediaCache = yield* MediaCacheStore
+    const glossaryStore = yield* GlossaryStore
+    const tenant = yield* CurrentTenant
+
+    const glossary = yield* glossaryStore.getGlossary()
+    const loaded = yield* loadMediaInput(request)
+    const media =
+      glossary.length > 0
+        ? { ...loaded, keywords: glossaryKeywords(glossary) }
+        : loaded
+
+    // Engines producing cues incrementally stream them to job subscribers
+    const reportProgress: MediaProgressReporter = ({ percent, cue }) =>
+      E.all(
+        [
+          jobsStore.publishJobEvent(JobSegmentEvent.make({ jobId, cue })),
+          jobsStore.publishJobEvent(JobProgressEvent.make({ jobId, percent })),
+        ],
+        { discard: true },
+      ).pipe(E.provideService(CurrentTenant, tenant))
+
+    // Identical requests are answered from the cache or share a running parse
+    const result = yield* mediaCache.getOrParse(
+      media,
+      mediaStore.parseMedia,
+      reportProgress,
+    )
+    // Cached results stay as the engine returned them, whatever the glossary
+    // or rules. Terms are corrected first, cues are segmented by their text
+    const corrected = applyGlossary(result.json, glossary)
+    const replacements =
+      glossary.length > 0 ? corrected.replacements : undefined
+    const cues = request.segmentation
+      ? segmentCues(
+          corrected.cues,
+          resolveSegmentationRules(request.segmentation),
+        )
+      : corrected.cues
+    const { translations, translationFailures } = yield* translateJobResult(
+      cues,
+      request,
+    )
+
+    // Stored before the job completes, so completed jobs have their files.
+    // Results are rendered on demand when they could not be stored
+    yield* storeSubtitleFilesUsecase(jobId, cues, {
+      language: request.language,
+    }).pipe(
+      E.catchAll((error) => E.logWarning('Subtitle files not stored', error)),
+    )
+    // Not interrupted once committed, the job would be settled as cancelled
+    yield* jobsStore
+      .transitionJob(jobId, {
+        status: 'completed',
+        result: cues,
+        translations,
+        translationFailures,
+        replacements,
+        engine: result.engine,
+      })
+      .pipe(E.uninterruptible)
+    return { ...result, json: cues, replacements }
+  })
+
+type JobFailure = E.Effect.Error<ReturnType<typeof runJob>>
+
+// What the engine said when it failed, the cause itself otherwise
+const jobFailureReason = (cause: Cause.Cause<JobFailure>) =>
+  Inspectable.toStringUnknown(
+    Option.match(Cause.failureOption(cause), {
+      onNone: () => Cause.squash(cause),
+      onSome: (error) => {
+        switch (error._tag) {
+          case 'MediaParsingError':
+            return error.error
+          case 'MediaEngineUnavailableError':
+            return error.reason
+          default:
+            return error
+        }
+      },
+    }),
+  )
+
+export const runParseMediaJobUsecase = (
+  jobId: number,
+  request: StoredMediaRequestType,
+) =>
+  E.gen(function* () {
+    const jobsStore = yield* JobsStore
+
+    yield* jobsStore.transitionJob(jobId, { status: 'in-progress' })
+
+    // Whatever stops the job short of completing it is recorded, so it never
+    // stays in progress and keeps taking a slot of the tenant's quota
+    const settleJob = <A>(exit: Exit.Exit<A, JobFailure>) =>
+      Exit.isSuccess(exit)
+        ? E.void
+        : jobsStore
+            .transitionJob(
+              jobId,
+              Exit.isInterrupted(exit)
+                ? { status: 'cancelled' }
+                : {
+                    status: 'failed',
+                    failureReason: jobFailureReason(exit.cause),
+                  },
+            )
+            .pipe(
+              // Already completed, cancelled or deleted
+              E.catchAll((error) => E.logWarning('Job not settled', error)),
+            )
+
+    return yield* runJob(jobId, request).pipe(E.onExit(settleJob))
+  }).pipe(
+    E.scoped,
+    E.tapError(E.logError),
+    // Let domain errors bubble up so callers decide how to report them
+    E.withSpan('runParseMediaJobUsecase', {
+      attributes: {
+        jobId,
+        language: request.language,
+        engine: request.engine,
+        source: 'url' in request ? 'url' : 'file',
+      },
+    }),
+  )
@@ -0,0 +1,41 @@
+import { Effect as E, type Schema } from 'effect'
+import {
+  MediaJobAccepted,
+  type UnifiedMediaRequest,
+} from '../../domain/media/media.schema'
+import { ParseMediaWorker } from '../../workers/parse-media.worker'
+import {
+  checkJobQuota,
+  createParseMediaJob,
+  isParseMediaRejection,
+  releaseUpload,
+  resolveMediaRequest,
+} from './run-parse-media-job.usecase'
+
+type UnifiedMediaRequestType = Schema.Schema.Type<typeof UnifiedMediaRequest>
+
+export const submitParseMediaUsecase = (request: UnifiedMediaRequestType) =>
+  E.gen(function* () {
+    const worker = yield* ParseMediaWorker
+    const media = yield* resolveMediaRequest(request)
+    yield* checkJobQuota
+    const { job, stored } = yield* createParseMediaJob(media)
+
+    yield* releaseUpload(request)
+    yield* worker.enqueue({ jobId: job.id, request: stored })
+
+    return MediaJobAccepted.make({ jobId: job.id, status: 'pending' })
+  }).pipe(
+    E.tapError(E.logError),
+    // Let rejections bubble up for client handling, die on anything else
+    E.catchAll((error) =>
+      isParseMediaRejection(error) ? E.fail(error) : E.die(error),
+    ),
+    E.withSpan('submitParseMediaUsecase', {
+      attributes: {
+        language: request.language,
+        engine: request.engine,
+        source: 'url' in request ? 'url' : 'file',
+      },
+    }),
+  )
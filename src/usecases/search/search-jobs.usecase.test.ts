@@ -0,0 +1,53 @@
+import { describe, expect, it } from '@effect/vitest'
+import { Effect as E } from 'effect'
+import { MockConfigLayer } from '../../config'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+import { SearchStore } from '../../stores/search/search.store'
+import { SqliteTestLayer, TestTenantLayer } from '../../test-utils'
+import { searchJobsUsecase } from './search-jobs.usecase'
+
+describe('searchJobsUsecase', () => {
+  it.effect('should return the jobs with matching cues', () =>
+    E.gen(function* () {
+      const store = yield* JobsStore
+      const job = yield* store.createJob({ name: 'Lecture 1' })
+      yield* store.transitionJob(job.id, { status: 'in-progress' })
+      yield* store.transitionJob(job.id, {
+        status: 'completed',
+        result: [{ start: 0, end: 2000, text: 'Monads chain effects.' }],
+      })
+
+      const result = yield* searchJobsUsecase({ q: 'monads' })
+
+      expect(result.results).toHaveLength(1)
+      expect(result.results[0]?.id).toBe(job.id)
+      expect(result.results[0]?.hits[0]?.snippet).toBe(
+        '<mark>Monads</mark> chain effects.',
+      )
+    }).pipe(
+      E.provide(SearchStore.Default),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.effect('should work with test service', () =>
+    E.gen(function* () {
+      const result = yield* searchJobsUsecase({ q: 'monads', limit: 5 })
+
+      expect(result.results).toEqual([])
+    }).pipe(
+      E.provide(
+        SearchStore.makeTestService({
+          search: (query) =>
+            query.limit === 5
+              ? E.succeed({ results: [] })
+              : E.die('Unexpected query'),
+        }),
+      ),
+      E.provide(TestTenantLayer),
+    ),
+  )
+})
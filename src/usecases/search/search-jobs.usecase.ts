@@ -0,0 +1,14 @@
+import { Effect as E } from 'effect'
+import type { SearchQuery } from '../../domain/search/search.schema'
+import { SearchStore } from '../../stores/search/search.store'
+
+export const searchJobsUsecase = (query: SearchQuery) =>
+  E.gen(function* () {
+    const searchStore = yield* SearchStore
+    return yield* searchStore.search(query)
+  }).pipe(
+    E.tapError(E.logError),
+    E.withSpan('searchJobsUsecase', {
+      attributes: { ...query },
+    }),
+  )
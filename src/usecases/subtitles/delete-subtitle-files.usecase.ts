@@ -0,0 +1,21 @@
+import { Effect as E } from 'effect'
+import { CurrentTenant } from '../../domain/auth/auth.schema'
+import { resultBlobPrefix } from '../../domain/blobs/blobs.schema'
+import { BlobStore } from '../../stores/blobs/blob.store'
+
+export const deleteSubtitleFilesUsecase = (jobId: number) =>
+  E.gen(function* () {
+    const blobStore = yield* BlobStore
+    const tenant = yield* CurrentTenant
+    const files = yield* blobStore.list(resultBlobPrefix(tenant.id, jobId))
+
+    yield* E.forEach(files, ({ key }) => blobStore.delete(key), {
+      discard: true,
+    })
+  }).pipe(
+    E.tapError(E.logError),
+    // Let BlobStoreError bubble up for callers to decide
+    E.withSpan('deleteSubtitleFilesUsecase', {
+      attributes: { jobId },
+    }),
+  )
@@ -0,0 +1,45 @@
+import { Duration, Effect as E, type Schema } from 'effect'
+import { envVars } from '../../config'
+import type { SubtitleJson } from '../../domain/media/media.schema'
+import { formatSubtitles } from '../../domain/subtitles/subtitles.format'
+import {
+  SubtitleContentTypes,
+  type SubtitleFormat,
+} from '../../domain/subtitles/subtitles.schema'
+
+type SubtitleJsonType = Schema.Schema.Type<typeof SubtitleJson>
+
+export type SubtitleExportOptions = {
+  readonly maxLineLength?: number
+  readonly maxCueDuration?: number
+  readonly language?: string
+}
+
+export const exportSubtitlesUsecase = (
+  cues: SubtitleJsonType,
+  format: Exclude<SubtitleFormat, 'json'>,
+  options: SubtitleExportOptions = {},
+) =>
+  E.gen(function* () {
+    // Per-request limits win over the configured defaults
+    const maxLineLength =
+      options.maxLineLength ?? (yield* envVars.SUBTITLE_MAX_LINE_LENGTH)
+    const maxCueDuration =
+      options.maxCueDuration ??
+      Duration.toMillis(yield* envVars.SUBTITLE_MAX_CUE_DURATION)
+
+    return {
+      contentType: SubtitleContentTypes[format],
+      content: formatSubtitles(cues, format, {
+        maxLineLength,
+        maxCueDuration,
+        language: options.language,
+      }),
+    }
+  }).pipe(
+    E.tapError(E.logError),
+    E.orDie, // Die on any unexpected errors
+    E.withSpan('exportSubtitlesUsecase', {
+      attributes: { format, cues: cues.length },
+    }),
+  )
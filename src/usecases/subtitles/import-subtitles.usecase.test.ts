@@ -0,0 +1,81 @@
+import { FileSystem } from '@effect/platform'
+import { NodeContext } from '@effect/platform-node'
+import { describe, expect, it } from '@effect/vitest'
+import { Effect as E, type Schema } from 'effect'
+import { MockConfigLayer } from '../../config'
+import type { ImportSubtitlesRequest } from '../../domain/subtitles/subtitles.schema'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+import {
+  SqliteTestLayer,
+  TestTenantLayer,
+  makePersistedFile,
+} from '../../test-utils'
+import { importSubtitlesUsecase } from './import-subtitles.usecase'
+
+type ImportSubtitlesRequestType = Schema.Schema.Type<
+  typeof ImportSubtitlesRequest
+>
+
+const uploadSubtitles = (name: string, content: string) =>
+  E.gen(function* () {
+    const fs = yield* FileSystem.FileSystem
+    const path = yield* fs.makeTempFileScoped({ prefix: 'subtitles-' })
+    yield* fs.writeFileString(path, content)
+    return {
+      file: makePersistedFile({ name, contentType: 'text/plain', path }),
+    } as ImportSubtitlesRequestType
+  })
+
+describe('importSubtitlesUsecase', () => {
+  it.scoped('should store valid files as completed jobs', () =>
+    E.gen(function* () {
+      const request = yield* uploadSubtitles(
+        'lecture.vtt',
+        'WEBVTT\n\n00:01.000 --> 00:02.500\nHello world\n',
+      )
+      const job = yield* importSubtitlesUsecase(request)
+
+      const jobsStore = yield* JobsStore
+      const { jobs } = yield* jobsStore.getAllJobs()
+      const result = yield* jobsStore.getJobResult(job.id)
+
+      expect(job.status).toBe('completed')
+      expect(jobs.map(({ name }) => name)).toEqual(['lecture.vtt'])
+      expect(result.result).toEqual([
+        { start: 1000, end: 2500, text: 'Hello world' },
+      ])
+    }).pipe(
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.scoped('should reject malformed files without creating a job', () =>
+    E.gen(function* () {
+      const request = yield* uploadSubtitles(
+        'lecture.srt',
+        '1\n00:00:01,000 --> 00:00:02,000\n',
+      )
+      const error = yield* importSubtitlesUsecase(request).pipe(E.flip)
+
+      const jobsStore = yield* JobsStore
+      const { jobs } = yield* jobsStore.getAllJobs()
+
+      expect(error).toMatchObject({
+        _tag: 'SubtitleParseError',
+        fileName: 'lecture.srt',
+        issues: [{ line: 2, reason: 'Cue has no text' }],
+      })
+      expect(jobs).toHaveLength(0)
+    }).pipe(
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(NodeContext.layer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+})
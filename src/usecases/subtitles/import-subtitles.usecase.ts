@@ -0,0 +1,54 @@
+import { FileSystem } from '@effect/platform'
+import { Effect as E, Either, type Schema } from 'effect'
+import { SubtitleParseError } from '../../domain/subtitles/subtitles.errors'
+import {
+  detectSubtitleFormat,
+  parseSubtitles,
+} from '../../domain/subtitles/subtitles.parse'
+import type { ImportSubtitlesRequest } from '../../domain/subtitles/subtitles.schema'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+
+type ImportSubtitlesRequestType = Schema.Schema.Type<
+  typeof ImportSubtitlesRequest
+>
+
+export const importSubtitlesUsecase = (request: ImportSubtitlesRequestType) =>
+  E.gen(function* () {
+    const fs = yield* FileSystem.FileSystem
+    const jobsStore = yield* JobsStore
+    const { file } = request
+
+    const content = yield* fs.readFileString(file.path).pipe(E.orDie)
+    const format = request.format ?? detectSubtitleFormat(file.name, content)
+    yield* E.annotateCurrentSpan('format', format)
+
+    const cues = parseSubtitles(content, format)
+    if (Either.isLeft(cues)) {
+      return yield* E.fail(
+        new SubtitleParseError({ fileName: file.name, issues: cues.left }),
+      )
+    }
+
+    // Imported files skip parsing but still walk the job lifecycle
+    const job = yield* jobsStore.createJob({
+      name: file.name,
+      language: request.language,
+    })
+    return yield* jobsStore
+      .transitionJob(job.id, { status: 'in-progress' })
+      .pipe(
+        E.zipRight(
+          jobsStore.transitionJob(job.id, {
+            status: 'completed',
+            result: cues.right,
+          }),
+        ),
+        E.orDie,
+      )
+  }).pipe(
+    E.tapError(E.logError),
+    // Let SubtitleParseError bubble up for client handling
+    E.withSpan('importSubtitlesUsecase', {
+      attributes: { fileName: request.file.name },
+    }),
+  )
@@ -0,0 +1,59 @@
+import { Effect as E, Schema } from 'effect'
+import { CurrentTenant } from '../../domain/auth/auth.schema'
+import { resultBlobKey } from '../../domain/blobs/blobs.schema'
+import { JobResultResponse } from '../../domain/jobs/jobs.schema'
+import type { SubtitleJson } from '../../domain/media/media.schema'
+import {
+  SubtitleContentTypes,
+  SubtitleFormat,
+} from '../../domain/subtitles/subtitles.schema'
+import { BlobStore } from '../../stores/blobs/blob.store'
+import {
+  type SubtitleExportOptions,
+  exportSubtitlesUsecase,
+} from './export-subtitles.usecase'
+
+type SubtitleJsonType = Schema.Schema.Type<typeof SubtitleJson>
+
+const encoder = new TextEncoder()
+
+const JobResultJson = Schema.parseJson(JobResultResponse)
+
+/**
+ * Stores the result of a job in every subtitle format, rendered with the
+ * configured limits. The JSON file matches `GET /media/job/{id}/result`.
+ */
+export const storeSubtitleFilesUsecase = (
+  jobId: number,
+  cues: SubtitleJsonType,
+  options: SubtitleExportOptions = {},
+) =>
+  E.gen(function* () {
+    const blobStore = yield* BlobStore
+    const tenant = yield* CurrentTenant
+
+    yield* E.forEach(
+      SubtitleFormat.literals,
+      (format) =>
+        E.gen(function* () {
+          const content =
+            format === 'json'
+              ? yield* Schema.encode(JobResultJson)({ id: jobId, result: cues })
+              : (yield* exportSubtitlesUsecase(cues, format, options)).content
+
+          yield* blobStore.put(
+            resultBlobKey(tenant.id, jobId, format),
+            encoder.encode(content),
+            { contentType: SubtitleContentTypes[format] },
+          )
+        }),
+      { discard: true },
+    )
+  }).pipe(
+    E.tapError(E.logError),
+    // Let BlobStoreError bubble up, results can still be rendered on demand
+    E.catchTag('ParseError', E.die),
+    E.withSpan('storeSubtitleFilesUsecase', {
+      attributes: { jobId, cues: cues.length },
+    }),
+  )
@@ -0,0 +1,108 @@
+import { describe, expect, it } from '@effect/vitest'
+import { Effect as E } from 'effect'
+import { TranslationError } from '../../domain/translations/translations.errors'
+import { TranslationStore } from '../../stores/translations/translation.store'
+import { getExitError, makeTestLayer } from '../../test-utils'
+import { translateSubtitlesUsecase } from './translate-subtitles.usecase'
+
+const cues = [
+  { start: 0, end: 2000, text: 'Hello world.' },
+  {
+    start: 2500,
+    end: 6000,
+    text: 'Welcome to the course on\nfunctional programming.',
+  },
+]
+
+// Translations twice as long as their source
+const VerboseTranslationLayer = makeTestLayer(TranslationStore)({
+  translate: (texts) => E.succeed(texts.map((text) => `${text} ${text}`)),
+})
+
+describe('translateSubtitlesUsecase', () => {
+  it.effect('should keep the timing of every cue', () =>
+    E.gen(function* () {
+      const translated = yield* translateSubtitlesUsecase(cues, {
+        source: 'en',
+        target: 'de',
+      })
+
+      expect(translated).toEqual([
+        { start: 0, end: 2000, text: '[de] Hello world.' },
+        {
+          start: 2500,
+          end: 6000,
+          text: '[de] Welcome to the course on functional programming.',
+        },
+      ])
+    }).pipe(E.provide(TranslationStore.Fake)),
+  )
+
+  it.effect('should segment translations again', () =>
+    E.gen(function* () {
+      const translated = yield* translateSubtitlesUsecase(cues, {
+        source: 'en',
+        target: 'de',
+        segmentation: { maxCharsPerLine: 30, maxLines: 1 },
+      })
+
+      expect(translated.map(({ text }) => text)).toEqual([
+        'Hello world.',
+        'Hello world.',
+        'Welcome to the course on',
+        'functional programming.',
+        'Welcome to the course on',
+        'functional programming.',
+      ])
+      // Within the source timing, the last cue held on to be read
+      expect(translated[0]?.start).toBe(0)
+      expect(translated.at(-1)?.start).toBeLessThan(6000)
+    }).pipe(E.provide(VerboseTranslationLayer)),
+  )
+
+  it.effect('should fail with the engine error', () =>
+    E.gen(function* () {
+      const error = new TranslationError({
+        source: 'en',
+        target: 'de',
+        error: 'Language not supported',
+      })
+
+      const exit = yield* translateSubtitlesUsecase(cues, {
+        source: 'en',
+        target: 'de',
+      }).pipe(
+        E.provide(
+          makeTestLayer(TranslationStore)({ translate: () => E.fail(error) }),
+        ),
+        E.exit,
+      )
+
+      expect(getExitError(exit)).toEqual(error)
+    }),
+  )
+
+  it.effect('should fail when translations are missing', () =>
+    E.gen(function* () {
+      const exit = yield* translateSubtitlesUsecase(cues, {
+        source: 'en',
+        target: 'de',
+      }).pipe(
+        E.provide(
+          makeTestLayer(TranslationStore)({
+            translate: (texts) => E.succeed(texts.slice(1)),
+          }),
+        ),
+        E.exit,
+      )
+
+      expect(getExitError(exit)).toEqual(
+        new TranslationError({
+          source: 'en',
+          target: 'de',
+          error: `Expected ${cues.length} translations, got ${cues.length - 1}`,
+        }),
+      )
+    }),
+  )
+})
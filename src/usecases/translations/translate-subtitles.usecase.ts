@@ -0,0 +1,66 @@
+import { Array as Arr, Effect as E, type Schema, Struct } from 'effect'
+import type { SubtitleJson } from '../../domain/media/media.schema'
+import { toWords } from '../../domain/subtitles/subtitles.format'
+import type { SubtitleSegmentation } from '../../domain/subtitles/subtitles.schema'
+import {
+  resolveSegmentationRules,
+  segmentCues,
+} from '../../domain/subtitles/subtitles.segment'
+import { TranslationError } from '../../domain/translations/translations.errors'
+import { TranslationStore } from '../../stores/translations/translation.store'
+
+type SubtitleJsonType = Schema.Schema.Type<typeof SubtitleJson>
+
+export type TranslateSubtitlesOptions = {
+  readonly source: string
+  readonly target: string
+  readonly segmentation?: SubtitleSegmentation
+}
+
+/**
+ * Translates cue by cue, so every cue keeps its timing and speaker.
+ * Translations are rarely as long as their source, segmented cues are
+ * segmented again.
+ */
+export const translateSubtitlesUsecase = (
+  cues: SubtitleJsonType,
+  options: TranslateSubtitlesOptions,
+) =>
+  E.gen(function* () {
+    const translationStore = yield* TranslationStore
+    // Line breaks are for the source text, the translation is wrapped anew
+    const texts = cues.map((cue) => toWords(cue.text).join(' '))
+    const translations = yield* translationStore.translate(texts, {
+      source: options.source,
+      target: options.target,
+    })
+    // Cues without a translation would keep the source text
+    if (translations.length !== cues.length) {
+      return yield* E.fail(
+        new TranslationError({
+          source: options.source,
+          target: options.target,
+          error: `Expected ${cues.length} translations, got ${translations.length}`,
+        }),
+      )
+    }
+    // Word timings are for the source words, speakers carry over
+    const translated = Arr.zipWith(cues, translations, (cue, text) => ({
+      ...Struct.omit(cue, 'words'),
+      text,
+    }))
+
+    return options.segmentation
+      ? segmentCues(translated, resolveSegmentationRules(options.segmentation))
+      : translated
+  }).pipe(
+    E.tapError(E.logError),
+    // Let TranslationError bubble up, jobs record it by target language
+    E.withSpan('translateSubtitlesUsecase', {
+      attributes: {
+        source: options.source,
+        target: options.target,
+        cues: cues.length,
+      },
+    }),
+  )
@@ -0,0 +1,42 @@
+import { Effect as E, type Stream } from 'effect'
+import { MediaTooLargeError } from '../../domain/media/media.errors'
+import { UploadsStore } from '../../stores/uploads/uploads.store'
+
+export type UploadChunk<BodyError> = {
+  readonly body: Stream.Stream<Uint8Array, BodyError>
+  // Declared by the client, chunked bodies are only checked while streamed
+  readonly length?: number
+}
+
+export const appendUploadUsecase = <BodyError>(
+  id: string,
+  offset: number,
+  chunk: UploadChunk<BodyError>,
+) =>
+  E.gen(function* () {
+    const uploadsStore = yield* UploadsStore
+    const current = yield* uploadsStore.getUpload(id)
+
+    // Checked before reading, a body abandoned halfway resets the connection
+    if (
+      chunk.length !== undefined &&
+      current.offset + chunk.length > current.length
+    ) {
+      return yield* E.fail(
+        new MediaTooLargeError({
+          source: id,
+          reason: `Upload would exceed its length of ${current.length} bytes`,
+        }),
+      )
+    }
+
+    const upload = yield* uploadsStore.appendUpload(id, offset, chunk.body)
+    yield* E.annotateCurrentSpan('received', upload.offset - offset)
+    return upload
+  }).pipe(
+    E.tapError(E.logError),
+    // Let upload errors bubble up for client handling
+    E.withSpan('appendUploadUsecase', {
+      attributes: { uploadId: id, offset, length: chunk.length },
+    }),
+  )
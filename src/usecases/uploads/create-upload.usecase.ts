@@ -0,0 +1,41 @@
+import { Effect as E, type Schema } from 'effect'
+import { envVars } from '../../config'
+import { MediaTooLargeError } from '../../domain/media/media.errors'
+import { parseUploadMetadata } from '../../domain/uploads/uploads.metadata'
+import type { CreateUploadHeaders } from '../../domain/uploads/uploads.schema'
+import { UploadsStore } from '../../stores/uploads/uploads.store'
+
+type CreateUploadHeadersType = Schema.Schema.Type<typeof CreateUploadHeaders>
+
+// Names and types follow the metadata keys tus clients send by default
+export const createUploadUsecase = (headers: CreateUploadHeadersType) =>
+  E.gen(function* () {
+    const uploadsStore = yield* UploadsStore
+    const maxSize = yield* envVars.MEDIA_MAX_SIZE.pipe(E.orDie)
+    const length = headers['upload-length']
+    const { filename, filetype } = parseUploadMetadata(
+      headers['upload-metadata'],
+    )
+    const name = filename || 'upload'
+
+    if (length > maxSize) {
+      return yield* E.fail(
+        new MediaTooLargeError({
+          source: name,
+          reason: `Upload is ${length} bytes, the limit is ${maxSize}`,
+        }),
+      )
+    }
+
+    return yield* uploadsStore.createUpload({
+      name,
+      contentType: filetype || 'application/octet-stream',
+      length,
+    })
+  }).pipe(
+    E.tapError(E.logError),
+    // Let MediaTooLargeError bubble up for client handling
+    E.withSpan('createUploadUsecase', {
+      attributes: { length: headers['upload-length'] },
+    }),
+  )
@@ -0,0 +1,14 @@
+import { Effect as E } from 'effect'
+import { UploadsStore } from '../../stores/uploads/uploads.store'
+
+export const deleteUploadUsecase = (id: string) =>
+  E.gen(function* () {
+    const uploadsStore = yield* UploadsStore
+    yield* uploadsStore.deleteUpload(id)
+  }).pipe(
+    E.tapError(E.logError),
+    // Let UploadNotFoundError bubble up for client handling
+    E.withSpan('deleteUploadUsecase', {
+      attributes: { uploadId: id },
+    }),
+  )
@@ -0,0 +1,15 @@
+import { Effect as E } from 'effect'
+import { UploadsStore } from '../../stores/uploads/uploads.store'
+
+export const getUploadUsecase = (id: string) =>
+  E.gen(function* () {
+    const uploadsStore = yield* UploadsStore
+    const upload = yield* uploadsStore.getUpload(id)
+    return upload
+  }).pipe(
+    E.tapError(E.logError),
+    // Let UploadNotFoundError bubble up for client handling
+    E.withSpan('getUploadUsecase', {
+      attributes: { uploadId: id },
+    }),
+  )
@@ -0,0 +1,172 @@
+import {
+  HttpRouter,
+  HttpServerRequest,
+  HttpServerResponse,
+} from '@effect/platform'
+import { NodeHttpClient, NodeHttpServer } from '@effect/platform-node'
+import { describe, expect, it } from '@effect/vitest'
+import { Effect as E, Exit, Redacted } from 'effect'
+import { MockConfigLayer } from '../../config'
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  verifyWebhookSignature,
+} from '../../domain/webhooks/webhooks.signature'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+import { WebhooksStore } from '../../stores/webhooks/webhooks.store'
+import {
+  SqliteTestLayer,
+  TestTenantLayer,
+  getExitError,
+  serveFakeHttpApp,
+} from '../../test-utils'
+import { deliverJobWebhookUsecase } from './deliver-job-webhook.usecase'
+
+const secret = Redacted.make('webhook-secret-test')
+
+type ReceivedWebhook = {
+  readonly body: unknown
+  readonly verified: boolean
+}
+
+// Receiver answering with the given statuses in turn, the last one repeats
+const makeFakeReceiver = (statuses: readonly number[]) => {
+  const received: ReceivedWebhook[] = []
+  const app = HttpRouter.empty.pipe(
+    HttpRouter.post(
+      '/hooks/jobs',
+      E.gen(function* () {
+        const request = yield* HttpServerRequest.HttpServerRequest
+        const text = yield* request.text
+        const { [WEBHOOK_SIGNATURE_HEADER]: signature = '' } = request.headers
+        received.push({
+          body: JSON.parse(text),
+          verified: yield* verifyWebhookSignature(
+            Redacted.value(secret),
+            signature,
+            text,
+          ),
+        })
+        return HttpServerResponse.empty({
+          status: statuses[received.length - 1] ?? statuses.at(-1),
+        })
+      }),
+    ),
+  )
+  return { app, received }
+}
+
+const createFinishedJob = (callbackUrl?: string) =>
+  E.gen(function* () {
+    const jobsStore = yield* JobsStore
+    const job = yield* jobsStore.createJob({
+      name: 'lecture.mp4',
+      request: {
+        url: 'https://example.com/lecture.mp4',
+        language: 'en',
+        callbackUrl,
+      },
+    })
+    yield* jobsStore.transitionJob(job.id, { status: 'in-progress' })
+    yield* jobsStore.transitionJob(job.id, { status: 'completed', result: [] })
+    return job
+  })
+
+const provideStores = <A, E, R>(effect: E.Effect<A, E, R>) =>
+  effect.pipe(
+    E.provide(JobsStore.Default),
+    E.provide(WebhooksStore.Default),
+    E.provide(NodeHttpClient.layerUndici),
+    E.provide(SqliteTestLayer),
+    E.provide(TestTenantLayer),
+    E.provide(MockConfigLayer),
+  )
+
+describe('deliverJobWebhookUsecase', () => {
+  it.scopedLive('should retry failed deliveries and log every attempt', () =>
+    E.gen(function* () {
+      const receiver = makeFakeReceiver([500, 204])
+      const baseUrl = yield* serveFakeHttpApp(receiver.app)
+
+      const deliveries = yield* E.gen(function* () {
+        const job = yield* createFinishedJob(`${baseUrl}/hooks/jobs`)
+        yield* deliverJobWebhookUsecase(job.id, secret)
+        const webhooksStore = yield* WebhooksStore
+        return yield* webhooksStore.getJobDeliveries(job.id)
+      }).pipe(provideStores)
+
+      expect(receiver.received).toHaveLength(2)
+      expect(receiver.received.every(({ verified }) => verified)).toBe(true)
+      expect(receiver.received[0]?.body).toMatchObject({
+        event: 'job.completed',
+        job: { id: 1, name: 'lecture.mp4', status: 'completed' },
+      })
+      expect(
+        deliveries.map(({ attempt, succeeded, statusCode }) => ({
+          attempt,
+          succeeded,
+          statusCode,
+        })),
+      ).toEqual([
+        { attempt: 1, succeeded: false, statusCode: 500 },
+        { attempt: 2, succeeded: true, statusCode: 204 },
+      ])
+    }).pipe(E.provide(NodeHttpServer.layerTest)),
+  )
+
+  it.scopedLive('should give up after the configured attempts', () =>
+    E.gen(function* () {
+      const receiver = makeFakeReceiver([503])
+      const baseUrl = yield* serveFakeHttpApp(receiver.app)
+
+      const result = yield* E.gen(function* () {
+        const job = yield* createFinishedJob(`${baseUrl}/hooks/jobs`)
+        return yield* deliverJobWebhookUsecase(job.id, secret).pipe(E.exit)
+      }).pipe(provideStores)
+
+      expect(Exit.isFailure(result)).toBe(true)
+      expect(getExitError(result)?._tag).toBe('WebhookDeliveryError')
+      expect(receiver.received).toHaveLength(3)
+    }).pipe(E.provide(NodeHttpServer.layerTest)),
+  )
+
+  it.scopedLive('should time out receivers that never answer', () =>
+    E.gen(function* () {
+      let calls = 0
+      // Hangs on the first attempt, answers the second
+      const app = HttpRouter.empty.pipe(
+        HttpRouter.post(
+          '/hooks/jobs',
+          E.suspend(() => {
+            calls += 1
+            return calls === 1 ? E.never : HttpServerResponse.empty()
+          }),
+        ),
+      )
+      const baseUrl = yield* serveFakeHttpApp(app)
+
+      const deliveries = yield* E.gen(function* () {
+        const job = yield* createFinishedJob(`${baseUrl}/hooks/jobs`)
+        yield* deliverJobWebhookUsecase(job.id, secret)
+        const webhooksStore = yield* WebhooksStore
+        return yield* webhooksStore.getJobDeliveries(job.id)
+      }).pipe(provideStores)
+
+      // `WEBHOOK_TIMEOUT` is 200 millis in the mock config
+      expect(deliveries).toMatchObject([
+        { attempt: 1, succeeded: false, statusCode: undefined },
+        { attempt: 2, succeeded: true, statusCode: 204 },
+      ])
+      expect(deliveries[0]?.error).toContain('timed out')
+    }).pipe(E.provide(NodeHttpServer.layerTest)),
+  )
+
+  it.effect('should skip jobs without a callback URL', () =>
+    E.gen(function* () {
+      const job = yield* createFinishedJob()
+      yield* deliverJobWebhookUsecase(job.id, secret)
+      const webhooksStore = yield* WebhooksStore
+
+      expect(yield* webhooksStore.getJobDeliveries(job.id)).toEqual([])
+    }).pipe(provideStores),
+  )
+})
@@ -0,0 +1,137 @@
+import { HttpClient, HttpClientRequest } from '@effect/platform'
+import {
+  Clock,
+  Effect as E,
+  Option,
+  Redacted,
+  Ref,
+  Schedule,
+  Schema,
+} from 'effect'
+import { envVars } from '../../config'
+import type { JobStatus } from '../../domain/jobs/jobs.schema'
+import { WebhookDeliveryError } from '../../domain/webhooks/webhooks.errors'
+import {
+  type WebhookEvent,
+  WebhookPayload,
+} from '../../domain/webhooks/webhooks.schema'
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  signWebhookPayload,
+} from '../../domain/webhooks/webhooks.signature'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+import { WebhooksStore } from '../../stores/webhooks/webhooks.store'
+
+const webhookEvents: Partial<Record<JobStatus, typeof WebhookEvent.Type>> = {
+  completed: 'job.completed',
+  failed: 'job.failed',
+  cancelled: 'job.cancelled',
+}
+
+/**
+ * POSTs a summary of a finished job to its callback URL, signed with `secret`,
+ * retrying with exponential backoff. Every attempt is recorded in the delivery log.
+ */
+export const deliverJobWebhookUsecase = (
+  jobId: number,
+  secret: Redacted.Redacted,
+) =>
+  E.gen(function* () {
+    const jobsStore = yield* JobsStore
+    const webhooksStore = yield* WebhooksStore
+    const client = (yield* HttpClient.HttpClient).pipe(
+      HttpClient.filterStatusOk,
+    )
+
+    const request = yield* jobsStore.getJobRequest(jobId)
+    const url = Option.flatMapNullable(
+      request,
+      ({ callbackUrl }) => callbackUrl,
+    )
+    const job = yield* jobsStore.getJobById(jobId)
+    const event = webhookEvents[job.status]
+
+    if (Option.isNone(url) || !event) {
+      return
+    }
+
+    const body = yield* Schema.encode(Schema.parseJson(WebhookPayload))({
+      event,
+      job,
+    })
+    const maxAttempts = yield* envVars.WEBHOOK_MAX_ATTEMPTS
+    const retryDelay = yield* envVars.WEBHOOK_RETRY_DELAY
+    const timeout = yield* envVars.WEBHOOK_TIMEOUT
+    const attempts = yield* Ref.make(0)
+
+    const deliver = E.gen(function* () {
+      const attempt = yield* Ref.updateAndGet(attempts, (count) => count + 1)
+      const timestamp = Math.floor((yield* Clock.currentTimeMillis) / 1000)
+      const signature = yield* signWebhookPayload(
+        Redacted.value(secret),
+        timestamp,
+        body,
+      )
+
+      yield* client
+        .execute(
+          HttpClientRequest.post(url.value).pipe(
+            HttpClientRequest.setHeader(WEBHOOK_SIGNATURE_HEADER, signature),
+            HttpClientRequest.bodyText(body, 'application/json'),
+          ),
+        )
+        .pipe(
+          // A receiver that never answers fails the attempt, it is retried like any other
+          E.timeout(timeout),
+          E.tapBoth({
+            onFailure: (error) =>
+              webhooksStore.recordDelivery({
+                jobId,
+                url: url.value,
+                attempt,
+                succeeded: false,
+                statusCode:
+                  error._tag === 'ResponseError'
+                    ? error.response.status
+                    : undefined,
+                error: error.message,
+              }),
+            onSuccess: (response) =>
+              webhooksStore.recordDelivery({
+                jobId,
+                url: url.value,
+                attempt,
+                succeeded: true,
+                statusCode: response.status,
+              }),
+          }),
+          E.mapError(
+            (error) =>
+              new WebhookDeliveryError({
+                jobId,
+                url: url.value,
+                reason: error.message,
+              }),
+          ),
+        )
+    })
+
+    yield* deliver.pipe(
+      E.retry(
+        Schedule.exponential(retryDelay).pipe(
+          Schedule.intersect(Schedule.recurs(maxAttempts - 1)),
+        ),
+      ),
+    )
+    yield* E.logInfo('Webhook delivered', { jobId, event })
+  }).pipe(
+    E.catchTags({
+      ConfigError: E.die,
+      ParseError: E.die,
+    }),
+    E.tapError(E.logError),
+    // Let WebhookDeliveryError and JobNotFoundError bubble up for the worker to report
+    E.withSpan('deliverJobWebhookUsecase', {
+      attributes: { jobId },
+    }),
+  )
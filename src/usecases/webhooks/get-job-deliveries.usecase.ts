@@ -0,0 +1,22 @@
+import { Effect as E } from 'effect'
+import { JobDeliveriesResponse } from '../../domain/webhooks/webhooks.schema'
+import { JobsStore } from '../../stores/jobs/jobs.store'
+import { WebhooksStore } from '../../stores/webhooks/webhooks.store'
+
+export const getJobDeliveriesUsecase = (jobId: number) =>
+  E.gen(function* () {
+    const jobsStore = yield* JobsStore
+    const webhooksStore = yield* WebhooksStore
+
+    // Unknown jobs are reported as such rather than with an empty log
+    yield* jobsStore.getJobById(jobId)
+    const deliveries = yield* webhooksStore.getJobDeliveries(jobId)
+
+    return JobDeliveriesResponse.make({ deliveries })
+  }).pipe(
+    E.tapError(E.logError),
+    // Let JobNotFoundError bubble up for client handling
+    E.withSpan('getJobDeliveriesUsecase', {
+      attributes: { jobId },
+    }),
+  )
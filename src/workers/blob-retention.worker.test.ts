@@ -0,0 +1,58 @@
+import { describe, expect, it } from '@effect/vitest'
+import { DateTime, Effect as E, TestClock } from 'effect'
+import { MockConfigLayer } from '../config'
+import type { BlobInfo } from '../domain/blobs/blobs.schema'
+import { BlobStore } from '../stores/blobs/blob.store'
+import { makeTestLayer } from '../test-utils'
+import { BlobRetentionWorker } from './blob-retention.worker'
+
+// Blobs put when the test clock starts, deletions are taken off the list
+const makeBlobStoreTestLayer = (keys: readonly string[]) => {
+  const blobs = new Map<string, BlobInfo>(
+    keys.map((key) => [
+      key,
+      { key, size: 4, modifiedAt: DateTime.unsafeMake(0) },
+    ]),
+  )
+
+  return {
+    blobs,
+    layer: makeTestLayer(BlobStore)({
+      list: (prefix) =>
+        E.succeed(
+          [...blobs.values()].filter(({ key }) => key.startsWith(prefix)),
+        ),
+      delete: (key) =>
+        E.sync(() => {
+          blobs.delete(key)
+        }),
+    }),
+  }
+}
+
+describe('BlobRetentionWorker', () => {
+  it.scoped('should remove inputs and results once they expire', () => {
+    const store = makeBlobStoreTestLayer([
+      'inputs/tenant-test/media',
+      'results/tenant-test/1/subtitles.srt',
+    ])
+
+    return E.gen(function* () {
+      yield* BlobRetentionWorker
+
+      // `BLOB_INPUT_RETENTION` is 1 hour in the mock config, swept every hour
+      yield* TestClock.adjust('1 hour')
+      expect([...store.blobs.keys()]).toEqual([
+        'results/tenant-test/1/subtitles.srt',
+      ])
+
+      // `BLOB_RESULT_RETENTION` is 1 day
+      yield* TestClock.adjust('23 hours')
+      expect([...store.blobs.keys()]).toEqual([])
+    }).pipe(
+      E.provide(BlobRetentionWorker.Default),
+      E.provide(store.layer),
+      E.provide(MockConfigLayer),
+    )
+  })
+})
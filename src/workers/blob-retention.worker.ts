@@ -0,0 +1,76 @@
+import { DateTime, type Duration, Effect as E, Option, Schedule } from 'effect'
+import { envVars } from '../config'
+import {
+  INPUT_BLOB_PREFIX,
+  RESULT_BLOB_PREFIX,
+} from '../domain/blobs/blobs.schema'
+import { BlobStore } from '../stores/blobs/blob.store'
+
+// Retentions are counted in days, sweeping more often buys nothing
+const SWEEP_INTERVAL = '1 hour'
+
+/**
+ * Removes media inputs older than `BLOB_INPUT_RETENTION` and subtitle files
+ * older than `BLOB_RESULT_RETENTION`, results are kept forever without one.
+ */
+export class BlobRetentionWorker extends E.Service<BlobRetentionWorker>()(
+  'BlobRetentionWorker',
+  {
+    scoped: E.gen(function* () {
+      const blobStore = yield* BlobStore
+      const inputRetention = yield* envVars.BLOB_INPUT_RETENTION
+      const resultRetention = yield* envVars.BLOB_RESULT_RETENTION
+
+      const removeExpiredBlobs = (
+        prefix: string,
+        retention: Duration.Duration,
+      ) =>
+        E.gen(function* () {
+          const now = yield* DateTime.now
+          const blobs = yield* blobStore.list(prefix)
+          const expired = blobs.filter(({ modifiedAt }) =>
+            DateTime.lessThanOrEqualTo(
+              DateTime.addDuration(modifiedAt, retention),
+              now,
+            ),
+          )
+          yield* E.forEach(expired, ({ key }) => blobStore.delete(key), {
+            discard: true,
+          })
+
+          if (expired.length > 0) {
+            yield* E.logInfo('Expired blobs removed', {
+              prefix,
+              count: expired.length,
+            })
+          }
+        }).pipe(
+          E.withSpan('BlobRetentionWorker.removeExpiredBlobs', {
+            attributes: { prefix },
+          }),
+        )
+
+      const sweep = E.all(
+        [
+          removeExpiredBlobs(INPUT_BLOB_PREFIX, inputRetention),
+          Option.match(resultRetention, {
+            onNone: () => E.void,
+            onSome: (retention) =>
+              removeExpiredBlobs(RESULT_BLOB_PREFIX, retention),
+          }),
+        ],
+        { discard: true },
+      )
+
+      yield* sweep.pipe(
+        E.catchAllCause(E.logError),
+        E.repeat(Schedule.spaced(SWEEP_INTERVAL)),
+        E.forkScoped,
+      )
+
+      yield* E.logInfo('Blob retention worker started')
+
+      return {}
+    }),
+  },
+) {}
@@ -0,0 +1,98 @@
+import { NodeContext } from '@effect/platform-node'
+import { describe, expect, it } from '@effect/vitest'
+import { Effect as E, Layer, Schedule } from 'effect'
+import { MockConfigLayer } from '../config'
+import { JobsStore } from '../stores/jobs/jobs.store'
+import { MediaStore } from '../stores/media/media.store'
+import { TranslationStore } from '../stores/translations/translation.store'
+import {
+  EmptyGlossaryLayer,
+  NoMediaCacheLayer,
+  SqliteTestLayer,
+  TestBlobStoreLayer,
+  TestTenantLayer,
+  makeTestLayer,
+} from '../test-utils'
+import { ParseMediaWorker } from './parse-media.worker'
+
+const MediaStoreTestLayer = makeTestLayer(MediaStore)({
+  parseMedia: () =>
+    E.succeed({
+      json: [{ start: 0, end: 5000, text: 'Hello world' }],
+    }),
+})
+
+const PlatformTestLayer = TestBlobStoreLayer.pipe(
+  Layer.provideMerge(NodeContext.layer),
+)
+
+const awaitStatus = (jobId: number, status: string) =>
+  E.gen(function* () {
+    const jobsStore = yield* JobsStore
+    return yield* jobsStore.getJobById(jobId)
+  }).pipe(
+    E.filterOrFail((job) => job.status === status),
+    E.retry(Schedule.spaced('10 millis')),
+    E.timeout('2 seconds'),
+  )
+
+describe('ParseMediaWorker', () => {
+  it.live('should process enqueued jobs in the background', () =>
+    E.gen(function* () {
+      const jobsStore = yield* JobsStore
+      const worker = yield* ParseMediaWorker
+      const job = yield* jobsStore.createJob({ name: 'Parse Video 1' })
+
+      yield* worker.enqueue({
+        jobId: job.id,
+        request: { url: 'https://example.com/video.mp4', language: 'en' },
+      })
+
+      const completed = yield* awaitStatus(job.id, 'completed')
+      const result = yield* jobsStore.getJobResult(job.id)
+
+      expect(completed.status).toBe('completed')
+      expect(result.result[0]?.text).toBe('Hello world')
+    }).pipe(
+      E.provide(ParseMediaWorker.Default),
+      E.provide(MediaStoreTestLayer),
+      E.provide(NoMediaCacheLayer),
+      E.provide(TranslationStore.Fake),
+      E.provide(EmptyGlossaryLayer),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(PlatformTestLayer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+
+  it.live('should interrupt a cancelled job', () =>
+    E.gen(function* () {
+      const jobsStore = yield* JobsStore
+      const worker = yield* ParseMediaWorker
+      const job = yield* jobsStore.createJob({ name: 'Parse Video 1' })
+
+      yield* worker.enqueue({
+        jobId: job.id,
+        request: { url: 'https://example.com/video.mp4', language: 'en' },
+      })
+      yield* awaitStatus(job.id, 'in-progress')
+      yield* worker.cancel(job.id)
+
+      const cancelled = yield* jobsStore.getJobById(job.id)
+      expect(cancelled.status).toBe('cancelled')
+    }).pipe(
+      E.provide(ParseMediaWorker.Default),
+      E.provide(makeTestLayer(MediaStore)({ parseMedia: () => E.never })),
+      E.provide(NoMediaCacheLayer),
+      E.provide(TranslationStore.Fake),
+      E.provide(EmptyGlossaryLayer),
+      E.provide(JobsStore.Default),
+      E.provide(SqliteTestLayer),
+      E.provide(PlatformTestLayer),
+      E.provide(TestTenantLayer),
+      E.provide(MockConfigLayer),
+    ),
+  )
+})
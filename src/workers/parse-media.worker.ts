@@ -0,0 +1,90 @@
+import {
+  Array as Arr,
+  Effect as E,
+  Exit,
+  Fiber,
+  FiberMap,
+  Queue,
+  type Schema,
+} from 'effect'
+import { envVars } from '../config'
+import { CurrentTenant, type Tenant } from '../domain/auth/auth.schema'
+import type { StoredMediaRequest } from '../domain/media/media.schema'
+import {
+  releaseMediaInput,
+  runParseMediaJobUsecase,
+} from '../usecases/media/run-parse-media-job.usecase'
+
+type StoredMediaRequestType = Schema.Schema.Type<typeof StoredMediaRequest>
+
+export type ParseMediaTask = {
+  readonly jobId: number
+  readonly request: StoredMediaRequestType
+}
+
+// Jobs run on behalf of the tenant that enqueued them
+type QueuedTask = ParseMediaTask & {
+  readonly tenant: Tenant
+}
+
+export class ParseMediaWorker extends E.Service<ParseMediaWorker>()(
+  'ParseMediaWorker',
+  {
+    scoped: E.gen(function* () {
+      const concurrency = yield* envVars.MEDIA_WORKER_CONCURRENCY
+      const queue = yield* E.acquireRelease(
+        Queue.unbounded<QueuedTask>(),
+        Queue.shutdown,
+      )
+      // Running jobs by id, so they can be interrupted when cancelled
+      const running = yield* FiberMap.make<number>()
+
+      const runTask = ({ jobId, request, tenant }: QueuedTask) =>
+        runParseMediaJobUsecase(jobId, request).pipe(
+          // Jobs cancelled or deleted while queued are no longer pending
+          E.catchTags({
+            InvalidJobTransitionError: () =>
+              E.logInfo('Job is no longer pending, skipped'),
+            JobNotFoundError: () => E.logInfo('Job was deleted, skipped'),
+          }),
+          // Failed jobs keep their media so they can be retried
+          E.onExit((exit) =>
+            Exit.isFailure(exit) && !Exit.isInterrupted(exit)
+              ? E.void
+              : releaseMediaInput(request),
+          ),
+          E.catchAllCause(E.logError),
+          E.provideService(CurrentTenant, tenant),
+          E.annotateLogs({ jobId, tenant: tenant.id }),
+        )
+
+      yield* E.forEach(Arr.range(1, concurrency), (worker) =>
+        Queue.take(queue).pipe(
+          E.flatMap((task) => FiberMap.run(running, task.jobId, runTask(task))),
+          E.flatMap(Fiber.await),
+          E.forever,
+          E.annotateLogs({ worker }),
+          E.forkScoped,
+        ),
+      )
+
+      yield* E.logInfo('Parse media workers started', { concurrency })
+
+      return {
+        enqueue: (task: ParseMediaTask) =>
+          CurrentTenant.pipe(
+            E.flatMap((tenant) => Queue.offer(queue, { ...task, tenant })),
+            E.withSpan('ParseMediaWorker.enqueue', {
+              attributes: { jobId: task.jobId },
+            }),
+          ),
+
+        // Interrupts the job if it is running, queued jobs are skipped when taken
+        cancel: (jobId: number) =>
+          FiberMap.remove(running, jobId).pipe(
+            E.withSpan('ParseMediaWorker.cancel', { attributes: { jobId } }),
+          ),
+      }
+    }),
+  },
+) {}
@@ -0,0 +1,25 @@
+import { FetchHttpClient } from '@effect/platform'
+import { describe, expect, it } from '@effect/vitest'
+import { ConfigProvider, Effect as E, Exit, Layer } from 'effect'
+import { JobsStore } from '../stores/jobs/jobs.store'
+import { WebhooksStore } from '../stores/webhooks/webhooks.store'
+import { makeTestLayer } from '../test-utils'
+import { WebhookWorker } from './webhook.worker'
+
+describe('WebhookWorker', () => {
+  it.scoped('should start without listening when no secret is set', () =>
+    E.gen(function* () {
+      const exit = yield* Layer.build(WebhookWorker.Default).pipe(
+        E.withConfigProvider(ConfigProvider.fromJson({})),
+        E.exit,
+      )
+
+      // Subscribing to the job events would die, the test store has none
+      expect(Exit.isSuccess(exit)).toBe(true)
+    }).pipe(
+      E.provide(makeTestLayer(JobsStore)({})),
+      E.provide(makeTestLayer(WebhooksStore)({})),
+      E.provide(FetchHttpClient.layer),
+    ),
+  )
+})
@@ -0,0 +1,43 @@
+import { Effect as E, FiberSet, Option, Stream } from 'effect'
+import { envVars } from '../config'
+import { CurrentTenant } from '../domain/auth/auth.schema'
+import { isFinalJobEvent } from '../domain/jobs/jobs.schema'
+import { JobsStore } from '../stores/jobs/jobs.store'
+import { deliverJobWebhookUsecase } from '../usecases/webhooks/deliver-job-webhook.usecase'
+
+// Sends the callback of every job reaching a terminal state, however it got there
+export class WebhookWorker extends E.Service<WebhookWorker>()('WebhookWorker', {
+  scoped: E.gen(function* () {
+    // Without a secret, requests with a `callbackUrl` are turned down on submission
+    const secret = yield* envVars.WEBHOOK_SECRET
+    if (Option.isNone(secret)) {
+      yield* E.logInfo('Webhook worker disabled, WEBHOOK_SECRET is not set')
+      return {}
+    }
+    const jobsStore = yield* JobsStore
+    // Deliveries run side by side, a slow receiver only delays its own retries
+    const deliveries = yield* FiberSet.make()
+    const events = yield* jobsStore.subscribeAllJobEvents()
+
+    yield* events.pipe(
+      Stream.filter(
+        ({ event }) => event._tag === 'status' && isFinalJobEvent(event),
+      ),
+      Stream.runForEach(({ tenant, event: { jobId } }) =>
+        FiberSet.run(
+          deliveries,
+          deliverJobWebhookUsecase(jobId, secret.value).pipe(
+            E.provideService(CurrentTenant, tenant),
+            E.catchAllCause(E.logError),
+            E.annotateLogs({ jobId, tenant: tenant.id }),
+          ),
+        ),
+      ),
+      E.forkScoped,
+    )
+
+    yield* E.logInfo('Webhook worker started')
+
+    return {}
+  }),
+}) {}